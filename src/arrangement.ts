@@ -0,0 +1,217 @@
+/**
+ * Song arrangement
+ * Edits the order list while keeping `songLength`, `restartPosition` and
+ * `numberOfPatterns` in step with it
+ */
+
+import { XMPattern, XM_CONSTANTS } from './types';
+import { XMCompactPattern, XMPatternLike, XMWritableModule } from './compactPattern';
+
+/**
+ * Options for cloning a pattern
+ */
+export interface XMClonePatternOptions {
+  /** Order position to point at the clone instead of the original */
+  position?: number;
+}
+
+/**
+ * One played order position; the restart point follows its entry by reference
+ */
+interface OrderEntry {
+  pattern: number;
+}
+
+/**
+ * Read the played part of the order list
+ * @param module The module to read
+ * @returns The pattern index at each of the first `songLength` positions
+ */
+export function getOrderList(module: XMWritableModule): number[] {
+  const { header } = module;
+  const songLength = Math.min(header.songLength, XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE);
+  return Array.from(
+    { length: songLength },
+    (_, position) => header.patternOrderTable[position] ?? 0
+  );
+}
+
+/**
+ * Insert an order position. Positions from `position` on, and the restart
+ * point if it is among them, move one later.
+ * @example
+ * ```typescript
+ * insertOrder(module, module.header.songLength, chorus); // Append
+ * ```
+ * @param module The module to edit
+ * @param position Where to insert (0 to songLength)
+ * @param pattern Index of the pattern to play there
+ */
+export function insertOrder(module: XMWritableModule, position: number, pattern: number): void {
+  editOrder(module, (entries) => {
+    checkPosition(position, entries.length + 1);
+    entries.splice(position, 0, { pattern: checkPattern(module, pattern) });
+  });
+}
+
+/**
+ * Remove an order position. If it was the restart point, the restart moves to
+ * the position that takes its place (or the new last position).
+ * @param module The module to edit
+ * @param position The position to remove
+ */
+export function removeOrder(module: XMWritableModule, position: number): void {
+  editOrder(module, (entries) => {
+    checkPosition(position, entries.length);
+    if (entries.length === 1) {
+      throw new Error('Cannot remove the only order position; a song needs at least one');
+    }
+    entries.splice(position, 1);
+  });
+}
+
+/**
+ * Move an order position; the restart point stays on the entry it refers to
+ * @param module The module to edit
+ * @param from The position to move
+ * @param to Where the entry ends up
+ */
+export function moveOrder(module: XMWritableModule, from: number, to: number): void {
+  editOrder(module, (entries) => {
+    checkPosition(from, entries.length);
+    checkPosition(to, entries.length);
+    entries.splice(to, 0, ...entries.splice(from, 1));
+  });
+}
+
+/**
+ * Repeat an order position right after itself
+ * @param module The module to edit
+ * @param position The position to repeat
+ * @param count Number of copies to insert (default: 1)
+ */
+export function duplicateOrder(
+  module: XMWritableModule,
+  position: number,
+  count: number = 1
+): void {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`count must be a positive integer (got ${count})`);
+  }
+  editOrder(module, (entries) => {
+    checkPosition(position, entries.length);
+    const copies = Array.from({ length: count }, () => ({ pattern: entries[position].pattern }));
+    entries.splice(position + 1, 0, ...copies);
+  });
+}
+
+/**
+ * Append an independent copy of a pattern, so one occurrence in the song can
+ * be changed without changing the others
+ * @example
+ * ```typescript
+ * const variation = clonePattern(module, 2, { position: 5 });
+ * ```
+ * @param module The module to edit
+ * @param pattern Index of the pattern to copy
+ * @param options Order position to point at the copy
+ * @returns Index of the new pattern
+ */
+export function clonePattern(
+  module: XMWritableModule,
+  pattern: number,
+  options: XMClonePatternOptions = {}
+): number {
+  checkPattern(module, pattern);
+  if (module.patterns.length >= XM_CONSTANTS.MAX_PATTERNS) {
+    throw new Error(`A module can hold at most ${XM_CONSTANTS.MAX_PATTERNS} patterns`);
+  }
+  const { position } = options;
+  if (position !== undefined) {
+    checkPosition(position, getOrderList(module).length);
+  }
+
+  const index = module.patterns.length;
+  module.patterns.push(copyPattern(module.patterns[pattern]));
+  editOrder(module, (entries) => {
+    if (position !== undefined) {
+      entries[position].pattern = index;
+    }
+  });
+  return index;
+}
+
+/**
+ * Set the position the song loops back to after its last position
+ * @param module The module to edit
+ * @param position A played position (0 to songLength - 1)
+ */
+export function setRestartPosition(module: XMWritableModule, position: number): void {
+  checkPosition(position, getOrderList(module).length);
+  module.header.restartPosition = position;
+}
+
+/**
+ * Apply a change to the played order positions, then write them back with the
+ * song length, restart position and pattern count that go with them
+ */
+function editOrder(module: XMWritableModule, change: (entries: OrderEntry[]) => void): void {
+  const { header } = module;
+  const entries: OrderEntry[] = getOrderList(module).map((pattern) => ({ pattern }));
+  const restartIndex = Math.min(header.restartPosition, Math.max(entries.length - 1, 0));
+  const restart = entries[restartIndex];
+
+  change(entries);
+  if (entries.length > XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE) {
+    throw new Error(
+      `The order list can hold at most ${XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE} positions`
+    );
+  }
+
+  // Unplayed entries are cleared so the table always has exactly 256 entries
+  const table = new Array(XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE).fill(0);
+  entries.forEach((entry, position) => (table[position] = entry.pattern));
+  header.patternOrderTable.splice(0, header.patternOrderTable.length, ...table);
+  header.songLength = entries.length;
+
+  const restartPosition = restart ? entries.indexOf(restart) : -1;
+  // An empty song still restarts at 0
+  header.restartPosition =
+    restartPosition >= 0
+      ? restartPosition
+      : Math.max(0, Math.min(restartIndex, entries.length - 1));
+  header.numberOfPatterns = module.patterns.length;
+}
+
+/**
+ * Check that an order position is within `count` positions
+ */
+function checkPosition(position: number, count: number): void {
+  if (!Number.isInteger(position) || position < 0 || position >= count) {
+    throw new Error(`Order position ${position} is out of range (0 to ${count - 1})`);
+  }
+}
+
+/**
+ * Check that a pattern index exists
+ */
+function checkPattern(module: XMWritableModule, pattern: number): number {
+  if (!Number.isInteger(pattern) || pattern < 0 || pattern >= module.patterns.length) {
+    throw new Error(`Pattern ${pattern} does not exist (the module has ${module.patterns.length})`);
+  }
+  return pattern;
+}
+
+/**
+ * Deep copy a pattern in either form
+ */
+function copyPattern(pattern: XMPatternLike): XMPatternLike {
+  if (pattern instanceof XMCompactPattern) {
+    return pattern.clone();
+  }
+  const copy: XMPattern = {
+    header: { ...pattern.header },
+    data: pattern.data.map((rowData) => rowData.map((note) => ({ ...note }))),
+  };
+  return copy;
+}
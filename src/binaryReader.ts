@@ -0,0 +1,175 @@
+/**
+ * Binary buffer reader for XM file format
+ * All multi-byte values are little-endian
+ */
+export class BinaryReader {
+  private view: DataView;
+  private uint8: Uint8Array;
+  private offset: number = 0;
+
+  /**
+   * Create a new binary reader over the specified data
+   * @param data Buffer to read from
+   */
+  constructor(data: ArrayBuffer | Uint8Array) {
+    this.uint8 = data instanceof Uint8Array ? data : new Uint8Array(data);
+    this.view = new DataView(this.uint8.buffer, this.uint8.byteOffset, this.uint8.byteLength);
+  }
+
+  /**
+   * Ensure the buffer holds enough data for the specified number of bytes
+   * @param bytes Number of bytes about to be read
+   */
+  private ensureAvailable(bytes: number): void {
+    if (this.offset + bytes > this.uint8.byteLength) {
+      throw new Error(
+        `Unexpected end of data: needed ${bytes} bytes at offset ${this.offset}, ` +
+          `but only ${Math.max(0, this.uint8.byteLength - this.offset)} remain`
+      );
+    }
+  }
+
+  /**
+   * Read an unsigned 8-bit integer
+   * @returns Value read (0-255)
+   */
+  readUint8(): number {
+    this.ensureAvailable(1);
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  /**
+   * Read a signed 8-bit integer
+   * @returns Value read (-128 to 127)
+   */
+  readInt8(): number {
+    this.ensureAvailable(1);
+    const value = this.view.getInt8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  /**
+   * Read an unsigned 16-bit integer (little-endian)
+   * @returns Value read (0-65535)
+   */
+  readUint16(): number {
+    this.ensureAvailable(2);
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  /**
+   * Read a signed 16-bit integer (little-endian)
+   * @returns Value read (-32768 to 32767)
+   */
+  readInt16(): number {
+    this.ensureAvailable(2);
+    const value = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  /**
+   * Read an unsigned 16-bit integer (big-endian, as used by MOD files)
+   * @returns Value read (0-65535)
+   */
+  readUint16BE(): number {
+    this.ensureAvailable(2);
+    const value = this.view.getUint16(this.offset, false);
+    this.offset += 2;
+    return value;
+  }
+
+  /**
+   * Read an unsigned 32-bit integer (little-endian)
+   * @returns Value read (0-4294967295)
+   */
+  readUint32(): number {
+    this.ensureAvailable(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  /**
+   * Read an unsigned 32-bit integer (big-endian, as used by MIDI files)
+   * @returns Value read (0-4294967295)
+   */
+  readUint32BE(): number {
+    this.ensureAvailable(4);
+    const value = this.view.getUint32(this.offset, false);
+    this.offset += 4;
+    return value;
+  }
+
+  /**
+   * Read a fixed-length string, stopping at the first zero byte
+   * @param length Fixed length of the string field
+   * @returns The decoded string without padding
+   */
+  readString(length: number): string {
+    this.ensureAvailable(length);
+    const bytes = this.uint8.subarray(this.offset, this.offset + length);
+    const end = bytes.indexOf(0);
+    const decoder = new TextDecoder();
+    this.offset += length;
+    return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end));
+  }
+
+  /**
+   * Read raw bytes
+   * @param count Number of bytes to read
+   * @returns A view of the bytes read (not a copy)
+   */
+  readBytes(count: number): Uint8Array {
+    this.ensureAvailable(count);
+    const bytes = this.uint8.subarray(this.offset, this.offset + count);
+    this.offset += count;
+    return bytes;
+  }
+
+  /**
+   * Skip bytes
+   * @param count Number of bytes to skip
+   */
+  skip(count: number): void {
+    this.ensureAvailable(count);
+    this.offset += count;
+  }
+
+  /**
+   * Get the current read position
+   * @returns Current offset in bytes
+   */
+  getPosition(): number {
+    return this.offset;
+  }
+
+  /**
+   * Set the current read position
+   * @param position New offset in bytes
+   */
+  setPosition(position: number): void {
+    this.offset = position;
+  }
+
+  /**
+   * Get the total length of the data
+   * @returns Length in bytes
+   */
+  getLength(): number {
+    return this.uint8.byteLength;
+  }
+
+  /**
+   * Get the number of bytes left to read
+   * @returns Remaining bytes from the current position
+   */
+  getRemaining(): number {
+    return Math.max(0, this.uint8.byteLength - this.offset);
+  }
+}
@@ -69,6 +69,16 @@ export class BinaryWriter {
     this.offset += 2;
   }
 
+  /**
+   * Write an unsigned 16-bit integer (big-endian, as used by MOD files)
+   * @param value Value to write (0-65535)
+   */
+  writeUint16BE(value: number): void {
+    this.ensureCapacity(2);
+    this.view.setUint16(this.offset, value, false);
+    this.offset += 2;
+  }
+
   /**
    * Write a signed 16-bit integer (little-endian)
    * @param value Value to write (-32768 to 32767)
@@ -89,6 +99,26 @@ export class BinaryWriter {
     this.offset += 4;
   }
 
+  /**
+   * Write an unsigned 32-bit integer (big-endian, as used by MIDI files)
+   * @param value Value to write (0-4294967295)
+   */
+  writeUint32BE(value: number): void {
+    this.ensureCapacity(4);
+    this.view.setUint32(this.offset, value, false);
+    this.offset += 4;
+  }
+
+  /**
+   * Write a 32-bit IEEE float (little-endian)
+   * @param value Value to write
+   */
+  writeFloat32(value: number): void {
+    this.ensureCapacity(4);
+    this.view.setFloat32(this.offset, value, true);
+    this.offset += 4;
+  }
+
   /**
    * Write a fixed-length string, padded with zeros
    * @param str String to write
@@ -166,4 +196,13 @@ export class BinaryWriter {
   writeUint16At(position: number, value: number): void {
     this.view.setUint16(position, value, true);
   }
+
+  /**
+   * Overwrite 32-bit value at specific position without advancing offset
+   * @param position Position to write at
+   * @param value Value to write
+   */
+  writeUint32At(position: number, value: number): void {
+    this.view.setUint32(position, value, true);
+  }
 }
@@ -0,0 +1,87 @@
+/**
+ * Channel panning for imported modules
+ * XM has no per-channel default panning, so formats that have one (MOD, S3M)
+ * carry it over with panning commands or sample panning
+ */
+
+import { XMPattern, XMSample } from './types';
+
+/**
+ * How per-channel panning is carried over to XM:
+ * - 'effect': 8xx on every cell with an instrument, or the volume column's
+ *   set-panning command when the effect column is in use and the volume column
+ *   is empty. Cells with their own 8xx are left as they are.
+ * - 'sample': each sample is panned to the side of the channels it plays on
+ *   (centre if it is used with different panning)
+ * - 'none': everything stays centred
+ */
+export type ChannelPanningMode = 'effect' | 'sample' | 'none';
+
+/** XM effect number of "set panning" (8xx) */
+const EFFECT_SET_PANNING = 0x08;
+
+/** Volume column "set panning" command (high nibble) */
+const VOLUME_SET_PANNING = 0xc0;
+
+/**
+ * Apply per-channel panning to converted patterns or samples
+ * @param patterns Converted patterns
+ * @param samples Sample played by each instrument (undefined if it has none)
+ * @param pan Panning (0-255) for each channel
+ * @param mode How the panning is carried over
+ */
+export function applyChannelPanning(
+  patterns: XMPattern[],
+  samples: (XMSample | undefined)[],
+  pan: number[],
+  mode: ChannelPanningMode
+): void {
+  if (mode === 'effect') {
+    addPanningCommands(patterns, pan);
+  } else if (mode === 'sample') {
+    panSamples(patterns, samples, pan);
+  }
+}
+
+/**
+ * Add a set-panning command to every cell that triggers an instrument,
+ * since triggering an instrument resets the channel to the sample's panning
+ */
+function addPanningCommands(patterns: XMPattern[], pan: number[]): void {
+  for (const pattern of patterns) {
+    for (const row of pattern.data) {
+      row.forEach((cell, channel) => {
+        if (cell.instrument === 0 || cell.effectType === EFFECT_SET_PANNING) {
+          return;
+        }
+        if (cell.effectType === 0 && cell.effectParam === 0) {
+          cell.effectType = EFFECT_SET_PANNING;
+          cell.effectParam = pan[channel];
+        } else if (cell.volume === undefined && cell.volumeEffect === undefined) {
+          cell.volumeEffect = VOLUME_SET_PANNING | (pan[channel] >> 4);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Pan each sample to the side of the channels it is played on
+ */
+function panSamples(patterns: XMPattern[], samples: (XMSample | undefined)[], pan: number[]): void {
+  const used = samples.map(() => new Set<number>());
+  for (const pattern of patterns) {
+    for (const row of pattern.data) {
+      row.forEach((cell, channel) => {
+        if (cell.instrument >= 1 && cell.instrument <= samples.length) {
+          used[cell.instrument - 1].add(pan[channel]);
+        }
+      });
+    }
+  }
+  samples.forEach((sample, i) => {
+    if (sample) {
+      sample.header.panning = used[i].size === 1 ? [...used[i]][0] : 128;
+    }
+  });
+}
@@ -0,0 +1,348 @@
+/**
+ * Compact pattern storage
+ * Keeps a pattern in one typed array instead of one object per cell, for
+ * large generated songs that would otherwise hold many thousands of objects
+ */
+
+import { XMModule, XMPattern, XMPatternNote, XM_CONSTANTS } from './types';
+
+/**
+ * Cell fields stored as plain bytes
+ */
+export type XMCompactField = 'note' | 'instrument' | 'effectType' | 'effectParam';
+
+/** Bytes per cell: note, instrument, volume column, effect type, effect parameter */
+const BYTES_PER_CELL = 5;
+
+/** Offset of each plain field within a cell */
+const FIELD_OFFSETS: Record<XMCompactField, number> = {
+  note: 0,
+  instrument: 1,
+  effectType: 3,
+  effectParam: 4,
+};
+
+/** Offset of the volume column within a cell */
+const VOLUME_OFFSET = 2;
+
+/**
+ * A pattern stored as 5 bytes per cell plus a bitmap of the cells whose
+ * volume column holds a volume (rather than a volume effect). Converts to and
+ * from the `XMPattern` object form without loss, and can be written by
+ * `XMWriter` as it is.
+ *
+ * @example
+ * ```typescript
+ * const module: XMWritableModule = createModule({ numberOfChannels: 32 });
+ * const pattern = new XMCompactPattern(256, 32);
+ * pattern.setNote(0, 0, { note: 49, instrument: 1, volume: 48, effectType: 0, effectParam: 0 });
+ * pattern.setField(4, 0, 'effectType', 0x0f);
+ * module.patterns.push(pattern);
+ * ```
+ */
+export class XMCompactPattern {
+  /** Number of rows (1-256) */
+  readonly numberOfRows: number;
+  /** Number of channels (1-32) */
+  readonly numberOfChannels: number;
+  /**
+   * Cell bytes, row by row: note, instrument, volume column value, effect type
+   * and effect parameter. The volume column value is the volume (0-64) when the
+   * cell's volume flag is set, otherwise the volume effect (0 for none).
+   */
+  readonly cells: Uint8Array;
+  /** One bit per cell, in cell order: set when the volume column holds a volume */
+  readonly volumeFlags: Uint8Array;
+
+  /**
+   * Create an empty pattern
+   * @param numberOfRows Number of rows (1-256, default: 64)
+   * @param numberOfChannels Number of channels (1-32, default: 4)
+   */
+  constructor(numberOfRows: number = 64, numberOfChannels: number = 4) {
+    if (!Number.isInteger(numberOfRows) || numberOfRows < 1 || numberOfRows > 256) {
+      throw new Error(`numberOfRows must be an integer from 1 to 256 (got ${numberOfRows})`);
+    }
+    if (!Number.isInteger(numberOfChannels) || numberOfChannels < 1 || numberOfChannels > 32) {
+      throw new Error(`numberOfChannels must be an integer from 1 to 32 (got ${numberOfChannels})`);
+    }
+    this.numberOfRows = numberOfRows;
+    this.numberOfChannels = numberOfChannels;
+    const cellCount = numberOfRows * numberOfChannels;
+    this.cells = new Uint8Array(cellCount * BYTES_PER_CELL);
+    this.volumeFlags = new Uint8Array(Math.ceil(cellCount / 8));
+  }
+
+  /**
+   * Convert an object-form pattern
+   * @param pattern The pattern to convert
+   * @param numberOfChannels Number of channels (default: the widest row)
+   * @returns A compact copy; missing cells are empty
+   */
+  static fromPattern(pattern: XMPattern, numberOfChannels?: number): XMCompactPattern {
+    const rows = pattern.header.numberOfRows;
+    const channels =
+      numberOfChannels ??
+      Math.max(1, ...pattern.data.slice(0, rows).map((rowData) => rowData?.length ?? 0));
+    const compact = new XMCompactPattern(rows, channels);
+    for (let row = 0; row < rows; row++) {
+      for (let channel = 0; channel < channels; channel++) {
+        const note = pattern.data[row]?.[channel];
+        if (note) {
+          compact.setNote(row, channel, note);
+        }
+      }
+    }
+    return compact;
+  }
+
+  /**
+   * Convert to the object form
+   * @returns A new pattern with one object per cell
+   */
+  toPattern(): XMPattern {
+    const data: XMPatternNote[][] = [];
+    for (let row = 0; row < this.numberOfRows; row++) {
+      const rowData: XMPatternNote[] = [];
+      for (let channel = 0; channel < this.numberOfChannels; channel++) {
+        rowData.push(this.getNote(row, channel));
+      }
+      data.push(rowData);
+    }
+    return {
+      header: {
+        headerLength: XM_CONSTANTS.PATTERN_HEADER_SIZE,
+        packingType: 0,
+        numberOfRows: this.numberOfRows,
+        packedDataSize: 0, // Will be calculated during write
+      },
+      data,
+    };
+  }
+
+  /**
+   * Read a cell as a note object
+   * @param row Row index
+   * @param channel Channel index
+   * @returns A new note; `volume` or `volumeEffect` is only present when set
+   */
+  getNote(row: number, channel: number): XMPatternNote {
+    const offset = this.cellOffset(row, channel);
+    const note: XMPatternNote = {
+      note: this.cells[offset],
+      instrument: this.cells[offset + 1],
+      effectType: this.cells[offset + 3],
+      effectParam: this.cells[offset + 4],
+    };
+    const volumeColumn = this.cells[offset + VOLUME_OFFSET];
+    if (this.hasVolume(offset / BYTES_PER_CELL)) {
+      note.volume = volumeColumn;
+    } else if (volumeColumn !== 0) {
+      note.volumeEffect = volumeColumn;
+    }
+    return note;
+  }
+
+  /**
+   * Write a note object into a cell
+   * @param row Row index
+   * @param channel Channel index
+   * @param note The note; every value must fit in a byte
+   */
+  setNote(row: number, channel: number, note: XMPatternNote): void {
+    const offset = this.cellOffset(row, channel);
+    if (note.volume !== undefined && note.volumeEffect !== undefined) {
+      throw new Error('Cannot set both volume and volumeEffect on the same note');
+    }
+    for (const field of Object.keys(FIELD_OFFSETS) as XMCompactField[]) {
+      this.cells[offset + FIELD_OFFSETS[field]] = checkByte(field, note[field]);
+    }
+    if (note.volume !== undefined) {
+      this.storeVolumeColumn(offset, checkByte('volume', note.volume), true);
+    } else {
+      this.storeVolumeColumn(offset, checkByte('volumeEffect', note.volumeEffect ?? 0), false);
+    }
+  }
+
+  /**
+   * Empty a cell
+   * @param row Row index
+   * @param channel Channel index
+   */
+  clearNote(row: number, channel: number): void {
+    const offset = this.cellOffset(row, channel);
+    this.cells.fill(0, offset, offset + BYTES_PER_CELL);
+    this.storeVolumeColumn(offset, 0, false);
+  }
+
+  /**
+   * Read a plain byte field without creating a note object
+   * @param row Row index
+   * @param channel Channel index
+   * @param field The field to read
+   * @returns The field's value
+   */
+  getField(row: number, channel: number, field: XMCompactField): number {
+    return this.cells[this.cellOffset(row, channel) + FIELD_OFFSETS[field]];
+  }
+
+  /**
+   * Set a plain byte field
+   * @param row Row index
+   * @param channel Channel index
+   * @param field The field to set
+   * @param value New value (0-255)
+   */
+  setField(row: number, channel: number, field: XMCompactField, value: number): void {
+    this.cells[this.cellOffset(row, channel) + FIELD_OFFSETS[field]] = checkByte(field, value);
+  }
+
+  /**
+   * Read the volume of a cell
+   * @returns The volume, or undefined if the column is empty or holds a volume effect
+   */
+  getVolume(row: number, channel: number): number | undefined {
+    const offset = this.cellOffset(row, channel);
+    return this.hasVolume(offset / BYTES_PER_CELL) ? this.cells[offset + VOLUME_OFFSET] : undefined;
+  }
+
+  /**
+   * Set the volume of a cell, replacing any volume effect
+   * @param volume The volume (0-64), or undefined to empty the column
+   */
+  setVolume(row: number, channel: number, volume: number | undefined): void {
+    const offset = this.cellOffset(row, channel);
+    if (volume === undefined) {
+      this.storeVolumeColumn(offset, 0, false);
+    } else {
+      this.storeVolumeColumn(offset, checkByte('volume', volume), true);
+    }
+  }
+
+  /**
+   * Read the volume effect of a cell
+   * @returns The raw volume effect, or undefined if the column is empty or holds a volume
+   */
+  getVolumeEffect(row: number, channel: number): number | undefined {
+    const offset = this.cellOffset(row, channel);
+    const value = this.cells[offset + VOLUME_OFFSET];
+    return this.hasVolume(offset / BYTES_PER_CELL) || value === 0 ? undefined : value;
+  }
+
+  /**
+   * Set the volume effect of a cell, replacing any volume
+   * @param volumeEffect The raw volume effect (0x60-0xFF), or undefined to empty the column
+   */
+  setVolumeEffect(row: number, channel: number, volumeEffect: number | undefined): void {
+    const offset = this.cellOffset(row, channel);
+    this.storeVolumeColumn(offset, checkByte('volumeEffect', volumeEffect ?? 0), false);
+  }
+
+  /**
+   * Read the volume column byte as it is written to a file
+   * @returns 0 for an empty column, 0x10-0x50 for a volume or the raw volume effect
+   */
+  getVolumeColumnByte(row: number, channel: number): number {
+    const offset = this.cellOffset(row, channel);
+    const value = this.cells[offset + VOLUME_OFFSET];
+    return this.hasVolume(offset / BYTES_PER_CELL) ? (value + 0x10) & 0xff : value;
+  }
+
+  /**
+   * Copy the pattern
+   * @returns An independent copy
+   */
+  clone(): XMCompactPattern {
+    const copy = new XMCompactPattern(this.numberOfRows, this.numberOfChannels);
+    copy.cells.set(this.cells);
+    copy.volumeFlags.set(this.volumeFlags);
+    return copy;
+  }
+
+  /**
+   * Compare two patterns cell by cell
+   * @param other The pattern to compare with
+   * @returns true if both have the same size and contents
+   */
+  equals(other: XMCompactPattern): boolean {
+    return (
+      this.numberOfRows === other.numberOfRows &&
+      this.numberOfChannels === other.numberOfChannels &&
+      bytesEqual(this.cells, other.cells) &&
+      bytesEqual(this.volumeFlags, other.volumeFlags)
+    );
+  }
+
+  /**
+   * Byte offset of a cell, checking the row and channel
+   */
+  private cellOffset(row: number, channel: number): number {
+    if (!Number.isInteger(row) || row < 0 || row >= this.numberOfRows) {
+      throw new Error(`Row ${row} is out of range (pattern has ${this.numberOfRows} rows)`);
+    }
+    if (!Number.isInteger(channel) || channel < 0 || channel >= this.numberOfChannels) {
+      throw new Error(
+        `Channel ${channel} is out of range (pattern has ${this.numberOfChannels} channels)`
+      );
+    }
+    return (row * this.numberOfChannels + channel) * BYTES_PER_CELL;
+  }
+
+  /**
+   * Whether a cell's volume column holds a volume
+   */
+  private hasVolume(cell: number): boolean {
+    return (this.volumeFlags[cell >> 3] & (1 << (cell & 7))) !== 0;
+  }
+
+  /**
+   * Store a volume column value and its volume flag
+   */
+  private storeVolumeColumn(offset: number, value: number, isVolume: boolean): void {
+    const cell = offset / BYTES_PER_CELL;
+    this.cells[offset + VOLUME_OFFSET] = value;
+    if (isVolume) {
+      this.volumeFlags[cell >> 3] |= 1 << (cell & 7);
+    } else {
+      this.volumeFlags[cell >> 3] &= ~(1 << (cell & 7));
+    }
+  }
+}
+
+/**
+ * A pattern in either object or compact form
+ */
+export type XMPatternLike = XMPattern | XMCompactPattern;
+
+/**
+ * A module whose patterns may be in either form, as accepted by `XMWriter`
+ * and `validateModule`
+ */
+export interface XMWritableModule extends Omit<XMModule, 'patterns'> {
+  patterns: XMPatternLike[];
+}
+
+/**
+ * Check that a value fits in a byte
+ */
+function checkByte(field: string, value: number): number {
+  if (!Number.isInteger(value) || value < 0 || value > 255) {
+    throw new Error(`${field} must be an integer from 0 to 255 (got ${value})`);
+  }
+  return value;
+}
+
+/**
+ * Compare two byte arrays
+ */
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+  return true;
+}
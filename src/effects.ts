@@ -0,0 +1,441 @@
+/**
+ * Typed effect commands
+ * Builds and decodes the effect column (effectType/effectParam) so nibbles
+ * never have to be packed by hand
+ */
+
+import { XMPatternNote } from './types';
+
+/**
+ * Effect column of a pattern cell; spread it into an XMPatternNote
+ */
+export type XMEffectData = Pick<XMPatternNote, 'effectType' | 'effectParam'>;
+
+/**
+ * Amounts of a two-way slide; FT2 uses `up` when both are set
+ */
+export interface XMSlideAmount {
+  /** Slide up per tick (0-15) */
+  up?: number;
+  /** Slide down per tick (0-15) */
+  down?: number;
+}
+
+/**
+ * Amounts of a panning slide; FT2 uses `right` when both are set
+ */
+export interface XMPanningSlideAmount {
+  /** Slide right per tick (0-15) */
+  right?: number;
+  /** Slide left per tick (0-15) */
+  left?: number;
+}
+
+/**
+ * Decoded effect command. `kind` matches the constructor in `effect`;
+ * 'unknown' keeps effects that have no meaning in FT2.
+ */
+export type XMEffectCommand =
+  | { kind: 'none' }
+  | { kind: 'arpeggio'; x: number; y: number }
+  | { kind: 'portamentoUp'; speed: number }
+  | { kind: 'portamentoDown'; speed: number }
+  | { kind: 'tonePortamento'; speed: number }
+  | { kind: 'vibrato'; speed: number; depth: number }
+  | { kind: 'tonePortamentoVolumeSlide'; up: number; down: number }
+  | { kind: 'vibratoVolumeSlide'; up: number; down: number }
+  | { kind: 'tremolo'; speed: number; depth: number }
+  | { kind: 'setPanning'; panning: number }
+  | { kind: 'sampleOffset'; offset: number }
+  | { kind: 'volumeSlide'; up: number; down: number }
+  | { kind: 'positionJump'; position: number }
+  | { kind: 'setVolume'; volume: number }
+  | { kind: 'patternBreak'; row: number }
+  | { kind: 'finePortamentoUp'; speed: number }
+  | { kind: 'finePortamentoDown'; speed: number }
+  | { kind: 'glissando'; enabled: boolean }
+  | { kind: 'vibratoWaveform'; waveform: number }
+  | { kind: 'setFineTune'; fineTune: number }
+  | { kind: 'patternLoop'; count: number }
+  | { kind: 'tremoloWaveform'; waveform: number }
+  | { kind: 'retrigger'; ticks: number }
+  | { kind: 'fineVolumeSlideUp'; amount: number }
+  | { kind: 'fineVolumeSlideDown'; amount: number }
+  | { kind: 'noteCut'; tick: number }
+  | { kind: 'noteDelay'; tick: number }
+  | { kind: 'patternDelay'; rows: number }
+  | { kind: 'setSpeed'; speed: number }
+  | { kind: 'setBPM'; bpm: number }
+  | { kind: 'setGlobalVolume'; volume: number }
+  | { kind: 'globalVolumeSlide'; up: number; down: number }
+  | { kind: 'keyOff'; tick: number }
+  | { kind: 'setEnvelopePosition'; position: number }
+  | { kind: 'panningSlide'; right: number; left: number }
+  | { kind: 'multiRetrigger'; interval: number; volumeChange: number }
+  | { kind: 'tremor'; on: number; off: number }
+  | { kind: 'extraFinePortamentoUp'; speed: number }
+  | { kind: 'extraFinePortamentoDown'; speed: number }
+  | { kind: 'unknown'; effectType: number; effectParam: number };
+
+/**
+ * Check that a command field is an integer in range
+ * Also used by the volume column commands
+ */
+export function checkRange(
+  kind: string,
+  field: string,
+  value: number,
+  min: number,
+  max: number
+): number {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(
+      `${kind}: ${field} must be an integer between ${min} and ${max} (got ${value})`
+    );
+  }
+  return value;
+}
+
+/**
+ * Pack two nibbles into an effect
+ */
+function nibbles(
+  effectType: number,
+  kind: string,
+  x: [string, number],
+  y: [string, number]
+): XMEffectData {
+  return {
+    effectType,
+    effectParam: (checkRange(kind, x[0], x[1], 0, 15) << 4) | checkRange(kind, y[0], y[1], 0, 15),
+  };
+}
+
+/**
+ * Encode an effect command
+ * @param command The command to encode
+ * @returns effectType and effectParam
+ * @throws Error if a value is out of range
+ */
+export function encodeEffect(command: XMEffectCommand): XMEffectData {
+  const { kind } = command;
+  const byte = (effectType: number, field: string, value: number, min = 0, max = 0xff) => ({
+    effectType,
+    effectParam: checkRange(kind, field, value, min, max),
+  });
+
+  const extended = (subcommand: number, field: string, value: number) =>
+    nibbles(0x0e, kind, ['subcommand', subcommand], [field, value]);
+
+  switch (command.kind) {
+    case 'none':
+      return { effectType: 0, effectParam: 0 };
+    case 'arpeggio':
+      return nibbles(0x00, kind, ['x', command.x], ['y', command.y]);
+    case 'portamentoUp':
+      return byte(0x01, 'speed', command.speed);
+    case 'portamentoDown':
+      return byte(0x02, 'speed', command.speed);
+    case 'tonePortamento':
+      return byte(0x03, 'speed', command.speed);
+    case 'vibrato':
+      return nibbles(0x04, kind, ['speed', command.speed], ['depth', command.depth]);
+    case 'tonePortamentoVolumeSlide':
+      return nibbles(0x05, kind, ['up', command.up], ['down', command.down]);
+    case 'vibratoVolumeSlide':
+      return nibbles(0x06, kind, ['up', command.up], ['down', command.down]);
+    case 'tremolo':
+      return nibbles(0x07, kind, ['speed', command.speed], ['depth', command.depth]);
+    case 'setPanning':
+      return byte(0x08, 'panning', command.panning);
+    case 'sampleOffset':
+      return byte(0x09, 'offset', command.offset);
+    case 'volumeSlide':
+      return nibbles(0x0a, kind, ['up', command.up], ['down', command.down]);
+    case 'positionJump':
+      return byte(0x0b, 'position', command.position);
+    case 'setVolume':
+      return byte(0x0c, 'volume', command.volume, 0, 64);
+    case 'patternBreak': {
+      // The row is stored as two decimal digits
+      const row = checkRange(kind, 'row', command.row, 0, 99);
+      return { effectType: 0x0d, effectParam: (Math.floor(row / 10) << 4) | (row % 10) };
+    }
+    case 'finePortamentoUp':
+      return extended(0x1, 'speed', command.speed);
+    case 'finePortamentoDown':
+      return extended(0x2, 'speed', command.speed);
+    case 'glissando':
+      return extended(0x3, 'enabled', command.enabled ? 1 : 0);
+    case 'vibratoWaveform':
+      return extended(0x4, 'waveform', checkRange(kind, 'waveform', command.waveform, 0, 7));
+    case 'setFineTune':
+      return extended(0x5, 'fineTune', checkRange(kind, 'fineTune', command.fineTune, -8, 7) + 8);
+    case 'patternLoop':
+      return extended(0x6, 'count', command.count);
+    case 'tremoloWaveform':
+      return extended(0x7, 'waveform', checkRange(kind, 'waveform', command.waveform, 0, 7));
+    case 'retrigger':
+      return extended(0x9, 'ticks', command.ticks);
+    case 'fineVolumeSlideUp':
+      return extended(0xa, 'amount', command.amount);
+    case 'fineVolumeSlideDown':
+      return extended(0xb, 'amount', command.amount);
+    case 'noteCut':
+      return extended(0xc, 'tick', command.tick);
+    case 'noteDelay':
+      return extended(0xd, 'tick', command.tick);
+    case 'patternDelay':
+      return extended(0xe, 'rows', command.rows);
+    case 'setSpeed':
+      return byte(0x0f, 'speed', command.speed, 1, 31);
+    case 'setBPM':
+      return byte(0x0f, 'bpm', command.bpm, 32, 255);
+    case 'setGlobalVolume':
+      return byte(0x10, 'volume', command.volume, 0, 64);
+    case 'globalVolumeSlide':
+      return nibbles(0x11, kind, ['up', command.up], ['down', command.down]);
+    case 'keyOff':
+      return byte(0x14, 'tick', command.tick);
+    case 'setEnvelopePosition':
+      return byte(0x15, 'position', command.position);
+    case 'panningSlide':
+      return nibbles(0x19, kind, ['right', command.right], ['left', command.left]);
+    case 'multiRetrigger':
+      return nibbles(
+        0x1b,
+        kind,
+        ['volumeChange', command.volumeChange],
+        ['interval', command.interval]
+      );
+    case 'tremor':
+      return nibbles(0x1d, kind, ['on', command.on], ['off', command.off]);
+    case 'extraFinePortamentoUp':
+      return nibbles(0x21, kind, ['subcommand', 1], ['speed', command.speed]);
+    case 'extraFinePortamentoDown':
+      return nibbles(0x21, kind, ['subcommand', 2], ['speed', command.speed]);
+    case 'unknown':
+      return {
+        effectType: checkRange(kind, 'effectType', command.effectType, 0, 35),
+        effectParam: checkRange(kind, 'effectParam', command.effectParam, 0, 0xff),
+      };
+  }
+  throw new Error(`Unknown effect command "${kind}"`);
+}
+
+/**
+ * Decode the effect column of a cell
+ * @param note Cell (or any object with effectType and effectParam)
+ * @returns The command; effects FT2 does not use or with out-of-range values decode as 'unknown'
+ */
+export function decodeEffect(note: XMEffectData): XMEffectCommand {
+  const { effectType, effectParam } = note;
+  const command = decodeCommand(effectType, effectParam);
+  try {
+    encodeEffect(command);
+    return command;
+  } catch {
+    return { kind: 'unknown', effectType, effectParam };
+  }
+}
+
+/**
+ * Map effectType/effectParam to a command without range checks
+ */
+function decodeCommand(effectType: number, param: number): XMEffectCommand {
+  const x = param >> 4;
+  const y = param & 0x0f;
+
+  switch (effectType) {
+    case 0x00:
+      return param === 0 ? { kind: 'none' } : { kind: 'arpeggio', x, y };
+    case 0x01:
+      return { kind: 'portamentoUp', speed: param };
+    case 0x02:
+      return { kind: 'portamentoDown', speed: param };
+    case 0x03:
+      return { kind: 'tonePortamento', speed: param };
+    case 0x04:
+      return { kind: 'vibrato', speed: x, depth: y };
+    case 0x05:
+      return { kind: 'tonePortamentoVolumeSlide', up: x, down: y };
+    case 0x06:
+      return { kind: 'vibratoVolumeSlide', up: x, down: y };
+    case 0x07:
+      return { kind: 'tremolo', speed: x, depth: y };
+    case 0x08:
+      return { kind: 'setPanning', panning: param };
+    case 0x09:
+      return { kind: 'sampleOffset', offset: param };
+    case 0x0a:
+      return { kind: 'volumeSlide', up: x, down: y };
+    case 0x0b:
+      return { kind: 'positionJump', position: param };
+    case 0x0c:
+      return { kind: 'setVolume', volume: param };
+    case 0x0d:
+      // Rows with digits above 9 are not decimal and stay unknown
+      return x <= 9 && y <= 9
+        ? { kind: 'patternBreak', row: x * 10 + y }
+        : { kind: 'unknown', effectType, effectParam: param };
+    case 0x0e:
+      return decodeExtended(x, y);
+    case 0x0f:
+      return param < 0x20 ? { kind: 'setSpeed', speed: param } : { kind: 'setBPM', bpm: param };
+    case 0x10:
+      return { kind: 'setGlobalVolume', volume: param };
+    case 0x11:
+      return { kind: 'globalVolumeSlide', up: x, down: y };
+    case 0x14:
+      return { kind: 'keyOff', tick: param };
+    case 0x15:
+      return { kind: 'setEnvelopePosition', position: param };
+    case 0x19:
+      return { kind: 'panningSlide', right: x, left: y };
+    case 0x1b:
+      return { kind: 'multiRetrigger', volumeChange: x, interval: y };
+    case 0x1d:
+      return { kind: 'tremor', on: x, off: y };
+    case 0x21:
+      if (x === 1) return { kind: 'extraFinePortamentoUp', speed: y };
+      if (x === 2) return { kind: 'extraFinePortamentoDown', speed: y };
+      break;
+  }
+  return { kind: 'unknown', effectType, effectParam: param };
+}
+
+/**
+ * Decode an Exy subcommand
+ */
+function decodeExtended(x: number, y: number): XMEffectCommand {
+  switch (x) {
+    case 0x1:
+      return { kind: 'finePortamentoUp', speed: y };
+    case 0x2:
+      return { kind: 'finePortamentoDown', speed: y };
+    case 0x3:
+      if (y <= 1) return { kind: 'glissando', enabled: y === 1 };
+      break;
+    case 0x4:
+      return { kind: 'vibratoWaveform', waveform: y };
+    case 0x5:
+      return { kind: 'setFineTune', fineTune: y - 8 };
+    case 0x6:
+      return { kind: 'patternLoop', count: y };
+    case 0x7:
+      return { kind: 'tremoloWaveform', waveform: y };
+    case 0x9:
+      return { kind: 'retrigger', ticks: y };
+    case 0xa:
+      return { kind: 'fineVolumeSlideUp', amount: y };
+    case 0xb:
+      return { kind: 'fineVolumeSlideDown', amount: y };
+    case 0xc:
+      return { kind: 'noteCut', tick: y };
+    case 0xd:
+      return { kind: 'noteDelay', tick: y };
+    case 0xe:
+      return { kind: 'patternDelay', rows: y };
+  }
+  // E0x (Amiga filter), E8x, EFx and other glissando values do nothing in FT2
+  return { kind: 'unknown', effectType: 0x0e, effectParam: (x << 4) | y };
+}
+
+/**
+ * Effect constructors. Each returns `{ effectType, effectParam }` and throws
+ * if a value is out of range.
+ *
+ * @example
+ * ```typescript
+ * Object.assign(pattern.data[0][0], effect.noteDelay(3));
+ * pattern.data[1][0] = { note: 49, instrument: 1, ...effect.volumeSlide({ up: 4 }) };
+ * ```
+ */
+export const effect = {
+  /** 0xy: arpeggio between the note, +x and +y semitones */
+  arpeggio: (x: number, y: number) => encodeEffect({ kind: 'arpeggio', x, y }),
+  /** 1xx: portamento up (0 = continue) */
+  portamentoUp: (speed: number) => encodeEffect({ kind: 'portamentoUp', speed }),
+  /** 2xx: portamento down (0 = continue) */
+  portamentoDown: (speed: number) => encodeEffect({ kind: 'portamentoDown', speed }),
+  /** 3xx: tone portamento towards the note (0 = continue) */
+  tonePortamento: (speed: number) => encodeEffect({ kind: 'tonePortamento', speed }),
+  /** 4xy: vibrato with speed x and depth y (0-15 each) */
+  vibrato: ({ speed = 0, depth = 0 }: { speed?: number; depth?: number }) =>
+    encodeEffect({ kind: 'vibrato', speed, depth }),
+  /** 5xy: continue tone portamento and slide the volume */
+  tonePortamentoVolumeSlide: ({ up = 0, down = 0 }: XMSlideAmount) =>
+    encodeEffect({ kind: 'tonePortamentoVolumeSlide', up, down }),
+  /** 6xy: continue vibrato and slide the volume */
+  vibratoVolumeSlide: ({ up = 0, down = 0 }: XMSlideAmount) =>
+    encodeEffect({ kind: 'vibratoVolumeSlide', up, down }),
+  /** 7xy: tremolo with speed x and depth y (0-15 each) */
+  tremolo: ({ speed = 0, depth = 0 }: { speed?: number; depth?: number }) =>
+    encodeEffect({ kind: 'tremolo', speed, depth }),
+  /** 8xx: set panning (0 = left, 255 = right) */
+  setPanning: (panning: number) => encodeEffect({ kind: 'setPanning', panning }),
+  /** 9xx: start the sample at offset * 256 frames */
+  sampleOffset: (offset: number) => encodeEffect({ kind: 'sampleOffset', offset }),
+  /** Axy: volume slide (0 = continue) */
+  volumeSlide: ({ up = 0, down = 0 }: XMSlideAmount) =>
+    encodeEffect({ kind: 'volumeSlide', up, down }),
+  /** Bxx: jump to an order position */
+  positionJump: (position: number) => encodeEffect({ kind: 'positionJump', position }),
+  /** Cxx: set volume (0-64) */
+  setVolume: (volume: number) => encodeEffect({ kind: 'setVolume', volume }),
+  /** Dxx: continue at a row (0-99) of the next pattern */
+  patternBreak: (row: number) => encodeEffect({ kind: 'patternBreak', row }),
+  /** E1x: fine portamento up */
+  finePortamentoUp: (speed: number) => encodeEffect({ kind: 'finePortamentoUp', speed }),
+  /** E2x: fine portamento down */
+  finePortamentoDown: (speed: number) => encodeEffect({ kind: 'finePortamentoDown', speed }),
+  /** E3x: glissando (portamento in semitone steps) on or off */
+  glissando: (enabled: boolean) => encodeEffect({ kind: 'glissando', enabled }),
+  /** E4x: vibrato waveform (0 = sine, 1 = ramp, 2 = square; +4 = no retrigger) */
+  vibratoWaveform: (waveform: number) => encodeEffect({ kind: 'vibratoWaveform', waveform }),
+  /** E5x: set the note's fine tune (-8 to 7, in 1/8 semitones) */
+  setFineTune: (fineTune: number) => encodeEffect({ kind: 'setFineTune', fineTune }),
+  /** E6x: pattern loop; 0 marks the start, 1-15 repeats that many times */
+  patternLoop: (count: number) => encodeEffect({ kind: 'patternLoop', count }),
+  /** E7x: tremolo waveform (0 = sine, 1 = ramp, 2 = square; +4 = no retrigger) */
+  tremoloWaveform: (waveform: number) => encodeEffect({ kind: 'tremoloWaveform', waveform }),
+  /** E9x: retrigger the note every x ticks */
+  retrigger: (ticks: number) => encodeEffect({ kind: 'retrigger', ticks }),
+  /** EAx: fine volume slide up */
+  fineVolumeSlideUp: (amount: number) => encodeEffect({ kind: 'fineVolumeSlideUp', amount }),
+  /** EBx: fine volume slide down */
+  fineVolumeSlideDown: (amount: number) => encodeEffect({ kind: 'fineVolumeSlideDown', amount }),
+  /** ECx: cut the note at tick x */
+  noteCut: (tick: number) => encodeEffect({ kind: 'noteCut', tick }),
+  /** EDx: play the cell at tick x */
+  noteDelay: (tick: number) => encodeEffect({ kind: 'noteDelay', tick }),
+  /** EEx: repeat the row x more times */
+  patternDelay: (rows: number) => encodeEffect({ kind: 'patternDelay', rows }),
+  /** Fxx: set ticks per row (1-31) */
+  setSpeed: (speed: number) => encodeEffect({ kind: 'setSpeed', speed }),
+  /** Fxx: set BPM (32-255) */
+  setBPM: (bpm: number) => encodeEffect({ kind: 'setBPM', bpm }),
+  /** Gxx: set global volume (0-64) */
+  setGlobalVolume: (volume: number) => encodeEffect({ kind: 'setGlobalVolume', volume }),
+  /** Hxy: global volume slide (0 = continue) */
+  globalVolumeSlide: ({ up = 0, down = 0 }: XMSlideAmount) =>
+    encodeEffect({ kind: 'globalVolumeSlide', up, down }),
+  /** Kxx: key off at tick xx */
+  keyOff: (tick: number) => encodeEffect({ kind: 'keyOff', tick }),
+  /** Lxx: set the envelope position */
+  setEnvelopePosition: (position: number) =>
+    encodeEffect({ kind: 'setEnvelopePosition', position }),
+  /** Pxy: panning slide (0 = continue) */
+  panningSlide: ({ right = 0, left = 0 }: XMPanningSlideAmount) =>
+    encodeEffect({ kind: 'panningSlide', right, left }),
+  /** Rxy: retrigger every y ticks, changing the volume by mode x */
+  multiRetrigger: ({ interval, volumeChange = 0 }: { interval: number; volumeChange?: number }) =>
+    encodeEffect({ kind: 'multiRetrigger', interval, volumeChange }),
+  /** Txy: tremor, on for x + 1 and off for y + 1 ticks */
+  tremor: ({ on, off }: { on: number; off: number }) => encodeEffect({ kind: 'tremor', on, off }),
+  /** X1x: extra fine portamento up */
+  extraFinePortamentoUp: (speed: number) => encodeEffect({ kind: 'extraFinePortamentoUp', speed }),
+  /** X2x: extra fine portamento down */
+  extraFinePortamentoDown: (speed: number) =>
+    encodeEffect({ kind: 'extraFinePortamentoDown', speed }),
+};
@@ -0,0 +1,285 @@
+/**
+ * Envelope builder
+ * Builds volume and panning envelopes with the point, sustain and loop rules
+ * FastTracker II enforces, sets the type flags, and converts envelopes to and
+ * from ADSR parameters
+ */
+
+import { XMEnvelope, XMEnvelopePoint, EnvelopeFlags, XM_CONSTANTS } from './types';
+
+/**
+ * ADSR parameters of a volume envelope. Times are in ticks.
+ */
+export interface EnvelopeADSR {
+  /** Ticks from 0 to full volume */
+  attack: number;
+  /** Ticks from full volume down to the sustain level */
+  decay: number;
+  /** Level held until key-off (0-64) */
+  sustain: number;
+  /** Ticks from the sustain level to 0 after key-off */
+  release: number;
+}
+
+/** Highest x position an envelope point can have */
+const MAX_X = 0xffff;
+
+/**
+ * Check that a preset parameter is an integer in range
+ */
+function checkParameter(name: string, value: number, min: number, max: number): number {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${name} must be an integer between ${min} and ${max} (got ${value})`);
+  }
+  return value;
+}
+
+/**
+ * Builds an XMEnvelope point by point. Every call checks the limits FT2
+ * places on envelopes (12 points, increasing x, y 0-64, sustain and loop
+ * points that exist) and throws an Error on the first violation.
+ *
+ * @example
+ * ```typescript
+ * instrument.extendedHeader!.volumeEnvelope = new EnvelopeBuilder()
+ *   .point(0, 0)
+ *   .point(4, 64)
+ *   .point(20, 40)
+ *   .sustain()
+ *   .point(60, 0)
+ *   .build();
+ * instrument.extendedHeader!.panningEnvelope = EnvelopeBuilder.autoPan({ period: 48 }).build();
+ * ```
+ */
+export class EnvelopeBuilder {
+  private points: XMEnvelopePoint[] = [];
+  private sustainPoint: number | undefined;
+  private loopPoints: [number, number] | undefined;
+
+  /**
+   * Start from an existing envelope (only the first numberOfPoints points are kept;
+   * sustain and loop are kept if their flags are set)
+   * @param envelope The envelope to copy
+   * @throws Error if the envelope breaks a limit
+   */
+  static from(envelope: XMEnvelope): EnvelopeBuilder {
+    const builder = new EnvelopeBuilder();
+    for (const point of envelope.points.slice(0, envelope.numberOfPoints)) {
+      builder.point(point.x, point.y);
+    }
+    if (envelope.type & EnvelopeFlags.Sustain) {
+      builder.sustain(envelope.sustainPoint);
+    }
+    if (envelope.type & EnvelopeFlags.Loop) {
+      builder.loop(envelope.loopStartPoint, envelope.loopEndPoint);
+    }
+    return builder;
+  }
+
+  /**
+   * Volume envelope from ADSR times. The sustain point is placed at the end of
+   * the decay, so the release runs after key-off.
+   * @param adsr Attack, decay and release in ticks (release at least 1) and sustain level
+   */
+  static adsr({ attack, decay, sustain, release }: EnvelopeADSR): EnvelopeBuilder {
+    checkParameter('attack', attack, 0, MAX_X);
+    checkParameter('decay', decay, 0, MAX_X);
+    checkParameter('sustain', sustain, 0, 64);
+    checkParameter('release', release, 1, MAX_X);
+
+    // Skip the peak when there is no decay, and the silent start when there is no attack
+    const peak = decay > 0 ? 64 : sustain;
+    const builder = new EnvelopeBuilder().point(0, attack > 0 ? 0 : peak);
+    if (attack > 0) {
+      builder.after(attack, peak);
+    }
+    if (decay > 0) {
+      builder.after(decay, sustain);
+    }
+    return builder.sustain().after(release, 0);
+  }
+
+  /**
+   * Volume envelope of a plucked string: instant attack and a curved decay to silence
+   * @param options.length Ticks until silence (8 or more, default 32)
+   */
+  static pluck({ length = 32 }: { length?: number } = {}): EnvelopeBuilder {
+    checkParameter('length', length, 8, MAX_X);
+    return new EnvelopeBuilder()
+      .point(0, 64)
+      .point(Math.round(length / 8), 40)
+      .point(Math.round(length / 4), 24)
+      .point(Math.round(length / 2), 10)
+      .point(length, 0);
+  }
+
+  /**
+   * Volume envelope of a pad: slow attack and long release
+   * @param adsr Overrides for the default times (attack 48, decay 16, sustain 48, release 96)
+   */
+  static pad(adsr: Partial<EnvelopeADSR> = {}): EnvelopeBuilder {
+    return EnvelopeBuilder.adsr({ attack: 48, decay: 16, sustain: 48, release: 96, ...adsr });
+  }
+
+  /**
+   * Looping volume envelope that dips by `depth` once per period
+   * @param options.period Ticks per cycle (2 or more, default 16)
+   * @param options.depth How far the volume dips (0-64, default 32)
+   */
+  static tremolo({
+    period = 16,
+    depth = 32,
+  }: { period?: number; depth?: number } = {}): EnvelopeBuilder {
+    checkParameter('period', period, 2, MAX_X);
+    checkParameter('depth', depth, 0, 64);
+    return new EnvelopeBuilder()
+      .point(0, 64)
+      .point(Math.round(period / 2), 64 - depth)
+      .point(period, 64)
+      .loop(0, 2);
+  }
+
+  /**
+   * Looping panning envelope that swings right, then left, around the center
+   * @param options.period Ticks per cycle (4 or more, default 32)
+   * @param options.width How far the panning swings from the center (0-32, default 32)
+   */
+  static autoPan({
+    period = 32,
+    width = 32,
+  }: { period?: number; width?: number } = {}): EnvelopeBuilder {
+    checkParameter('period', period, 4, MAX_X);
+    checkParameter('width', width, 0, 32);
+    return new EnvelopeBuilder()
+      .point(0, 32)
+      .point(Math.round(period / 4), 32 + width)
+      .point(Math.round((period * 3) / 4), 32 - width)
+      .point(period, 32)
+      .loop(0, 3);
+  }
+
+  /**
+   * Add a point
+   * @param x Position in ticks, greater than the previous point's
+   * @param y Value (0-64); volume for volume envelopes, 32 is center for panning envelopes
+   */
+  point(x: number, y: number): this {
+    const index = this.points.length;
+    if (index === XM_CONSTANTS.MAX_ENVELOPE_POINTS) {
+      throw new Error(`An envelope can hold at most ${XM_CONSTANTS.MAX_ENVELOPE_POINTS} points`);
+    }
+    checkParameter(`Point ${index} x`, x, 0, MAX_X);
+    checkParameter(`Point ${index} y`, y, 0, 64);
+    if (index > 0 && x <= this.points[index - 1].x) {
+      throw new Error(
+        `Point ${index} x must be greater than the previous point's x (${this.points[index - 1].x}), got ${x}`
+      );
+    }
+    this.points.push({ x, y });
+    return this;
+  }
+
+  /**
+   * Add a point a number of ticks after the last one
+   * @param ticks Distance from the last point (at least 1)
+   * @param y Value (0-64)
+   */
+  after(ticks: number, y: number): this {
+    if (this.points.length === 0) {
+      throw new Error('after() needs an earlier point');
+    }
+    checkParameter('ticks', ticks, 1, MAX_X);
+    return this.point(this.points[this.points.length - 1].x + ticks, y);
+  }
+
+  /**
+   * Hold the envelope at a point until key-off
+   * @param index Point index (defaults to the last point added)
+   */
+  sustain(index: number = this.points.length - 1): this {
+    this.sustainPoint = this.checkIndex('Sustain point', index);
+    return this;
+  }
+
+  /**
+   * Loop the envelope between two points
+   * @param start Index of the loop start point
+   * @param end Index of the loop end point (not before start)
+   */
+  loop(start: number, end: number): this {
+    this.checkIndex('Loop start point', start);
+    this.checkIndex('Loop end point', end);
+    if (end < start) {
+      throw new Error(`Loop end point ${end} is before loop start point ${start}`);
+    }
+    this.loopPoints = [start, end];
+    return this;
+  }
+
+  /**
+   * Build the envelope. It is enabled when it has points, and the sustain
+   * and loop flags are set when those were added.
+   * @returns A new envelope
+   */
+  build(): XMEnvelope {
+    let type = this.points.length > 0 ? EnvelopeFlags.On : 0;
+    if (this.sustainPoint !== undefined) {
+      type |= EnvelopeFlags.Sustain;
+    }
+    if (this.loopPoints !== undefined) {
+      type |= EnvelopeFlags.Loop;
+    }
+    return {
+      points: this.points.map((point) => ({ ...point })),
+      numberOfPoints: this.points.length,
+      sustainPoint: this.sustainPoint ?? 0,
+      loopStartPoint: this.loopPoints?.[0] ?? 0,
+      loopEndPoint: this.loopPoints?.[1] ?? 0,
+      type,
+    };
+  }
+
+  /**
+   * Check that a point index refers to an existing point
+   */
+  private checkIndex(name: string, index: number): number {
+    if (!Number.isInteger(index) || index < 0 || index >= this.points.length) {
+      throw new Error(
+        `${name} ${index} is out of range (envelope has ${this.points.length} points)`
+      );
+    }
+    return index;
+  }
+}
+
+/**
+ * Approximate a volume envelope with ADSR parameters.
+ * The attack ends at the first highest point and the decay at the sustain
+ * point (or the last point without one); the release is what follows.
+ * @param envelope The envelope to convert
+ * @returns ADSR parameters; a disabled or empty envelope gives a constant full volume
+ */
+export function envelopeToADSR(envelope: XMEnvelope): EnvelopeADSR {
+  const points = envelope.points.slice(0, envelope.numberOfPoints);
+  if ((envelope.type & EnvelopeFlags.On) === 0 || points.length === 0) {
+    return { attack: 0, decay: 0, sustain: 64, release: 0 };
+  }
+
+  let peak = 0;
+  points.forEach((point, index) => {
+    if (point.y > points[peak].y) {
+      peak = index;
+    }
+  });
+  const hasSustain =
+    (envelope.type & EnvelopeFlags.Sustain) !== 0 && envelope.sustainPoint < points.length;
+  const hold = Math.max(peak, hasSustain ? envelope.sustainPoint : points.length - 1);
+  const last = points[points.length - 1];
+
+  return {
+    attack: points[peak].x - points[0].x,
+    decay: points[hold].x - points[peak].x,
+    sustain: points[hold].y,
+    release: last.x - points[hold].x,
+  };
+}
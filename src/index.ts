@@ -1,7 +1,8 @@
 /**
  * xm_save - TypeScript library for creating XM (Extended Module) files
  * 
- * This library allows you to create .xm files from sample data and pattern data.
+ * This library allows you to create .xm files from sample data and pattern data,
+ * and to read existing .xm files back into the same structures.
  * The XM file format is used by FastTracker II and other music tracker software.
  * 
  * @example
@@ -58,16 +59,220 @@ export {
 // Export writer and helper functions
 export {
   XMWriter,
+  XMWriteOptions,
+  XMStreamOptions,
+  XMStreamTargetOptions,
+  XMStreamTarget,
+  XMNodeWritable,
+  XMWebWritable,
+  XMSampleSource,
+  XMSampleChunks,
   createModule,
   createPattern,
   createInstrument,
   createSample,
   createEmptyEnvelope,
   addSampleToInstrument,
+  createInstrumentExtendedHeader,
   noteNameToValue,
   noteValueToName,
   saveToFile,
+  computeModuleSize,
 } from './xmWriter';
 
-// Export binary writer for advanced use cases
+// Export typed effect commands
+export {
+  effect,
+  encodeEffect,
+  decodeEffect,
+  XMEffectCommand,
+  XMEffectData,
+  XMSlideAmount,
+  XMPanningSlideAmount,
+} from './effects';
+
+// Export typed volume column commands
+export {
+  volumeColumn,
+  encodeVolumeColumn,
+  decodeVolumeColumn,
+  formatVolumeColumn,
+  XMVolumeCommand,
+  XMVolumeColumnData,
+} from './volumeColumn';
+
+// Export envelope builder
+export { EnvelopeBuilder, envelopeToADSR, EnvelopeADSR } from './envelope';
+
+// Export instrument keymaps
+export {
+  setKeyRanges,
+  autoSplitKeymap,
+  setDrumKitKeymap,
+  getKeyRanges,
+  XMKeyRange,
+} from './keymap';
+
+// Export compact pattern storage
+export {
+  XMCompactPattern,
+  XMCompactField,
+  XMPatternLike,
+  XMWritableModule,
+} from './compactPattern';
+
+// Export module optimizer
+export { optimizeModule, XMOptimizeOptions, XMOptimizeReport } from './optimizer';
+
+// Export song arrangement
+export {
+  getOrderList,
+  insertOrder,
+  removeOrder,
+  moveOrder,
+  duplicateOrder,
+  clonePattern,
+  setRestartPosition,
+  XMClonePatternOptions,
+} from './arrangement';
+
+// Export pattern text notation
+export { parsePatternText, formatPatternText, PatternTextError } from './patternText';
+
+// Export pattern editing
+export {
+  transposePattern,
+  copyBlock,
+  pasteBlock,
+  expandPattern,
+  shrinkPattern,
+  resizePattern,
+  swapChannels,
+  duplicateChannel,
+  interpolatePattern,
+  XMPatternSelection,
+  XMTransposeOptions,
+  XMPatternBlock,
+  XMPasteOptions,
+  XMInterpolateField,
+} from './patternEditing';
+
+// Export validation
+export {
+  validateModule,
+  XMValidationError,
+  XMValidationIssue,
+  XMValidationSeverity,
+  XMValidateOptions,
+} from './validator';
+
+// Export renderer
+export {
+  XMRenderer,
+  XMRenderOptions,
+  XMRenderResult,
+  XMInterpolation,
+  XMPlaybackPosition,
+  renderModule,
+  renderModuleToWav,
+  floatToInt16,
+} from './renderer';
+
+// Export WAV support
+export {
+  encodeWav,
+  decodeWav,
+  WavEncodeOptions,
+  WavData,
+  WavLoop,
+  WavSamplerInfo,
+} from './wav';
+export { createSampleFromWav, WavImportOptions } from './wavImport';
+export {
+  sampleToWav,
+  exportSamples,
+  saveSamplesToDirectory,
+  WavExportOptions,
+  WavExportResult,
+  WavExportManifest,
+  WavExportInstrumentEntry,
+  WavExportSampleEntry,
+} from './wavExport';
+
+// Export sample tuning
+export {
+  tuningForSampleRate,
+  rootNoteForTuning,
+  samplePlaybackRate,
+  frequencyTableOf,
+  semitonesToTuning,
+  sampleRateToSemitones,
+  tuningToSemitones,
+  tuningToSampleRate,
+  XMSampleTuning,
+  XMFrequencyTable,
+  XMRootOptions,
+  XMTuningResult,
+  XMRootNoteResult,
+} from './tuning';
+export { detectSamplePitch, PitchDetectionOptions, PitchDetectionResult } from './pitchDetection';
+
+// Export sample processing
+export {
+  normalizeSample,
+  applySampleGain,
+  convertSampleTo16Bit,
+  convertSampleTo8Bit,
+  reverseSample,
+  fadeSampleIn,
+  fadeSampleOut,
+  removeSampleDCOffset,
+  trimSampleSilence,
+  crossfadeSampleLoop,
+  SampleBitDepthOptions,
+  SampleTrimOptions,
+} from './sampleProcessing';
+export { resampleSample, ResampleOptions, ResampleQuality } from './resampler';
+
+// Export reader
+export { XMReader, loadFromFile } from './xmReader';
+
+// Export MOD and S3M conversion
+export { MODReader, loadModFromFile, ModImportOptions } from './modReader';
+export {
+  MODWriter,
+  saveModToFile,
+  ModWriteOptions,
+  ModWriteResult,
+  ModConversionIssue,
+  ModConversionIssueType,
+  ModConversionIssueCategory,
+} from './modWriter';
+export {
+  S3MReader,
+  loadS3MFromFile,
+  S3MImportOptions,
+  S3MImportIssue,
+  S3MImportResult,
+} from './s3mReader';
+export { ChannelPanningMode } from './channelPanning';
+
+// Export MIDI conversion
+export {
+  MIDIReader,
+  loadMidiFromFile,
+  MidiImportOptions,
+  MidiImportIssue,
+  MidiImportResult,
+  MidiInstrumentMapping,
+} from './midiReader';
+export {
+  MIDIWriter,
+  saveMidiToFile,
+  MidiExportOptions,
+  MidiProgramMapping,
+} from './midiWriter';
+
+// Export binary writer and reader for advanced use cases
 export { BinaryWriter } from './binaryWriter';
+export { BinaryReader } from './binaryReader';
@@ -0,0 +1,198 @@
+/**
+ * Instrument keymaps
+ * Maps notes to the samples of a multisample instrument
+ * (`extendedHeader.sampleNumberForNotes`)
+ */
+
+import { XMInstrument, XM_CONSTANTS } from './types';
+import { createInstrumentExtendedHeader, noteNameToValue } from './xmWriter';
+
+/**
+ * A range of notes played by one sample
+ */
+export interface XMKeyRange {
+  /** First note of the range (1-96 or a name such as `"C-3"`) */
+  from: number | string;
+  /** Last note of the range, inclusive */
+  to: number | string;
+  /** Index of the sample in `instrument.samples` */
+  sample: number;
+}
+
+/** XM note value of C-4 */
+const C4_NOTE = 49;
+
+/**
+ * Resolve a note value or name to 1-96
+ */
+function toNote(note: number | string, field: string): number {
+  const value = typeof note === 'string' ? noteNameToValue(note) : note;
+  if (!Number.isInteger(value) || value < 1 || value > XM_CONSTANTS.SAMPLE_NUMBER_FOR_NOTES_SIZE) {
+    throw new Error(`${field} must be a note from C-0 to B-7 (got ${note})`);
+  }
+  return value;
+}
+
+/**
+ * Check the sample limit, sync numberOfSamples and return the note map
+ */
+function prepareKeymap(instrument: XMInstrument): number[] {
+  const count = instrument.samples.length;
+  if (count === 0) {
+    throw new Error('The instrument has no samples to map');
+  }
+  if (count > XM_CONSTANTS.MAX_SAMPLES_PER_INSTRUMENT) {
+    throw new Error(
+      `The instrument has ${count} samples; an instrument can hold at most ${XM_CONSTANTS.MAX_SAMPLES_PER_INSTRUMENT}`
+    );
+  }
+  instrument.header.numberOfSamples = count;
+  instrument.extendedHeader ??= createInstrumentExtendedHeader();
+  return instrument.extendedHeader.sampleNumberForNotes;
+}
+
+/**
+ * Check that a sample index exists
+ */
+function checkSample(instrument: XMInstrument, sample: number): number {
+  if (!Number.isInteger(sample) || sample < 0 || sample >= instrument.samples.length) {
+    throw new Error(
+      `Sample ${sample} does not exist (the instrument has ${instrument.samples.length})`
+    );
+  }
+  return sample;
+}
+
+/**
+ * Assign note ranges to samples. Notes outside every range play sample 0;
+ * where ranges overlap, the later one wins.
+ *
+ * @example
+ * ```typescript
+ * setKeyRanges(instrument, [
+ *   { from: 'C-0', to: 'B-2', sample: 0 },
+ *   { from: 'C-3', to: 'F-4', sample: 1 },
+ *   { from: 'F#4', to: 'B-7', sample: 2 },
+ * ]);
+ * ```
+ * @param instrument The instrument to map
+ * @param ranges Note ranges and their samples
+ */
+export function setKeyRanges(instrument: XMInstrument, ranges: XMKeyRange[]): void {
+  const map = prepareKeymap(instrument);
+  const resolved = ranges.map((range, index) => {
+    const from = toNote(range.from, `ranges[${index}].from`);
+    const to = toNote(range.to, `ranges[${index}].to`);
+    if (to < from) {
+      throw new Error(`ranges[${index}] ends (${range.to}) before it starts (${range.from})`);
+    }
+    return { from, to, sample: checkSample(instrument, range.sample) };
+  });
+
+  map.fill(0);
+  for (const { from, to, sample } of resolved) {
+    map.fill(sample, from - 1, to);
+  }
+}
+
+/**
+ * Split the keyboard between samples by their root notes: every note plays
+ * the sample whose root is nearest (the lower one when two are equally near)
+ * @param instrument The instrument to map
+ * @param rootNotes Root note of each sample, in sample order
+ */
+export function autoSplitKeymap(instrument: XMInstrument, rootNotes: (number | string)[]): void {
+  const map = prepareKeymap(instrument);
+  if (rootNotes.length !== instrument.samples.length) {
+    throw new Error(
+      `Expected ${instrument.samples.length} root notes (one per sample) but got ${rootNotes.length}`
+    );
+  }
+  const roots = rootNotes.map((note, index) => toNote(note, `rootNotes[${index}]`));
+
+  for (let note = 1; note <= map.length; note++) {
+    let best = 0;
+    roots.forEach((root, sample) => {
+      const distance = Math.abs(root - note);
+      const bestDistance = Math.abs(roots[best] - note);
+      if (distance < bestDistance || (distance === bestDistance && root < roots[best])) {
+        best = sample;
+      }
+    });
+    map[note - 1] = best;
+  }
+}
+
+/**
+ * Map one sample per key, starting at `firstNote`, and retune each sample so
+ * its key plays it at the pitch it has on C-4 with its base tuning. Notes
+ * outside the kit play sample 0. The tuning is derived from `baseTuning` rather
+ * than the current one, so calling this again, or with another `firstNote`,
+ * never shifts a sample twice.
+ *
+ * @example
+ * ```typescript
+ * const baseTuning = kit.samples.map((sample) => sample.header.relativeNoteNumber);
+ * setDrumKitKeymap(kit, baseTuning, 'C-3');
+ * ```
+ * @param instrument The instrument to map
+ * @param baseTuning `relativeNoteNumber` of each sample for playing it on C-4, in sample order
+ * @param firstNote Key of the first sample (default: C-4)
+ */
+export function setDrumKitKeymap(
+  instrument: XMInstrument,
+  baseTuning: number[],
+  firstNote: number | string = 'C-4'
+): void {
+  const map = prepareKeymap(instrument);
+  if (baseTuning.length !== instrument.samples.length) {
+    throw new Error(
+      `Expected ${instrument.samples.length} base tunings (one per sample) but got ${baseTuning.length}`
+    );
+  }
+  const first = toNote(firstNote, 'firstNote');
+  const last = first + instrument.samples.length - 1;
+  if (last > map.length) {
+    throw new Error(`${instrument.samples.length} samples starting at note ${first} run past B-7`);
+  }
+
+  const retuned = baseTuning.map((tuning, index) => {
+    const relativeNoteNumber = tuning - (first + index - C4_NOTE);
+    if (
+      !Number.isInteger(relativeNoteNumber) ||
+      relativeNoteNumber < -128 ||
+      relativeNoteNumber > 127
+    ) {
+      throw new Error(
+        `Sample ${index} would need relative note ${relativeNoteNumber} (limit -128 to 127)`
+      );
+    }
+    return relativeNoteNumber;
+  });
+
+  map.fill(0);
+  instrument.samples.forEach((sample, index) => {
+    sample.header.relativeNoteNumber = retuned[index];
+    map[first - 1 + index] = index;
+  });
+}
+
+/**
+ * Read an instrument's keymap as ranges of consecutive notes
+ * @param instrument The instrument to read
+ * @returns One range per run of notes that play the same sample, with note values
+ */
+export function getKeyRanges(instrument: XMInstrument): XMKeyRange[] {
+  const map = instrument.extendedHeader?.sampleNumberForNotes ?? [];
+  const ranges: { from: number; to: number; sample: number }[] = [];
+  for (let note = 1; note <= XM_CONSTANTS.SAMPLE_NUMBER_FOR_NOTES_SIZE; note++) {
+    const sample = map[note - 1] ?? 0;
+    const last = ranges[ranges.length - 1];
+    if (last && last.sample === sample) {
+      last.to = note;
+    } else {
+      ranges.push({ from: note, to: note, sample });
+    }
+  }
+  return ranges;
+}
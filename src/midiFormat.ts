@@ -0,0 +1,39 @@
+/**
+ * Standard MIDI File constants shared by the MIDI reader and writer
+ */
+
+/** Difference between a MIDI note number and an XM note value (MIDI 60 = C-4 = XM 49) */
+export const MIDI_XM_NOTE_OFFSET = 11;
+
+/** Tempo used until the first tempo event (microseconds per quarter note, 120 BPM) */
+export const MIDI_DEFAULT_TEMPO = 500000;
+
+/** Duration of one XM tick at 1 BPM in microseconds (a tick lasts 2.5 / BPM seconds) */
+export const XM_TICK_MICROSECONDS = 2500000;
+
+/** Lowest BPM an XM module can use */
+export const XM_MIN_BPM = 32;
+
+/** Highest BPM an XM module can use */
+export const XM_MAX_BPM = 255;
+
+/** Highest speed (ticks per row) an XM module can use */
+export const XM_MAX_SPEED = 31;
+
+/** Maximum number of rows in an XM pattern */
+export const XM_MAX_PATTERN_ROWS = 256;
+
+/** Highest MIDI tempo value (microseconds per quarter note, stored in 24 bits) */
+export const MIDI_MAX_TEMPO = 0xffffff;
+
+/** MIDI channel reserved for percussion in General MIDI */
+export const MIDI_DRUM_CHANNEL = 9;
+
+/** Meta event type of a track name */
+export const MIDI_META_TRACK_NAME = 0x03;
+
+/** Meta event type that ends a track */
+export const MIDI_META_END_OF_TRACK = 0x2f;
+
+/** Meta event type of a tempo change (microseconds per quarter note) */
+export const MIDI_META_TEMPO = 0x51;
@@ -0,0 +1,566 @@
+/**
+ * Standard MIDI File reader
+ * Converts format 0 and 1 .mid files into XM patterns and instruments
+ */
+
+import { BinaryReader } from './binaryReader';
+import { XMModule, XMPattern, XMInstrument, XM_CONSTANTS } from './types';
+import { createModule, createPattern, createInstrument, noteValueToName } from './xmWriter';
+import {
+  MIDI_XM_NOTE_OFFSET,
+  MIDI_DEFAULT_TEMPO,
+  XM_TICK_MICROSECONDS,
+  XM_MIN_BPM,
+  XM_MAX_BPM,
+  XM_MAX_SPEED,
+  XM_MAX_PATTERN_ROWS,
+  MIDI_META_TRACK_NAME,
+  MIDI_META_END_OF_TRACK,
+  MIDI_META_TEMPO,
+} from './midiFormat';
+
+/**
+ * Entry of the table that maps MIDI channels and programs to XM instruments
+ */
+export interface MidiInstrumentMapping {
+  /** MIDI channel (0-15); the entry matches every channel if omitted */
+  channel?: number;
+  /** MIDI program (0-127); the entry matches every program if omitted */
+  program?: number;
+  /** XM instrument number (1-128), or 0 to leave the notes out */
+  instrument: number;
+  /** Name for the created instrument (default: the name of the track the notes are on) */
+  name?: string;
+}
+
+/**
+ * Options for converting a MIDI file
+ */
+export interface MidiImportOptions {
+  /** Rows per quarter note that notes are quantised to (default: 4) */
+  rowsPerBeat?: number;
+  /** Preferred ticks per row; changed only if the tempo does not fit the XM BPM range (default: 6) */
+  speed?: number;
+  /** Rows per pattern (1-256, default: 64) */
+  patternRows?: number;
+  /** Maximum number of XM channels used for overlapping notes (default: 32) */
+  maxChannels?: number;
+  /**
+   * Instrument table; the first matching entry wins.
+   * Notes without a matching entry use instrument MIDI channel + 1.
+   */
+  instruments?: MidiInstrumentMapping[];
+  /** Module name (default: the name of the first track) */
+  moduleName?: string;
+}
+
+/**
+ * Something in the MIDI file that could not be converted exactly
+ */
+export interface MidiImportIssue {
+  /** Whether the event was left out or approximated */
+  type: 'dropped' | 'approximated';
+  /** Location in the MIDI file, e.g. "tracks[1].events[20]" */
+  path: string;
+  /** Human readable description */
+  message: string;
+}
+
+/**
+ * Result of converting a MIDI file
+ */
+export interface MidiImportResult {
+  /** The converted module; instruments are created empty for the caller to fill */
+  module: XMModule;
+  /** Everything that could not be converted exactly */
+  issues: MidiImportIssue[];
+}
+
+/**
+ * Timed event collected from all tracks
+ */
+type MidiEvent = { tick: number; track: number; path: string } & (
+  | { kind: 'tempo'; tempo: number }
+  | { kind: 'program'; channel: number; program: number }
+  | { kind: 'noteOff'; channel: number; key: number }
+  | { kind: 'noteOn'; channel: number; key: number; velocity: number }
+);
+
+/**
+ * Note with its start and end converted to rows
+ */
+interface MidiNote {
+  row: number;
+  end: number;
+  note: number;
+  instrument: number;
+  volume: number;
+  path: string;
+}
+
+/**
+ * Note-on waiting for its note-off
+ */
+interface OpenNote {
+  tick: number;
+  velocity: number;
+  instrument: number;
+  path: string;
+}
+
+/** Processing order of events on the same tick: tempo and program changes apply to notes on that tick */
+const EVENT_ORDER: Record<MidiEvent['kind'], number> = {
+  tempo: 0,
+  program: 1,
+  noteOff: 2,
+  noteOn: 3,
+};
+
+/**
+ * MIDI file reader class
+ */
+export class MIDIReader {
+  private reader: BinaryReader;
+  private issues: MidiImportIssue[] = [];
+
+  constructor() {
+    this.reader = new BinaryReader(new Uint8Array(0));
+  }
+
+  /**
+   * Read a format 0 or 1 Standard MIDI File and convert it to an XM module.
+   * Notes are quantised to rows, overlapping notes are spread across channels,
+   * velocity becomes the volume column and the tempo map becomes the default
+   * speed/BPM plus Fxx commands.
+   * @param data Buffer containing the MIDI file data
+   * @param options Conversion options
+   * @returns The converted module and a list of conversion issues
+   */
+  read(data: ArrayBuffer | Uint8Array, options: MidiImportOptions = {}): MidiImportResult {
+    this.reader = new BinaryReader(data);
+    this.issues = [];
+
+    const rowsPerBeat = options.rowsPerBeat ?? 4;
+    const patternRows = options.patternRows ?? 64;
+    const maxChannels = options.maxChannels ?? XM_CONSTANTS.MAX_CHANNELS;
+    if (rowsPerBeat < 1) {
+      throw new Error(`Invalid rows per beat: ${rowsPerBeat}`);
+    }
+    if (patternRows < 1 || patternRows > XM_MAX_PATTERN_ROWS) {
+      throw new Error(`Invalid pattern length: ${patternRows} rows (1-${XM_MAX_PATTERN_ROWS})`);
+    }
+    if (maxChannels < 1 || maxChannels > XM_CONSTANTS.MAX_CHANNELS) {
+      throw new Error(`Invalid channel limit: ${maxChannels} (1-${XM_CONSTANTS.MAX_CHANNELS})`);
+    }
+
+    if (this.reader.getLength() < 14 || this.reader.readString(4) !== 'MThd') {
+      throw new Error('Not a MIDI file: missing "MThd" header');
+    }
+    const headerLength = this.reader.readUint32BE();
+    const format = this.reader.readUint16BE();
+    const trackCount = this.reader.readUint16BE();
+    const division = this.reader.readUint16BE();
+    this.reader.skip(headerLength - 6);
+    if (format > 1) {
+      throw new Error(`Unsupported MIDI file: format ${format}`);
+    }
+
+    // SMPTE timing counts ticks per second; treat a second as two beats at a fixed 120 BPM
+    const smpte = (division & 0x8000) !== 0;
+    const ticksPerBeat = smpte ? ((256 - (division >> 8)) * (division & 0xff)) / 2 : division;
+    if (ticksPerBeat === 0) {
+      throw new Error('Invalid MIDI file: time division is zero');
+    }
+
+    const events: MidiEvent[] = [];
+    const trackNames: string[] = [];
+    let track = 0;
+    while (track < trackCount && this.reader.getRemaining() >= 8) {
+      const id = this.reader.readString(4);
+      const length = this.reader.readUint32BE();
+      const end = Math.min(this.reader.getPosition() + length, this.reader.getLength());
+      if (id === 'MTrk') {
+        trackNames.push(this.readTrack(track, end, events));
+        track++;
+      }
+      this.reader.setPosition(end);
+    }
+
+    events.sort((a, b) => a.tick - b.tick || EVENT_ORDER[a.kind] - EVENT_ORDER[b.kind]);
+    const toRow = (tick: number) => Math.round((tick * rowsPerBeat) / ticksPerBeat);
+
+    // Pair note-ons with note-offs and map them to instruments
+    const mappings = options.instruments ?? [];
+    const programs = new Array(16).fill(0);
+    const open = new Map<string, OpenNote[]>();
+    const instrumentNames = new Map<number, string>();
+    const notes: MidiNote[] = [];
+    const lastTick = events.length > 0 ? events[events.length - 1].tick : 0;
+    const addNote = (key: number, start: OpenNote, end: number) => {
+      notes.push({
+        row: toRow(start.tick),
+        end: Math.max(toRow(start.tick) + 1, toRow(end)),
+        note: this.convertNote(key, start.path),
+        instrument: start.instrument,
+        volume: Math.round((start.velocity * 64) / 127),
+        path: start.path,
+      });
+    };
+    const tempos: { tick: number; tempo: number; path: string }[] = [];
+
+    for (const event of events) {
+      if (event.kind === 'tempo') {
+        if (!smpte) {
+          tempos.push(event);
+        }
+      } else if (event.kind === 'program') {
+        programs[event.channel] = event.program;
+      } else if (event.kind === 'noteOn') {
+        const mapping = mappings.find(
+          (entry) =>
+            (entry.channel === undefined || entry.channel === event.channel) &&
+            (entry.program === undefined || entry.program === programs[event.channel])
+        );
+        const instrument = mapping ? mapping.instrument : event.channel + 1;
+        if (instrument === 0) {
+          continue;
+        }
+        if (!instrumentNames.has(instrument)) {
+          instrumentNames.set(
+            instrument,
+            mapping?.name || trackNames[event.track] || `Channel ${event.channel + 1}`
+          );
+        }
+        const key = `${event.channel}:${event.key}`;
+        const list = open.get(key) ?? [];
+        list.push({ tick: event.tick, velocity: event.velocity, instrument, path: event.path });
+        open.set(key, list);
+      } else {
+        const start = open.get(`${event.channel}:${event.key}`)?.shift();
+        if (start) {
+          addNote(event.key, start, event.tick);
+        }
+      }
+    }
+    // Notes that are never released end with the song
+    open.forEach((list, key) => {
+      list.forEach((start) => addNote(Number(key.split(':')[1]), start, lastTick));
+    });
+
+    const { speed, bpm, changes } = this.convertTempoMap(
+      tempos,
+      rowsPerBeat,
+      options.speed ?? 6,
+      toRow
+    );
+    const channels = this.allocateChannels(notes, maxChannels);
+
+    // Split the timeline into patterns
+    let totalRows = 1;
+    for (const note of notes) {
+      totalRows = Math.max(totalRows, note.end + 1);
+    }
+    for (const row of changes.keys()) {
+      totalRows = Math.max(totalRows, row + 1);
+    }
+    let patternCount = Math.ceil(totalRows / patternRows);
+    if (patternCount > XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE) {
+      this.issue(
+        'dropped',
+        'tracks',
+        `Song truncated to ${XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE} patterns of ${patternRows} rows`
+      );
+      patternCount = XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE;
+    }
+    const numberOfChannels = Math.min(
+      XM_CONSTANTS.MAX_CHANNELS,
+      Math.max(2, channels.length + (channels.length & 1))
+    );
+    const patterns: XMPattern[] = [];
+    for (let i = 0; i < patternCount; i++) {
+      patterns.push(
+        createPattern(Math.min(patternRows, totalRows - i * patternRows), numberOfChannels)
+      );
+    }
+    const cellAt = (row: number, channel: number) =>
+      patterns[Math.floor(row / patternRows)]?.data[row % patternRows][channel];
+
+    channels.forEach((channelNotes, channel) => {
+      channelNotes.forEach((note, i) => {
+        const cell = cellAt(note.row, channel);
+        if (!cell) {
+          return;
+        }
+        cell.note = note.note;
+        cell.instrument = note.instrument;
+        cell.volume = note.volume;
+        // A note starting where this one ends cuts it anyway
+        const next = channelNotes[i + 1];
+        const off = cellAt(note.end, channel);
+        if (off && (!next || next.row !== note.end)) {
+          off.note = XM_CONSTANTS.NOTE_OFF;
+        }
+      });
+    });
+    changes.forEach((value, row) => {
+      const cell = cellAt(row, 0);
+      if (cell) {
+        cell.effectType = 0x0f; // Fxx: Set BPM
+        cell.effectParam = value;
+      }
+    });
+
+    // Instruments are created empty, up to the highest number in use
+    const instruments: XMInstrument[] = [];
+    let highest = 0;
+    for (const number of instrumentNames.keys()) {
+      highest = Math.max(highest, number);
+    }
+    for (let number = 1; number <= highest; number++) {
+      const name = instrumentNames.get(number) ?? '';
+      instruments.push(createInstrument(name.slice(0, XM_CONSTANTS.MAX_INSTRUMENT_NAME_LENGTH)));
+    }
+
+    const module = createModule({
+      moduleName: (options.moduleName ?? trackNames[0] ?? '').slice(
+        0,
+        XM_CONSTANTS.MAX_MODULE_NAME_LENGTH
+      ),
+      numberOfChannels,
+      defaultTempo: speed,
+      defaultBPM: bpm,
+    });
+    module.patterns = patterns;
+    module.instruments = instruments;
+    module.header.numberOfPatterns = patterns.length;
+    module.header.numberOfInstruments = instruments.length;
+    module.header.songLength = patterns.length;
+    patterns.forEach((_, i) => (module.header.patternOrderTable[i] = i));
+
+    return { module, issues: this.issues };
+  }
+
+  /**
+   * Record a conversion issue
+   */
+  private issue(type: MidiImportIssue['type'], path: string, message: string): void {
+    this.issues.push({ type, path, message });
+  }
+
+  /**
+   * Read the events of one track chunk
+   * @returns The track name, or an empty string
+   */
+  private readTrack(track: number, end: number, events: MidiEvent[]): string {
+    let tick = 0;
+    let status = 0;
+    let name = '';
+
+    for (let index = 0; this.reader.getPosition() < end; index++) {
+      tick += this.readVariableLength();
+      const path = `tracks[${track}].events[${index}]`;
+      let byte = this.reader.readUint8();
+
+      if (byte === 0xff) {
+        const type = this.reader.readUint8();
+        const data = this.reader.readBytes(this.readVariableLength());
+        if (type === MIDI_META_END_OF_TRACK) {
+          break;
+        }
+        if (type === MIDI_META_TRACK_NAME && !name) {
+          name = new TextDecoder('latin1').decode(data).trim();
+        } else if (type === MIDI_META_TEMPO && data.length === 3) {
+          const tempo = (data[0] << 16) | (data[1] << 8) | data[2];
+          events.push({ kind: 'tempo', tick, track, path, tempo });
+        }
+        continue;
+      }
+      if (byte === 0xf0 || byte === 0xf7) {
+        // System exclusive data has no XM equivalent
+        this.reader.skip(this.readVariableLength());
+        continue;
+      }
+
+      // Running status: the status byte is left out when it repeats
+      if (byte < 0x80) {
+        if (status === 0) {
+          throw new Error(`Invalid MIDI file: data byte without a status at ${path}`);
+        }
+        this.reader.setPosition(this.reader.getPosition() - 1);
+        byte = status;
+      }
+      status = byte;
+
+      const channel = byte & 0x0f;
+      switch (byte & 0xf0) {
+        case 0x80: {
+          const key = this.reader.readUint8();
+          this.reader.readUint8(); // Release velocity
+          events.push({ kind: 'noteOff', tick, track, path, channel, key });
+          break;
+        }
+        case 0x90: {
+          const key = this.reader.readUint8();
+          const velocity = this.reader.readUint8();
+          // A note-on with velocity 0 is a note-off
+          events.push(
+            velocity === 0
+              ? { kind: 'noteOff', tick, track, path, channel, key }
+              : { kind: 'noteOn', tick, track, path, channel, key, velocity }
+          );
+          break;
+        }
+        case 0xc0:
+          events.push({
+            kind: 'program',
+            tick,
+            track,
+            path,
+            channel,
+            program: this.reader.readUint8(),
+          });
+          break;
+        case 0xd0:
+          this.reader.skip(1); // Channel pressure
+          break;
+        default:
+          this.reader.skip(2); // Key pressure, controllers and pitch bend
+          break;
+      }
+    }
+
+    return name;
+  }
+
+  /**
+   * Read a variable-length quantity (7 bits per byte, high bit set on all but the last)
+   */
+  private readVariableLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.reader.readUint8();
+      value = value * 128 + (byte & 0x7f);
+      if ((byte & 0x80) === 0) {
+        break;
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Convert a MIDI note number, moving notes outside the XM range by octaves
+   * @returns XM note value (1-96)
+   */
+  private convertNote(key: number, path: string): number {
+    let note = key - MIDI_XM_NOTE_OFFSET;
+    if (note >= 1 && note <= 96) {
+      return note;
+    }
+    const octaves = note < 1 ? Math.ceil((1 - note) / 12) : -Math.ceil((note - 96) / 12);
+    note += octaves * 12;
+    this.issue(
+      'approximated',
+      path,
+      `MIDI note ${key} is outside the XM range and was moved to ${noteValueToName(note)}`
+    );
+    return note;
+  }
+
+  /**
+   * Pick the speed and BPM for the initial tempo and turn later tempo changes into BPM changes
+   * @returns Speed, initial BPM and the new BPM for each row that changes it
+   */
+  private convertTempoMap(
+    tempos: { tick: number; tempo: number; path: string }[],
+    rowsPerBeat: number,
+    preferredSpeed: number,
+    toRow: (tick: number) => number
+  ): { speed: number; bpm: number; changes: Map<number, number> } {
+    const initial = tempos.filter((t) => t.tick === 0).pop()?.tempo ?? MIDI_DEFAULT_TEMPO;
+    // A row lasts speed * 2.5 / BPM seconds and a beat lasts tempo microseconds
+    const bpmFor = (tempo: number, speed: number) =>
+      Math.round((speed * rowsPerBeat * XM_TICK_MICROSECONDS) / tempo);
+
+    let speed = Math.min(XM_MAX_SPEED, Math.max(1, preferredSpeed));
+    while (speed > 1 && bpmFor(initial, speed) > XM_MAX_BPM) {
+      speed--;
+    }
+    while (speed < XM_MAX_SPEED && bpmFor(initial, speed) < XM_MIN_BPM) {
+      speed++;
+    }
+
+    const clamp = (tempo: number, path: string) => {
+      const exact = bpmFor(tempo, speed);
+      const bpm = Math.min(XM_MAX_BPM, Math.max(XM_MIN_BPM, exact));
+      if (bpm !== exact) {
+        this.issue('approximated', path, `Tempo of ${exact} BPM limited to ${bpm} BPM`);
+      }
+      return bpm;
+    };
+
+    const bpm = clamp(initial, tempos.find((t) => t.tick === 0)?.path ?? 'tempo');
+    // The last change on a row wins; changes that keep the current BPM are left out
+    const changes = new Map<number, number>();
+    for (const tempo of tempos.filter((t) => t.tick > 0)) {
+      changes.set(toRow(tempo.tick), clamp(tempo.tempo, tempo.path));
+    }
+    let current = bpm;
+    [...changes.keys()]
+      .sort((a, b) => a - b)
+      .forEach((row) => {
+        if (changes.get(row) === current) {
+          changes.delete(row);
+        } else {
+          current = changes.get(row)!;
+        }
+      });
+
+    return { speed, bpm, changes };
+  }
+
+  /**
+   * Spread notes across channels so that overlapping notes play on different channels
+   * @returns The notes of each channel in row order
+   */
+  private allocateChannels(notes: MidiNote[], maxChannels: number): MidiNote[][] {
+    const channels: MidiNote[][] = [];
+    const sorted = [...notes].sort((a, b) => a.row - b.row || a.note - b.note);
+
+    for (const note of sorted) {
+      // A channel is free once its last note has ended (its note-off is replaced by the new note)
+      let channel = channels.findIndex((list) => list[list.length - 1].end <= note.row);
+      if (channel < 0 && channels.length < maxChannels) {
+        channel = channels.push([]) - 1;
+      }
+      if (channel < 0) {
+        this.issue(
+          'dropped',
+          note.path,
+          `No free channel for ${noteValueToName(note.note)} at row ${note.row}`
+        );
+        continue;
+      }
+      channels[channel].push(note);
+    }
+
+    return channels;
+  }
+}
+
+/**
+ * Load a MIDI file and convert it to an XM module (Node.js only)
+ * @param filename The input filename
+ * @param options Conversion options
+ * @returns The converted module and a list of conversion issues
+ */
+export async function loadMidiFromFile(
+  filename: string,
+  options: MidiImportOptions = {}
+): Promise<MidiImportResult> {
+  // Dynamic import for Node.js fs module
+  const { promises: fs } = await import('fs');
+  const data = await fs.readFile(filename);
+
+  const reader = new MIDIReader();
+  return reader.read(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), options);
+}
@@ -0,0 +1,384 @@
+/**
+ * Standard MIDI File writer
+ * Plays an XM module's order table and writes its notes as a format 1 .mid file
+ */
+
+import { BinaryWriter } from './binaryWriter';
+import { XMModule, XMInstrument, XMPatternNote, XM_CONSTANTS } from './types';
+import {
+  MIDI_XM_NOTE_OFFSET,
+  MIDI_MAX_TEMPO,
+  MIDI_DRUM_CHANNEL,
+  XM_TICK_MICROSECONDS,
+  MIDI_META_TRACK_NAME,
+  MIDI_META_END_OF_TRACK,
+  MIDI_META_TEMPO,
+} from './midiFormat';
+
+/**
+ * Entry of the table that maps XM instruments to MIDI programs
+ */
+export interface MidiProgramMapping {
+  /** XM instrument number (1-128) */
+  instrument: number;
+  /** MIDI program (0-127); no program change is sent if omitted */
+  program?: number;
+  /** MIDI channel (0-15) for the instrument's notes (default: the track's channel) */
+  channel?: number;
+  /** Fixed MIDI note for every note of the instrument, e.g. a General MIDI drum sound */
+  key?: number;
+}
+
+/**
+ * Options for writing a MIDI file
+ */
+export interface MidiExportOptions {
+  /** MIDI ticks per quarter note (default: 96) */
+  ticksPerBeat?: number;
+  /** Rows per quarter note, used for the tempo (default: 4) */
+  rowsPerBeat?: number;
+  /**
+   * Program table. Instruments without an entry use program instrument - 1
+   * on the track's channel.
+   */
+  instruments?: MidiProgramMapping[];
+}
+
+/**
+ * Event of one track with its absolute time
+ */
+interface TrackEvent {
+  tick: number;
+  data: number[];
+}
+
+/**
+ * Playback state of one XM channel
+ */
+interface ChannelState {
+  instrument: number;
+  /** MIDI channel and key of the sounding note, if any */
+  sounding: { channel: number; key: number } | null;
+  loopRow: number;
+  loopCount: number;
+}
+
+/** MIDI channels used for XM channels by default, leaving out the percussion channel */
+const MELODIC_CHANNELS = [...Array(16).keys()].filter((c) => c !== MIDI_DRUM_CHANNEL);
+
+/**
+ * MIDI file writer class
+ */
+export class MIDIWriter {
+  private instruments: XMInstrument[] = [];
+  private mappings: MidiProgramMapping[] = [];
+  private programs: number[] = [];
+  private tracks: TrackEvent[][] = [];
+
+  /**
+   * Write a module as a format 1 Standard MIDI File.
+   * The order table is played once (jumps, breaks, pattern loops and pattern
+   * delays included) with one track per XM channel after a tempo track.
+   * A row lasts ticksPerBeat / rowsPerBeat MIDI ticks, so speed and BPM
+   * changes become tempo events.
+   * @param module The module to convert
+   * @param options Export options
+   * @returns ArrayBuffer containing the MIDI file data
+   */
+  write(module: XMModule, options: MidiExportOptions = {}): ArrayBuffer {
+    const ticksPerBeat = options.ticksPerBeat ?? 96;
+    const rowsPerBeat = options.rowsPerBeat ?? 4;
+    if (ticksPerBeat < 1 || ticksPerBeat > 0x7fff) {
+      throw new Error(`Invalid ticks per beat: ${ticksPerBeat} (1-32767)`);
+    }
+    if (rowsPerBeat < 1) {
+      throw new Error(`Invalid rows per beat: ${rowsPerBeat}`);
+    }
+    this.instruments = module.instruments;
+    this.mappings = options.instruments ?? [];
+    this.programs = new Array(16).fill(-1);
+    const header = module.header;
+    const numberOfChannels = header.numberOfChannels;
+    const ticksPerRow = ticksPerBeat / rowsPerBeat;
+
+    this.tracks = [];
+    for (let i = 0; i <= numberOfChannels; i++) {
+      this.tracks.push([]);
+    }
+    this.addTrackName(0, header.moduleName);
+    for (let i = 0; i < numberOfChannels; i++) {
+      this.addTrackName(i + 1, `Channel ${i + 1}`);
+    }
+
+    const channels: ChannelState[] = [];
+    for (let i = 0; i < numberOfChannels; i++) {
+      channels.push({ instrument: 0, sounding: null, loopRow: 0, loopCount: 0 });
+    }
+
+    let speed = header.defaultTempo || 6;
+    let bpm = header.defaultBPM || 125;
+    let tempo = -1;
+    let time = 0;
+    let order = 0;
+    let row = 0;
+    const songLength = Math.min(header.songLength, XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE);
+    const visited = new Set<number>();
+
+    while (order < songLength) {
+      const pattern = module.patterns[header.patternOrderTable[order]];
+      const rows = pattern ? pattern.header.numberOfRows : 64;
+      if (row >= rows) {
+        row = 0;
+      }
+      // The song ends when a row plays a second time outside a pattern loop
+      const position = order * 256 + row;
+      if (visited.has(position)) {
+        break;
+      }
+      visited.add(position);
+
+      const cells: XMPatternNote[] = pattern?.data[row] ?? [];
+      let jump: number | null = null;
+      let breakRow: number | null = null;
+      let loopRow: number | null = null;
+      let delay = 0;
+
+      // Speed and BPM apply to the whole row
+      for (const cell of cells) {
+        if (cell.effectType === 0x0f && cell.effectParam > 0) {
+          if (cell.effectParam < 0x20) {
+            speed = cell.effectParam;
+          } else {
+            bpm = cell.effectParam;
+          }
+        }
+      }
+      const newTempo = Math.min(
+        MIDI_MAX_TEMPO,
+        Math.round((rowsPerBeat * speed * XM_TICK_MICROSECONDS) / bpm)
+      );
+      if (newTempo !== tempo) {
+        tempo = newTempo;
+        this.add(0, time, [
+          0xff,
+          MIDI_META_TEMPO,
+          3,
+          tempo >> 16,
+          (tempo >> 8) & 0xff,
+          tempo & 0xff,
+        ]);
+      }
+      const tickLength = ticksPerRow / speed;
+
+      for (let index = 0; index < numberOfChannels; index++) {
+        const cell = cells[index];
+        const channel = channels[index];
+        if (!cell) {
+          continue;
+        }
+        const x = cell.effectParam >> 4;
+        const y = cell.effectParam & 0x0f;
+        const extended = cell.effectType === 0x0e;
+
+        // EDx plays the whole cell late; FT2 ignores it if the delay is past the row
+        let start = time;
+        if (extended && x === 0xd && y > 0) {
+          if (y >= speed) {
+            continue;
+          }
+          start = time + y * tickLength;
+        }
+
+        if (cell.note === XM_CONSTANTS.NOTE_OFF) {
+          this.stopNote(index, channel, start);
+        } else if (cell.note >= 1 && cell.note <= 96) {
+          this.stopNote(index, channel, start);
+          this.startNote(index, channel, cell, start);
+        }
+
+        // Kxx releases and ECx cuts the note a number of ticks into the row
+        if (cell.effectType === 0x14 && cell.effectParam < speed) {
+          this.stopNote(index, channel, time + cell.effectParam * tickLength);
+        } else if (extended && x === 0xc && y < speed) {
+          this.stopNote(index, channel, Math.max(start, time + y * tickLength));
+        }
+
+        if (cell.effectType === 0x0b) {
+          jump = cell.effectParam;
+          breakRow = breakRow ?? 0;
+        } else if (cell.effectType === 0x0d) {
+          // Pattern break rows are given in decimal
+          breakRow = x * 10 + y;
+          jump = jump ?? order + 1;
+        } else if (extended && x === 0x6) {
+          if (y === 0) {
+            channel.loopRow = row;
+          } else if (channel.loopCount === 0) {
+            channel.loopCount = y;
+            loopRow = channel.loopRow;
+          } else if (--channel.loopCount > 0) {
+            loopRow = channel.loopRow;
+          }
+        } else if (extended && x === 0xe) {
+          delay = y;
+        }
+      }
+
+      time += ticksPerRow * (1 + delay);
+
+      if (loopRow !== null) {
+        // Rows inside a pattern loop are legitimately played again
+        for (let r = loopRow; r <= row; r++) {
+          visited.delete(order * 256 + r);
+        }
+        row = loopRow;
+      } else if (jump !== null) {
+        order = jump;
+        row = breakRow ?? 0;
+      } else if (++row >= rows) {
+        row = 0;
+        order++;
+      }
+    }
+
+    channels.forEach((channel, index) => this.stopNote(index, channel, time));
+    return this.encode(ticksPerBeat, time);
+  }
+
+  /**
+   * Add an event to a track
+   */
+  private add(track: number, time: number, data: number[]): void {
+    this.tracks[track].push({ tick: Math.round(time), data });
+  }
+
+  /**
+   * Add a track name meta event at the start of a track
+   */
+  private addTrackName(track: number, name: string): void {
+    const bytes = [...name].map((c) => c.charCodeAt(0) & 0xff);
+    this.add(track, 0, [
+      0xff,
+      MIDI_META_TRACK_NAME,
+      ...this.variableLength(bytes.length),
+      ...bytes,
+    ]);
+  }
+
+  /**
+   * Send a note-on (and a program change if needed) for a note cell
+   */
+  private startNote(index: number, channel: ChannelState, cell: XMPatternNote, time: number): void {
+    if (cell.instrument > 0) {
+      channel.instrument = cell.instrument;
+    }
+    if (channel.instrument === 0) {
+      return;
+    }
+
+    const mapping = this.mappings.find((entry) => entry.instrument === channel.instrument);
+    const midiChannel = mapping?.channel ?? MELODIC_CHANNELS[index % MELODIC_CHANNELS.length];
+    const program = mapping ? mapping.program : (channel.instrument - 1) & 0x7f;
+    if (program !== undefined && this.programs[midiChannel] !== program) {
+      this.programs[midiChannel] = program;
+      this.add(index + 1, time, [0xc0 | midiChannel, program]);
+    }
+
+    const key = mapping?.key ?? cell.note + MIDI_XM_NOTE_OFFSET;
+    const volume = this.noteVolume(channel.instrument, cell);
+    const velocity = Math.max(1, Math.round((volume * 127) / 64));
+    this.add(index + 1, time, [0x90 | midiChannel, key, velocity]);
+    channel.sounding = { channel: midiChannel, key };
+  }
+
+  /**
+   * Send a note-off for the note sounding on an XM channel
+   */
+  private stopNote(index: number, channel: ChannelState, time: number): void {
+    if (channel.sounding) {
+      this.add(index + 1, time, [0x80 | channel.sounding.channel, channel.sounding.key, 0]);
+      channel.sounding = null;
+    }
+  }
+
+  /**
+   * Volume (0-64) a note starts with: Cxx, then the volume column, then the sample's volume
+   */
+  private noteVolume(instrumentNumber: number, cell: XMPatternNote): number {
+    if (cell.effectType === 0x0c) {
+      return Math.min(64, cell.effectParam);
+    }
+    if (cell.volume !== undefined) {
+      return cell.volume;
+    }
+    const instrument = this.instruments[instrumentNumber - 1];
+    const sampleNumber = instrument?.extendedHeader?.sampleNumberForNotes[cell.note - 1] ?? 0;
+    return instrument?.samples[sampleNumber]?.header.volume ?? 64;
+  }
+
+  /**
+   * Encode a variable-length quantity (7 bits per byte, most significant first)
+   */
+  private variableLength(value: number): number[] {
+    const bytes = [value & 0x7f];
+    for (value = Math.floor(value / 128); value > 0; value = Math.floor(value / 128)) {
+      bytes.unshift((value & 0x7f) | 0x80);
+    }
+    return bytes;
+  }
+
+  /**
+   * Encode the header and all tracks
+   * @param ticksPerBeat Time division
+   * @param end Time at which every track ends
+   */
+  private encode(ticksPerBeat: number, end: number): ArrayBuffer {
+    const writer = new BinaryWriter();
+    writer.writeString('MThd', 4);
+    writer.writeUint32BE(6);
+    writer.writeUint16BE(1); // Format 1: simultaneous tracks
+    writer.writeUint16BE(this.tracks.length);
+    writer.writeUint16BE(ticksPerBeat);
+
+    for (const events of this.tracks) {
+      // Events on the same tick keep the order they were added in
+      const sorted = events
+        .map((event, index) => ({ event, index }))
+        .sort((a, b) => a.event.tick - b.event.tick || a.index - b.index)
+        .map(({ event }) => event);
+      const bytes: number[] = [];
+      let tick = 0;
+      for (const event of sorted) {
+        bytes.push(...this.variableLength(event.tick - tick), ...event.data);
+        tick = event.tick;
+      }
+      bytes.push(...this.variableLength(Math.max(0, Math.round(end) - tick)));
+      bytes.push(0xff, MIDI_META_END_OF_TRACK, 0);
+
+      writer.writeString('MTrk', 4);
+      writer.writeUint32BE(bytes.length);
+      writer.writeBytes(new Uint8Array(bytes));
+    }
+
+    return writer.getBuffer();
+  }
+}
+
+/**
+ * Convert a module and save it as a MIDI file (Node.js only)
+ * @param module The module to convert
+ * @param filename The output filename
+ * @param options Export options
+ */
+export async function saveMidiToFile(
+  module: XMModule,
+  filename: string,
+  options: MidiExportOptions = {}
+): Promise<void> {
+  const writer = new MIDIWriter();
+  const data = writer.write(module, options);
+
+  // Dynamic import for Node.js fs module
+  const { promises: fs } = await import('fs');
+  await fs.writeFile(filename, Buffer.from(data));
+}
@@ -0,0 +1,30 @@
+/**
+ * ProTracker MOD format constants shared by the MOD reader and writer
+ */
+
+/** Number of sample slots in a 31-sample MOD */
+export const MOD_SAMPLE_COUNT = 31;
+
+/** Number of rows in a MOD pattern */
+export const MOD_PATTERN_ROWS = 64;
+
+/** Number of entries in the MOD order table */
+export const MOD_ORDER_TABLE_SIZE = 128;
+
+/** Offset of the format signature */
+export const MOD_SIGNATURE_OFFSET = 1080;
+
+/** Maximum sample length in bytes (65535 words) */
+export const MOD_MAX_SAMPLE_LENGTH = 131070;
+
+/** XM note value that ProTracker's C-1 maps to (C-3, as in FastTracker II) */
+export const MOD_NOTE_C1 = 37;
+
+/** ProTracker periods for C-1 to B-3 at finetune 0 */
+export const MOD_PERIODS = [
+  856, 808, 762, 720, 678, 640, 604, 570, 538, 508, 480, 453, 428, 404, 381, 360, 340, 320, 302,
+  285, 269, 254, 240, 226, 214, 202, 190, 180, 170, 160, 151, 143, 135, 127, 120, 113,
+];
+
+/** Maximum number of channels in an XM module */
+export const XM_MAX_CHANNELS = 32;
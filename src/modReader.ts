@@ -0,0 +1,268 @@
+/**
+ * ProTracker MOD file reader
+ * Converts 4/8-channel .mod files into XM module structures
+ */
+
+import { BinaryReader } from './binaryReader';
+import {
+  XMModule,
+  XMHeader,
+  XMPattern,
+  XMPatternNote,
+  XMInstrument,
+  XMSample,
+  LoopType,
+  XM_CONSTANTS,
+} from './types';
+import { createInstrument, createSample, addSampleToInstrument } from './xmWriter';
+import {
+  MOD_SAMPLE_COUNT,
+  MOD_PATTERN_ROWS,
+  MOD_ORDER_TABLE_SIZE,
+  MOD_SIGNATURE_OFFSET,
+  MOD_NOTE_C1,
+  MOD_PERIODS,
+  XM_MAX_CHANNELS,
+} from './modFormat';
+import { applyChannelPanning, ChannelPanningMode } from './channelPanning';
+
+/**
+ * Options for converting a MOD file
+ */
+export interface ModImportOptions {
+  /** How the Amiga LRRL channel panning is carried over (default: 'effect') */
+  panning?: ChannelPanningMode;
+  /** Stereo separation in percent (0-100, default: 100) */
+  stereoSeparation?: number;
+}
+
+/**
+ * MOD file reader class
+ */
+export class MODReader {
+  private reader: BinaryReader;
+
+  constructor() {
+    this.reader = new BinaryReader(new Uint8Array(0));
+  }
+
+  /**
+   * Read a MOD file and convert it to an XM module.
+   * Supports the M.K./M!K!, FLT4, xCHN and xxCH signatures.
+   * @param data Buffer containing the MOD file data
+   * @param options Conversion options
+   * @returns The converted XM module, using the Amiga frequency table
+   */
+  read(data: ArrayBuffer | Uint8Array, options: ModImportOptions = {}): XMModule {
+    this.reader = new BinaryReader(data);
+
+    if (this.reader.getLength() < MOD_SIGNATURE_OFFSET + 4) {
+      throw new Error('Not a MOD file: file is too short');
+    }
+    this.reader.setPosition(MOD_SIGNATURE_OFFSET);
+    const signature = this.reader.readString(4);
+    const numberOfChannels = this.channelsForSignature(signature);
+    this.reader.setPosition(0);
+
+    const moduleName = this.reader.readString(20);
+    const samples: XMSample[] = [];
+    const loopPoints: { start: number; length: number; finetune: number }[] = [];
+    for (let i = 0; i < MOD_SAMPLE_COUNT; i++) {
+      const name = this.reader.readString(22);
+      const length = this.reader.readUint16BE() * 2;
+      // Finetune is a signed nibble (-8..7) in 1/8 semitones
+      const finetune = ((this.reader.readUint8() & 0x0f) ^ 0x08) - 0x08;
+      const volume = Math.min(64, this.reader.readUint8());
+      const start = this.reader.readUint16BE() * 2;
+      const repeat = this.reader.readUint16BE() * 2;
+      samples.push(createSample({ name, data: new Int8Array(length), volume }));
+      loopPoints.push({ start, length: repeat, finetune });
+    }
+
+    const songLength = Math.max(1, Math.min(MOD_ORDER_TABLE_SIZE, this.reader.readUint8()));
+    const restart = this.reader.readUint8();
+    const orders: number[] = [];
+    for (let i = 0; i < MOD_ORDER_TABLE_SIZE; i++) {
+      orders.push(this.reader.readUint8());
+    }
+    this.reader.skip(4); // Signature
+
+    // Every pattern up to the highest one in the order table is stored
+    const numberOfPatterns = Math.max(...orders) + 1;
+    const patterns: XMPattern[] = [];
+    for (let i = 0; i < numberOfPatterns; i++) {
+      patterns.push(this.readPattern(numberOfChannels));
+    }
+
+    for (let i = 0; i < MOD_SAMPLE_COUNT; i++) {
+      samples[i] = this.readSampleData(samples[i], loopPoints[i]);
+    }
+
+    const pan = this.channelPanning(numberOfChannels, options.stereoSeparation ?? 100);
+    applyChannelPanning(patterns, samples, pan, options.panning ?? 'effect');
+
+    const instruments: XMInstrument[] = samples.map((sample) => {
+      const instrument = createInstrument(sample.header.name);
+      if (sample.data.length > 0) {
+        addSampleToInstrument(instrument, sample);
+      }
+      return instrument;
+    });
+
+    const header: XMHeader = {
+      moduleName: moduleName.slice(0, XM_CONSTANTS.MAX_MODULE_NAME_LENGTH),
+      trackerName: XM_CONSTANTS.DEFAULT_TRACKER_NAME,
+      version: XM_CONSTANTS.DEFAULT_VERSION,
+      songLength,
+      restartPosition: restart < songLength ? restart : 0,
+      numberOfChannels,
+      numberOfPatterns,
+      numberOfInstruments: instruments.length,
+      flags: 0, // Amiga frequency table
+      defaultTempo: 6,
+      defaultBPM: 125,
+      patternOrderTable: [
+        ...orders,
+        ...new Array(XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE - orders.length).fill(0),
+      ],
+    };
+
+    return { header, patterns, instruments };
+  }
+
+  /**
+   * Get the number of channels from the format signature
+   * @param signature Four-character signature at offset 1080
+   * @returns Number of channels
+   */
+  private channelsForSignature(signature: string): number {
+    if (signature === 'M.K.' || signature === 'M!K!' || signature === 'FLT4') {
+      return 4;
+    }
+    const match = /^(\d)CHN$/.exec(signature) ?? /^(\d\d)CH$/.exec(signature);
+    const channels = match ? parseInt(match[1], 10) : 0;
+    if (channels >= 1 && channels <= XM_MAX_CHANNELS) {
+      return channels;
+    }
+    throw new Error(`Not a MOD file: unsupported signature "${signature}"`);
+  }
+
+  /**
+   * Read one pattern
+   * @param numberOfChannels Number of channels
+   * @returns XM pattern structure
+   */
+  private readPattern(numberOfChannels: number): XMPattern {
+    const data: XMPatternNote[][] = [];
+    for (let row = 0; row < MOD_PATTERN_ROWS; row++) {
+      const rowData: XMPatternNote[] = [];
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        const b0 = this.reader.readUint8();
+        const b1 = this.reader.readUint8();
+        const b2 = this.reader.readUint8();
+        const b3 = this.reader.readUint8();
+        rowData.push({
+          note: this.periodToNote(((b0 & 0x0f) << 8) | b1),
+          instrument: (b0 & 0xf0) | (b2 >> 4),
+          effectType: b2 & 0x0f,
+          effectParam: b3,
+        });
+      }
+      data.push(rowData);
+    }
+
+    return {
+      header: {
+        headerLength: XM_CONSTANTS.PATTERN_HEADER_SIZE,
+        packingType: 0,
+        numberOfRows: MOD_PATTERN_ROWS,
+        packedDataSize: 0,
+      },
+      data,
+    };
+  }
+
+  /**
+   * Convert a ProTracker period to the nearest XM note
+   * @param period Amiga period (0 = no note)
+   * @returns XM note value (0 = no note)
+   */
+  private periodToNote(period: number): number {
+    if (period === 0) {
+      return 0;
+    }
+    const note = MOD_NOTE_C1 + Math.round(12 * Math.log2(MOD_PERIODS[0] / period));
+    return Math.max(1, Math.min(96, note));
+  }
+
+  /**
+   * Read the data of one sample and apply its loop and finetune
+   * @param sample Sample created from the sample header
+   * @param loop Loop points in bytes and the finetune nibble
+   * @returns The complete sample
+   */
+  private readSampleData(
+    sample: XMSample,
+    loop: { start: number; length: number; finetune: number }
+  ): XMSample {
+    // Tolerate truncated files: keep whatever sample data is present
+    const length = Math.min(sample.data.length, this.reader.getRemaining());
+    const bytes = this.reader.readBytes(length);
+    const data = new Int8Array(bytes.buffer, bytes.byteOffset, length).slice();
+
+    // A repeat length of one word means "no loop"
+    let loopStart = loop.start;
+    let loopLength = loop.length;
+    if (loopStart + loopLength > length && loopStart / 2 + loopLength <= length) {
+      // Some old trackers stored the loop start in bytes instead of words
+      loopStart /= 2;
+    }
+    loopLength = Math.min(loopLength, length - loopStart);
+    const looped = loop.length > 2 && loopLength > 2;
+
+    const converted = createSample({
+      data,
+      volume: sample.header.volume,
+      fineTune: loop.finetune * 16,
+      loopStart: looped ? loopStart : 0,
+      loopLength: looped ? loopLength : 0,
+      loopType: looped ? LoopType.Forward : LoopType.None,
+    });
+    converted.header.name = sample.header.name;
+    return converted;
+  }
+
+  /**
+   * Get the Amiga LRRL panning of each channel
+   * @param numberOfChannels Number of channels
+   * @param separation Stereo separation in percent
+   * @returns Panning (0-255) for each channel
+   */
+  private channelPanning(numberOfChannels: number, separation: number): number[] {
+    const offset = Math.round((128 * Math.max(0, Math.min(100, separation))) / 100);
+    const pan: number[] = [];
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const left = channel % 4 === 0 || channel % 4 === 3;
+      pan.push(left ? 128 - offset : Math.min(255, 128 + offset));
+    }
+    return pan;
+  }
+}
+
+/**
+ * Load a MOD file and convert it to an XM module (Node.js only)
+ * @param filename The input filename
+ * @param options Conversion options
+ * @returns The converted XM module
+ */
+export async function loadModFromFile(
+  filename: string,
+  options: ModImportOptions = {}
+): Promise<XMModule> {
+  // Dynamic import for Node.js fs module
+  const { promises: fs } = await import('fs');
+  const data = await fs.readFile(filename);
+
+  const reader = new MODReader();
+  return reader.read(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), options);
+}
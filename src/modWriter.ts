@@ -0,0 +1,1027 @@
+/**
+ * ProTracker MOD file writer
+ * Downconverts XM modules to .mod files and reports what could not be kept
+ */
+
+import { BinaryWriter } from './binaryWriter';
+import { XMModule, XMPatternNote, XMSample, LoopType, XM_CONSTANTS } from './types';
+import {
+  MOD_SAMPLE_COUNT,
+  MOD_PATTERN_ROWS,
+  MOD_ORDER_TABLE_SIZE,
+  MOD_MAX_SAMPLE_LENGTH,
+  MOD_NOTE_C1,
+  MOD_PERIODS,
+  XM_MAX_CHANNELS,
+} from './modFormat';
+
+/**
+ * Whether a conversion issue lost information or changed it
+ */
+export type ModConversionIssueType = 'dropped' | 'approximated';
+
+/**
+ * Part of the module a conversion issue is about
+ */
+export type ModConversionIssueCategory =
+  | 'header'
+  | 'order'
+  | 'pattern'
+  | 'channel'
+  | 'note'
+  | 'effect'
+  | 'volumeColumn'
+  | 'instrument'
+  | 'envelope'
+  | 'sample';
+
+/**
+ * Something that was dropped or approximated during MOD conversion
+ */
+export interface ModConversionIssue {
+  /** Whether the information was dropped or approximated */
+  type: ModConversionIssueType;
+  /** Part of the module the issue is about */
+  category: ModConversionIssueCategory;
+  /** Location in the source module, e.g. "patterns[0].data[12][1].effectType" */
+  path: string;
+  /** Human readable description */
+  message: string;
+}
+
+/**
+ * Options for writing a MOD file
+ */
+export interface ModWriteOptions {
+  /**
+   * How instruments with several samples are converted:
+   * - 'split' (default): every sample the keymap uses becomes its own MOD sample
+   * - 'first': only the sample mapped to the most notes is kept, so XM instrument
+   *   numbers stay the same as MOD sample numbers
+   */
+  multisample?: 'split' | 'first';
+  /** Maximum number of channels to write (default: 32); further channels are dropped */
+  maxChannels?: number;
+}
+
+/**
+ * Result of converting a module to MOD
+ */
+export interface ModWriteResult {
+  /** The complete MOD file */
+  data: ArrayBuffer;
+  /** Everything that was dropped or approximated */
+  issues: ModConversionIssue[];
+}
+
+/**
+ * A converted MOD sample slot
+ */
+interface ModSampleSlot {
+  name: string;
+  volume: number;
+  /** Finetune nibble (-8 to 7) */
+  finetune: number;
+  /** Semitones added to every note played with this sample */
+  noteOffset: number;
+  data: Int8Array;
+  /** Loop start in bytes (even) */
+  loopStart: number;
+  /** Loop length in bytes (even, 2 = no loop) */
+  loopLength: number;
+}
+
+/**
+ * A MOD pattern cell
+ */
+interface ModCell {
+  period: number;
+  sample: number;
+  effect: number;
+  param: number;
+}
+
+/**
+ * Per-channel state while converting patterns in song order
+ */
+interface ChannelState {
+  instrument: number;
+  note: number;
+  slot: number;
+}
+
+/** MOD effect numbers used when translating XM commands */
+const EFFECT_PORTAMENTO = 0x03;
+const EFFECT_VIBRATO = 0x04;
+const EFFECT_SET_PANNING = 0x08;
+const EFFECT_VOLUME_SLIDE = 0x0a;
+const EFFECT_POSITION_JUMP = 0x0b;
+const EFFECT_SET_VOLUME = 0x0c;
+const EFFECT_PATTERN_BREAK = 0x0d;
+const EFFECT_EXTENDED = 0x0e;
+const EFFECT_SET_SPEED = 0x0f;
+
+/** MOD speed of a module without Fxx commands */
+const MOD_DEFAULT_TEMPO = 6;
+
+/** MOD BPM of a module without Fxx commands */
+const MOD_DEFAULT_BPM = 125;
+
+/**
+ * MOD file writer class
+ */
+export class MODWriter {
+  private issues: ModConversionIssue[] = [];
+
+  /**
+   * Convert an XM module to a MOD file.
+   * Notes become Amiga periods (XM C-3 = ProTracker C-1), 16-bit samples become
+   * 8-bit, patterns longer than 64 rows are split and shorter ones end with a
+   * pattern break. XM-only commands are translated where MOD has an equivalent.
+   * @param module The XM module to convert
+   * @param options Conversion options
+   * @returns The MOD file and a report of everything dropped or approximated
+   */
+  write(module: XMModule, options: ModWriteOptions = {}): ModWriteResult {
+    this.issues = [];
+
+    const channels = this.planChannels(module, options.maxChannels ?? XM_MAX_CHANNELS);
+    const { slots, slotMap } = this.planSamples(module, options.multisample ?? 'split');
+    this.reportInstruments(module);
+
+    const { chunkStart, chunkCount, orders, positionMap } = this.planOrders(module);
+    const patterns = this.convertPatterns(module, channels, slots, slotMap, chunkStart, orders);
+    this.remapJumps(patterns, positionMap);
+    this.setInitialSpeed(module, patterns, orders);
+
+    if (module.header.flags & XM_CONSTANTS.FLAG_LINEAR_FREQUENCY) {
+      this.issue(
+        'approximated',
+        'header',
+        'header.flags',
+        'Linear frequency slides are played as Amiga period slides'
+      );
+    }
+
+    const restart = positionMap[module.header.restartPosition] ?? 0;
+    const data = this.encode(
+      module,
+      channels,
+      slots,
+      patterns.slice(0, chunkCount),
+      orders,
+      restart
+    );
+    return { data, issues: this.issues };
+  }
+
+  /**
+   * Record a conversion issue
+   */
+  private issue(
+    type: ModConversionIssueType,
+    category: ModConversionIssueCategory,
+    path: string,
+    message: string
+  ): void {
+    this.issues.push({ type, category, path, message });
+  }
+
+  /**
+   * Decide how many channels to write and report the ones that are dropped
+   * @returns Number of MOD channels
+   */
+  private planChannels(module: XMModule, maxChannels: number): number {
+    const limit = Math.max(1, Math.min(XM_MAX_CHANNELS, maxChannels));
+    const channels = Math.min(module.header.numberOfChannels, limit);
+
+    for (let channel = channels; channel < module.header.numberOfChannels; channel++) {
+      const used = module.patterns.some((pattern) =>
+        pattern.data.some((row) => {
+          const cell = row[channel];
+          return (
+            cell &&
+            (cell.note !== 0 ||
+              cell.instrument !== 0 ||
+              cell.volume !== undefined ||
+              cell.volumeEffect !== undefined ||
+              cell.effectType !== 0 ||
+              cell.effectParam !== 0)
+          );
+        })
+      );
+      if (used) {
+        this.issue(
+          'dropped',
+          'channel',
+          'header.numberOfChannels',
+          `Channel ${channel + 1} exceeds the limit of ${channels} channels`
+        );
+      }
+    }
+
+    // MOD players expect at least four channels
+    return Math.max(4, channels);
+  }
+
+  /**
+   * Assign MOD sample slots to the samples of every instrument
+   * @returns The converted slots and, per instrument, the slot of each of its samples
+   */
+  private planSamples(
+    module: XMModule,
+    mode: 'split' | 'first'
+  ): { slots: ModSampleSlot[]; slotMap: number[][] } {
+    const slots: ModSampleSlot[] = [];
+    const slotMap: number[][] = [];
+
+    module.instruments.forEach((instrument, i) => {
+      const path = `instruments[${i}]`;
+      const map: number[] = [];
+      slotMap.push(map);
+
+      if (slots.length >= MOD_SAMPLE_COUNT) {
+        this.issue(
+          'dropped',
+          'instrument',
+          path,
+          `Instrument ${i + 1} does not fit in ${MOD_SAMPLE_COUNT} MOD samples`
+        );
+        return;
+      }
+
+      // Silent instruments still need a slot so their notes stay silent
+      if (instrument.samples.length === 0) {
+        slots.push(this.emptySlot(instrument.header.name));
+        map[0] = slots.length;
+        return;
+      }
+
+      const noteMap = instrument.extendedHeader?.sampleNumberForNotes ?? [];
+      const counts = new Array(instrument.samples.length).fill(0);
+      for (const sampleIndex of noteMap) {
+        if (sampleIndex < counts.length) {
+          counts[sampleIndex]++;
+        }
+      }
+      const primary = counts.indexOf(Math.max(...counts));
+
+      let used: number[];
+      if (mode === 'first') {
+        used = [primary];
+      } else {
+        used = counts.map((count, index) => (count > 0 ? index : -1)).filter((index) => index >= 0);
+        if (used.length === 0) {
+          used = [primary];
+        }
+      }
+
+      for (const sampleIndex of used) {
+        const samplePath = `${path}.samples[${sampleIndex}]`;
+        if (slots.length >= MOD_SAMPLE_COUNT) {
+          this.issue(
+            'dropped',
+            'sample',
+            samplePath,
+            `Sample does not fit in ${MOD_SAMPLE_COUNT} MOD samples`
+          );
+          continue;
+        }
+        const sample = instrument.samples[sampleIndex];
+        const name = sampleIndex === primary ? instrument.header.name : sample.header.name;
+        slots.push(this.convertSample(sample, name, samplePath));
+        map[sampleIndex] = slots.length;
+      }
+
+      instrument.samples.forEach((_, sampleIndex) => {
+        if (map[sampleIndex] !== undefined) {
+          return;
+        }
+        if (mode === 'first' && counts[sampleIndex] > 0) {
+          map[sampleIndex] = map[primary];
+          this.issue(
+            'approximated',
+            'sample',
+            `${path}.samples[${sampleIndex}]`,
+            `Notes mapped to this sample play sample ${primary} instead`
+          );
+        } else if (counts[sampleIndex] === 0 && sampleIndex !== primary) {
+          this.issue(
+            'dropped',
+            'sample',
+            `${path}.samples[${sampleIndex}]`,
+            'Sample is not mapped to any note'
+          );
+        }
+      });
+    });
+
+    return { slots, slotMap };
+  }
+
+  /**
+   * Create a silent sample slot
+   */
+  private emptySlot(name: string): ModSampleSlot {
+    return {
+      name,
+      volume: 0,
+      finetune: 0,
+      noteOffset: 0,
+      data: new Int8Array(0),
+      loopStart: 0,
+      loopLength: 2,
+    };
+  }
+
+  /**
+   * Convert a sample to 8-bit MOD format
+   * @param sample The sample to convert
+   * @param name Name of the MOD sample
+   * @param path Path of the sample in the module
+   * @returns The converted slot
+   */
+  private convertSample(sample: XMSample, name: string, path: string): ModSampleSlot {
+    let data: Int8Array;
+    if (sample.data instanceof Int16Array) {
+      data = new Int8Array(sample.data.length);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = Math.max(-128, Math.min(127, Math.round(sample.data[i] / 256)));
+      }
+      this.issue('approximated', 'sample', `${path}.data`, '16-bit sample converted to 8-bit');
+    } else {
+      data = sample.data;
+    }
+
+    if (data.length > MOD_MAX_SAMPLE_LENGTH) {
+      this.issue(
+        'dropped',
+        'sample',
+        `${path}.header.length`,
+        `Sample truncated from ${data.length} to ${MOD_MAX_SAMPLE_LENGTH} bytes`
+      );
+      data = data.subarray(0, MOD_MAX_SAMPLE_LENGTH);
+    }
+    // MOD sample lengths are counted in words
+    if (data.length & 1) {
+      const padded = new Int8Array(data.length + 1);
+      padded.set(data);
+      data = padded;
+    }
+
+    let loopStart = 0;
+    let loopLength = 2;
+    const loopType = sample.header.type & 0x03;
+    if (loopType !== LoopType.None && sample.header.loopLength > 0) {
+      if (loopType === LoopType.PingPong) {
+        this.issue(
+          'approximated',
+          'sample',
+          `${path}.header.type`,
+          'Ping-pong loop converted to a forward loop'
+        );
+      }
+      const start = Math.min(sample.header.loopStart, data.length);
+      const end = Math.min(sample.header.loopStart + sample.header.loopLength, data.length);
+      loopStart = start & ~1;
+      loopLength = Math.max(2, (end - loopStart) & ~1);
+      if (loopStart + loopLength > data.length) {
+        loopLength = (data.length - loopStart) & ~1;
+      }
+      if (loopStart !== sample.header.loopStart || loopLength !== sample.header.loopLength) {
+        this.issue(
+          'approximated',
+          'sample',
+          `${path}.header.loopStart`,
+          `Loop moved to word boundaries (${loopStart}+${loopLength})`
+        );
+      }
+    }
+
+    if (sample.header.panning !== 128) {
+      this.issue('dropped', 'sample', `${path}.header.panning`, 'MOD samples have no panning');
+    }
+
+    // The relative note is added to every note; the rest becomes the finetune nibble
+    const units = Math.round(
+      (sample.header.relativeNoteNumber * 128 + sample.header.fineTune) / 16
+    );
+    const noteOffset = Math.round(units / 8);
+    const finetune = units - noteOffset * 8;
+    if (units * 16 !== sample.header.relativeNoteNumber * 128 + sample.header.fineTune) {
+      this.issue(
+        'approximated',
+        'sample',
+        `${path}.header.fineTune`,
+        'Fine tune rounded to 1/8 semitone'
+      );
+    }
+
+    return {
+      name,
+      volume: Math.max(0, Math.min(64, sample.header.volume)),
+      finetune,
+      noteOffset,
+      data,
+      loopStart,
+      loopLength,
+    };
+  }
+
+  /**
+   * Report instrument features that MOD cannot express
+   */
+  private reportInstruments(module: XMModule): void {
+    module.instruments.forEach((instrument, i) => {
+      const extended = instrument.extendedHeader;
+      if (!extended || instrument.samples.length === 0) {
+        return;
+      }
+      const path = `instruments[${i}].extendedHeader`;
+      if (extended.volumeEnvelope.type & 0x01) {
+        this.issue('dropped', 'envelope', `${path}.volumeEnvelope`, 'Volume envelope dropped');
+        if (extended.volumeFadeOut > 0) {
+          this.issue('dropped', 'envelope', `${path}.volumeFadeOut`, 'Volume fadeout dropped');
+        }
+      }
+      if (extended.panningEnvelope.type & 0x01) {
+        this.issue('dropped', 'envelope', `${path}.panningEnvelope`, 'Panning envelope dropped');
+      }
+      if (extended.vibratoDepth > 0) {
+        this.issue('dropped', 'instrument', `${path}.vibratoDepth`, 'Auto-vibrato dropped');
+      }
+    });
+  }
+
+  /**
+   * Lay out MOD patterns and the order table.
+   * Patterns longer than 64 rows are split into consecutive MOD patterns.
+   * @returns The first MOD pattern of each XM pattern, the MOD order table and
+   *          the MOD order position of each XM order position
+   */
+  private planOrders(module: XMModule): {
+    chunkStart: number[];
+    chunkCount: number;
+    orders: number[];
+    positionMap: number[];
+  } {
+    const chunks = module.patterns.map((pattern) =>
+      Math.max(1, Math.ceil(pattern.header.numberOfRows / MOD_PATTERN_ROWS))
+    );
+
+    // Patterns in the song come first so they survive the pattern limit
+    const songPatterns: number[] = [];
+    for (let position = 0; position < module.header.songLength; position++) {
+      const pattern = module.header.patternOrderTable[position];
+      if (pattern < module.patterns.length && !songPatterns.includes(pattern)) {
+        songPatterns.push(pattern);
+      }
+    }
+    module.patterns.forEach((_, index) => {
+      if (!songPatterns.includes(index)) {
+        songPatterns.push(index);
+      }
+    });
+
+    const chunkStart: number[] = [];
+    let chunkCount = 0;
+    for (const pattern of songPatterns) {
+      if (chunkCount + chunks[pattern] > MOD_ORDER_TABLE_SIZE) {
+        this.issue(
+          'dropped',
+          'pattern',
+          `patterns[${pattern}]`,
+          `Pattern does not fit in ${MOD_ORDER_TABLE_SIZE} MOD patterns`
+        );
+        continue;
+      }
+      chunkStart[pattern] = chunkCount;
+      chunkCount += chunks[pattern];
+    }
+
+    const orders: number[] = [];
+    const positionMap: number[] = [];
+    for (let position = 0; position < module.header.songLength; position++) {
+      const path = `header.patternOrderTable[${position}]`;
+      const pattern = module.header.patternOrderTable[position];
+      if (chunkStart[pattern] === undefined) {
+        this.issue('dropped', 'order', path, `Order position refers to missing pattern ${pattern}`);
+        continue;
+      }
+      if (orders.length + chunks[pattern] > MOD_ORDER_TABLE_SIZE) {
+        this.issue(
+          'dropped',
+          'order',
+          path,
+          `Order position does not fit in ${MOD_ORDER_TABLE_SIZE} MOD positions`
+        );
+        continue;
+      }
+      positionMap[position] = orders.length;
+      for (let chunk = 0; chunk < chunks[pattern]; chunk++) {
+        orders.push(chunkStart[pattern] + chunk);
+      }
+    }
+    if (orders.length === 0) {
+      orders.push(0);
+    }
+
+    return { chunkStart, chunkCount, orders, positionMap };
+  }
+
+  /**
+   * Convert all patterns, following the song order so notes without an
+   * instrument number pick the sample last used on their channel
+   * @returns MOD patterns in MOD pattern order
+   */
+  private convertPatterns(
+    module: XMModule,
+    channels: number,
+    slots: ModSampleSlot[],
+    slotMap: number[][],
+    chunkStart: number[],
+    orders: number[]
+  ): ModCell[][][] {
+    const patterns: ModCell[][][] = [];
+    const state: ChannelState[] = [];
+    for (let channel = 0; channel < channels; channel++) {
+      state.push({ instrument: 0, note: 0, slot: 0 });
+    }
+
+    const visitOrder: number[] = [];
+    for (const order of orders) {
+      const index = chunkStart.indexOf(order);
+      if (index >= 0 && !visitOrder.includes(index)) {
+        visitOrder.push(index);
+      }
+    }
+    chunkStart.forEach((start, index) => {
+      if (start !== undefined && !visitOrder.includes(index)) {
+        visitOrder.push(index);
+      }
+    });
+
+    for (const index of visitOrder) {
+      const pattern = module.patterns[index];
+      const rows = pattern.header.numberOfRows;
+      const chunks = Math.max(1, Math.ceil(rows / MOD_PATTERN_ROWS));
+
+      for (let chunk = 0; chunk < chunks; chunk++) {
+        const cells: ModCell[][] = [];
+        for (let r = 0; r < MOD_PATTERN_ROWS; r++) {
+          const row = chunk * MOD_PATTERN_ROWS + r;
+          const modRow: ModCell[] = [];
+          for (let channel = 0; channel < channels; channel++) {
+            // Rows missing from the data are empty; rows past numberOfRows are not played
+            const cell = row < rows ? pattern.data[row]?.[channel] : undefined;
+            modRow.push(
+              cell
+                ? this.convertCell(
+                    cell,
+                    state[channel],
+                    module,
+                    slots,
+                    slotMap,
+                    `patterns[${index}].data[${row}][${channel}]`,
+                    chunk < chunks - 1
+                  )
+                : { period: 0, sample: 0, effect: 0, param: 0 }
+            );
+          }
+          cells.push(modRow);
+        }
+
+        // Short patterns end with a pattern break
+        const lastRow = rows - chunk * MOD_PATTERN_ROWS - 1;
+        if (lastRow < MOD_PATTERN_ROWS - 1) {
+          this.addPatternBreak(cells[Math.max(0, lastRow)], `patterns[${index}]`);
+        }
+
+        patterns[chunkStart[index] + chunk] = cells;
+      }
+    }
+
+    return patterns;
+  }
+
+  /**
+   * End a MOD pattern early with D00 on the given row
+   */
+  private addPatternBreak(row: ModCell[], path: string): void {
+    if (
+      row.some(
+        (cell) => cell.effect === EFFECT_POSITION_JUMP || cell.effect === EFFECT_PATTERN_BREAK
+      )
+    ) {
+      return;
+    }
+    const free = row.find((cell) => cell.effect === 0 && cell.param === 0);
+    if (free) {
+      free.effect = EFFECT_PATTERN_BREAK;
+      free.param = 0;
+    } else {
+      this.issue(
+        'approximated',
+        'pattern',
+        `${path}.header.numberOfRows`,
+        'No free effect column for a pattern break; the pattern plays 64 rows'
+      );
+    }
+  }
+
+  /**
+   * Convert one pattern cell
+   * @param cell The XM cell
+   * @param state State of the channel the cell is on
+   * @param module The module being converted
+   * @param slots Converted sample slots
+   * @param slotMap Slot of each sample of each instrument
+   * @param path Path of the cell in the module
+   * @param splitChunk Whether the cell is in a part of a split pattern that is followed by another part
+   * @returns The MOD cell
+   */
+  private convertCell(
+    cell: XMPatternNote,
+    state: ChannelState,
+    module: XMModule,
+    slots: ModSampleSlot[],
+    slotMap: number[][],
+    path: string,
+    splitChunk: boolean
+  ): ModCell {
+    const out: ModCell = { period: 0, sample: 0, effect: 0, param: 0 };
+
+    if (cell.instrument !== 0) {
+      state.instrument = cell.instrument;
+    }
+
+    if (cell.note >= 1 && cell.note <= 96) {
+      state.note = cell.note;
+      const slot = this.slotFor(module, slotMap, state.instrument, cell.note);
+      if (slot === 0) {
+        if (state.instrument !== 0) {
+          this.issue('dropped', 'note', `${path}.note`, 'Note plays a sample that was dropped');
+        }
+      } else {
+        out.period = this.notePeriod(cell.note + slots[slot - 1].noteOffset, `${path}.note`);
+        if (cell.instrument !== 0 || slot !== state.slot) {
+          out.sample = slot;
+        }
+        state.slot = slot;
+      }
+    } else if (cell.instrument !== 0) {
+      // Instrument without a note resets the volume of the current sample
+      const slot = this.slotFor(module, slotMap, cell.instrument, state.note || 49);
+      out.sample = slot;
+      if (slot !== 0) {
+        state.slot = slot;
+      }
+    }
+
+    // Commands in order of priority for the single MOD effect column
+    const commands: { effect: number; param: number; path: string; name: string }[] = [];
+    const effect = this.convertEffect(cell, `${path}.effectType`, splitChunk);
+    if (effect) {
+      commands.push({ ...effect, path: `${path}.effectType`, name: 'Effect' });
+    }
+    if (cell.note === XM_CONSTANTS.NOTE_OFF) {
+      // Without envelopes a key off cuts the note
+      commands.push({
+        effect: EFFECT_EXTENDED,
+        param: 0xc0,
+        path: `${path}.note`,
+        name: 'Note off',
+      });
+    }
+    const volumePath = `${path}.${cell.volume !== undefined ? 'volume' : 'volumeEffect'}`;
+    const volume = this.convertVolumeColumn(cell, volumePath);
+    if (volume) {
+      commands.push({ ...volume, path: volumePath, name: 'Volume column' });
+    }
+
+    commands.forEach((command, index) => {
+      if (index === 0) {
+        out.effect = command.effect;
+        out.param = command.param;
+      } else {
+        this.issue(
+          'dropped',
+          command.path.endsWith('.note') ? 'note' : 'volumeColumn',
+          command.path,
+          `${command.name} dropped: the effect column is already in use`
+        );
+      }
+    });
+
+    return out;
+  }
+
+  /**
+   * Find the MOD sample slot that plays a note of an instrument
+   * @returns 1-based slot number, or 0 if there is none
+   */
+  private slotFor(module: XMModule, slotMap: number[][], instrument: number, note: number): number {
+    const xmInstrument = module.instruments[instrument - 1];
+    if (!xmInstrument) {
+      return 0;
+    }
+    const sampleIndex = xmInstrument.extendedHeader?.sampleNumberForNotes[note - 1] ?? 0;
+    return slotMap[instrument - 1]?.[sampleIndex] ?? 0;
+  }
+
+  /**
+   * Get the Amiga period of a note, moving notes outside ProTracker's three
+   * octaves by whole octaves
+   * @param note XM note including the sample's relative note
+   * @param path Path of the note in the module
+   * @returns Period at finetune 0
+   */
+  private notePeriod(note: number, path: string): number {
+    let index = note - MOD_NOTE_C1;
+    if (index < 0 || index >= MOD_PERIODS.length) {
+      const octaves = index < 0 ? Math.ceil(-index / 12) : -Math.ceil((index - 35) / 12);
+      index += octaves * 12;
+      this.issue(
+        'approximated',
+        'note',
+        path,
+        `Note is outside the ProTracker range and was moved ${Math.abs(octaves)} octave(s) ${
+          octaves > 0 ? 'up' : 'down'
+        }`
+      );
+    }
+    return MOD_PERIODS[index];
+  }
+
+  /**
+   * Translate the effect column
+   * @returns MOD effect and parameter, or null if there is none
+   */
+  private convertEffect(
+    cell: XMPatternNote,
+    path: string,
+    splitChunk: boolean
+  ): { effect: number; param: number } | null {
+    const type = cell.effectType;
+    const param = cell.effectParam;
+    if (type === 0 && param === 0) {
+      return null;
+    }
+
+    switch (type) {
+      case EFFECT_PATTERN_BREAK: {
+        const row = (param >> 4) * 10 + (param & 0x0f);
+        if (splitChunk) {
+          this.issue(
+            'approximated',
+            'effect',
+            path,
+            'Pattern break inside a split pattern continues with the rest of the pattern'
+          );
+        }
+        if (row >= MOD_PATTERN_ROWS) {
+          this.issue('approximated', 'effect', path, `Pattern break to row ${row} becomes D00`);
+          return { effect: type, param: 0 };
+        }
+        return { effect: type, param };
+      }
+      case 0x10: // Gxx: Set global volume
+        this.issue('dropped', 'effect', path, 'Global volume (Gxx) has no MOD equivalent');
+        return null;
+      case 0x11: // Hxy: Global volume slide
+        this.issue('dropped', 'effect', path, 'Global volume slide (Hxy) has no MOD equivalent');
+        return null;
+      case 0x14: // Kxx: Key off, which cuts the note without envelopes
+        if (param > 0x0f) {
+          this.issue(
+            'approximated',
+            'effect',
+            path,
+            'Key off (Kxx) after tick 15 moved to tick 15'
+          );
+        }
+        return { effect: EFFECT_EXTENDED, param: 0xc0 | Math.min(0x0f, param) };
+      case 0x15: // Lxx: Set envelope position
+        this.issue('dropped', 'effect', path, 'Envelope position (Lxx) has no MOD equivalent');
+        return null;
+      case 0x19: // Pxy: Panning slide
+        this.issue('dropped', 'effect', path, 'Panning slide (Pxy) has no MOD equivalent');
+        return null;
+      case 0x1b: // Rxy: Multi retrig note
+        if (param >> 4 !== 0 && param >> 4 !== 8) {
+          this.issue(
+            'approximated',
+            'effect',
+            path,
+            'Multi retrig (Rxy) volume change dropped, converted to E9y'
+          );
+        }
+        return { effect: EFFECT_EXTENDED, param: 0x90 | (param & 0x0f) };
+      case 0x1d: // Txy: Tremor
+        this.issue('dropped', 'effect', path, 'Tremor (Txy) has no MOD equivalent');
+        return null;
+      case 0x21: {
+        // X1y/X2y: Extra fine portamento, four times finer than E1y/E2y
+        const sub = param >> 4;
+        const amount = Math.round((param & 0x0f) / 4);
+        if ((sub === 1 || sub === 2) && amount > 0) {
+          this.issue(
+            'approximated',
+            'effect',
+            path,
+            `Extra fine portamento converted to E${sub}${amount.toString(16).toUpperCase()}`
+          );
+          return { effect: EFFECT_EXTENDED, param: (sub << 4) | amount };
+        }
+        this.issue('dropped', 'effect', path, 'Extra fine portamento is too small for MOD');
+        return null;
+      }
+      default:
+        if (type <= 0x0f) {
+          return { effect: type, param };
+        }
+        this.issue('dropped', 'effect', path, `Effect ${type} has no MOD equivalent`);
+        return null;
+    }
+  }
+
+  /**
+   * Translate the volume column into an effect
+   * @returns MOD effect and parameter, or null if there is none
+   */
+  private convertVolumeColumn(
+    cell: XMPatternNote,
+    path: string
+  ): { effect: number; param: number } | null {
+    if (cell.volume !== undefined) {
+      return { effect: EFFECT_SET_VOLUME, param: Math.min(64, cell.volume) };
+    }
+    if (cell.volumeEffect === undefined) {
+      return null;
+    }
+
+    const value = cell.volumeEffect & 0x0f;
+    switch (cell.volumeEffect >> 4) {
+      case 0x6: // Volume slide down
+        return value ? { effect: EFFECT_VOLUME_SLIDE, param: value } : null;
+      case 0x7: // Volume slide up
+        return value ? { effect: EFFECT_VOLUME_SLIDE, param: value << 4 } : null;
+      case 0x8: // Fine volume slide down
+        return value ? { effect: EFFECT_EXTENDED, param: 0xb0 | value } : null;
+      case 0x9: // Fine volume slide up
+        return value ? { effect: EFFECT_EXTENDED, param: 0xa0 | value } : null;
+      case 0xa: // Set vibrato speed
+        this.issue(
+          'approximated',
+          'volumeColumn',
+          path,
+          'Vibrato speed converted to a vibrato (4x0)'
+        );
+        return { effect: EFFECT_VIBRATO, param: value << 4 };
+      case 0xb: // Vibrato
+        return { effect: EFFECT_VIBRATO, param: value };
+      case 0xc: // Set panning
+        return { effect: EFFECT_SET_PANNING, param: value * 17 };
+      case 0xd: // Panning slide left
+      case 0xe: // Panning slide right
+        this.issue('dropped', 'volumeColumn', path, 'Panning slide has no MOD equivalent');
+        return null;
+      case 0xf: // Tone portamento
+        return { effect: EFFECT_PORTAMENTO, param: value << 4 };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Point position jumps at the MOD order positions of their targets
+   */
+  private remapJumps(patterns: ModCell[][][], positionMap: number[]): void {
+    for (const pattern of patterns) {
+      for (const row of pattern ?? []) {
+        for (const cell of row) {
+          if (cell.effect === EFFECT_POSITION_JUMP) {
+            cell.param = positionMap[cell.param] ?? 0;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Set the module's initial speed and BPM on the first row of the song
+   */
+  private setInitialSpeed(module: XMModule, patterns: ModCell[][][], orders: number[]): void {
+    const commands: number[] = [];
+    if (module.header.defaultTempo !== MOD_DEFAULT_TEMPO) {
+      commands.push(Math.max(1, Math.min(31, module.header.defaultTempo)));
+    }
+    if (module.header.defaultBPM !== MOD_DEFAULT_BPM) {
+      commands.push(Math.max(32, Math.min(255, module.header.defaultBPM)));
+    }
+
+    const row = patterns[orders[0]]?.[0];
+    for (const param of commands) {
+      const free = row?.find((cell) => cell.effect === 0 && cell.param === 0);
+      if (free) {
+        free.effect = EFFECT_SET_SPEED;
+        free.param = param;
+      } else {
+        this.issue(
+          'dropped',
+          'header',
+          param < 32 ? 'header.defaultTempo' : 'header.defaultBPM',
+          'No free effect column on the first row for the initial speed'
+        );
+      }
+    }
+  }
+
+  /**
+   * Write the MOD file
+   */
+  private encode(
+    module: XMModule,
+    channels: number,
+    slots: ModSampleSlot[],
+    patterns: ModCell[][][],
+    orders: number[],
+    restart: number
+  ): ArrayBuffer {
+    const writer = new BinaryWriter();
+
+    writer.writeString(module.header.moduleName, 20);
+    for (let i = 0; i < MOD_SAMPLE_COUNT; i++) {
+      const slot = slots[i] ?? this.emptySlot('');
+      writer.writeString(slot.name, 22);
+      writer.writeUint16BE(slot.data.length / 2);
+      writer.writeUint8(slot.finetune & 0x0f);
+      writer.writeUint8(slot.volume);
+      writer.writeUint16BE(slot.loopStart / 2);
+      writer.writeUint16BE(slot.loopLength / 2);
+    }
+
+    writer.writeUint8(orders.length);
+    writer.writeUint8(restart);
+    for (let i = 0; i < MOD_ORDER_TABLE_SIZE; i++) {
+      writer.writeUint8(orders[i] ?? 0);
+    }
+
+    // M.K. modules are limited to 64 patterns, M!K! lifts the limit
+    let signature: string;
+    if (channels === 4) {
+      signature = patterns.length > 64 ? 'M!K!' : 'M.K.';
+    } else {
+      signature = channels < 10 ? `${channels}CHN` : `${channels}CH`;
+    }
+    writer.writeString(signature, 4);
+
+    // Every pattern up to the highest one in the order table is stored
+    const storedPatterns = Math.max(...orders) + 1;
+    for (let p = 0; p < storedPatterns; p++) {
+      for (let row = 0; row < MOD_PATTERN_ROWS; row++) {
+        for (let channel = 0; channel < channels; channel++) {
+          const cell = patterns[p]?.[row]?.[channel];
+          if (!cell) {
+            writer.writeZeros(4);
+            continue;
+          }
+          writer.writeUint8((cell.sample & 0xf0) | (cell.period >> 8));
+          writer.writeUint8(cell.period & 0xff);
+          writer.writeUint8(((cell.sample & 0x0f) << 4) | cell.effect);
+          writer.writeUint8(cell.param);
+        }
+      }
+    }
+
+    for (let i = 0; i < MOD_SAMPLE_COUNT; i++) {
+      const slot = slots[i];
+      if (slot) {
+        writer.writeBytes(new Uint8Array(slot.data.buffer, slot.data.byteOffset, slot.data.length));
+      }
+    }
+
+    return writer.getBuffer();
+  }
+}
+
+/**
+ * Convert an XM module and save it as a MOD file (Node.js only)
+ * @param module The XM module to convert
+ * @param filename The output filename
+ * @param options Conversion options
+ * @returns Everything that was dropped or approximated
+ */
+export async function saveModToFile(
+  module: XMModule,
+  filename: string,
+  options: ModWriteOptions = {}
+): Promise<ModConversionIssue[]> {
+  const writer = new MODWriter();
+  const { data, issues } = writer.write(module, options);
+
+  // Dynamic import for Node.js fs module
+  const { promises: fs } = await import('fs');
+  await fs.writeFile(filename, Buffer.from(data));
+  return issues;
+}
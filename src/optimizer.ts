@@ -0,0 +1,267 @@
+/**
+ * Module optimizer
+ * Shrinks generated modules by merging identical patterns, dropping patterns
+ * and instruments nothing uses and cutting sample data nothing plays
+ */
+
+import { XMPatternNote, LoopType } from './types';
+import { XMCompactPattern, XMPatternLike, XMWritableModule } from './compactPattern';
+import { computeModuleSize } from './xmWriter';
+
+/**
+ * Options for optimizing a module; every step is on by default
+ */
+export interface XMOptimizeOptions {
+  /** Merge patterns that are written as identical bytes and update the order list */
+  mergePatterns?: boolean;
+  /** Remove patterns the order list does not play */
+  removeUnusedPatterns?: boolean;
+  /** Remove instruments no pattern cell references and renumber the rest */
+  removeUnusedInstruments?: boolean;
+  /** Cut the data of looped samples after the loop end */
+  trimSamples?: boolean;
+}
+
+/**
+ * What `optimizeModule` changed
+ */
+export interface XMOptimizeReport {
+  /** File size before optimizing */
+  bytesBefore: number;
+  /** File size after optimizing */
+  bytesAfter: number;
+  /** bytesBefore - bytesAfter */
+  bytesSaved: number;
+  /** Patterns removed because an identical pattern was kept */
+  patternsMerged: number;
+  /** Patterns removed because the order list does not play them */
+  patternsRemoved: number;
+  /** Instruments removed because no cell references them */
+  instrumentsRemoved: number;
+  /** Samples whose data was cut after the loop end */
+  samplesTrimmed: number;
+}
+
+/**
+ * Optimize a module in place. Only the first `songLength` order positions
+ * count as played; later positions are pointed at pattern 0 if their pattern
+ * is removed. Instrument numbers that refer to no instrument are left as they are.
+ * @example
+ * ```typescript
+ * const report = optimizeModule(module);
+ * console.log(`Saved ${report.bytesSaved} bytes`);
+ * ```
+ * @param module The module to optimize; patterns may be in either form
+ * @param options Steps to run (default: all)
+ * @returns What changed and the bytes saved
+ */
+export function optimizeModule(
+  module: XMWritableModule,
+  options: XMOptimizeOptions = {}
+): XMOptimizeReport {
+  const { header } = module;
+  const order = header.patternOrderTable;
+  for (let position = 0; position < header.songLength; position++) {
+    if (!(order[position] < module.patterns.length)) {
+      throw new Error(
+        `Order position ${position} references pattern ${order[position]}, but only ${module.patterns.length} patterns exist`
+      );
+    }
+  }
+
+  const bytesBefore = computeModuleSize(module);
+  const report: XMOptimizeReport = {
+    bytesBefore,
+    bytesAfter: bytesBefore,
+    bytesSaved: 0,
+    patternsMerged: 0,
+    patternsRemoved: 0,
+    instrumentsRemoved: 0,
+    samplesTrimmed: 0,
+  };
+
+  if (options.trimSamples ?? true) {
+    report.samplesTrimmed = trimLoopedSamples(module);
+  }
+  if ((options.mergePatterns ?? true) || (options.removeUnusedPatterns ?? true)) {
+    Object.assign(
+      report,
+      rebuildPatterns(module, options.mergePatterns ?? true, options.removeUnusedPatterns ?? true)
+    );
+  }
+  if (options.removeUnusedInstruments ?? true) {
+    report.instrumentsRemoved = removeUnusedInstruments(module);
+  }
+
+  report.bytesAfter = computeModuleSize(module);
+  report.bytesSaved = bytesBefore - report.bytesAfter;
+  return report;
+}
+
+/**
+ * Cut looped samples after their loop end
+ * @returns Number of samples trimmed
+ */
+function trimLoopedSamples(module: XMWritableModule): number {
+  let trimmed = 0;
+  for (const instrument of module.instruments) {
+    for (const sample of instrument.samples) {
+      const { header } = sample;
+      const loopEnd = header.loopStart + header.loopLength;
+      if ((header.type & 0x03) === LoopType.None || header.loopLength === 0) {
+        continue;
+      }
+      if (loopEnd < sample.data.length) {
+        sample.data = sample.data.slice(0, loopEnd);
+        header.length = loopEnd * (sample.data instanceof Int16Array ? 2 : 1);
+        trimmed++;
+      }
+    }
+  }
+  return trimmed;
+}
+
+/**
+ * Merge identical patterns and drop unplayed ones, rewriting the order list
+ */
+function rebuildPatterns(
+  module: XMWritableModule,
+  merge: boolean,
+  removeUnused: boolean
+): Pick<XMOptimizeReport, 'patternsMerged' | 'patternsRemoved'> {
+  const { header, patterns } = module;
+  const order = header.patternOrderTable;
+
+  // Index of the first pattern with the same bytes as each pattern
+  const canonical = patterns.map((_, index) => index);
+  if (merge) {
+    const firstByKey = new Map<string, number>();
+    patterns.forEach((pattern, index) => {
+      const key = patternKey(pattern, header.numberOfChannels);
+      const first = firstByKey.get(key);
+      if (first === undefined) {
+        firstByKey.set(key, index);
+      } else {
+        canonical[index] = first;
+      }
+    });
+  }
+
+  const played = new Set(order.slice(0, header.songLength).map((entry) => canonical[entry]));
+  const newIndex = new Map<number, number>();
+  const kept: XMPatternLike[] = [];
+  let patternsMerged = 0;
+  let patternsRemoved = 0;
+  patterns.forEach((pattern, index) => {
+    if (canonical[index] !== index) {
+      patternsMerged++;
+    } else if (removeUnused && !played.has(index)) {
+      patternsRemoved++;
+    } else {
+      newIndex.set(index, kept.length);
+      kept.push(pattern);
+    }
+  });
+
+  for (let position = 0; position < order.length; position++) {
+    order[position] = newIndex.get(canonical[order[position]]) ?? 0;
+  }
+  module.patterns = kept;
+  header.numberOfPatterns = kept.length;
+  return { patternsMerged, patternsRemoved };
+}
+
+/**
+ * Remove instruments no cell references and renumber every cell
+ * @returns Number of instruments removed
+ */
+function removeUnusedInstruments(module: XMWritableModule): number {
+  const count = module.instruments.length;
+  const used = new Set<number>();
+  forEachInstrumentField(module, (instrument) => {
+    used.add(instrument);
+    return instrument;
+  });
+
+  const newNumber = new Map<number, number>();
+  module.instruments = module.instruments.filter((_, index) => {
+    if (!used.has(index + 1)) {
+      return false;
+    }
+    newNumber.set(index + 1, newNumber.size + 1);
+    return true;
+  });
+  module.header.numberOfInstruments = module.instruments.length;
+
+  forEachInstrumentField(module, (instrument) => newNumber.get(instrument) ?? instrument);
+  return count - module.instruments.length;
+}
+
+/**
+ * Visit the non-zero instrument field of every cell in the module's channels
+ * @param update Returns the new instrument number
+ */
+function forEachInstrumentField(
+  module: XMWritableModule,
+  update: (instrument: number) => number
+): void {
+  const channels = module.header.numberOfChannels;
+  for (const pattern of module.patterns) {
+    if (pattern instanceof XMCompactPattern) {
+      for (let row = 0; row < pattern.numberOfRows; row++) {
+        for (let channel = 0; channel < Math.min(channels, pattern.numberOfChannels); channel++) {
+          const instrument = pattern.getField(row, channel, 'instrument');
+          if (instrument !== 0) {
+            pattern.setField(row, channel, 'instrument', update(instrument));
+          }
+        }
+      }
+      continue;
+    }
+    for (const rowData of pattern.data.slice(0, pattern.header.numberOfRows)) {
+      for (const note of rowData?.slice(0, channels) ?? []) {
+        if (note && note.instrument !== 0) {
+          note.instrument = update(note.instrument);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * A string holding a pattern's bytes as they are written to a file
+ */
+function patternKey(pattern: XMPatternLike, numberOfChannels: number): string {
+  const rows =
+    pattern instanceof XMCompactPattern ? pattern.numberOfRows : pattern.header.numberOfRows;
+  const bytes: number[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      if (pattern instanceof XMCompactPattern) {
+        if (channel < pattern.numberOfChannels) {
+          bytes.push(
+            pattern.getField(row, channel, 'note'),
+            pattern.getField(row, channel, 'instrument'),
+            pattern.getVolumeColumnByte(row, channel),
+            pattern.getField(row, channel, 'effectType'),
+            pattern.getField(row, channel, 'effectParam')
+          );
+        } else {
+          bytes.push(0, 0, 0, 0, 0);
+        }
+      } else {
+        const note: Partial<XMPatternNote> = pattern.data[row]?.[channel] ?? {};
+        const volumeByte =
+          note.volume !== undefined ? note.volume + 0x10 : (note.volumeEffect ?? 0);
+        bytes.push(
+          note.note ?? 0,
+          note.instrument ?? 0,
+          volumeByte,
+          note.effectType ?? 0,
+          note.effectParam ?? 0
+        );
+      }
+    }
+  }
+  return `${rows}:${bytes.map((value) => value & 0xff).join(',')}`;
+}
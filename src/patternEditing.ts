@@ -0,0 +1,454 @@
+/**
+ * Pattern editing
+ * Tracker block operations on object-form patterns: transpose, copy and
+ * paste, expand and shrink, resize, channel swaps and interpolation. Patterns
+ * are changed in place and `header.numberOfRows` always matches `data`.
+ */
+
+import { XMPattern, XMPatternNote } from './types';
+
+/**
+ * A rectangle of cells; every bound is inclusive and defaults to the pattern edge
+ */
+export interface XMPatternSelection {
+  /** First row (default: 0) */
+  fromRow?: number;
+  /** Last row (default: the last row) */
+  toRow?: number;
+  /** First channel (default: 0) */
+  fromChannel?: number;
+  /** Last channel (default: the last channel) */
+  toChannel?: number;
+}
+
+/**
+ * Options for transposing notes
+ */
+export interface XMTransposeOptions extends XMPatternSelection {
+  /** Only transpose notes played with this instrument number */
+  instrument?: number;
+  /**
+   * What to do with notes that would leave C-0 to B-7: `'skip'` leaves them
+   * unchanged, `'clamp'` moves them to the nearest end (default: `'skip'`)
+   */
+  outOfRange?: 'skip' | 'clamp';
+}
+
+/**
+ * Cells copied out of a pattern, `data[row][channel]`
+ */
+export interface XMPatternBlock {
+  /** Number of rows */
+  rows: number;
+  /** Number of channels */
+  channels: number;
+  /** Copies of the cells */
+  data: XMPatternNote[][];
+}
+
+/**
+ * Options for pasting a block
+ */
+export interface XMPasteOptions {
+  /**
+   * `'overwrite'` replaces the target cells; `'mix'` only fills the note,
+   * instrument, volume column and effect fields that are empty in the target
+   * (default: `'overwrite'`)
+   */
+  mode?: 'overwrite' | 'mix';
+}
+
+/**
+ * Value that can be interpolated down a channel
+ */
+export type XMInterpolateField = 'volume' | 'effectParam';
+
+/** Note value of note off, which is never transposed */
+const NOTE_OFF = 97;
+
+/** Highest playable note (B-7) */
+const MAX_NOTE = 96;
+
+/** Maximum number of rows in a pattern */
+const MAX_ROWS = 256;
+
+/** Maximum number of channels in a pattern */
+const MAX_CHANNELS = 32;
+
+/**
+ * Transpose the notes in a selection
+ * @example
+ * ```typescript
+ * // Bass (instrument 2) down an octave in channels 0-1
+ * transposePattern(pattern, -12, { toChannel: 1, instrument: 2, outOfRange: 'clamp' });
+ * ```
+ * @param pattern The pattern to edit
+ * @param semitones Semitones to move by (negative is down)
+ * @param options Selection, instrument filter and out-of-range handling
+ * @returns Number of notes changed
+ */
+export function transposePattern(
+  pattern: XMPattern,
+  semitones: number,
+  options: XMTransposeOptions = {}
+): number {
+  if (!Number.isInteger(semitones)) {
+    throw new Error(`semitones must be an integer (got ${semitones})`);
+  }
+  const clamp = (options.outOfRange ?? 'skip') === 'clamp';
+  let changed = 0;
+  forEachCell(pattern, options, (note) => {
+    if (note.note === 0 || note.note === NOTE_OFF) {
+      return;
+    }
+    if (options.instrument !== undefined && note.instrument !== options.instrument) {
+      return;
+    }
+    let value = note.note + semitones;
+    if (value < 1 || value > MAX_NOTE) {
+      if (!clamp) {
+        return;
+      }
+      value = Math.max(1, Math.min(MAX_NOTE, value));
+    }
+    if (value !== note.note) {
+      note.note = value;
+      changed++;
+    }
+  });
+  return changed;
+}
+
+/**
+ * Copy the cells of a selection
+ * @param pattern The pattern to copy from
+ * @param selection The cells to copy (default: the whole pattern)
+ * @returns A block holding copies of the cells
+ */
+export function copyBlock(pattern: XMPattern, selection: XMPatternSelection = {}): XMPatternBlock {
+  const { fromRow, toRow, fromChannel, toChannel } = resolveSelection(pattern, selection);
+  const data: XMPatternNote[][] = [];
+  for (let row = fromRow; row <= toRow; row++) {
+    const rowData: XMPatternNote[] = [];
+    for (let channel = fromChannel; channel <= toChannel; channel++) {
+      rowData.push(copyNote(pattern.data[row]?.[channel] ?? emptyNote()));
+    }
+    data.push(rowData);
+  }
+  return { rows: toRow - fromRow + 1, channels: toChannel - fromChannel + 1, data };
+}
+
+/**
+ * Paste a block with its top-left cell at `row`, `channel`. Parts of the block
+ * that fall outside the pattern are dropped.
+ * @param pattern The pattern to paste into
+ * @param block A block from `copyBlock`
+ * @param row Row of the block's first row
+ * @param channel Channel of the block's first channel
+ * @param options Overwrite or mix
+ */
+export function pasteBlock(
+  pattern: XMPattern,
+  block: XMPatternBlock,
+  row: number,
+  channel: number,
+  options: XMPasteOptions = {}
+): void {
+  checkIndex('row', row, pattern.header.numberOfRows, 'rows');
+  checkIndex('channel', channel, channelCount(pattern), 'channels');
+  const mix = (options.mode ?? 'overwrite') === 'mix';
+  const rows = Math.min(block.rows, pattern.header.numberOfRows - row);
+  const channels = Math.min(block.channels, channelCount(pattern) - channel);
+
+  for (let blockRow = 0; blockRow < rows; blockRow++) {
+    const rowData = rowAt(pattern, row + blockRow);
+    for (let blockChannel = 0; blockChannel < channels; blockChannel++) {
+      const source = block.data[blockRow]?.[blockChannel] ?? emptyNote();
+      const target = channel + blockChannel;
+      rowData[target] = mix ? mixNotes(rowData[target], source) : copyNote(source);
+    }
+  }
+}
+
+/**
+ * Double the pattern's length, spreading its rows out so every other row is
+ * empty (a tracker's "expand")
+ * @param pattern The pattern to edit; must have at most 128 rows
+ */
+export function expandPattern(pattern: XMPattern): void {
+  const rows = pattern.header.numberOfRows;
+  if (rows * 2 > MAX_ROWS) {
+    throw new Error(`Cannot expand a pattern of ${rows} rows; it would exceed ${MAX_ROWS}`);
+  }
+  const channels = channelCount(pattern);
+  const data: XMPatternNote[][] = [];
+  for (let row = 0; row < rows; row++) {
+    data.push(rowAt(pattern, row), emptyRow(channels));
+  }
+  setRows(pattern, data);
+}
+
+/**
+ * Halve the pattern's length, keeping the even rows (a tracker's "shrink").
+ * A pattern of one row is left as it is.
+ * @param pattern The pattern to edit
+ */
+export function shrinkPattern(pattern: XMPattern): void {
+  const data: XMPatternNote[][] = [];
+  for (let row = 0; row < pattern.header.numberOfRows; row += 2) {
+    data.push(rowAt(pattern, row));
+  }
+  setRows(pattern, data);
+}
+
+/**
+ * Change the number of rows and channels. New cells are empty; cells past the
+ * new size are dropped.
+ * @param pattern The pattern to edit
+ * @param numberOfRows New number of rows (1-256)
+ * @param numberOfChannels New number of channels (1-32, default: unchanged)
+ */
+export function resizePattern(
+  pattern: XMPattern,
+  numberOfRows: number,
+  numberOfChannels: number = channelCount(pattern)
+): void {
+  if (!Number.isInteger(numberOfRows) || numberOfRows < 1 || numberOfRows > MAX_ROWS) {
+    throw new Error(`numberOfRows must be an integer from 1 to ${MAX_ROWS} (got ${numberOfRows})`);
+  }
+  if (
+    !Number.isInteger(numberOfChannels) ||
+    numberOfChannels < 1 ||
+    numberOfChannels > MAX_CHANNELS
+  ) {
+    throw new Error(
+      `numberOfChannels must be an integer from 1 to ${MAX_CHANNELS} (got ${numberOfChannels})`
+    );
+  }
+  const data: XMPatternNote[][] = [];
+  for (let row = 0; row < numberOfRows; row++) {
+    const rowData = row < pattern.header.numberOfRows ? rowAt(pattern, row) : [];
+    rowData.length = Math.min(rowData.length, numberOfChannels);
+    while (rowData.length < numberOfChannels) {
+      rowData.push(emptyNote());
+    }
+    data.push(rowData);
+  }
+  setRows(pattern, data);
+}
+
+/**
+ * Swap the contents of two channels
+ * @param pattern The pattern to edit
+ * @param a First channel
+ * @param b Second channel
+ */
+export function swapChannels(pattern: XMPattern, a: number, b: number): void {
+  checkIndex('channel', a, channelCount(pattern), 'channels');
+  checkIndex('channel', b, channelCount(pattern), 'channels');
+  for (let row = 0; row < pattern.header.numberOfRows; row++) {
+    const rowData = rowAt(pattern, row);
+    [rowData[a], rowData[b]] = [rowData[b], rowData[a]];
+  }
+}
+
+/**
+ * Copy the contents of one channel over another
+ * @param pattern The pattern to edit
+ * @param source Channel to copy
+ * @param target Channel to overwrite
+ */
+export function duplicateChannel(pattern: XMPattern, source: number, target: number): void {
+  checkIndex('channel', source, channelCount(pattern), 'channels');
+  checkIndex('channel', target, channelCount(pattern), 'channels');
+  for (let row = 0; row < pattern.header.numberOfRows; row++) {
+    const rowData = rowAt(pattern, row);
+    rowData[target] = copyNote(rowData[source]);
+  }
+}
+
+/**
+ * Fill the rows between the first and last row of a selection with values
+ * that step evenly from one to the other, channel by channel. A channel is
+ * only filled if both of its end cells have a value: a `volume`, or for
+ * `effectParam` the same non-zero effect type (which the rows in between get too).
+ * @example
+ * ```typescript
+ * pattern.data[0][0].volume = 64;
+ * pattern.data[16][0].volume = 0;
+ * interpolatePattern(pattern, 'volume', { toRow: 16, fromChannel: 0, toChannel: 0 });
+ * ```
+ * @param pattern The pattern to edit
+ * @param field The value to interpolate
+ * @param selection Rows and channels to fill (default: the whole pattern)
+ * @returns Number of channels filled
+ */
+export function interpolatePattern(
+  pattern: XMPattern,
+  field: XMInterpolateField,
+  selection: XMPatternSelection = {}
+): number {
+  const { fromRow, toRow, fromChannel, toChannel } = resolveSelection(pattern, selection);
+  let filled = 0;
+  for (let channel = fromChannel; channel <= toChannel; channel++) {
+    const first = rowAt(pattern, fromRow)[channel];
+    const last = rowAt(pattern, toRow)[channel];
+    let start: number;
+    let end: number;
+    if (field === 'volume') {
+      if (first.volume === undefined || last.volume === undefined) {
+        continue;
+      }
+      start = first.volume;
+      end = last.volume;
+    } else {
+      if (first.effectType === 0 || first.effectType !== last.effectType) {
+        continue;
+      }
+      start = first.effectParam;
+      end = last.effectParam;
+    }
+
+    for (let row = fromRow + 1; row < toRow; row++) {
+      const note = rowAt(pattern, row)[channel];
+      const value = Math.round(start + ((end - start) * (row - fromRow)) / (toRow - fromRow));
+      if (field === 'volume') {
+        note.volume = value;
+        delete note.volumeEffect;
+      } else {
+        note.effectType = first.effectType;
+        note.effectParam = value;
+      }
+    }
+    filled++;
+  }
+  return filled;
+}
+
+/**
+ * Number of channels of a pattern: the widest row
+ */
+function channelCount(pattern: XMPattern): number {
+  const rows = pattern.data.slice(0, pattern.header.numberOfRows);
+  return Math.max(1, ...rows.map((rowData) => rowData?.length ?? 0));
+}
+
+/**
+ * A row of the pattern, with missing rows and cells filled in as empty cells
+ */
+function rowAt(pattern: XMPattern, row: number): XMPatternNote[] {
+  const channels = channelCount(pattern);
+  const rowData = (pattern.data[row] ??= []);
+  for (let channel = 0; channel < channels; channel++) {
+    rowData[channel] ??= emptyNote();
+  }
+  return rowData;
+}
+
+/**
+ * Replace the pattern's rows and sync the header
+ */
+function setRows(pattern: XMPattern, data: XMPatternNote[][]): void {
+  pattern.data = data;
+  pattern.header.numberOfRows = data.length;
+}
+
+/**
+ * Apply a function to every cell of a selection
+ */
+function forEachCell(
+  pattern: XMPattern,
+  selection: XMPatternSelection,
+  visit: (note: XMPatternNote) => void
+): void {
+  const { fromRow, toRow, fromChannel, toChannel } = resolveSelection(pattern, selection);
+  for (let row = fromRow; row <= toRow; row++) {
+    const rowData = rowAt(pattern, row);
+    for (let channel = fromChannel; channel <= toChannel; channel++) {
+      visit(rowData[channel]);
+    }
+  }
+}
+
+/**
+ * Fill in the defaults of a selection and check it against the pattern
+ */
+function resolveSelection(
+  pattern: XMPattern,
+  selection: XMPatternSelection
+): Required<XMPatternSelection> {
+  const rows = pattern.header.numberOfRows;
+  const channels = channelCount(pattern);
+  const resolved = {
+    fromRow: selection.fromRow ?? 0,
+    toRow: selection.toRow ?? rows - 1,
+    fromChannel: selection.fromChannel ?? 0,
+    toChannel: selection.toChannel ?? channels - 1,
+  };
+  checkIndex('fromRow', resolved.fromRow, rows, 'rows');
+  checkIndex('toRow', resolved.toRow, rows, 'rows');
+  checkIndex('fromChannel', resolved.fromChannel, channels, 'channels');
+  checkIndex('toChannel', resolved.toChannel, channels, 'channels');
+  if (resolved.toRow < resolved.fromRow || resolved.toChannel < resolved.fromChannel) {
+    throw new Error(
+      `Selection ends before it starts (rows ${resolved.fromRow}-${resolved.toRow}, channels ${resolved.fromChannel}-${resolved.toChannel})`
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Check that a row or channel index is within the pattern
+ */
+function checkIndex(name: string, value: number, count: number, unit: string): void {
+  if (!Number.isInteger(value) || value < 0 || value >= count) {
+    throw new Error(`${name} ${value} is out of range (pattern has ${count} ${unit})`);
+  }
+}
+
+/**
+ * Fill the empty fields of a target cell from a source cell
+ */
+function mixNotes(target: XMPatternNote, source: XMPatternNote): XMPatternNote {
+  const mixed = copyNote(target);
+  if (mixed.note === 0) {
+    mixed.note = source.note;
+  }
+  if (mixed.instrument === 0) {
+    mixed.instrument = source.instrument;
+  }
+  if (mixed.volume === undefined && !mixed.volumeEffect) {
+    delete mixed.volumeEffect;
+    if (source.volume !== undefined) {
+      mixed.volume = source.volume;
+    } else if (source.volumeEffect) {
+      mixed.volumeEffect = source.volumeEffect;
+    }
+  }
+  if (mixed.effectType === 0 && mixed.effectParam === 0) {
+    mixed.effectType = source.effectType;
+    mixed.effectParam = source.effectParam;
+  }
+  return mixed;
+}
+
+/**
+ * Copy a cell
+ */
+function copyNote(note: XMPatternNote): XMPatternNote {
+  return { ...note };
+}
+
+/**
+ * A new empty cell
+ */
+function emptyNote(): XMPatternNote {
+  return { note: 0, instrument: 0, effectType: 0, effectParam: 0 };
+}
+
+/**
+ * A new row of empty cells
+ */
+function emptyRow(channels: number): XMPatternNote[] {
+  return Array.from({ length: channels }, emptyNote);
+}
@@ -0,0 +1,234 @@
+/**
+ * Tracker-style text notation for patterns
+ *
+ * One row per line, channels separated by `|`, each cell written as
+ * `note instrument volume effect`:
+ *
+ * ```
+ * C-4 01 40 A0F | --- .. .. ...
+ * OFF .. .. ... | --- .. v6F F06
+ * ```
+ *
+ * - note: `C-4`, `C#4`, `OFF` (note off) or `---` (no note)
+ * - instrument: two hex digits (`01`-`80`) or `..`
+ * - volume column: two hex digits set the `volume` field (`00`-`40`),
+ *   `v` plus two hex digits sets a raw `volumeEffect` byte (`v60`-`vFF`), `..` is empty
+ * - effect: type character (`0`-`9`, `A`-`Z`) plus two hex digits, or `...`
+ */
+
+import { XMPattern, XMPatternNote, XM_CONSTANTS } from './types';
+import { createPattern, noteNameToValue, noteValueToName } from './xmWriter';
+
+/**
+ * Error thrown when pattern text cannot be parsed
+ */
+export class PatternTextError extends Error {
+  /** Line of the error (1-based) */
+  readonly line: number;
+  /** Column of the error (1-based) */
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`Line ${line}, column ${column}: ${message}`);
+    this.name = 'PatternTextError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/** Maximum number of rows in a pattern */
+const MAX_ROWS = 256;
+
+/** Highest instrument number */
+const MAX_INSTRUMENT = 0x80;
+
+/** Highest volume */
+const MAX_VOLUME = 0x40;
+
+/** Lowest volume column command byte (volume slide down) */
+const FIRST_VOLUME_EFFECT = 0x60;
+
+/** Highest effect type that has a character (Z = 35) */
+const MAX_EFFECT_TYPE = 35;
+
+/**
+ * Parse pattern text into a pattern.
+ * Blank lines are ignored and every row must have the same number of channels.
+ * @param text Pattern text, one row per line
+ * @returns A new pattern with one row per line
+ * @throws PatternTextError with the line and column of the first problem
+ */
+export function parsePatternText(text: string): XMPattern {
+  const rows: XMPatternNote[][] = [];
+  const lines = text.split(/\r?\n/);
+
+  lines.forEach((content, index) => {
+    const line = index + 1;
+    if (content.trim() === '') {
+      return;
+    }
+    if (rows.length === MAX_ROWS) {
+      throw new PatternTextError(`A pattern can have at most ${MAX_ROWS} rows`, line, 1);
+    }
+
+    const cells: XMPatternNote[] = [];
+    let offset = 0;
+    for (const segment of content.split('|')) {
+      cells.push(parseCell(segment, line, offset + 1));
+      offset += segment.length + 1;
+    }
+    if (rows.length > 0 && cells.length !== rows[0].length) {
+      throw new PatternTextError(
+        `Expected ${rows[0].length} channels but found ${cells.length}`,
+        line,
+        1
+      );
+    }
+    rows.push(cells);
+  });
+
+  if (rows.length === 0) {
+    throw new PatternTextError('Pattern text has no rows', 1, 1);
+  }
+
+  const pattern = createPattern(rows.length, rows[0].length);
+  pattern.data = rows;
+  return pattern;
+}
+
+/**
+ * Format a pattern as text that parsePatternText reads back unchanged
+ * @param pattern The pattern to format
+ * @returns One line per row, without a trailing newline
+ */
+export function formatPatternText(pattern: XMPattern): string {
+  return pattern.data
+    .map((row, rowIndex) =>
+      row.map((cell, channel) => formatCell(cell, `data[${rowIndex}][${channel}]`)).join(' | ')
+    )
+    .join('\n');
+}
+
+/**
+ * Parse one cell
+ * @param segment Text of the cell between channel separators
+ * @param line Line number (1-based)
+ * @param start Column where the segment starts (1-based)
+ */
+function parseCell(segment: string, line: number, start: number): XMPatternNote {
+  const fields: { text: string; column: number }[] = [];
+  for (const match of segment.matchAll(/\S+/g)) {
+    fields.push({ text: match[0], column: start + match.index! });
+  }
+  if (fields.length !== 4) {
+    const column = fields[4]?.column ?? start;
+    throw new PatternTextError(
+      `Expected 4 fields (note, instrument, volume, effect) but found ${fields.length}`,
+      line,
+      column
+    );
+  }
+  const [note, instrument, volume, effect] = fields;
+  const fail = (field: { text: string; column: number }, message: string): never => {
+    throw new PatternTextError(`${message} "${field.text}"`, line, field.column);
+  };
+
+  const cell: XMPatternNote = { note: 0, instrument: 0, effectType: 0, effectParam: 0 };
+
+  if (/^OFF$/i.test(note.text)) {
+    cell.note = XM_CONSTANTS.NOTE_OFF;
+  } else if (note.text !== '---' && note.text !== '...') {
+    cell.note = note.text.length === 3 ? noteNameToValue(note.text) : 0;
+    if (cell.note === 0) {
+      fail(note, 'Invalid note');
+    }
+  }
+
+  if (instrument.text !== '..') {
+    if (!/^[0-9a-f]{2}$/i.test(instrument.text)) {
+      fail(instrument, 'Invalid instrument');
+    }
+    cell.instrument = parseInt(instrument.text, 16);
+    if (cell.instrument < 1 || cell.instrument > MAX_INSTRUMENT) {
+      fail(instrument, 'Instrument must be 01-80, got');
+    }
+  }
+
+  if (/^[0-9a-f]{2}$/i.test(volume.text)) {
+    cell.volume = parseInt(volume.text, 16);
+    if (cell.volume > MAX_VOLUME) {
+      fail(volume, 'Volume must be 00-40, got');
+    }
+  } else if (/^v[0-9a-f]{2}$/i.test(volume.text)) {
+    cell.volumeEffect = parseInt(volume.text.slice(1), 16);
+    if (cell.volumeEffect < FIRST_VOLUME_EFFECT) {
+      fail(volume, 'Volume column command must be v60-vFF, got');
+    }
+  } else if (volume.text !== '..') {
+    fail(volume, 'Invalid volume column');
+  }
+
+  if (effect.text !== '...') {
+    if (!/^[0-9a-z][0-9a-f]{2}$/i.test(effect.text)) {
+      fail(effect, 'Invalid effect');
+    }
+    cell.effectType = parseInt(effect.text[0], 36);
+    cell.effectParam = parseInt(effect.text.slice(1), 16);
+  }
+
+  return cell;
+}
+
+/**
+ * Format one cell
+ * @param cell The cell to format
+ * @param path Location of the cell for error messages
+ */
+function formatCell(cell: XMPatternNote, path: string): string {
+  const hex = (value: number, field: string) => {
+    if (!Number.isInteger(value) || value < 0 || value > 0xff) {
+      throw new Error(`${path}.${field}: ${value} cannot be written as two hex digits`);
+    }
+    return value.toString(16).toUpperCase().padStart(2, '0');
+  };
+
+  let note = '---';
+  if (cell.note === XM_CONSTANTS.NOTE_OFF) {
+    note = 'OFF';
+  } else if (cell.note >= 1 && cell.note <= 96) {
+    note = noteValueToName(cell.note);
+  } else if (cell.note !== 0) {
+    throw new Error(`${path}.note: ${cell.note} is not a note value`);
+  }
+
+  if (cell.instrument > MAX_INSTRUMENT) {
+    throw new Error(`${path}.instrument: ${cell.instrument} is above ${MAX_INSTRUMENT}`);
+  }
+  const instrument = cell.instrument === 0 ? '..' : hex(cell.instrument, 'instrument');
+
+  if (cell.volume !== undefined && cell.volumeEffect !== undefined) {
+    throw new Error(`${path}: cannot set both volume and volumeEffect on the same note`);
+  }
+  let volume = '..';
+  if (cell.volume !== undefined) {
+    if (cell.volume > MAX_VOLUME) {
+      throw new Error(`${path}.volume: ${cell.volume} is above ${MAX_VOLUME}`);
+    }
+    volume = hex(cell.volume, 'volume');
+  } else if (cell.volumeEffect !== undefined) {
+    if (cell.volumeEffect < FIRST_VOLUME_EFFECT) {
+      throw new Error(`${path}.volumeEffect: ${cell.volumeEffect} is not a volume column command`);
+    }
+    volume = 'v' + hex(cell.volumeEffect, 'volumeEffect');
+  }
+
+  let effect = '...';
+  if (cell.effectType !== 0 || cell.effectParam !== 0) {
+    if (cell.effectType < 0 || cell.effectType > MAX_EFFECT_TYPE) {
+      throw new Error(`${path}.effectType: ${cell.effectType} has no effect character`);
+    }
+    effect = cell.effectType.toString(36).toUpperCase() + hex(cell.effectParam, 'effectParam');
+  }
+
+  return `${note} ${instrument} ${volume} ${effect}`;
+}
@@ -0,0 +1,202 @@
+/**
+ * Pitch detection
+ * Estimates the fundamental frequency of a sample with the YIN algorithm so
+ * recordings of unknown pitch can be tuned to play in tune on C-4
+ */
+
+import { XMSample, LoopType } from './types';
+import { noteValueToName } from './xmWriter';
+import {
+  XMFrequencyTable,
+  XMTuningResult,
+  tuningForSampleRate,
+  tuningToSampleRate,
+} from './tuning';
+
+/**
+ * Options for detecting the pitch of a sample
+ */
+export interface PitchDetectionOptions {
+  /** Rate in Hz the sample was recorded at (default: the rate it plays at on C-4) */
+  sampleRate?: number;
+  /** Lowest fundamental to look for in Hz (default: 40) */
+  minFrequency?: number;
+  /** Highest fundamental to look for in Hz (default: 2000) */
+  maxFrequency?: number;
+  /** YIN threshold; lower is stricter (default: 0.15) */
+  threshold?: number;
+  /** Set relativeNoteNumber/fineTune so the sample plays in tune (default: false) */
+  tune?: boolean;
+  /** Lowest confidence at which `tune` changes the sample (default: 0.8) */
+  minConfidence?: number;
+  /** Frequency table used for tuning (default: 'linear') */
+  table?: XMFrequencyTable;
+}
+
+/**
+ * Detected pitch of a sample
+ */
+export interface PitchDetectionResult {
+  /** Fundamental frequency in Hz at the recording rate */
+  frequency: number;
+  /** How periodic the analysed audio is (0-1; above 0.9 is a clear pitch) */
+  confidence: number;
+  /** Nearest XM note (1-96) to the recorded pitch */
+  note: number;
+  /** Name of that note, e.g. `"A-4"` */
+  noteName: string;
+  /** Recorded pitch minus the note's pitch in cents */
+  cents: number;
+  /** Tuning that makes the sample play in tune, with its residual error */
+  tuning: XMTuningResult;
+  /** Whether the sample header was changed */
+  tuned: boolean;
+}
+
+/** XM note value of A-4 */
+const A4_NOTE = 58;
+
+/** Pitch of A-4 in Hz */
+const A4_FREQUENCY = 440;
+
+/** Frames compared for each lag */
+const WINDOW_FRAMES = 2048;
+
+/**
+ * Estimate the fundamental frequency of a sample. A looped sample is analysed
+ * over its loop, a one-shot over a window after the attack.
+ * @param sample The sample to analyse; changed only with `tune`
+ * @param options Frequency range, threshold and tuning options
+ * @returns The pitch, or null if the sample is silent or too short for the frequency range
+ */
+export function detectSamplePitch(
+  sample: XMSample,
+  options: PitchDetectionOptions = {}
+): PitchDetectionResult | null {
+  const sampleRate = options.sampleRate ?? tuningToSampleRate(sample.header);
+  const minFrequency = options.minFrequency ?? 40;
+  const maxFrequency = options.maxFrequency ?? 2000;
+  if (!(minFrequency > 0 && maxFrequency > minFrequency)) {
+    throw new Error(
+      `Frequency range ${minFrequency}-${maxFrequency} Hz is invalid; need 0 < minFrequency < maxFrequency`
+    );
+  }
+
+  const minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const maxLag = Math.ceil(sampleRate / minFrequency);
+  const frames = analysisFrames(sample, maxLag + WINDOW_FRAMES);
+  const lagLimit = Math.min(maxLag, Math.floor(frames.length / 2));
+  if (lagLimit <= minLag || frames.every((value) => value === 0)) {
+    return null;
+  }
+
+  const { lag, aperiodicity } = yin(
+    frames,
+    minLag,
+    lagLimit,
+    // yin also reads lag lagLimit + 1 for the interpolation, so leave room for it
+    Math.min(WINDOW_FRAMES, frames.length - lagLimit - 1),
+    options.threshold ?? 0.15
+  );
+  const frequency = sampleRate / lag;
+  const confidence = Math.max(0, Math.min(1, 1 - aperiodicity));
+
+  const exactNote = A4_NOTE + 12 * Math.log2(frequency / A4_FREQUENCY);
+  const note = Math.max(1, Math.min(96, Math.round(exactNote)));
+  const tuning = tuningForSampleRate(sampleRate, {
+    rootFrequency: frequency,
+    table: options.table,
+  });
+
+  const tuned = (options.tune ?? false) && confidence >= (options.minConfidence ?? 0.8);
+  if (tuned) {
+    sample.header.relativeNoteNumber = tuning.relativeNoteNumber;
+    sample.header.fineTune = tuning.fineTune;
+  }
+
+  return {
+    frequency,
+    confidence,
+    note,
+    noteName: noteValueToName(note),
+    cents: 100 * (exactNote - note),
+    tuning,
+    tuned,
+  };
+}
+
+/**
+ * Frames to analyse: the loop played for up to `count` frames, or a window
+ * that starts after the first tenth of a one-shot sample
+ */
+function analysisFrames(sample: XMSample, count: number): Float64Array {
+  const { data } = sample;
+  const { loopStart, loopLength, type } = sample.header;
+  const loopType = type & 0x03;
+
+  if (loopType !== LoopType.None && loopLength > 1 && loopStart + loopLength <= data.length) {
+    const frames = new Float64Array(count);
+    const cycle = loopType === LoopType.PingPong ? loopLength * 2 - 2 : loopLength;
+    for (let i = 0; i < count; i++) {
+      const offset = i % cycle;
+      frames[i] = data[loopStart + (offset < loopLength ? offset : cycle - offset)];
+    }
+    return frames;
+  }
+
+  const start = Math.min(Math.floor(data.length / 10), Math.max(0, data.length - count));
+  return Float64Array.from(data.subarray(start, start + count));
+}
+
+/**
+ * YIN: find the first lag where the cumulative mean normalized difference
+ * drops below the threshold, refined to sub-frame precision
+ */
+function yin(
+  frames: Float64Array,
+  minLag: number,
+  maxLag: number,
+  window: number,
+  threshold: number
+): { lag: number; aperiodicity: number } {
+  const normalized = new Float64Array(maxLag + 2);
+  normalized[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag + 1; lag++) {
+    let difference = 0;
+    for (let i = 0; i < window; i++) {
+      const delta = frames[i] - frames[i + lag];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    normalized[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1;
+  }
+
+  let best = -1;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (normalized[lag] < threshold) {
+      // Walk down to the bottom of this dip
+      while (lag < maxLag && normalized[lag + 1] < normalized[lag]) {
+        lag++;
+      }
+      best = lag;
+      break;
+    }
+  }
+  if (best < 0) {
+    best = minLag;
+    for (let lag = minLag + 1; lag <= maxLag; lag++) {
+      if (normalized[lag] < normalized[best]) {
+        best = lag;
+      }
+    }
+  }
+
+  // Parabolic interpolation around the minimum
+  const before = normalized[best - 1];
+  const at = normalized[best];
+  const after = normalized[best + 1];
+  const curve = before - 2 * at + after;
+  const shift = curve > 0 ? (before - after) / (2 * curve) : 0;
+  return { lag: best + Math.max(-0.5, Math.min(0.5, shift)), aperiodicity: at };
+}
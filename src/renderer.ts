@@ -0,0 +1,1277 @@
+/**
+ * Offline XM renderer
+ * A software mixer that plays an XM module into interleaved stereo PCM,
+ * following FastTracker II playback semantics
+ */
+
+import {
+  XMModule,
+  XMPattern,
+  XMPatternNote,
+  XMInstrument,
+  XMSample,
+  XMEnvelope,
+  XM_CONSTANTS,
+  EnvelopeFlags,
+  LoopType,
+} from './types';
+import { encodeWav } from './wav';
+
+/**
+ * Sample interpolation mode
+ */
+export type XMInterpolation = 'none' | 'linear' | 'cubic';
+
+/**
+ * Options for rendering a module
+ */
+export interface XMRenderOptions {
+  /** Output sample rate in Hz (default: 44100) */
+  sampleRate?: number;
+  /** Sample interpolation (default: 'linear') */
+  interpolation?: XMInterpolation;
+  /** Stop after this many seconds even if the song has not ended (default: 600) */
+  maxDuration?: number;
+  /** Master gain applied to the mix (default: 0.5) */
+  gain?: number;
+}
+
+/**
+ * Rendered audio
+ */
+export interface XMRenderResult {
+  /** Sample rate in Hz */
+  sampleRate: number;
+  /** Number of stereo frames */
+  frames: number;
+  /** Interleaved stereo samples (left, right, ...) nominally within -1..1 */
+  data: Float32Array;
+}
+
+/**
+ * Playback position of the renderer
+ */
+export interface XMPlaybackPosition {
+  /** Index into the pattern order table */
+  order: number;
+  /** Row within the current pattern */
+  row: number;
+  /** Tick within the current row */
+  tick: number;
+}
+
+/** Half sine table used by vibrato and tremolo (FastTracker II) */
+const VIBRATO_SINE = [
+  0, 24, 49, 74, 97, 120, 141, 161, 180, 197, 212, 224, 235, 244, 250, 253, 255, 253, 250, 244, 235,
+  224, 212, 197, 180, 161, 141, 120, 97, 74, 49, 24,
+];
+
+/** Multi retrig volume changes for Rxy, indexed by x */
+const RETRIG_VOLUME: ((volume: number) => number)[] = [
+  (v) => v,
+  (v) => v - 1,
+  (v) => v - 2,
+  (v) => v - 4,
+  (v) => v - 8,
+  (v) => v - 16,
+  (v) => Math.floor((v * 2) / 3),
+  (v) => v >> 1,
+  (v) => v,
+  (v) => v + 1,
+  (v) => v + 2,
+  (v) => v + 4,
+  (v) => v + 8,
+  (v) => v + 16,
+  (v) => Math.floor((v * 3) / 2),
+  (v) => v * 2,
+];
+
+/** Fadeout volume at key on; the instrument's fadeout is subtracted per tick after key off */
+const FADEOUT_START = 32768;
+
+/** Amiga period of C-4 (four times the ProTracker period) */
+const C4_AMIGA_PERIOD = 1712;
+
+/** Linear period of C-0 */
+const LINEAR_PERIOD_BASE = 7680;
+
+/** Empty cell used for missing pattern data */
+const EMPTY_NOTE: XMPatternNote = { note: 0, instrument: 0, effectType: 0, effectParam: 0 };
+
+/**
+ * Envelope playback state
+ */
+interface EnvelopeState {
+  /** Current envelope tick (x position) */
+  tick: number;
+}
+
+/**
+ * Per-channel playback state
+ */
+interface ChannelState {
+  instrument: XMInstrument | null;
+  sample: XMSample | null;
+  sampleData: Float32Array | null;
+  /** Note value of the last triggered note (1-96) */
+  note: number;
+  fineTune: number;
+  relativeNote: number;
+
+  /** Playback position in sample frames; increases monotonically, loops are folded on read */
+  position: number;
+  active: boolean;
+
+  period: number;
+  targetPeriod: number;
+  /** Temporary period offset from vibrato, reset every row */
+  periodOffset: number;
+  volume: number;
+  /** Temporary volume offset from tremolo */
+  volumeOffset: number;
+  panning: number;
+
+  keyOn: boolean;
+  fadeout: number;
+  volumeEnvelope: EnvelopeState;
+  panningEnvelope: EnvelopeState;
+  autoVibratoPosition: number;
+  autoVibratoAmplitude: number;
+
+  cell: XMPatternNote;
+  delayedCell: XMPatternNote | null;
+
+  // Effect memory
+  portaUpSpeed: number;
+  portaDownSpeed: number;
+  tonePortaSpeed: number;
+  volumeSlide: number;
+  finePortaUp: number;
+  finePortaDown: number;
+  extraFinePortaUp: number;
+  extraFinePortaDown: number;
+  fineVolumeUp: number;
+  fineVolumeDown: number;
+  sampleOffset: number;
+  globalVolumeSlide: number;
+  panningSlide: number;
+  retrigVolume: number;
+  retrigInterval: number;
+  retrigCounter: number;
+  tremor: number;
+  tremorCounter: number;
+  tremorOn: boolean;
+
+  vibratoPosition: number;
+  vibratoSpeed: number;
+  vibratoDepth: number;
+  vibratoWaveform: number;
+  tremoloPosition: number;
+  tremoloSpeed: number;
+  tremoloDepth: number;
+  tremoloWaveform: number;
+  glissando: boolean;
+
+  patternLoopRow: number;
+  patternLoopCount: number;
+
+  /** Mix gains computed once per tick */
+  leftGain: number;
+  rightGain: number;
+  step: number;
+}
+
+/**
+ * Create a silent channel
+ */
+function createChannelState(): ChannelState {
+  return {
+    instrument: null,
+    sample: null,
+    sampleData: null,
+    note: 0,
+    fineTune: 0,
+    relativeNote: 0,
+    position: 0,
+    active: false,
+    period: 0,
+    targetPeriod: 0,
+    periodOffset: 0,
+    volume: 0,
+    volumeOffset: 0,
+    panning: 128,
+    keyOn: false,
+    fadeout: FADEOUT_START,
+    volumeEnvelope: { tick: 0 },
+    panningEnvelope: { tick: 0 },
+    autoVibratoPosition: 0,
+    autoVibratoAmplitude: 0,
+    cell: EMPTY_NOTE,
+    delayedCell: null,
+    portaUpSpeed: 0,
+    portaDownSpeed: 0,
+    tonePortaSpeed: 0,
+    volumeSlide: 0,
+    finePortaUp: 0,
+    finePortaDown: 0,
+    extraFinePortaUp: 0,
+    extraFinePortaDown: 0,
+    fineVolumeUp: 0,
+    fineVolumeDown: 0,
+    sampleOffset: 0,
+    globalVolumeSlide: 0,
+    panningSlide: 0,
+    retrigVolume: 0,
+    retrigInterval: 0,
+    retrigCounter: 0,
+    tremor: 0,
+    tremorCounter: 0,
+    tremorOn: true,
+    vibratoPosition: 0,
+    vibratoSpeed: 0,
+    vibratoDepth: 0,
+    vibratoWaveform: 0,
+    tremoloPosition: 0,
+    tremoloSpeed: 0,
+    tremoloDepth: 0,
+    tremoloWaveform: 0,
+    glissando: false,
+    patternLoopRow: 0,
+    patternLoopCount: 0,
+    leftGain: 0,
+    rightGain: 0,
+    step: 0,
+  };
+}
+
+/**
+ * Clamp a value to a range
+ */
+function clamp(value: number, min: number, max: number): number {
+  return value < min ? min : value > max ? max : value;
+}
+
+/**
+ * Evaluate a vibrato/tremolo waveform
+ * @param waveform Waveform (0 = sine, 1 = ramp down, 2 = square, 3 = random, treated as sine)
+ * @param position Position within the cycle (0-63)
+ * @returns Value between -255 and 255
+ */
+function waveformValue(waveform: number, position: number): number {
+  switch (waveform & 3) {
+    case 1: // Ramp down
+      return 255 - (position & 63) * 8;
+    case 2: // Square
+      return position & 32 ? -255 : 255;
+    default: {
+      const value = VIBRATO_SINE[position & 31];
+      return position & 32 ? -value : value;
+    }
+  }
+}
+
+/**
+ * Evaluate an envelope at its current tick and advance it by one tick
+ * @param envelope Envelope definition
+ * @param state Envelope playback state
+ * @param keyOn Whether the note is still held (sustain applies)
+ * @returns Envelope value (0-64)
+ */
+function advanceEnvelope(envelope: XMEnvelope, state: EnvelopeState, keyOn: boolean): number {
+  const count = Math.min(envelope.numberOfPoints, envelope.points.length);
+  const points = envelope.points;
+
+  // Interpolate between the surrounding points
+  let value = points[count - 1].y;
+  for (let i = 0; i < count - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (state.tick < b.x) {
+      if (state.tick <= a.x || b.x === a.x) {
+        value = a.y;
+      } else {
+        value = a.y + ((b.y - a.y) * (state.tick - a.x)) / (b.x - a.x);
+      }
+      break;
+    }
+  }
+
+  const sustained =
+    keyOn &&
+    (envelope.type & EnvelopeFlags.Sustain) !== 0 &&
+    envelope.sustainPoint < count &&
+    state.tick === points[envelope.sustainPoint].x;
+
+  if (!sustained) {
+    state.tick++;
+    if (
+      (envelope.type & EnvelopeFlags.Loop) !== 0 &&
+      envelope.loopEndPoint < count &&
+      envelope.loopStartPoint <= envelope.loopEndPoint &&
+      state.tick === points[envelope.loopEndPoint].x
+    ) {
+      state.tick = points[envelope.loopStartPoint].x;
+    }
+    state.tick = Math.min(state.tick, points[count - 1].x);
+  }
+
+  return value;
+}
+
+/**
+ * Check whether an envelope is enabled and has points
+ */
+function envelopeEnabled(envelope: XMEnvelope | undefined): envelope is XMEnvelope {
+  return (
+    envelope !== undefined &&
+    (envelope.type & EnvelopeFlags.On) !== 0 &&
+    Math.min(envelope.numberOfPoints, envelope.points.length) > 0
+  );
+}
+
+/**
+ * Software mixer that plays an XM module
+ */
+export class XMRenderer {
+  private readonly module: XMModule;
+  private readonly sampleRate: number;
+  private readonly interpolation: XMInterpolation;
+  private readonly gain: number;
+  private readonly linear: boolean;
+  private readonly channels: ChannelState[];
+  private readonly sampleCache = new Map<XMSample, Float32Array>();
+
+  private order = 0;
+  private row = 0;
+  private tick = 0;
+  private speed: number;
+  private bpm: number;
+  private globalVolume = 64;
+  private finished = false;
+
+  private patternDelay = 0;
+  private repeatingRow = false;
+  private pendingJump: number | null = null;
+  private pendingBreak: number | null = null;
+  private pendingLoopRow: number | null = null;
+  private readonly visitedRows = new Set<number>();
+
+  private tickFramesLeft = 0;
+  private tickFrameAccumulator = 0;
+
+  /**
+   * Create a renderer for a module
+   * @param module The module to play
+   * @param options Render options
+   */
+  constructor(module: XMModule, options: XMRenderOptions = {}) {
+    this.module = module;
+    this.sampleRate = options.sampleRate ?? 44100;
+    this.interpolation = options.interpolation ?? 'linear';
+    this.gain = options.gain ?? 0.5;
+    this.linear = (module.header.flags & XM_CONSTANTS.FLAG_LINEAR_FREQUENCY) !== 0;
+    this.speed = module.header.defaultTempo || 6;
+    this.bpm = module.header.defaultBPM || 125;
+    this.channels = [];
+    for (let i = 0; i < module.header.numberOfChannels; i++) {
+      this.channels.push(createChannelState());
+    }
+    if (module.header.songLength === 0) {
+      this.finished = true;
+    }
+    this.visitedRows.add(0);
+  }
+
+  /**
+   * Check whether the song has ended
+   * @returns true once the song has looped back or reached its end
+   */
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Get the current playback position
+   * @returns Order, row and tick
+   */
+  getPosition(): XMPlaybackPosition {
+    return { order: this.order, row: this.row, tick: this.tick };
+  }
+
+  /**
+   * Render interleaved stereo frames
+   * @param output Buffer to fill with interleaved left/right samples
+   * @returns Number of frames written; less than requested once the song ends
+   */
+  render(output: Float32Array): number {
+    const frames = output.length >> 1;
+    let written = 0;
+
+    while (written < frames) {
+      if (this.tickFramesLeft === 0) {
+        if (this.finished) break;
+        this.processTick();
+        this.tickFrameAccumulator += (this.sampleRate * 2.5) / this.bpm;
+        this.tickFramesLeft = Math.floor(this.tickFrameAccumulator);
+        this.tickFrameAccumulator -= this.tickFramesLeft;
+        continue;
+      }
+      const count = Math.min(frames - written, this.tickFramesLeft);
+      output.fill(0, written * 2, (written + count) * 2);
+      for (const channel of this.channels) {
+        if (channel.active) {
+          this.mixChannel(channel, output, written, count);
+        }
+      }
+      written += count;
+      this.tickFramesLeft -= count;
+    }
+
+    return written;
+  }
+
+  /**
+   * Advance playback by one tick
+   */
+  private processTick(): void {
+    if (this.tick === 0 && !this.repeatingRow) {
+      this.processRow();
+    } else {
+      for (const channel of this.channels) {
+        this.processEffects(channel);
+      }
+    }
+
+    for (const channel of this.channels) {
+      this.updateChannel(channel);
+    }
+
+    this.tick++;
+    if (this.tick >= this.speed) {
+      this.tick = 0;
+      this.nextRow();
+    }
+  }
+
+  /**
+   * Get the pattern playing at the current order position
+   */
+  private currentPattern(): XMPattern | undefined {
+    return this.module.patterns[this.module.header.patternOrderTable[this.order] ?? 0];
+  }
+
+  /**
+   * Number of rows of the pattern at an order position; missing patterns play as 64 empty rows
+   */
+  private rowsAt(order: number): number {
+    const pattern = this.module.patterns[this.module.header.patternOrderTable[order] ?? 0];
+    return pattern ? pattern.header.numberOfRows : 64;
+  }
+
+  /**
+   * Read the current row and run tick 0 of every channel
+   */
+  private processRow(): void {
+    const pattern = this.currentPattern();
+    this.channels.forEach((channel, index) => {
+      const cell = pattern?.data[this.row]?.[index] ?? EMPTY_NOTE;
+      channel.cell = cell;
+      channel.delayedCell = null;
+      channel.periodOffset = 0;
+      channel.volumeOffset = 0;
+
+      const isNoteDelay =
+        cell.effectType === 0xe && cell.effectParam >> 4 === 0xd && (cell.effectParam & 0x0f) > 0;
+      if (isNoteDelay) {
+        channel.delayedCell = cell;
+        return;
+      }
+
+      this.triggerCell(channel, cell);
+      this.processEffectsTick0(channel, cell);
+    });
+  }
+
+  /**
+   * Move to the next row, applying jumps, breaks, loops and pattern delay
+   */
+  private nextRow(): void {
+    if (this.patternDelay > 0) {
+      this.patternDelay--;
+      this.repeatingRow = true;
+      return;
+    }
+    this.repeatingRow = false;
+
+    const header = this.module.header;
+    const songLength = Math.min(header.songLength, XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE);
+
+    if (this.pendingLoopRow !== null) {
+      // Rows inside a pattern loop are legitimately played again
+      for (let row = this.pendingLoopRow; row <= this.row; row++) {
+        this.visitedRows.delete(this.order * 256 + row);
+      }
+      this.row = this.pendingLoopRow;
+    } else if (this.pendingJump !== null || this.pendingBreak !== null) {
+      this.order = this.pendingJump ?? this.order + 1;
+      this.row = this.pendingBreak ?? 0;
+    } else {
+      this.row++;
+      if (this.row >= this.rowsAt(this.order)) {
+        this.row = 0;
+        this.order++;
+      }
+    }
+    this.pendingJump = null;
+    this.pendingBreak = null;
+    this.pendingLoopRow = null;
+
+    if (this.order >= songLength) {
+      this.order = header.restartPosition < songLength ? header.restartPosition : 0;
+    }
+    if (this.row >= this.rowsAt(this.order)) {
+      this.row = 0;
+    }
+
+    const key = this.order * 256 + this.row;
+    if (this.visitedRows.has(key)) {
+      this.finished = true;
+    }
+    this.visitedRows.add(key);
+  }
+
+  /**
+   * Handle the note, instrument and volume column of a cell
+   */
+  private triggerCell(channel: ChannelState, cell: XMPatternNote): void {
+    const volumeByte = cell.volumeEffect ?? (cell.volume !== undefined ? cell.volume + 0x10 : 0);
+    const tonePorta =
+      cell.effectType === 0x3 || cell.effectType === 0x5 || (volumeByte & 0xf0) === 0xf0;
+
+    if (cell.instrument > 0) {
+      channel.instrument = this.module.instruments[cell.instrument - 1] ?? null;
+    }
+
+    if (cell.note === XM_CONSTANTS.NOTE_OFF) {
+      this.keyOff(channel);
+    } else if (cell.note > 0 && cell.note < XM_CONSTANTS.NOTE_OFF) {
+      if (tonePorta && channel.sample && channel.active) {
+        channel.targetPeriod = this.notePeriod(
+          cell.note - 1 + channel.relativeNote,
+          channel.fineTune
+        );
+      } else {
+        this.triggerNote(channel, cell);
+      }
+    }
+
+    if (cell.instrument > 0 && channel.sample && cell.note !== XM_CONSTANTS.NOTE_OFF) {
+      channel.volume = channel.sample.header.volume;
+      channel.panning = channel.sample.header.panning;
+      this.keyOn(channel);
+    }
+
+    this.processVolumeColumnTick0(channel, volumeByte);
+  }
+
+  /**
+   * Start playing a note from the beginning of its sample
+   */
+  private triggerNote(channel: ChannelState, cell: XMPatternNote): void {
+    const instrument = channel.instrument;
+    const sampleIndex = instrument?.extendedHeader?.sampleNumberForNotes[cell.note - 1] ?? 0;
+    const sample = instrument?.samples[sampleIndex];
+    if (!sample) {
+      channel.active = false;
+      return;
+    }
+
+    channel.sample = sample;
+    channel.sampleData = this.getSampleData(sample);
+    channel.note = cell.note;
+    channel.relativeNote = sample.header.relativeNoteNumber;
+    channel.fineTune = sample.header.fineTune;
+
+    // E5x sets the fine tune for this note
+    if (cell.effectType === 0xe && cell.effectParam >> 4 === 0x5) {
+      channel.fineTune = ((cell.effectParam & 0x0f) - 8) * 16;
+    }
+
+    const realNote = cell.note - 1 + channel.relativeNote;
+    if (realNote < 0 || realNote >= 120) {
+      channel.active = false;
+      return;
+    }
+    channel.period = this.notePeriod(realNote, channel.fineTune);
+    channel.targetPeriod = channel.period;
+
+    // 9xx starts playback at an offset of xx * 256 frames
+    channel.position = 0;
+    if (cell.effectType === 0x9) {
+      if (cell.effectParam > 0) {
+        channel.sampleOffset = cell.effectParam;
+      }
+      channel.position = channel.sampleOffset * 256;
+    }
+    channel.active = true;
+    if ((sample.header.type & 0x03) === LoopType.None && channel.position >= sample.data.length) {
+      channel.active = false;
+    }
+
+    if (channel.vibratoWaveform < 4) channel.vibratoPosition = 0;
+    if (channel.tremoloWaveform < 4) channel.tremoloPosition = 0;
+    channel.retrigCounter = 0;
+    channel.tremorCounter = 0;
+    channel.tremorOn = true;
+    this.keyOn(channel);
+  }
+
+  /**
+   * Restart envelopes, fadeout and auto-vibrato for a held note
+   */
+  private keyOn(channel: ChannelState): void {
+    channel.keyOn = true;
+    channel.fadeout = FADEOUT_START;
+    channel.volumeEnvelope.tick = 0;
+    channel.panningEnvelope.tick = 0;
+    channel.autoVibratoPosition = 0;
+    const ext = channel.instrument?.extendedHeader;
+    channel.autoVibratoAmplitude = ext && ext.vibratoSweep === 0 ? ext.vibratoDepth << 8 : 0;
+  }
+
+  /**
+   * Release a note: leave envelope sustain and start the fadeout
+   */
+  private keyOff(channel: ChannelState): void {
+    channel.keyOn = false;
+    if (!envelopeEnabled(channel.instrument?.extendedHeader?.volumeEnvelope)) {
+      // Without a volume envelope FastTracker II cuts the note
+      channel.volume = 0;
+    }
+  }
+
+  /**
+   * Handle the volume column on tick 0
+   */
+  private processVolumeColumnTick0(channel: ChannelState, volumeByte: number): void {
+    const param = volumeByte & 0x0f;
+    if (volumeByte >= 0x10 && volumeByte <= 0x50) {
+      channel.volume = volumeByte - 0x10;
+      return;
+    }
+    switch (volumeByte & 0xf0) {
+      case 0x80: // Fine volume slide down
+        channel.volume = clamp(channel.volume - param, 0, 64);
+        break;
+      case 0x90: // Fine volume slide up
+        channel.volume = clamp(channel.volume + param, 0, 64);
+        break;
+      case 0xa0: // Set vibrato speed
+        if (param > 0) channel.vibratoSpeed = param;
+        break;
+      case 0xb0: // Vibrato
+        if (param > 0) channel.vibratoDepth = param;
+        break;
+      case 0xc0: // Set panning
+        channel.panning = param << 4;
+        break;
+      case 0xf0: // Tone portamento
+        if (param > 0) channel.tonePortaSpeed = param << 6;
+        break;
+    }
+  }
+
+  /**
+   * Handle the volume column on ticks after the first
+   */
+  private processVolumeColumn(channel: ChannelState, volumeByte: number): void {
+    const param = volumeByte & 0x0f;
+    switch (volumeByte & 0xf0) {
+      case 0x60: // Volume slide down
+        channel.volume = clamp(channel.volume - param, 0, 64);
+        break;
+      case 0x70: // Volume slide up
+        channel.volume = clamp(channel.volume + param, 0, 64);
+        break;
+      case 0xb0: // Vibrato
+        this.vibrato(channel);
+        break;
+      case 0xd0: // Panning slide left
+        channel.panning = clamp(channel.panning - param, 0, 255);
+        break;
+      case 0xe0: // Panning slide right
+        channel.panning = clamp(channel.panning + param, 0, 255);
+        break;
+      case 0xf0: // Tone portamento
+        this.tonePortamento(channel);
+        break;
+    }
+  }
+
+  /**
+   * Handle the effect column on tick 0
+   */
+  private processEffectsTick0(channel: ChannelState, cell: XMPatternNote): void {
+    const param = cell.effectParam;
+    const x = param >> 4;
+    const y = param & 0x0f;
+
+    switch (cell.effectType) {
+      case 0x1: // 1xx: portamento up
+        if (param > 0) channel.portaUpSpeed = param;
+        break;
+      case 0x2: // 2xx: portamento down
+        if (param > 0) channel.portaDownSpeed = param;
+        break;
+      case 0x3: // 3xx: tone portamento
+        if (param > 0) channel.tonePortaSpeed = param << 2;
+        break;
+      case 0x4: // 4xy: vibrato
+        if (x > 0) channel.vibratoSpeed = x;
+        if (y > 0) channel.vibratoDepth = y;
+        break;
+      case 0x5: // 5xy: tone portamento + volume slide
+      case 0x6: // 6xy: vibrato + volume slide
+      case 0xa: // Axy: volume slide
+        if (param > 0) channel.volumeSlide = param;
+        break;
+      case 0x7: // 7xy: tremolo
+        if (x > 0) channel.tremoloSpeed = x;
+        if (y > 0) channel.tremoloDepth = y;
+        break;
+      case 0x8: // 8xx: set panning
+        channel.panning = param;
+        break;
+      case 0xb: // Bxx: position jump
+        this.pendingJump = param;
+        this.pendingBreak = this.pendingBreak ?? 0;
+        break;
+      case 0xc: // Cxx: set volume
+        channel.volume = Math.min(param, 64);
+        break;
+      case 0xd: // Dxx: pattern break (decimal row number)
+        this.pendingBreak = x * 10 + y;
+        break;
+      case 0xe:
+        this.processExtendedEffectTick0(channel, x, y);
+        break;
+      case 0xf: // Fxx: set speed (< 0x20) or BPM
+        if (param > 0 && param < 0x20) {
+          this.speed = param;
+        } else if (param >= 0x20) {
+          this.bpm = param;
+        }
+        break;
+      case 0x10: // Gxx: set global volume
+        this.globalVolume = Math.min(param, 64);
+        break;
+      case 0x11: // Hxy: global volume slide
+        if (param > 0) channel.globalVolumeSlide = param;
+        break;
+      case 0x14: // Kxx: key off at tick xx
+        if (param === 0) this.keyOff(channel);
+        break;
+      case 0x15: // Lxx: set envelope position
+        channel.volumeEnvelope.tick = param;
+        channel.panningEnvelope.tick = param;
+        break;
+      case 0x19: // Pxy: panning slide
+        if (param > 0) channel.panningSlide = param;
+        break;
+      case 0x1b: // Rxy: multi retrig note
+        if (x > 0) channel.retrigVolume = x;
+        if (y > 0) channel.retrigInterval = y;
+        break;
+      case 0x1d: // Txy: tremor
+        if (param > 0) channel.tremor = param;
+        break;
+      case 0x21: // X1x / X2x: extra fine portamento
+        if (x === 1) {
+          if (y > 0) channel.extraFinePortaUp = y;
+          channel.period = Math.max(1, channel.period - channel.extraFinePortaUp);
+        } else if (x === 2) {
+          if (y > 0) channel.extraFinePortaDown = y;
+          channel.period = channel.period + channel.extraFinePortaDown;
+        }
+        break;
+    }
+  }
+
+  /**
+   * Handle Exy subcommands on tick 0
+   */
+  private processExtendedEffectTick0(channel: ChannelState, x: number, y: number): void {
+    switch (x) {
+      case 0x1: // E1x: fine portamento up
+        if (y > 0) channel.finePortaUp = y;
+        channel.period = Math.max(1, channel.period - (channel.finePortaUp << 2));
+        break;
+      case 0x2: // E2x: fine portamento down
+        if (y > 0) channel.finePortaDown = y;
+        channel.period = channel.period + (channel.finePortaDown << 2);
+        break;
+      case 0x3: // E3x: glissando control
+        channel.glissando = y !== 0;
+        break;
+      case 0x4: // E4x: vibrato waveform
+        channel.vibratoWaveform = y;
+        break;
+      case 0x5: // E5x: set fine tune
+        channel.fineTune = (y - 8) * 16;
+        break;
+      case 0x6: // E6x: pattern loop
+        if (y === 0) {
+          channel.patternLoopRow = this.row;
+        } else if (channel.patternLoopCount === 0) {
+          channel.patternLoopCount = y;
+          this.pendingLoopRow = channel.patternLoopRow;
+        } else if (--channel.patternLoopCount > 0) {
+          this.pendingLoopRow = channel.patternLoopRow;
+        }
+        break;
+      case 0x7: // E7x: tremolo waveform
+        channel.tremoloWaveform = y;
+        break;
+      case 0xa: // EAx: fine volume slide up
+        if (y > 0) channel.fineVolumeUp = y;
+        channel.volume = clamp(channel.volume + channel.fineVolumeUp, 0, 64);
+        break;
+      case 0xb: // EBx: fine volume slide down
+        if (y > 0) channel.fineVolumeDown = y;
+        channel.volume = clamp(channel.volume - channel.fineVolumeDown, 0, 64);
+        break;
+      case 0xc: // EC0: note cut on tick 0
+        if (y === 0) channel.volume = 0;
+        break;
+      case 0xe: // EEx: pattern delay
+        if (!this.repeatingRow) this.patternDelay = y;
+        break;
+    }
+  }
+
+  /**
+   * Handle per-tick effects on ticks after the first
+   */
+  private processEffects(channel: ChannelState): void {
+    const tick = this.tick;
+
+    if (channel.delayedCell) {
+      // EDx: the whole cell is played late
+      if (!this.repeatingRow && tick === (channel.delayedCell.effectParam & 0x0f)) {
+        const cell = channel.delayedCell;
+        channel.delayedCell = null;
+        this.triggerCell(channel, cell);
+      }
+      return;
+    }
+
+    const cell = channel.cell;
+    const volumeByte = cell.volumeEffect ?? (cell.volume !== undefined ? cell.volume + 0x10 : 0);
+    this.processVolumeColumn(channel, volumeByte);
+
+    const param = cell.effectParam;
+    const x = param >> 4;
+    const y = param & 0x0f;
+
+    switch (cell.effectType) {
+      case 0x1: // 1xx: portamento up
+        channel.period = Math.max(1, channel.period - (channel.portaUpSpeed << 2));
+        break;
+      case 0x2: // 2xx: portamento down
+        channel.period = channel.period + (channel.portaDownSpeed << 2);
+        break;
+      case 0x3: // 3xx: tone portamento
+        this.tonePortamento(channel);
+        break;
+      case 0x4: // 4xy: vibrato
+        this.vibrato(channel);
+        break;
+      case 0x5: // 5xy: tone portamento + volume slide
+        this.tonePortamento(channel);
+        this.volumeSlide(channel);
+        break;
+      case 0x6: // 6xy: vibrato + volume slide
+        this.vibrato(channel);
+        this.volumeSlide(channel);
+        break;
+      case 0x7: // 7xy: tremolo
+        channel.volumeOffset =
+          (waveformValue(channel.tremoloWaveform, channel.tremoloPosition) *
+            channel.tremoloDepth) >>
+          6;
+        channel.tremoloPosition = (channel.tremoloPosition + channel.tremoloSpeed) & 63;
+        break;
+      case 0xa: // Axy: volume slide
+        this.volumeSlide(channel);
+        break;
+      case 0xe:
+        if (x === 0x9 && y > 0 && tick % y === 0) {
+          // E9x: retrigger note every x ticks
+          this.retrigger(channel);
+        } else if (x === 0xc && tick === y) {
+          // ECx: note cut
+          channel.volume = 0;
+        }
+        break;
+      case 0x11: {
+        // Hxy: global volume slide
+        const up = channel.globalVolumeSlide >> 4;
+        const down = channel.globalVolumeSlide & 0x0f;
+        this.globalVolume = clamp(this.globalVolume + (up > 0 ? up : -down), 0, 64);
+        break;
+      }
+      case 0x14: // Kxx: key off
+        if (tick === param) this.keyOff(channel);
+        break;
+      case 0x19: {
+        // Pxy: panning slide
+        const right = channel.panningSlide >> 4;
+        const left = channel.panningSlide & 0x0f;
+        channel.panning = clamp(channel.panning + (right > 0 ? right : -left), 0, 255);
+        break;
+      }
+      case 0x1b: // Rxy: multi retrig note
+        if (channel.retrigInterval > 0 && ++channel.retrigCounter >= channel.retrigInterval) {
+          channel.retrigCounter = 0;
+          channel.volume = clamp(RETRIG_VOLUME[channel.retrigVolume](channel.volume), 0, 64);
+          this.retrigger(channel);
+        }
+        break;
+      case 0x1d: {
+        // Txy: tremor
+        const on = (channel.tremor >> 4) + 1;
+        const off = (channel.tremor & 0x0f) + 1;
+        channel.tremorCounter = (channel.tremorCounter + 1) % (on + off);
+        channel.tremorOn = channel.tremorCounter < on;
+        break;
+      }
+    }
+  }
+
+  /**
+   * Apply the remembered volume slide
+   */
+  private volumeSlide(channel: ChannelState): void {
+    const up = channel.volumeSlide >> 4;
+    const down = channel.volumeSlide & 0x0f;
+    channel.volume = clamp(channel.volume + (up > 0 ? up : -down), 0, 64);
+  }
+
+  /**
+   * Slide the period towards the tone portamento target
+   */
+  private tonePortamento(channel: ChannelState): void {
+    if (channel.period < channel.targetPeriod) {
+      channel.period = Math.min(channel.period + channel.tonePortaSpeed, channel.targetPeriod);
+    } else if (channel.period > channel.targetPeriod) {
+      channel.period = Math.max(channel.period - channel.tonePortaSpeed, channel.targetPeriod);
+    }
+  }
+
+  /**
+   * Apply one tick of vibrato
+   */
+  private vibrato(channel: ChannelState): void {
+    channel.periodOffset =
+      (waveformValue(channel.vibratoWaveform, channel.vibratoPosition) * channel.vibratoDepth) >> 5;
+    channel.vibratoPosition = (channel.vibratoPosition + channel.vibratoSpeed) & 63;
+  }
+
+  /**
+   * Restart the current sample without changing volume
+   */
+  private retrigger(channel: ChannelState): void {
+    if (!channel.sample) return;
+    channel.position = 0;
+    channel.active = true;
+    this.keyOn(channel);
+  }
+
+  /**
+   * Update envelopes and auto-vibrato and compute this tick's mix parameters
+   */
+  private updateChannel(channel: ChannelState): void {
+    if (!channel.active || !channel.sample) {
+      return;
+    }
+    const ext = channel.instrument?.extendedHeader;
+
+    // Volume: channel volume, tremolo, tremor, envelope, fadeout and global volume
+    let volume = clamp(channel.volume + channel.volumeOffset, 0, 64) / 64;
+    if (!channel.tremorOn) volume = 0;
+    if (ext && envelopeEnabled(ext.volumeEnvelope)) {
+      volume *= advanceEnvelope(ext.volumeEnvelope, channel.volumeEnvelope, channel.keyOn) / 64;
+    }
+    if (!channel.keyOn) {
+      channel.fadeout = Math.max(0, channel.fadeout - (ext?.volumeFadeOut ?? 0));
+    }
+    volume *= (channel.fadeout / FADEOUT_START) * (this.globalVolume / 64) * this.gain;
+
+    // Panning with the envelope centred on 32
+    let panning = channel.panning;
+    if (ext && envelopeEnabled(ext.panningEnvelope)) {
+      const envelope = advanceEnvelope(ext.panningEnvelope, channel.panningEnvelope, channel.keyOn);
+      panning += ((envelope - 32) * (128 - Math.abs(panning - 128))) / 32;
+    }
+    panning = clamp(panning, 0, 255);
+    channel.leftGain = volume * Math.sqrt((256 - panning) / 256);
+    channel.rightGain = volume * Math.sqrt(panning / 256);
+
+    // Pitch: period, vibrato, arpeggio, glissando and auto-vibrato
+    let period = channel.period + channel.periodOffset;
+    if (channel.glissando && channel.cell.effectType === 0x3) {
+      period = this.notePeriod(
+        Math.round(this.periodNote(period, channel.fineTune)),
+        channel.fineTune
+      );
+    }
+    const cell = channel.cell;
+    if (cell.effectType === 0x0 && cell.effectParam !== 0) {
+      const arpeggio = [0, cell.effectParam >> 4, cell.effectParam & 0x0f][this.tick % 3];
+      if (arpeggio > 0) {
+        period = this.notePeriod(
+          this.periodNote(period, channel.fineTune) + arpeggio,
+          channel.fineTune
+        );
+      }
+    }
+    if (ext && ext.vibratoDepth > 0) {
+      period += this.autoVibrato(
+        channel,
+        ext.vibratoType,
+        ext.vibratoSweep,
+        ext.vibratoDepth,
+        ext.vibratoRate
+      );
+    }
+    period = clamp(period, 1, 65535);
+
+    channel.step = this.periodFrequency(period) / this.sampleRate;
+  }
+
+  /**
+   * Advance the instrument auto-vibrato and return its period offset
+   */
+  private autoVibrato(
+    channel: ChannelState,
+    type: number,
+    sweep: number,
+    depth: number,
+    rate: number
+  ): number {
+    const target = depth << 8;
+    if (channel.autoVibratoAmplitude < target) {
+      channel.autoVibratoAmplitude = Math.min(
+        target,
+        channel.autoVibratoAmplitude + (sweep > 0 ? target / sweep : target)
+      );
+    }
+
+    const position = channel.autoVibratoPosition;
+    let value: number;
+    switch (type) {
+      case 1: // Square
+        value = position > 127 ? 64 : -64;
+        break;
+      case 2: // Ramp up
+        value = (((position >> 1) + 64) & 127) - 64;
+        break;
+      case 3: // Ramp down
+        value = ((64 - (position >> 1)) & 127) - 64;
+        break;
+      default:
+        value = Math.round(Math.sin((position / 256) * Math.PI * 2) * 64);
+        break;
+    }
+    channel.autoVibratoPosition = (position + rate) & 255;
+
+    return (value * channel.autoVibratoAmplitude) >> 14;
+  }
+
+  /**
+   * Period of a (possibly fractional) note
+   * @param realNote Note number counted from C-0 (0-based) including the relative note
+   * @param fineTune Fine tune (-128 to +127, 1/128 semitone)
+   */
+  private notePeriod(realNote: number, fineTune: number): number {
+    if (this.linear) {
+      return LINEAR_PERIOD_BASE - realNote * 64 - fineTune / 2;
+    }
+    return C4_AMIGA_PERIOD * Math.pow(2, (48 - realNote - fineTune / 128) / 12);
+  }
+
+  /**
+   * Inverse of notePeriod
+   */
+  private periodNote(period: number, fineTune: number): number {
+    if (this.linear) {
+      return (LINEAR_PERIOD_BASE - fineTune / 2 - period) / 64;
+    }
+    return 48 - fineTune / 128 - 12 * Math.log2(period / C4_AMIGA_PERIOD);
+  }
+
+  /**
+   * Playback frequency of a period in Hz
+   */
+  private periodFrequency(period: number): number {
+    if (this.linear) {
+      return XM_CONSTANTS.C4_SAMPLE_RATE * Math.pow(2, (4608 - period) / 768);
+    }
+    return (XM_CONSTANTS.C4_SAMPLE_RATE * C4_AMIGA_PERIOD) / period;
+  }
+
+  /**
+   * Get sample data normalised to -1..1, cached per sample
+   */
+  private getSampleData(sample: XMSample): Float32Array {
+    let data = this.sampleCache.get(sample);
+    if (!data) {
+      const scale = sample.data instanceof Int16Array ? 1 / 32768 : 1 / 128;
+      data = new Float32Array(sample.data.length);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = sample.data[i] * scale;
+      }
+      this.sampleCache.set(sample, data);
+    }
+    return data;
+  }
+
+  /**
+   * Mix a channel into the output buffer
+   */
+  private mixChannel(
+    channel: ChannelState,
+    output: Float32Array,
+    offset: number,
+    count: number
+  ): void {
+    const sample = channel.sample!;
+    const data = channel.sampleData!;
+    const loopType = sample.header.type & 0x03;
+    const loopStart = Math.min(sample.header.loopStart, data.length);
+    const loopEnd = Math.min(sample.header.loopStart + sample.header.loopLength, data.length);
+    const looped = loopType !== LoopType.None && loopEnd > loopStart;
+    const pingPong = looped && loopType === LoopType.PingPong;
+    const loopLength = loopEnd - loopStart;
+    const cycle = pingPong ? loopLength * 2 : loopLength;
+
+    const fetch = (index: number): number => {
+      if (index < 0) return 0;
+      if (index < (looped ? loopEnd : data.length)) return data[index];
+      if (!looped) return 0;
+      const phase = (index - loopStart) % cycle;
+      if (phase < loopLength) return data[loopStart + phase];
+      return data[Math.max(loopStart, loopEnd - 1 - (phase - loopLength))];
+    };
+
+    let position = channel.position;
+    for (let i = 0; i < count; i++) {
+      if (looped && position >= loopEnd) {
+        position = loopStart + ((position - loopStart) % cycle);
+      } else if (!looped && position >= data.length) {
+        channel.active = false;
+        break;
+      }
+
+      // Map the monotonically increasing position onto the ping-pong loop
+      let readPosition = position;
+      if (pingPong && position >= loopEnd) {
+        readPosition = Math.max(loopStart, 2 * loopEnd - 1 - position);
+      }
+
+      const index = Math.floor(readPosition);
+      const fraction = readPosition - index;
+      let value: number;
+      switch (this.interpolation) {
+        case 'none':
+          value = fetch(index);
+          break;
+        case 'cubic': {
+          // Catmull-Rom spline
+          const p0 = fetch(index - 1);
+          const p1 = fetch(index);
+          const p2 = fetch(index + 1);
+          const p3 = fetch(index + 2);
+          value =
+            p1 +
+            0.5 *
+              fraction *
+              (p2 -
+                p0 +
+                fraction * (2 * p0 - 5 * p1 + 4 * p2 - p3 + fraction * (3 * (p1 - p2) + p3 - p0)));
+          break;
+        }
+        default: {
+          const p1 = fetch(index);
+          value = p1 + (fetch(index + 1) - p1) * fraction;
+          break;
+        }
+      }
+
+      output[(offset + i) * 2] += value * channel.leftGain;
+      output[(offset + i) * 2 + 1] += value * channel.rightGain;
+      position += channel.step;
+    }
+    channel.position = position;
+  }
+}
+
+/**
+ * Render a module to interleaved stereo float PCM
+ * @param module The module to render
+ * @param options Render options
+ * @returns The rendered audio
+ */
+export function renderModule(module: XMModule, options: XMRenderOptions = {}): XMRenderResult {
+  const sampleRate = options.sampleRate ?? 44100;
+  const maxFrames = Math.floor((options.maxDuration ?? 600) * sampleRate);
+  const renderer = new XMRenderer(module, options);
+
+  const chunks: Float32Array[] = [];
+  const chunk = new Float32Array(8192);
+  let frames = 0;
+  while (frames < maxFrames) {
+    const written = renderer.render(
+      chunk.subarray(0, Math.min(chunk.length, (maxFrames - frames) * 2))
+    );
+    if (written === 0) break;
+    chunks.push(chunk.slice(0, written * 2));
+    frames += written;
+  }
+
+  const data = new Float32Array(frames * 2);
+  let offset = 0;
+  for (const part of chunks) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return { sampleRate, frames, data };
+}
+
+/**
+ * Convert float PCM to 16-bit integer PCM, clipping out-of-range samples
+ * @param data Float samples nominally within -1..1
+ * @returns 16-bit samples
+ */
+export function floatToInt16(data: Float32Array): Int16Array {
+  const result = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    result[i] = Math.round(clamp(data[i], -1, 1) * 32767);
+  }
+  return result;
+}
+
+/**
+ * Render a module straight to a stereo WAV file
+ * @param module The module to render
+ * @param options Render options plus the WAV sample format (default: 'int16')
+ * @returns The complete WAV file
+ */
+export function renderModuleToWav(
+  module: XMModule,
+  options: XMRenderOptions & { format?: 'int16' | 'float32' } = {}
+): Uint8Array {
+  const result = renderModule(module, options);
+  const data = options.format === 'float32' ? result.data : floatToInt16(result.data);
+  return encodeWav(data, { sampleRate: result.sampleRate, channels: 2 });
+}
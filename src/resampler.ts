@@ -0,0 +1,160 @@
+/**
+ * Sample resampling
+ * Changes a sample's rate and retunes it so it keeps playing at the same pitch
+ */
+
+import { XMSample } from './types';
+import { semitonesToTuning, tuningToSemitones, tuningToSampleRate } from './tuning';
+
+/**
+ * Interpolation used when resampling:
+ * - 'linear': straight lines between frames; fast, but aliases when reducing the rate
+ * - 'sinc': windowed sinc with a low-pass at the lower of the two rates
+ */
+export type ResampleQuality = 'linear' | 'sinc';
+
+/**
+ * Options for resampling a sample. Give either `sampleRate` or `maxBytes`.
+ */
+export interface ResampleOptions {
+  /** New rate in Hz at which the sample plays on C-4 */
+  sampleRate?: number;
+  /** Largest data size in bytes; the sample is only reduced if it is larger */
+  maxBytes?: number;
+  /** Interpolation (default: 'sinc') */
+  quality?: ResampleQuality;
+}
+
+/** Zero crossings on each side of the sinc kernel */
+const SINC_ZERO_CROSSINGS = 16;
+
+/** Type bit that marks 16-bit sample data */
+const SAMPLE_16BIT = 0x10;
+
+/**
+ * Resample a sample to a new rate. The loop points are scaled with the data,
+ * and `relativeNoteNumber`/`fineTune` are adjusted so every note still plays
+ * at the same pitch.
+ * @param sample The sample to resample
+ * @param options Target rate or size, and quality
+ * @returns A new sample (a copy if it already fits `maxBytes`)
+ */
+export function resampleSample(sample: XMSample, options: ResampleOptions): XMSample {
+  const { sampleRate, maxBytes } = options;
+  if ((sampleRate === undefined) === (maxBytes === undefined)) {
+    throw new Error('Give either sampleRate or maxBytes');
+  }
+
+  const wide = sample.data instanceof Int16Array;
+  const bytesPerFrame = wide ? 2 : 1;
+  const oldLength = sample.data.length;
+  let newLength: number;
+  if (sampleRate !== undefined) {
+    if (!Number.isFinite(sampleRate) || sampleRate <= 0) {
+      throw new Error(`sampleRate must be a positive number (got ${sampleRate})`);
+    }
+    const ratio = sampleRate / tuningToSampleRate(sample.header);
+    newLength = Math.max(1, Math.round(oldLength * ratio));
+  } else {
+    if (!Number.isInteger(maxBytes) || maxBytes! < bytesPerFrame) {
+      throw new Error(`maxBytes must be an integer of at least ${bytesPerFrame} (got ${maxBytes})`);
+    }
+    newLength = Math.min(oldLength, Math.floor(maxBytes! / bytesPerFrame));
+  }
+  if (oldLength === 0 || newLength === oldLength) {
+    return { header: { ...sample.header }, data: sample.data.slice() };
+  }
+
+  // Use the ratio of the rounded lengths so pitch and loop points match the data exactly
+  const ratio = newLength / oldLength;
+  const quality = options.quality ?? 'sinc';
+  const values =
+    quality === 'linear'
+      ? resampleLinear(sample.data, newLength, ratio)
+      : resampleSinc(sample.data, newLength, ratio);
+
+  const max = wide ? 32767 : 127;
+  const data = wide ? new Int16Array(newLength) : new Int8Array(newLength);
+  for (let i = 0; i < newLength; i++) {
+    data[i] = Math.max(-max - 1, Math.min(max, Math.round(values[i])));
+  }
+
+  const header = { ...sample.header };
+  const loopStart = Math.min(newLength, Math.round(header.loopStart * ratio));
+  const loopEnd = Math.min(newLength, Math.round((header.loopStart + header.loopLength) * ratio));
+  header.loopStart = loopStart;
+  header.loopLength = header.loopLength > 0 ? Math.max(1, loopEnd - loopStart) : 0;
+  if (header.loopStart + header.loopLength > newLength) {
+    header.loopStart = newLength - header.loopLength;
+  }
+  header.length = newLength * bytesPerFrame;
+  header.type = (header.type & ~SAMPLE_16BIT) | (wide ? SAMPLE_16BIT : 0);
+
+  // Fewer frames per second means the sample must be played proportionally slower
+  const tuning = semitonesToTuning(tuningToSemitones(header) + 12 * Math.log2(ratio));
+  header.relativeNoteNumber = tuning.relativeNoteNumber;
+  header.fineTune = tuning.fineTune;
+
+  return { header, data };
+}
+
+/**
+ * Linear interpolation between neighbouring frames
+ */
+function resampleLinear(data: Int8Array | Int16Array, length: number, ratio: number): Float64Array {
+  const result = new Float64Array(length);
+  const last = data.length - 1;
+  for (let i = 0; i < length; i++) {
+    const position = i / ratio;
+    const index = Math.min(Math.floor(position), last);
+    const fraction = position - index;
+    const next = data[Math.min(index + 1, last)];
+    result[i] = data[index] + (next - data[index]) * fraction;
+  }
+  return result;
+}
+
+/**
+ * Windowed-sinc interpolation; when reducing the rate the kernel is widened
+ * to low-pass at the new Nyquist frequency
+ */
+function resampleSinc(data: Int8Array | Int16Array, length: number, ratio: number): Float64Array {
+  const result = new Float64Array(length);
+  const cutoff = Math.min(1, ratio);
+  const halfWidth = SINC_ZERO_CROSSINGS / cutoff;
+
+  for (let i = 0; i < length; i++) {
+    const position = i / ratio;
+    const first = Math.max(0, Math.ceil(position - halfWidth));
+    const last = Math.min(data.length - 1, Math.floor(position + halfWidth));
+    let sum = 0;
+    for (let k = first; k <= last; k++) {
+      const distance = position - k;
+      sum += data[k] * cutoff * sinc(cutoff * distance) * blackman(distance / halfWidth);
+    }
+    result[i] = sum;
+  }
+  return result;
+}
+
+/**
+ * Normalized sinc function
+ */
+function sinc(x: number): number {
+  if (x === 0) {
+    return 1;
+  }
+  const angle = Math.PI * x;
+  return Math.sin(angle) / angle;
+}
+
+/**
+ * Blackman window over -1..1
+ */
+function blackman(x: number): number {
+  if (Math.abs(x) >= 1) {
+    return 0;
+  }
+  const phase = Math.PI * (x + 1);
+  return 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+}
@@ -0,0 +1,653 @@
+/**
+ * Scream Tracker 3 file reader
+ * Converts .s3m files into XM module structures
+ */
+
+import { BinaryReader } from './binaryReader';
+import {
+  XMModule,
+  XMHeader,
+  XMPattern,
+  XMPatternNote,
+  XMInstrument,
+  XMSample,
+  XMEffects,
+  LoopType,
+  XM_CONSTANTS,
+} from './types';
+import { createInstrument, createSample, addSampleToInstrument, createPattern } from './xmWriter';
+import { sampleRateToSemitones, semitonesToTuning } from './tuning';
+import { applyChannelPanning, ChannelPanningMode } from './channelPanning';
+
+/**
+ * Options for converting an S3M file
+ */
+export interface S3MImportOptions {
+  /** How the per-channel panning is carried over (default: 'effect') */
+  panning?: ChannelPanningMode;
+}
+
+/**
+ * Something in the S3M file that could not be converted exactly
+ */
+export interface S3MImportIssue {
+  /** Whether the feature is unsupported (dropped) or approximated */
+  type: 'unsupported' | 'approximated';
+  /** Location in the S3M file, e.g. "instruments[3]" or "patterns[2].data[10][4].effect" */
+  path: string;
+  /** Human readable description */
+  message: string;
+}
+
+/**
+ * Result of converting an S3M file
+ */
+export interface S3MImportResult {
+  /** The converted module, using the Amiga frequency table */
+  module: XMModule;
+  /** Everything that could not be converted exactly */
+  issues: S3MImportIssue[];
+}
+
+/** Offset of the "SCRM" signature */
+const SIGNATURE_OFFSET = 0x2c;
+
+/** Number of rows in an S3M pattern */
+const S3M_PATTERN_ROWS = 64;
+
+/** Order list marker that is skipped during playback */
+const ORDER_MARKER = 0xfe;
+
+/** Order list marker for the end of the song */
+const ORDER_END = 0xff;
+
+/** Note value for an empty note */
+const NOTE_EMPTY = 0xff;
+
+/** Note value for a note cut (^^) */
+const NOTE_CUT = 0xfe;
+
+/** Default panning value in the header that enables the panning table */
+const PANNING_TABLE_PRESENT = 0xfc;
+
+/**
+ * S3M file reader class
+ */
+export class S3MReader {
+  private reader: BinaryReader;
+  private issues: S3MImportIssue[] = [];
+
+  constructor() {
+    this.reader = new BinaryReader(new Uint8Array(0));
+  }
+
+  /**
+   * Read an S3M file and convert it to an XM module.
+   * Only enabled PCM channels are kept. C2Spd becomes relative note and fine tune,
+   * unsigned sample data is made signed and effects are mapped to their XM
+   * equivalents; AdLib instruments and channels are reported as unsupported.
+   * @param data Buffer containing the S3M file data
+   * @param options Conversion options
+   * @returns The converted module and a list of conversion issues
+   */
+  read(data: ArrayBuffer | Uint8Array, options: S3MImportOptions = {}): S3MImportResult {
+    this.reader = new BinaryReader(data);
+    this.issues = [];
+
+    if (this.reader.getLength() < 0x60) {
+      throw new Error('Not an S3M file: file is too short');
+    }
+    this.reader.setPosition(SIGNATURE_OFFSET);
+    if (this.reader.readString(4) !== 'SCRM') {
+      throw new Error('Not an S3M file: missing "SCRM" signature');
+    }
+
+    this.reader.setPosition(0);
+    const title = this.reader.readString(28);
+    this.reader.setPosition(0x20);
+    const orderCount = this.reader.readUint16();
+    const instrumentCount = this.reader.readUint16();
+    const patternCount = this.reader.readUint16();
+    this.reader.readUint16(); // Flags
+    this.reader.readUint16(); // Created with tracker version
+    const unsignedSamples = this.reader.readUint16() === 2;
+    this.reader.skip(4); // Signature
+    const globalVolume = this.reader.readUint8();
+    const initialSpeed = this.reader.readUint8();
+    const initialTempo = this.reader.readUint8();
+    const stereo = (this.reader.readUint8() & 0x80) !== 0;
+    this.reader.readUint8(); // Ultra click removal
+    const hasPanningTable = this.reader.readUint8() === PANNING_TABLE_PRESENT;
+    this.reader.skip(10); // Reserved and special pointer
+    const channelSettings = Array.from(this.reader.readBytes(32));
+
+    const orders = Array.from(this.reader.readBytes(orderCount));
+    const instrumentPointers: number[] = [];
+    for (let i = 0; i < instrumentCount; i++) {
+      instrumentPointers.push(this.reader.readUint16() * 16);
+    }
+    const patternPointers: number[] = [];
+    for (let i = 0; i < patternCount; i++) {
+      patternPointers.push(this.reader.readUint16() * 16);
+    }
+    const panningTable =
+      hasPanningTable && this.reader.getRemaining() >= 32
+        ? Array.from(this.reader.readBytes(32))
+        : [];
+
+    const { channelMap, pan } = this.readChannels(channelSettings, panningTable, stereo);
+
+    const samples: (XMSample | undefined)[] = [];
+    const instruments: XMInstrument[] = instrumentPointers.map((pointer, i) => {
+      const { instrument, sample } = this.readInstrument(pointer, unsignedSamples, i);
+      samples.push(sample);
+      return instrument;
+    });
+
+    const numberOfChannels = Math.max(2, pan.length + (pan.length & 1));
+    const patterns = patternPointers.map((pointer, i) =>
+      this.readPattern(pointer, channelMap, numberOfChannels, i)
+    );
+    if (patterns.length === 0) {
+      patterns.push(createPattern(S3M_PATTERN_ROWS, numberOfChannels));
+    }
+
+    applyChannelPanning(patterns, samples, pan, options.panning ?? 'effect');
+
+    // Markers are skipped and the song ends at the first end marker. positionMap
+    // gives the XM position of each S3M order; a skipped order maps to the next kept one.
+    const orderTable: number[] = [];
+    const positionMap: number[] = [];
+    for (let i = 0; i < orders.length && orders[i] !== ORDER_END; i++) {
+      positionMap[i] = orderTable.length;
+      if (orders[i] === ORDER_MARKER) {
+        continue;
+      }
+      if (orders[i] >= patterns.length) {
+        this.issue('unsupported', `orders[${i}]`, `Order refers to missing pattern ${orders[i]}`);
+        continue;
+      }
+      orderTable.push(orders[i]);
+    }
+    if (orderTable.length === 0) {
+      orderTable.push(0);
+    }
+    this.remapJumps(patterns, positionMap, orderTable.length);
+
+    if (globalVolume < 64) {
+      this.setGlobalVolume(patterns[orderTable[0]], globalVolume);
+    }
+
+    const header: XMHeader = {
+      moduleName: title.slice(0, XM_CONSTANTS.MAX_MODULE_NAME_LENGTH),
+      trackerName: XM_CONSTANTS.DEFAULT_TRACKER_NAME,
+      version: XM_CONSTANTS.DEFAULT_VERSION,
+      songLength: Math.min(orderTable.length, XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE),
+      restartPosition: 0,
+      numberOfChannels,
+      numberOfPatterns: patterns.length,
+      numberOfInstruments: instruments.length,
+      flags: 0, // Amiga frequency table
+      defaultTempo: initialSpeed >= 1 && initialSpeed <= 31 ? initialSpeed : 6,
+      defaultBPM: initialTempo >= 32 ? initialTempo : 125,
+      patternOrderTable: [
+        ...orderTable,
+        ...new Array(XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE).fill(0),
+      ].slice(0, XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE),
+    };
+
+    return { module: { header, patterns, instruments }, issues: this.issues };
+  }
+
+  /**
+   * Record a conversion issue
+   */
+  private issue(type: S3MImportIssue['type'], path: string, message: string): void {
+    this.issues.push({ type, path, message });
+  }
+
+  /**
+   * Work out which S3M channels are kept and their panning
+   * @param settings Channel settings from the header
+   * @param panningTable Default panning table (empty if the file has none)
+   * @param stereo Whether the module is stereo
+   * @returns The XM channel of each S3M channel (-1 if dropped) and the panning of each XM channel
+   */
+  private readChannels(
+    settings: number[],
+    panningTable: number[],
+    stereo: boolean
+  ): { channelMap: number[]; pan: number[] } {
+    const channelMap: number[] = [];
+    const pan: number[] = [];
+
+    settings.forEach((setting, channel) => {
+      const type = setting & 0x7f;
+      if (setting === 0xff || type >= 16) {
+        if (setting !== 0xff) {
+          this.issue(
+            'unsupported',
+            `channelSettings[${channel}]`,
+            'AdLib channels are not supported'
+          );
+        }
+        channelMap.push(-1);
+        return;
+      }
+      if (setting & 0x80) {
+        this.issue(
+          'approximated',
+          `channelSettings[${channel}]`,
+          'Channel is muted in the S3M file but plays in XM'
+        );
+      }
+
+      // Channels 0-7 are on the left, 8-15 on the right, unless the panning table says otherwise
+      let value = type < 8 ? 0x3 : 0xc;
+      if (panningTable[channel] & 0x20) {
+        value = panningTable[channel] & 0x0f;
+      }
+      channelMap.push(pan.length);
+      pan.push(stereo ? value * 17 : 128);
+    });
+
+    return { channelMap, pan };
+  }
+
+  /**
+   * Read an instrument and its sample data
+   * @param pointer File offset of the instrument
+   * @param unsignedSamples Whether sample data is unsigned
+   * @param index Index of the instrument
+   * @returns The converted instrument and its sample, if it has one
+   */
+  private readInstrument(
+    pointer: number,
+    unsignedSamples: boolean,
+    index: number
+  ): { instrument: XMInstrument; sample?: XMSample } {
+    const path = `instruments[${index}]`;
+    if (pointer === 0 || pointer + 0x50 > this.reader.getLength()) {
+      return { instrument: createInstrument('') };
+    }
+
+    this.reader.setPosition(pointer);
+    const type = this.reader.readUint8();
+    this.reader.skip(12); // DOS file name
+    const memsegHigh = this.reader.readUint8();
+    const memsegLow = this.reader.readUint16();
+    const length = this.reader.readUint32();
+    const loopBegin = this.reader.readUint32();
+    const loopEnd = this.reader.readUint32();
+    const volume = Math.min(64, this.reader.readUint8());
+    this.reader.skip(2); // Reserved and packing
+    const flags = this.reader.readUint8();
+    const c2spd = this.reader.readUint32();
+    this.reader.skip(12); // Internal
+    const name = this.reader.readString(28);
+    const instrument = createInstrument(name.slice(0, XM_CONSTANTS.MAX_INSTRUMENT_NAME_LENGTH));
+
+    if (type >= 2) {
+      this.issue('unsupported', path, `AdLib instrument "${name}" is not supported`);
+      return { instrument };
+    }
+    if (type !== 1 || length === 0) {
+      return { instrument };
+    }
+
+    const is16Bit = (flags & 0x04) !== 0;
+    const isStereo = (flags & 0x02) !== 0;
+    const bytesPerFrame = is16Bit ? 2 : 1;
+    const offset = ((memsegHigh << 16) | memsegLow) * 16;
+
+    // Tolerate truncated files: keep whatever sample data is present
+    const available = Math.max(0, this.reader.getLength() - offset);
+    const frames = Math.min(length, Math.floor(available / bytesPerFrame));
+    if (frames < length) {
+      this.issue('approximated', `${path}.data`, `Sample data truncated to ${frames} frames`);
+    }
+    this.reader.setPosition(Math.min(offset, this.reader.getLength()));
+    const data = this.readSampleData(frames, is16Bit, unsignedSamples);
+    if (isStereo) {
+      // Stereo samples store the right channel after the left one
+      const rightOffset = offset + length * bytesPerFrame;
+      const rightFrames = Math.min(
+        frames,
+        Math.floor(Math.max(0, this.reader.getLength() - rightOffset) / bytesPerFrame)
+      );
+      this.reader.setPosition(Math.min(rightOffset, this.reader.getLength()));
+      const right = this.readSampleData(rightFrames, is16Bit, unsignedSamples);
+      for (let i = 0; i < right.length; i++) {
+        data[i] = Math.round((data[i] + right[i]) / 2);
+      }
+      this.issue('approximated', `${path}.flags`, 'Stereo sample mixed down to mono');
+    }
+
+    const looped = (flags & 0x01) !== 0 && loopEnd > loopBegin && loopBegin < frames;
+    const tuning = semitonesToTuning(sampleRateToSemitones(c2spd || XM_CONSTANTS.C4_SAMPLE_RATE));
+    const sample = createSample({
+      data,
+      volume,
+      loopStart: looped ? loopBegin : 0,
+      loopLength: looped ? Math.min(loopEnd, frames) - loopBegin : 0,
+      loopType: looped ? LoopType.Forward : LoopType.None,
+      relativeNoteNumber: tuning.relativeNoteNumber,
+      fineTune: tuning.fineTune,
+    });
+    sample.header.name = name.slice(0, XM_CONSTANTS.MAX_SAMPLE_NAME_LENGTH);
+    addSampleToInstrument(instrument, sample);
+
+    return { instrument, sample };
+  }
+
+  /**
+   * Read sample data and convert it to signed values
+   * @param frames Number of frames to read
+   * @param is16Bit Whether samples are 16-bit little-endian
+   * @param unsigned Whether samples are stored unsigned
+   * @returns Signed sample data
+   */
+  private readSampleData(
+    frames: number,
+    is16Bit: boolean,
+    unsigned: boolean
+  ): Int8Array | Int16Array {
+    if (is16Bit) {
+      const data = new Int16Array(frames);
+      for (let i = 0; i < frames; i++) {
+        data[i] = unsigned ? this.reader.readUint16() - 32768 : this.reader.readInt16();
+      }
+      return data;
+    }
+    const data = new Int8Array(frames);
+    for (let i = 0; i < frames; i++) {
+      data[i] = unsigned ? this.reader.readUint8() - 128 : this.reader.readInt8();
+    }
+    return data;
+  }
+
+  /**
+   * Read and unpack one pattern
+   * @param pointer File offset of the pattern (0 = empty pattern)
+   * @param channelMap XM channel of each S3M channel
+   * @param numberOfChannels Number of XM channels
+   * @param index Index of the pattern
+   * @returns XM pattern structure
+   */
+  private readPattern(
+    pointer: number,
+    channelMap: number[],
+    numberOfChannels: number,
+    index: number
+  ): XMPattern {
+    const pattern = createPattern(S3M_PATTERN_ROWS, numberOfChannels);
+    if (pointer === 0 || pointer + 2 > this.reader.getLength()) {
+      return pattern;
+    }
+
+    this.reader.setPosition(pointer);
+    const packedLength = this.reader.readUint16();
+    const end = Math.min(this.reader.getLength(), pointer + Math.max(2, packedLength));
+
+    let row = 0;
+    while (row < S3M_PATTERN_ROWS && this.reader.getPosition() < end) {
+      const what = this.reader.readUint8();
+      if (what === 0) {
+        row++;
+        continue;
+      }
+
+      const channel = what & 0x1f;
+      const note = what & 0x20 ? this.reader.readUint8() : NOTE_EMPTY;
+      const instrument = what & 0x20 ? this.reader.readUint8() : 0;
+      const volume = what & 0x40 ? this.reader.readUint8() : undefined;
+      const command = what & 0x80 ? this.reader.readUint8() : 0;
+      const info = what & 0x80 ? this.reader.readUint8() : 0;
+
+      const xmChannel = channelMap[channel];
+      if (xmChannel === undefined || xmChannel < 0) {
+        continue;
+      }
+
+      const cell: XMPatternNote = pattern.data[row][xmChannel];
+      cell.note = this.convertNote(note, `patterns[${index}].data[${row}][${channel}].note`);
+      cell.instrument = instrument;
+      if (volume !== undefined && volume <= 64) {
+        cell.volume = volume;
+      }
+      if (command !== 0) {
+        const path = `patterns[${index}].data[${row}][${channel}].effect`;
+        const effect = this.convertEffect(command, info, path);
+        if (effect) {
+          cell.effectType = effect.type;
+          cell.effectParam = effect.param;
+        }
+      }
+    }
+
+    return pattern;
+  }
+
+  /**
+   * Convert an S3M note (octave in the high nibble, semitone in the low nibble)
+   * @returns XM note value
+   */
+  private convertNote(note: number, path: string): number {
+    if (note === NOTE_EMPTY) {
+      return 0;
+    }
+    if (note === NOTE_CUT) {
+      // Instruments have no envelopes, so a key off cuts the note
+      return XM_CONSTANTS.NOTE_OFF;
+    }
+    const value = (note >> 4) * 12 + (note & 0x0f) + 1;
+    if ((note & 0x0f) > 11 || value > 96) {
+      this.issue('unsupported', path, `Note ${note.toString(16)} is out of the XM range`);
+      return 0;
+    }
+    return value;
+  }
+
+  /**
+   * Map an S3M effect onto an XM effect
+   * @param command Effect letter (1 = A, 2 = B, ...)
+   * @param info Effect parameter
+   * @param path Path of the effect in the S3M file
+   * @returns XM effect type and parameter, or null if there is no equivalent
+   */
+  private convertEffect(
+    command: number,
+    info: number,
+    path: string
+  ): { type: number; param: number } | null {
+    const letter = String.fromCharCode(64 + command);
+    const x = info >> 4;
+    const y = info & 0x0f;
+
+    switch (letter) {
+      case 'A': // Set speed
+        if (info === 0) {
+          return null;
+        }
+        if (info > 31) {
+          this.issue('approximated', path, `Speed ${info} limited to 31`);
+        }
+        return { type: 0x0f, param: Math.min(31, info) }; // Fxx: Set speed
+      case 'B':
+        return { type: XMEffects.PositionJump, param: info };
+      case 'C':
+        return { type: XMEffects.PatternBreak, param: info };
+      case 'D':
+        return this.convertVolumeSlide(XMEffects.VolumeSlide, info, path);
+      case 'E': // Portamento down, EFx fine, EEx extra fine
+        if (x === 0xf) {
+          return { type: XMEffects.ExtendedEffect, param: 0x20 | y };
+        }
+        if (x === 0xe) {
+          return { type: 0x21, param: 0x20 | y }; // X2y: Extra fine portamento down
+        }
+        return { type: XMEffects.PortamentoDown, param: info };
+      case 'F': // Portamento up, FFx fine, FEx extra fine
+        if (x === 0xf) {
+          return { type: XMEffects.ExtendedEffect, param: 0x10 | y };
+        }
+        if (x === 0xe) {
+          return { type: 0x21, param: 0x10 | y }; // X1y: Extra fine portamento up
+        }
+        return { type: XMEffects.PortamentoUp, param: info };
+      case 'G':
+        return { type: XMEffects.TonePortamento, param: info };
+      case 'H':
+        return { type: XMEffects.Vibrato, param: info };
+      case 'I':
+        return { type: 0x1d, param: info }; // Txy: Tremor
+      case 'J':
+        return { type: XMEffects.Arpeggio, param: info };
+      case 'K':
+        return this.convertVolumeSlide(XMEffects.VibratoVolumeSlide, info, path);
+      case 'L':
+        return this.convertVolumeSlide(XMEffects.TonePortaVolumeSlide, info, path);
+      case 'O':
+        return { type: XMEffects.SetSampleOffset, param: info };
+      case 'Q':
+        return { type: 0x1b, param: info }; // Rxy: Multi retrig note
+      case 'R':
+        return { type: XMEffects.Tremolo, param: info };
+      case 'S':
+        return this.convertSpecial(x, y, path);
+      case 'T': // Set tempo
+        if (info < 0x20) {
+          this.issue('unsupported', path, 'Tempo slides are not supported');
+          return null;
+        }
+        return { type: 0x0f, param: info }; // Fxx: Set BPM
+      case 'U': // Fine vibrato, four times finer than H
+        this.issue('approximated', path, 'Fine vibrato converted to vibrato');
+        return { type: XMEffects.Vibrato, param: (x << 4) | Math.max(y ? 1 : 0, y >> 2) };
+      case 'V':
+        return { type: 0x10, param: Math.min(64, info) }; // Gxx: Set global volume
+      case 'W':
+        return { type: 0x11, param: info }; // Hxy: Global volume slide
+      case 'X': // Set panning, 0x00-0x80
+        if (info > 0x80) {
+          this.issue('unsupported', path, 'Surround panning is not supported');
+          return null;
+        }
+        return { type: XMEffects.SetPanning, param: Math.min(255, info * 2) };
+      default:
+        this.issue(
+          'unsupported',
+          path,
+          `Effect ${letter}${info.toString(16).padStart(2, '0')} has no XM equivalent`
+        );
+        return null;
+    }
+  }
+
+  /**
+   * Map an S3M volume slide (Dxy, Kxy or Lxy), where DxF and DFy are fine slides
+   */
+  private convertVolumeSlide(
+    type: number,
+    info: number,
+    path: string
+  ): { type: number; param: number } | null {
+    const x = info >> 4;
+    const y = info & 0x0f;
+    const fineUp = y === 0xf && x !== 0;
+    const fineDown = x === 0xf && y !== 0;
+    if (!fineUp && !fineDown) {
+      return { type, param: info };
+    }
+    if (type !== XMEffects.VolumeSlide) {
+      this.issue('unsupported', path, 'Fine volume slides combined with vibrato or portamento');
+      return null;
+    }
+    // DFF is a fine slide down by 15
+    return fineDown
+      ? { type: XMEffects.ExtendedEffect, param: 0xb0 | y }
+      : { type: XMEffects.ExtendedEffect, param: 0xa0 | x };
+  }
+
+  /**
+   * Map an S3M Sxy special command
+   */
+  private convertSpecial(
+    x: number,
+    y: number,
+    path: string
+  ): { type: number; param: number } | null {
+    // S3M sub-command to XM E sub-command
+    const extended: Record<number, number> = {
+      0x0: 0x0, // Filter
+      0x1: 0x3, // Glissando control
+      0x2: 0x5, // Set finetune
+      0x3: 0x4, // Vibrato waveform
+      0x4: 0x7, // Tremolo waveform
+      0xb: 0x6, // Pattern loop
+      0xc: 0xc, // Note cut
+      0xd: 0xd, // Note delay
+      0xe: 0xe, // Pattern delay
+    };
+    if (x === 0x8) {
+      return { type: XMEffects.SetPanning, param: y * 17 };
+    }
+    if (extended[x] !== undefined) {
+      return { type: XMEffects.ExtendedEffect, param: (extended[x] << 4) | y };
+    }
+    this.issue(
+      'unsupported',
+      path,
+      `Effect S${x.toString(16)}${y.toString(16)} has no XM equivalent`
+    );
+    return null;
+  }
+
+  /**
+   * Point position jumps at the XM order positions of their targets. Jumps past
+   * the end of the song go back to the start.
+   */
+  private remapJumps(patterns: XMPattern[], positionMap: number[], songLength: number): void {
+    for (const pattern of patterns) {
+      for (const row of pattern.data) {
+        for (const cell of row) {
+          if (cell.effectType === XMEffects.PositionJump) {
+            const position = positionMap[cell.effectParam] ?? 0;
+            cell.effectParam = position < songLength ? position : 0;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Set the module's global volume on the first row of the song
+   */
+  private setGlobalVolume(pattern: XMPattern, volume: number): void {
+    const cell = pattern.data[0].find((c) => c.effectType === 0 && c.effectParam === 0);
+    if (cell) {
+      cell.effectType = 0x10; // Gxx: Set global volume
+      cell.effectParam = volume;
+    } else {
+      this.issue('unsupported', 'globalVolume', 'No free effect column for the global volume');
+    }
+  }
+}
+
+/**
+ * Load an S3M file and convert it to an XM module (Node.js only)
+ * @param filename The input filename
+ * @param options Conversion options
+ * @returns The converted module and a list of conversion issues
+ */
+export async function loadS3MFromFile(
+  filename: string,
+  options: S3MImportOptions = {}
+): Promise<S3MImportResult> {
+  // Dynamic import for Node.js fs module
+  const { promises: fs } = await import('fs');
+  const data = await fs.readFile(filename);
+
+  const reader = new S3MReader();
+  return reader.read(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), options);
+}
@@ -0,0 +1,285 @@
+/**
+ * Sample processing
+ * Operations on XMSample data. Each returns a new sample and leaves the input
+ * untouched; the header's byte length, loop points (in frames) and 16-bit
+ * type bit always match the new data.
+ */
+
+import { XMSample, LoopType } from './types';
+
+/** Type bit that marks 16-bit sample data */
+const SAMPLE_16BIT = 0x10;
+
+/**
+ * Options for converting a sample to 8-bit
+ */
+export interface SampleBitDepthOptions {
+  /** Add triangular dither before dropping the low byte (default: true) */
+  dither?: boolean;
+}
+
+/**
+ * Options for trimming silence
+ */
+export interface SampleTrimOptions {
+  /** Frames whose absolute value is at most this are silent (default: 0) */
+  threshold?: number;
+}
+
+/**
+ * Check whether a sample holds 16-bit data
+ */
+function is16Bit(sample: XMSample): boolean {
+  return sample.data instanceof Int16Array;
+}
+
+/**
+ * Largest positive value of the sample's bit depth
+ */
+function maxValue(sample: XMSample): number {
+  return is16Bit(sample) ? 32767 : 127;
+}
+
+/**
+ * Check that a parameter is a non-negative integer
+ */
+function checkFrames(name: string, value: number): number {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer (got ${value})`);
+  }
+  return value;
+}
+
+/**
+ * Build a sample around new data, copying the header and fixing length, type and loop.
+ * A loop that no longer fits in the data is clipped; an empty loop is turned off.
+ * @param sample The sample to copy the header from
+ * @param data The new data
+ * @param loopStart Loop start in frames (default: unchanged)
+ */
+function withData(
+  sample: XMSample,
+  data: Int8Array | Int16Array,
+  loopStart: number = sample.header.loopStart
+): XMSample {
+  const header = { ...sample.header };
+  const wide = data instanceof Int16Array;
+  header.length = wide ? data.length * 2 : data.length;
+  header.type = (header.type & ~SAMPLE_16BIT) | (wide ? SAMPLE_16BIT : 0);
+
+  const start = Math.max(0, Math.min(loopStart, data.length));
+  const end = Math.max(start, Math.min(loopStart + header.loopLength, data.length));
+  header.loopStart = start;
+  header.loopLength = end - start;
+  if ((header.type & 0x03) === LoopType.None || header.loopLength === 0) {
+    header.type &= ~0x03;
+    header.loopStart = 0;
+    header.loopLength = 0;
+  }
+  return { header, data };
+}
+
+/**
+ * Apply a function to every frame, clipping the result to the sample's range
+ */
+function mapFrames(sample: XMSample, map: (value: number, index: number) => number): XMSample {
+  const max = maxValue(sample);
+  const data = is16Bit(sample)
+    ? new Int16Array(sample.data.length)
+    : new Int8Array(sample.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.max(-max - 1, Math.min(max, Math.round(map(sample.data[i], i))));
+  }
+  return withData(sample, data);
+}
+
+/**
+ * Multiply every frame by a gain factor, clipping at full scale
+ * @param sample The sample to amplify
+ * @param gain Linear factor (1 = unchanged, 0.5 = -6 dB)
+ * @returns A new sample
+ */
+export function applySampleGain(sample: XMSample, gain: number): XMSample {
+  if (!Number.isFinite(gain) || gain < 0) {
+    throw new Error(`gain must be a non-negative number (got ${gain})`);
+  }
+  return mapFrames(sample, (value) => value * gain);
+}
+
+/**
+ * Scale a sample so its loudest frame reaches a peak level
+ * @param sample The sample to normalize
+ * @param peak Target peak as a fraction of full scale (0-1, default: 1)
+ * @returns A new sample; silent samples are returned unchanged
+ */
+export function normalizeSample(sample: XMSample, peak: number = 1): XMSample {
+  if (!(peak >= 0 && peak <= 1)) {
+    throw new Error(`peak must be between 0 and 1 (got ${peak})`);
+  }
+  let loudest = 0;
+  for (let i = 0; i < sample.data.length; i++) {
+    loudest = Math.max(loudest, Math.abs(sample.data[i]));
+  }
+  if (loudest === 0) {
+    return withData(sample, sample.data.slice());
+  }
+  return applySampleGain(sample, (peak * maxValue(sample)) / loudest);
+}
+
+/**
+ * Convert a sample to 16-bit
+ * @param sample The sample to convert
+ * @returns A new 16-bit sample (a copy if it already is 16-bit)
+ */
+export function convertSampleTo16Bit(sample: XMSample): XMSample {
+  if (is16Bit(sample)) {
+    return withData(sample, sample.data.slice());
+  }
+  const data = new Int16Array(sample.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = sample.data[i] * 256;
+  }
+  return withData(sample, data);
+}
+
+/**
+ * Convert a sample to 8-bit
+ * @param sample The sample to convert
+ * @param options Dithering options
+ * @returns A new 8-bit sample (a copy if it already is 8-bit)
+ */
+export function convertSampleTo8Bit(
+  sample: XMSample,
+  options: SampleBitDepthOptions = {}
+): XMSample {
+  if (!is16Bit(sample)) {
+    return withData(sample, sample.data.slice());
+  }
+  const dither = options.dither ?? true;
+  // Fixed-seed generator so the same input always gives the same output
+  let seed = 0x2545f491;
+  const random = () => {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+    return seed / 0x100000000;
+  };
+
+  const data = new Int8Array(sample.data.length);
+  for (let i = 0; i < data.length; i++) {
+    const noise = dither ? random() - random() : 0;
+    data[i] = Math.max(-128, Math.min(127, Math.round(sample.data[i] / 256 + noise)));
+  }
+  return withData(sample, data);
+}
+
+/**
+ * Reverse a sample; the loop is mirrored so it covers the same audio
+ * @param sample The sample to reverse
+ * @returns A new sample
+ */
+export function reverseSample(sample: XMSample): XMSample {
+  const data = sample.data.slice().reverse();
+  const { loopStart, loopLength } = sample.header;
+  return withData(sample, data, data.length - (loopStart + loopLength));
+}
+
+/**
+ * Fade the start of a sample in from silence
+ * @param sample The sample to fade
+ * @param frames Length of the fade (clipped to the sample length)
+ * @returns A new sample
+ */
+export function fadeSampleIn(sample: XMSample, frames: number): XMSample {
+  checkFrames('frames', frames);
+  return mapFrames(sample, (value, index) => (index < frames ? (value * index) / frames : value));
+}
+
+/**
+ * Fade the end of a sample out to silence
+ * @param sample The sample to fade
+ * @param frames Length of the fade (clipped to the sample length)
+ * @returns A new sample
+ */
+export function fadeSampleOut(sample: XMSample, frames: number): XMSample {
+  checkFrames('frames', frames);
+  const length = sample.data.length;
+  return mapFrames(sample, (value, index) => {
+    const remaining = length - 1 - index;
+    return remaining < frames ? (value * remaining) / frames : value;
+  });
+}
+
+/**
+ * Remove a DC offset by subtracting the average value
+ * @param sample The sample to correct
+ * @returns A new sample
+ */
+export function removeSampleDCOffset(sample: XMSample): XMSample {
+  let sum = 0;
+  for (let i = 0; i < sample.data.length; i++) {
+    sum += sample.data[i];
+  }
+  const offset = sample.data.length > 0 ? sum / sample.data.length : 0;
+  return mapFrames(sample, (value) => value - offset);
+}
+
+/**
+ * Remove silence from the start and end of a sample.
+ * The loop is never cut into, and loop points move with the removed start.
+ * @param sample The sample to trim
+ * @param options Silence threshold
+ * @returns A new sample (empty if it is silent and has no loop)
+ */
+export function trimSampleSilence(sample: XMSample, options: SampleTrimOptions = {}): XMSample {
+  const threshold = options.threshold ?? 0;
+  if (!(threshold >= 0)) {
+    throw new Error(`threshold must be a non-negative number (got ${threshold})`);
+  }
+  const { data } = sample;
+  let start = 0;
+  while (start < data.length && Math.abs(data[start]) <= threshold) {
+    start++;
+  }
+  let end = data.length;
+  while (end > start && Math.abs(data[end - 1]) <= threshold) {
+    end--;
+  }
+
+  const { loopStart, loopLength, type } = sample.header;
+  if ((type & 0x03) !== LoopType.None && loopLength > 0) {
+    start = Math.min(start, loopStart);
+    end = Math.max(end, Math.min(loopStart + loopLength, data.length));
+  }
+  return withData(sample, data.slice(start, end), loopStart - start);
+}
+
+/**
+ * Crossfade the end of a forward loop with the audio before the loop start,
+ * so the jump back to the start does not click
+ * @param sample The sample to process
+ * @param frames Length of the crossfade; at most the loop length and the loop start
+ * @returns A new sample
+ * @throws Error if the sample has no forward loop or the crossfade is too long
+ */
+export function crossfadeSampleLoop(sample: XMSample, frames: number): XMSample {
+  checkFrames('frames', frames);
+  const { loopStart, loopLength, type } = sample.header;
+  if ((type & 0x03) !== LoopType.Forward || loopLength === 0) {
+    throw new Error('Loop crossfade needs a sample with a forward loop');
+  }
+  if (frames > loopLength || frames > loopStart) {
+    throw new Error(
+      `Crossfade of ${frames} frames does not fit: the loop starts at ${loopStart} and is ${loopLength} frames long`
+    );
+  }
+
+  // Towards the loop end, blend in what precedes the loop start so the wrap is continuous
+  const fadeStart = loopStart + loopLength - frames;
+  return mapFrames(sample, (value, index) => {
+    const offset = index - fadeStart;
+    if (offset < 0 || offset >= frames) {
+      return value;
+    }
+    const mix = (offset + 1) / (frames + 1);
+    return value * (1 - mix) + sample.data[loopStart - frames + offset] * mix;
+  });
+}
@@ -0,0 +1,238 @@
+/**
+ * Sample tuning
+ * Conversions between sample rates and relative note number / fine tune pairs
+ */
+
+import { XMHeader, XM_CONSTANTS } from './types';
+import { noteNameToValue, noteValueToName } from './xmWriter';
+
+/**
+ * Relative note number and fine tune of a sample
+ */
+export interface XMSampleTuning {
+  /** Relative note number (-128 to +127 semitones) */
+  relativeNoteNumber: number;
+  /** Fine tune (-128 to +127, in 1/128 semitone) */
+  fineTune: number;
+}
+
+/**
+ * Split a pitch offset into relative note number and fine tune
+ * @param semitones Pitch offset in semitones
+ * @returns The nearest representable tuning, with fine tune in -64..64
+ */
+export function semitonesToTuning(semitones: number): XMSampleTuning {
+  const units = Math.round(semitones * 128);
+  const relativeNoteNumber = Math.max(-128, Math.min(127, Math.round(units / 128)));
+  const fineTune = Math.max(-128, Math.min(127, units - relativeNoteNumber * 128));
+  return { relativeNoteNumber, fineTune };
+}
+
+/**
+ * Pitch offset that makes a sample play at its recorded pitch on C-4
+ * @param sampleRate Sample rate in Hz
+ * @returns Offset in semitones relative to C-4 = 8363 Hz
+ */
+export function sampleRateToSemitones(sampleRate: number): number {
+  return 12 * Math.log2(sampleRate / XM_CONSTANTS.C4_SAMPLE_RATE);
+}
+
+/**
+ * Combine relative note number and fine tune into a pitch offset
+ * @param tuning Relative note number and fine tune
+ * @returns Pitch offset in semitones
+ */
+export function tuningToSemitones(tuning: XMSampleTuning): number {
+  return tuning.relativeNoteNumber + tuning.fineTune / 128;
+}
+
+/**
+ * Sample rate at which a sample plays on C-4
+ * @param tuning Relative note number and fine tune
+ * @returns Playback rate in Hz
+ */
+export function tuningToSampleRate(tuning: XMSampleTuning): number {
+  return XM_CONSTANTS.C4_SAMPLE_RATE * Math.pow(2, tuningToSemitones(tuning) / 12);
+}
+
+/**
+ * Frequency table selected by `XMHeader.flags`
+ */
+export type XMFrequencyTable = 'linear' | 'amiga';
+
+/**
+ * Where a sample's recorded pitch sits on the keyboard
+ */
+export interface XMRootOptions {
+  /** XM note (1-96) or note name such as `"A-4"` that plays the sample at its recorded rate */
+  rootNote?: number | string;
+  /** Pitch of the recorded sound in Hz (A-4 = 440 Hz), as an alternative to `rootNote` */
+  rootFrequency?: number;
+  /** Frequency table of the module (default: 'linear') */
+  table?: XMFrequencyTable;
+}
+
+/**
+ * Tuning together with how far it is from the requested pitch
+ */
+export interface XMTuningResult extends XMSampleTuning {
+  /** Played pitch minus requested pitch on the root note in cents (positive = sharp) */
+  errorCents: number;
+}
+
+/**
+ * Nearest root note of a tuned sample
+ */
+export interface XMRootNoteResult {
+  /** XM note (1-96) that plays the sample closest to its recorded rate */
+  note: number;
+  /** Name of the note, e.g. `"A-4"` */
+  noteName: string;
+  /** Played pitch minus recorded pitch on that note in cents (positive = sharp) */
+  errorCents: number;
+}
+
+/** XM note value of C-4 */
+const C4_NOTE = 49;
+
+/** XM note value of A-4 */
+const A4_NOTE = 58;
+
+/** Pitch of A-4 in Hz */
+const A4_FREQUENCY = 440;
+
+/** Amiga period of C-4 (four times the ProTracker period) */
+const C4_AMIGA_PERIOD = 1712;
+
+/** FT2 looks periods up in 1/16 semitone steps and uses the top 5 bits of the fine tune */
+const STEPS_PER_SEMITONE = 16;
+
+/**
+ * Frequency table used by a module
+ * @param header Module header
+ * @returns 'linear' if the linear frequency flag is set, otherwise 'amiga'
+ */
+export function frequencyTableOf(header: Pick<XMHeader, 'flags'>): XMFrequencyTable {
+  return (header.flags & XM_CONSTANTS.FLAG_LINEAR_FREQUENCY) !== 0 ? 'linear' : 'amiga';
+}
+
+/**
+ * Rate at which FastTracker II plays a sample on a note. Fine tune is used in
+ * 1/16 semitone steps, and Amiga periods are whole numbers.
+ * @param tuning Relative note number and fine tune
+ * @param note XM note (1-96)
+ * @param table Frequency table (default: 'linear')
+ * @returns Playback rate in Hz
+ */
+export function samplePlaybackRate(
+  tuning: XMSampleTuning,
+  note: number,
+  table: XMFrequencyTable = 'linear'
+): number {
+  const steps =
+    (note - C4_NOTE + tuning.relativeNoteNumber) * STEPS_PER_SEMITONE + (tuning.fineTune >> 3);
+  const octaves = steps / (12 * STEPS_PER_SEMITONE);
+  if (table === 'linear') {
+    return XM_CONSTANTS.C4_SAMPLE_RATE * Math.pow(2, octaves);
+  }
+  const period = Math.max(1, Math.round(C4_AMIGA_PERIOD / Math.pow(2, octaves)));
+  return (XM_CONSTANTS.C4_SAMPLE_RATE * C4_AMIGA_PERIOD) / period;
+}
+
+/**
+ * Relative note number and fine tune that make a sample play in tune.
+ * The nearest pair FT2 can play is chosen for the given table.
+ *
+ * @example
+ * ```typescript
+ * // A sample of an A recorded at 44.1 kHz, played in tune on A-4
+ * const tuning = tuningForSampleRate(44100, { rootNote: 'A-4' });
+ * // { relativeNoteNumber: 20, fineTune: -24, errorCents: 2.83 }
+ * ```
+ * @param sampleRate Recording rate in Hz
+ * @param options Root note or frequency (default: C-4) and frequency table
+ * @returns The tuning and its residual error in cents
+ */
+export function tuningForSampleRate(
+  sampleRate: number,
+  options: XMRootOptions = {}
+): XMTuningResult {
+  if (!Number.isFinite(sampleRate) || sampleRate <= 0) {
+    throw new Error(`sampleRate must be a positive number (got ${sampleRate})`);
+  }
+  const table = options.table ?? 'linear';
+  const rootNote = resolveRootNote(options);
+
+  // Playing the root note must give the recording rate
+  const semitones = sampleRateToSemitones(sampleRate) - (rootNote - C4_NOTE);
+  const steps = Math.round(semitones * STEPS_PER_SEMITONE);
+
+  // Whole Amiga periods can make a neighbouring step closer
+  let best: XMTuningResult | undefined;
+  for (const candidate of table === 'amiga' ? [steps - 1, steps, steps + 1] : [steps]) {
+    // Half a semitone rounds up, so fine tune stays within -64..56
+    const relativeNoteNumber = Math.max(
+      -128,
+      Math.min(127, Math.floor((candidate + STEPS_PER_SEMITONE / 2) / STEPS_PER_SEMITONE))
+    );
+    const fineTune = Math.max(
+      -128,
+      Math.min(120, (candidate - relativeNoteNumber * STEPS_PER_SEMITONE) * 8)
+    );
+    const tuning = { relativeNoteNumber, fineTune };
+    // The root note may be fractional; the semitone offset applies the same to every note
+    const played = samplePlaybackRate(tuning, Math.round(rootNote), table);
+    const errorCents =
+      1200 * Math.log2(played / sampleRate) - 100 * (Math.round(rootNote) - rootNote);
+    if (!best || Math.abs(errorCents) < Math.abs(best.errorCents)) {
+      best = { ...tuning, errorCents };
+    }
+  }
+  return best!;
+}
+
+/**
+ * Find the note on which a tuned sample plays at its recorded rate
+ * @param tuning Relative note number and fine tune
+ * @param sampleRate Recording rate in Hz
+ * @param table Frequency table (default: 'linear')
+ * @returns The nearest note and how far the sample is out of tune on it
+ */
+export function rootNoteForTuning(
+  tuning: XMSampleTuning,
+  sampleRate: number,
+  table: XMFrequencyTable = 'linear'
+): XMRootNoteResult {
+  if (!Number.isFinite(sampleRate) || sampleRate <= 0) {
+    throw new Error(`sampleRate must be a positive number (got ${sampleRate})`);
+  }
+  const offset = 12 * Math.log2(samplePlaybackRate(tuning, C4_NOTE, table) / sampleRate);
+  const note = Math.max(1, Math.min(96, Math.round(C4_NOTE - offset)));
+  return {
+    note,
+    noteName: noteValueToName(note),
+    errorCents: 1200 * Math.log2(samplePlaybackRate(tuning, note, table) / sampleRate),
+  };
+}
+
+/**
+ * XM note (possibly fractional) from root options
+ */
+function resolveRootNote(options: XMRootOptions): number {
+  if (options.rootNote !== undefined && options.rootFrequency !== undefined) {
+    throw new Error('Give either rootNote or rootFrequency');
+  }
+  if (options.rootFrequency !== undefined) {
+    const frequency = options.rootFrequency;
+    if (!Number.isFinite(frequency) || frequency <= 0) {
+      throw new Error(`rootFrequency must be a positive number (got ${frequency})`);
+    }
+    return A4_NOTE + 12 * Math.log2(frequency / A4_FREQUENCY);
+  }
+  const rootNote = options.rootNote ?? C4_NOTE;
+  const note = typeof rootNote === 'string' ? noteNameToValue(rootNote) : rootNote;
+  if (!Number.isInteger(note) || note < 1 || note > 96) {
+    throw new Error(`rootNote must be a note from C-0 to B-7 (got ${rootNote})`);
+  }
+  return note;
+}
@@ -239,6 +239,12 @@ export const XM_CONSTANTS = {
   MAX_ENVELOPE_POINTS: 12,
   /** Sample number for notes array size */
   SAMPLE_NUMBER_FOR_NOTES_SIZE: 96,
+  /** Maximum number of channels in a module */
+  MAX_CHANNELS: 32,
+  /** Maximum number of patterns in a module */
+  MAX_PATTERNS: 256,
+  /** Maximum number of samples in an instrument */
+  MAX_SAMPLES_PER_INSTRUMENT: 16,
   /** Default XM version */
   DEFAULT_VERSION: 0x0104,
   /** Default tracker name */
@@ -247,6 +253,8 @@ export const XM_CONSTANTS = {
   NOTE_OFF: 97,
   /** Linear frequency table flag */
   FLAG_LINEAR_FREQUENCY: 0x01,
+  /** Playback rate of a sample at C-4 with no relative note or fine tune */
+  C4_SAMPLE_RATE: 8363,
 } as const;
 
 /**
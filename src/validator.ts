@@ -0,0 +1,540 @@
+/**
+ * XM module validation
+ * Checks a module against the limits of the XM format before it is written
+ */
+
+import {
+  XMHeader,
+  XMPatternNote,
+  XMInstrument,
+  XMSample,
+  XMEnvelope,
+  XM_CONSTANTS,
+  EnvelopeFlags,
+  LoopType,
+} from './types';
+import { XMCompactPattern, XMPatternLike, XMWritableModule } from './compactPattern';
+
+/**
+ * Severity of a validation issue.
+ * Errors produce files that trackers reject or misinterpret; warnings are
+ * suspicious but still result in a loadable file.
+ */
+export type XMValidationSeverity = 'error' | 'warning';
+
+/**
+ * A single validation diagnostic
+ */
+export interface XMValidationIssue {
+  /** Issue severity */
+  severity: XMValidationSeverity;
+  /** JSON-style path of the offending field, e.g. `patterns[3].data[12][2].volume` */
+  path: string;
+  /** Human readable description */
+  message: string;
+  /**
+   * Set on errors that would write a corrupt or misplaying file: counts that
+   * disagree with the data, order entries past the last pattern, values that
+   * do not fit their field and sample loops past the data. XMWriter throws
+   * for these even in lenient mode.
+   */
+  fatal?: boolean;
+}
+
+/**
+ * Error thrown when a module fails validation
+ */
+export class XMValidationError extends Error {
+  /** The error-severity issues that caused the failure */
+  readonly issues: XMValidationIssue[];
+
+  constructor(issues: XMValidationIssue[]) {
+    super(
+      'Invalid XM module:\n' + issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n')
+    );
+    this.name = 'XMValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Options for validating a module
+ */
+export interface XMValidateOptions {
+  /**
+   * Frame count of a sample whose data is supplied separately, e.g. streamed
+   * by `XMWriter.stream`; return undefined to check `sample.data` as usual
+   */
+  sampleFrames?: (sample: XMSample) => number | undefined;
+}
+
+/** Highest effect type number (Z = 35) */
+const MAX_EFFECT_TYPE = 35;
+
+/**
+ * Collects issues while walking a module
+ */
+class IssueCollector {
+  readonly issues: XMValidationIssue[] = [];
+
+  error(path: string, message: string, fatal: boolean = false): void {
+    this.issues.push(
+      fatal ? { severity: 'error', path, message, fatal } : { severity: 'error', path, message }
+    );
+  }
+
+  warning(path: string, message: string): void {
+    this.issues.push({ severity: 'warning', path, message });
+  }
+
+  /**
+   * Report an error if the value is not an integer within [min, max]
+   * @returns true if the value is valid
+   */
+  range(path: string, value: number, min: number, max: number, fatal: boolean = false): boolean {
+    if (!Number.isInteger(value) || value < min || value > max) {
+      this.error(path, `Must be an integer between ${min} and ${max} (got ${value})`, fatal);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Report a warning if the string does not fit its fixed-length field
+   */
+  stringLength(path: string, value: string, maxLength: number): void {
+    const byteLength = new TextEncoder().encode(value).length;
+    if (byteLength > maxLength) {
+      this.warning(path, `Is ${byteLength} bytes long and will be truncated to ${maxLength}`);
+    }
+  }
+}
+
+/**
+ * Validate an XM module
+ * @param module The module to validate
+ * @param options Validation options
+ * @returns All errors and warnings found, in document order
+ */
+export function validateModule(
+  module: XMWritableModule,
+  options: XMValidateOptions = {}
+): XMValidationIssue[] {
+  const collector = new IssueCollector();
+
+  validateHeader(collector, module);
+  module.patterns.forEach((pattern, index) => {
+    validatePattern(collector, `patterns[${index}]`, pattern, module.header);
+  });
+  module.instruments.forEach((instrument, index) => {
+    validateInstrument(collector, `instruments[${index}]`, instrument, options);
+  });
+
+  return collector.issues;
+}
+
+/**
+ * Validate the module header against the pattern and instrument arrays
+ */
+function validateHeader(collector: IssueCollector, module: XMWritableModule): void {
+  const header: XMHeader = module.header;
+
+  collector.stringLength(
+    'header.moduleName',
+    header.moduleName,
+    XM_CONSTANTS.MAX_MODULE_NAME_LENGTH
+  );
+  collector.stringLength(
+    'header.trackerName',
+    header.trackerName,
+    XM_CONSTANTS.MAX_TRACKER_NAME_LENGTH
+  );
+
+  if (header.numberOfChannels > 32) {
+    collector.error('header.numberOfChannels', 'Number of channels cannot exceed 32', true);
+  } else {
+    collector.range('header.numberOfChannels', header.numberOfChannels, 1, 32, true);
+  }
+
+  if (header.numberOfPatterns > XM_CONSTANTS.MAX_PATTERNS) {
+    collector.error(
+      'header.numberOfPatterns',
+      `Number of patterns cannot exceed ${XM_CONSTANTS.MAX_PATTERNS}`,
+      true
+    );
+  } else if (header.numberOfPatterns !== module.patterns.length) {
+    collector.error(
+      'header.numberOfPatterns',
+      `Header says ${header.numberOfPatterns} patterns but ${module.patterns.length} are present`,
+      true
+    );
+  }
+
+  if (header.numberOfInstruments > 128) {
+    collector.error('header.numberOfInstruments', 'Number of instruments cannot exceed 128', true);
+  } else if (header.numberOfInstruments !== module.instruments.length) {
+    collector.error(
+      'header.numberOfInstruments',
+      `Header says ${header.numberOfInstruments} instruments but ${module.instruments.length} are present`,
+      true
+    );
+  }
+
+  collector.range('header.defaultTempo', header.defaultTempo, 1, 31);
+  collector.range('header.defaultBPM', header.defaultBPM, 32, 255);
+
+  const songLengthValid = collector.range(
+    'header.songLength',
+    header.songLength,
+    1,
+    XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE
+  );
+  if (songLengthValid && header.restartPosition >= header.songLength) {
+    collector.warning(
+      'header.restartPosition',
+      `Restart position ${header.restartPosition} is past the end of the song (length ${header.songLength})`
+    );
+  }
+
+  if (header.patternOrderTable.length > XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE) {
+    collector.warning(
+      'header.patternOrderTable',
+      `Has ${header.patternOrderTable.length} entries; only the first 256 are written`
+    );
+  }
+  const songLength = Math.min(header.songLength, XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE);
+  for (let i = 0; i < songLength; i++) {
+    const path = `header.patternOrderTable[${i}]`;
+    const entry = header.patternOrderTable[i] ?? 0;
+    if (collector.range(path, entry, 0, 255, true) && entry >= module.patterns.length) {
+      collector.error(
+        path,
+        `References pattern ${entry}, but only ${module.patterns.length} patterns exist`,
+        true
+      );
+    }
+  }
+}
+
+/**
+ * Validate a pattern and all of its cells
+ */
+function validatePattern(
+  collector: IssueCollector,
+  path: string,
+  pattern: XMPatternLike,
+  header: XMHeader
+): void {
+  if (pattern instanceof XMCompactPattern) {
+    validateCompactPattern(collector, path, pattern, header);
+    return;
+  }
+
+  collector.range(`${path}.header.numberOfRows`, pattern.header.numberOfRows, 1, 256, true);
+
+  if (pattern.data.length > pattern.header.numberOfRows) {
+    collector.warning(
+      `${path}.data`,
+      `Has ${pattern.data.length} rows but the header says ${pattern.header.numberOfRows}; extra rows are ignored`
+    );
+  }
+
+  const rows = Math.min(pattern.data.length, pattern.header.numberOfRows);
+  for (let row = 0; row < rows; row++) {
+    const rowData = pattern.data[row];
+    if (!rowData) continue;
+    if (rowData.length > header.numberOfChannels) {
+      collector.warning(
+        `${path}.data[${row}]`,
+        `Has ${rowData.length} channels but the module has ${header.numberOfChannels}; extra channels are ignored`
+      );
+    }
+    const channels = Math.min(rowData.length, header.numberOfChannels);
+    for (let channel = 0; channel < channels; channel++) {
+      const note = rowData[channel];
+      if (note) {
+        validateNote(collector, `${path}.data[${row}][${channel}]`, note, header);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a compact pattern; its size and byte values are checked when set
+ */
+function validateCompactPattern(
+  collector: IssueCollector,
+  path: string,
+  pattern: XMCompactPattern,
+  header: XMHeader
+): void {
+  if (pattern.numberOfChannels > header.numberOfChannels) {
+    collector.warning(
+      path,
+      `Has ${pattern.numberOfChannels} channels but the module has ${header.numberOfChannels}; extra channels are ignored`
+    );
+  }
+  const channels = Math.min(pattern.numberOfChannels, header.numberOfChannels);
+  for (let row = 0; row < pattern.numberOfRows; row++) {
+    for (let channel = 0; channel < channels; channel++) {
+      validateNote(
+        collector,
+        `${path}.data[${row}][${channel}]`,
+        pattern.getNote(row, channel),
+        header
+      );
+    }
+  }
+}
+
+/**
+ * Validate a single pattern cell
+ */
+function validateNote(
+  collector: IssueCollector,
+  path: string,
+  note: XMPatternNote,
+  header: XMHeader
+): void {
+  collector.range(`${path}.note`, note.note, 0, XM_CONSTANTS.NOTE_OFF, true);
+
+  if (
+    collector.range(`${path}.instrument`, note.instrument, 0, 128, true) &&
+    note.instrument > header.numberOfInstruments
+  ) {
+    collector.warning(
+      `${path}.instrument`,
+      `References instrument ${note.instrument}, but only ${header.numberOfInstruments} instruments exist`
+    );
+  }
+
+  if (note.volume !== undefined && note.volumeEffect !== undefined) {
+    collector.error(
+      `${path}.volumeEffect`,
+      'Cannot set both volume and volumeEffect on the same note',
+      true
+    );
+  }
+  if (note.volume !== undefined) {
+    collector.range(`${path}.volume`, note.volume, 0, 64, true);
+  }
+  if (note.volumeEffect !== undefined) {
+    collector.range(`${path}.volumeEffect`, note.volumeEffect, 0x60, 0xff, true);
+  }
+
+  collector.range(`${path}.effectType`, note.effectType, 0, MAX_EFFECT_TYPE, true);
+  collector.range(`${path}.effectParam`, note.effectParam, 0, 255, true);
+}
+
+/**
+ * Validate an instrument, its extended header and its samples
+ */
+function validateInstrument(
+  collector: IssueCollector,
+  path: string,
+  instrument: XMInstrument,
+  options: XMValidateOptions
+): void {
+  collector.stringLength(
+    `${path}.header.name`,
+    instrument.header.name,
+    XM_CONSTANTS.MAX_INSTRUMENT_NAME_LENGTH
+  );
+
+  const sampleCount = instrument.samples.length;
+  if (sampleCount > XM_CONSTANTS.MAX_SAMPLES_PER_INSTRUMENT) {
+    collector.error(
+      `${path}.samples`,
+      `Has ${sampleCount} samples; an instrument can hold at most ${XM_CONSTANTS.MAX_SAMPLES_PER_INSTRUMENT}`,
+      true
+    );
+  }
+  if (instrument.header.numberOfSamples !== sampleCount) {
+    collector.warning(
+      `${path}.header.numberOfSamples`,
+      `Header says ${instrument.header.numberOfSamples} samples but ${sampleCount} are present`
+    );
+  }
+
+  const ext = instrument.extendedHeader;
+  if (sampleCount > 0 && !ext) {
+    collector.error(`${path}.extendedHeader`, 'Is required when the instrument has samples');
+  }
+
+  if (ext && sampleCount > 0) {
+    const notes = ext.sampleNumberForNotes;
+    if (notes.length > XM_CONSTANTS.SAMPLE_NUMBER_FOR_NOTES_SIZE) {
+      collector.warning(
+        `${path}.extendedHeader.sampleNumberForNotes`,
+        `Has ${notes.length} entries; only the first 96 are written`
+      );
+    }
+    for (let i = 0; i < Math.min(notes.length, XM_CONSTANTS.SAMPLE_NUMBER_FOR_NOTES_SIZE); i++) {
+      const notePath = `${path}.extendedHeader.sampleNumberForNotes[${i}]`;
+      if (collector.range(notePath, notes[i], 0, 255) && notes[i] >= sampleCount) {
+        collector.warning(
+          notePath,
+          `References sample ${notes[i]}, but the instrument has ${sampleCount} samples`
+        );
+      }
+    }
+
+    validateEnvelope(collector, `${path}.extendedHeader.volumeEnvelope`, ext.volumeEnvelope);
+    validateEnvelope(collector, `${path}.extendedHeader.panningEnvelope`, ext.panningEnvelope);
+
+    collector.range(`${path}.extendedHeader.vibratoType`, ext.vibratoType, 0, 3);
+    collector.range(`${path}.extendedHeader.vibratoSweep`, ext.vibratoSweep, 0, 255);
+    collector.range(`${path}.extendedHeader.vibratoDepth`, ext.vibratoDepth, 0, 15);
+    collector.range(`${path}.extendedHeader.vibratoRate`, ext.vibratoRate, 0, 63);
+    if (
+      collector.range(`${path}.extendedHeader.volumeFadeOut`, ext.volumeFadeOut, 0, 0xffff) &&
+      ext.volumeFadeOut > 0xfff
+    ) {
+      collector.warning(
+        `${path}.extendedHeader.volumeFadeOut`,
+        `FastTracker II limits fadeout to 4095 (got ${ext.volumeFadeOut})`
+      );
+    }
+  }
+
+  instrument.samples.forEach((sample, index) => {
+    validateSample(collector, `${path}.samples[${index}]`, sample, options.sampleFrames?.(sample));
+  });
+}
+
+/**
+ * Validate an envelope's points, sustain and loop settings
+ */
+function validateEnvelope(collector: IssueCollector, path: string, envelope: XMEnvelope): void {
+  if (envelope.points.length > XM_CONSTANTS.MAX_ENVELOPE_POINTS) {
+    collector.error(
+      `${path}.points`,
+      `Has ${envelope.points.length} points; an envelope can hold at most ${XM_CONSTANTS.MAX_ENVELOPE_POINTS}`
+    );
+  }
+  if (
+    !collector.range(
+      `${path}.numberOfPoints`,
+      envelope.numberOfPoints,
+      0,
+      XM_CONSTANTS.MAX_ENVELOPE_POINTS
+    )
+  ) {
+    return;
+  }
+  if (envelope.numberOfPoints > envelope.points.length) {
+    collector.error(
+      `${path}.numberOfPoints`,
+      `Is ${envelope.numberOfPoints} but only ${envelope.points.length} points are defined`
+    );
+    return;
+  }
+
+  for (let i = 0; i < envelope.numberOfPoints; i++) {
+    const point = envelope.points[i];
+    if (
+      collector.range(`${path}.points[${i}].x`, point.x, 0, 0xffff) &&
+      i > 0 &&
+      point.x <= envelope.points[i - 1].x
+    ) {
+      collector.error(
+        `${path}.points[${i}].x`,
+        `Must be greater than the previous point's x (${envelope.points[i - 1].x}), got ${point.x}`
+      );
+    }
+    collector.range(`${path}.points[${i}].y`, point.y, 0, 64);
+  }
+
+  const enabled = (envelope.type & EnvelopeFlags.On) !== 0;
+  if (enabled && envelope.numberOfPoints === 0) {
+    collector.error(`${path}.type`, 'Envelope is enabled but has no points');
+  }
+  if (
+    enabled &&
+    (envelope.type & EnvelopeFlags.Sustain) !== 0 &&
+    envelope.sustainPoint >= envelope.numberOfPoints
+  ) {
+    collector.error(
+      `${path}.sustainPoint`,
+      `Sustain point ${envelope.sustainPoint} is out of range (envelope has ${envelope.numberOfPoints} points)`
+    );
+  }
+  if (enabled && (envelope.type & EnvelopeFlags.Loop) !== 0) {
+    if (envelope.loopStartPoint >= envelope.numberOfPoints) {
+      collector.error(
+        `${path}.loopStartPoint`,
+        `Loop start point ${envelope.loopStartPoint} is out of range (envelope has ${envelope.numberOfPoints} points)`
+      );
+    }
+    if (envelope.loopEndPoint >= envelope.numberOfPoints) {
+      collector.error(
+        `${path}.loopEndPoint`,
+        `Loop end point ${envelope.loopEndPoint} is out of range (envelope has ${envelope.numberOfPoints} points)`
+      );
+    } else if (envelope.loopEndPoint < envelope.loopStartPoint) {
+      collector.error(
+        `${path}.loopEndPoint`,
+        `Loop end point ${envelope.loopEndPoint} is before loop start point ${envelope.loopStartPoint}`
+      );
+    }
+  }
+}
+
+/**
+ * Validate a sample header against its data, or against the frame count of
+ * data that is supplied separately
+ */
+function validateSample(
+  collector: IssueCollector,
+  path: string,
+  sample: XMSample,
+  externalFrames?: number
+): void {
+  const header = sample.header;
+  collector.stringLength(`${path}.header.name`, header.name, XM_CONSTANTS.MAX_SAMPLE_NAME_LENGTH);
+
+  collector.range(`${path}.header.volume`, header.volume, 0, 64);
+  collector.range(`${path}.header.fineTune`, header.fineTune, -128, 127);
+  collector.range(`${path}.header.panning`, header.panning, 0, 255);
+  collector.range(`${path}.header.relativeNoteNumber`, header.relativeNoteNumber, -128, 127);
+
+  const is16Bit = (header.type & 0x10) !== 0;
+  const frames = externalFrames ?? sample.data.length;
+  if (externalFrames === undefined && is16Bit !== sample.data instanceof Int16Array) {
+    collector.error(
+      `${path}.header.type`,
+      is16Bit
+        ? '16-bit flag is set but the data is an Int8Array'
+        : '16-bit flag is clear but the data is an Int16Array',
+      true
+    );
+  }
+  const byteLength =
+    externalFrames === undefined
+      ? sample.data.length * (sample.data instanceof Int16Array ? 2 : 1)
+      : externalFrames * (is16Bit ? 2 : 1);
+  if (header.length !== byteLength) {
+    collector.warning(
+      `${path}.header.length`,
+      `Is ${header.length} bytes but the data holds ${byteLength}; the data length is written`
+    );
+  }
+
+  const loopType = header.type & 0x03;
+  if (loopType === 3) {
+    collector.error(`${path}.header.type`, 'Loop type 3 is not defined');
+  }
+  if (loopType !== LoopType.None) {
+    if (header.loopLength === 0) {
+      collector.warning(`${path}.header.loopLength`, 'Loop is enabled but its length is 0');
+    }
+    const loopEnd = header.loopStart + header.loopLength;
+    if (loopEnd > frames) {
+      collector.error(
+        `${path}.header.loopLength`,
+        `Loop ends at ${loopEnd}, past the end of the sample data (${frames})`,
+        true
+      );
+    }
+  }
+}
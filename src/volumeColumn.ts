@@ -0,0 +1,190 @@
+/**
+ * Typed volume column commands
+ * Builds, decodes and formats the volume column (volume/volumeEffect) so
+ * raw 0x60-0xFF bytes never have to be written by hand
+ */
+
+import { XMPatternNote } from './types';
+import { checkRange } from './effects';
+
+/**
+ * Volume column of a pattern cell; spread it into an XMPatternNote.
+ * Both fields are always present so that assigning it replaces the old value.
+ */
+export type XMVolumeColumnData = Pick<XMPatternNote, 'volume' | 'volumeEffect'>;
+
+/**
+ * Decoded volume column command. `kind` matches the constructor in `volumeColumn`.
+ */
+export type XMVolumeCommand =
+  | { kind: 'none' }
+  | { kind: 'setVolume'; volume: number }
+  | { kind: 'volumeSlideDown'; amount: number }
+  | { kind: 'volumeSlideUp'; amount: number }
+  | { kind: 'fineVolumeSlideDown'; amount: number }
+  | { kind: 'fineVolumeSlideUp'; amount: number }
+  | { kind: 'vibratoSpeed'; speed: number }
+  | { kind: 'vibrato'; depth: number }
+  | { kind: 'setPanning'; panning: number }
+  | { kind: 'panningSlideLeft'; amount: number }
+  | { kind: 'panningSlideRight'; amount: number }
+  | { kind: 'tonePortamento'; speed: number };
+
+/**
+ * Character FT2 shows for each volume column command, in byte order (0x6x-0xFx)
+ */
+const SYMBOLS = ['-', '+', '▼', '▲', 'S', 'V', 'P', '◄', '►', 'M'];
+
+/** First byte of the volume column commands */
+const FIRST_COMMAND_BYTE = 0x60;
+
+/**
+ * Encode a volume column command
+ * @param command The command to encode
+ * @returns volume and volumeEffect, one of them (or both for 'none') undefined
+ * @throws Error if a value is out of range
+ */
+export function encodeVolumeColumn(command: XMVolumeCommand): XMVolumeColumnData {
+  const { kind } = command;
+  const nibble = (commandByte: number, field: string, value: number) => ({
+    volume: undefined,
+    volumeEffect: commandByte + checkRange(kind, field, value, 0, 15),
+  });
+
+  switch (command.kind) {
+    case 'none':
+      return { volume: undefined, volumeEffect: undefined };
+    case 'setVolume':
+      return {
+        volume: checkRange(kind, 'volume', command.volume, 0, 64),
+        volumeEffect: undefined,
+      };
+    case 'volumeSlideDown':
+      return nibble(0x60, 'amount', command.amount);
+    case 'volumeSlideUp':
+      return nibble(0x70, 'amount', command.amount);
+    case 'fineVolumeSlideDown':
+      return nibble(0x80, 'amount', command.amount);
+    case 'fineVolumeSlideUp':
+      return nibble(0x90, 'amount', command.amount);
+    case 'vibratoSpeed':
+      return nibble(0xa0, 'speed', command.speed);
+    case 'vibrato':
+      return nibble(0xb0, 'depth', command.depth);
+    case 'setPanning':
+      return nibble(0xc0, 'panning', command.panning);
+    case 'panningSlideLeft':
+      return nibble(0xd0, 'amount', command.amount);
+    case 'panningSlideRight':
+      return nibble(0xe0, 'amount', command.amount);
+    case 'tonePortamento':
+      return nibble(0xf0, 'speed', command.speed);
+  }
+  throw new Error(`Unknown volume column command "${kind}"`);
+}
+
+/**
+ * Decode the volume column of a cell
+ * @param note Cell (or any object with volume and volumeEffect)
+ * @returns The command
+ * @throws Error if both fields are set or a value cannot be written to an XM file
+ */
+export function decodeVolumeColumn(note: XMVolumeColumnData): XMVolumeCommand {
+  const { volume, volumeEffect } = note;
+  if (volume !== undefined && volumeEffect !== undefined) {
+    throw new Error('Cannot set both volume and volumeEffect on the same note');
+  }
+  if (volume !== undefined) {
+    return { kind: 'setVolume', volume: checkRange('setVolume', 'volume', volume, 0, 64) };
+  }
+  if (volumeEffect === undefined) {
+    return { kind: 'none' };
+  }
+  if (!Number.isInteger(volumeEffect) || volumeEffect < FIRST_COMMAND_BYTE || volumeEffect > 0xff) {
+    throw new Error(`volumeEffect ${volumeEffect} is not a volume column command (0x60-0xFF)`);
+  }
+
+  const value = volumeEffect & 0x0f;
+  switch (volumeEffect >> 4) {
+    case 0x6:
+      return { kind: 'volumeSlideDown', amount: value };
+    case 0x7:
+      return { kind: 'volumeSlideUp', amount: value };
+    case 0x8:
+      return { kind: 'fineVolumeSlideDown', amount: value };
+    case 0x9:
+      return { kind: 'fineVolumeSlideUp', amount: value };
+    case 0xa:
+      return { kind: 'vibratoSpeed', speed: value };
+    case 0xb:
+      return { kind: 'vibrato', depth: value };
+    case 0xc:
+      return { kind: 'setPanning', panning: value };
+    case 0xd:
+      return { kind: 'panningSlideLeft', amount: value };
+    case 0xe:
+      return { kind: 'panningSlideRight', amount: value };
+    default:
+      return { kind: 'tonePortamento', speed: value };
+  }
+}
+
+/**
+ * Format a volume column command the way FastTracker II displays it:
+ * two hex digits for a volume (`40`), otherwise a symbol and one hex digit
+ * (`-4`, `+2`, `▼3`, `▲1`, `S5`, `V5`, `P8`, `◄3`, `►3`, `M5`); `..` when empty
+ * @param command The command, or a cell to decode first
+ * @returns Two characters
+ * @throws Error if a value is out of range
+ */
+export function formatVolumeColumn(command: XMVolumeCommand | XMVolumeColumnData): string {
+  const decoded = 'kind' in command ? command : decodeVolumeColumn(command);
+  const { volume, volumeEffect } = encodeVolumeColumn(decoded);
+  if (volume !== undefined) {
+    return volume.toString(16).toUpperCase().padStart(2, '0');
+  }
+  if (volumeEffect === undefined) {
+    return '..';
+  }
+  const symbol = SYMBOLS[(volumeEffect - FIRST_COMMAND_BYTE) >> 4];
+  return symbol + (volumeEffect & 0x0f).toString(16).toUpperCase();
+}
+
+/**
+ * Volume column constructors. Each returns `{ volume, volumeEffect }` and
+ * throws if a value is out of range.
+ *
+ * @example
+ * ```typescript
+ * Object.assign(pattern.data[0][0], volumeColumn.volumeSlideDown(4));
+ * const cell = { note: 49, instrument: 1, ...volumeColumn.setPanning(8), ...effect.setSpeed(3) };
+ * formatVolumeColumn(cell); // 'P8'
+ * ```
+ */
+export const volumeColumn = {
+  /** No volume column command */
+  none: () => encodeVolumeColumn({ kind: 'none' }),
+  /** 10-50: set volume (0-64) */
+  setVolume: (volume: number) => encodeVolumeColumn({ kind: 'setVolume', volume }),
+  /** 6x (`-x`): volume slide down every tick */
+  volumeSlideDown: (amount: number) => encodeVolumeColumn({ kind: 'volumeSlideDown', amount }),
+  /** 7x (`+x`): volume slide up every tick */
+  volumeSlideUp: (amount: number) => encodeVolumeColumn({ kind: 'volumeSlideUp', amount }),
+  /** 8x (`▼x`): fine volume slide down once */
+  fineVolumeSlideDown: (amount: number) =>
+    encodeVolumeColumn({ kind: 'fineVolumeSlideDown', amount }),
+  /** 9x (`▲x`): fine volume slide up once */
+  fineVolumeSlideUp: (amount: number) => encodeVolumeColumn({ kind: 'fineVolumeSlideUp', amount }),
+  /** Ax (`Sx`): set vibrato speed */
+  vibratoSpeed: (speed: number) => encodeVolumeColumn({ kind: 'vibratoSpeed', speed }),
+  /** Bx (`Vx`): vibrato with depth x */
+  vibrato: (depth: number) => encodeVolumeColumn({ kind: 'vibrato', depth }),
+  /** Cx (`Px`): set panning (0 = left, 15 = right) */
+  setPanning: (panning: number) => encodeVolumeColumn({ kind: 'setPanning', panning }),
+  /** Dx (`◄x`): panning slide left */
+  panningSlideLeft: (amount: number) => encodeVolumeColumn({ kind: 'panningSlideLeft', amount }),
+  /** Ex (`►x`): panning slide right */
+  panningSlideRight: (amount: number) => encodeVolumeColumn({ kind: 'panningSlideRight', amount }),
+  /** Fx (`Mx`): tone portamento (0 = continue) */
+  tonePortamento: (speed: number) => encodeVolumeColumn({ kind: 'tonePortamento', speed }),
+};
@@ -0,0 +1,314 @@
+/**
+ * RIFF WAVE encoding and decoding
+ * Little-endian PCM and IEEE float WAV files
+ */
+
+import { BinaryWriter } from './binaryWriter';
+import { BinaryReader } from './binaryReader';
+
+/**
+ * WAV format tag for integer PCM
+ */
+const WAVE_FORMAT_PCM = 1;
+
+/**
+ * WAV format tag for IEEE float
+ */
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+/**
+ * WAV format tag for WAVE_FORMAT_EXTENSIBLE (the real format is in the sub-format GUID)
+ */
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * A sample loop from the `smpl` chunk
+ */
+export interface WavLoop {
+  /** Loop direction */
+  type: 'forward' | 'pingpong' | 'backward';
+  /** First frame of the loop */
+  start: number;
+  /** Last frame of the loop (inclusive) */
+  end: number;
+}
+
+/**
+ * Sampler information from the `smpl` chunk
+ */
+export interface WavSamplerInfo {
+  /** MIDI note at which the sample plays at its recorded pitch (60 = middle C) */
+  rootKey: number;
+  /** Fraction of a semitone above the root key (0 to just below 1) */
+  pitchFraction: number;
+  /** Sample loops */
+  loops: WavLoop[];
+}
+
+/**
+ * Decoded WAV file
+ */
+export interface WavData {
+  /** Sample rate in Hz */
+  sampleRate: number;
+  /** Bits per sample in the file */
+  bitsPerSample: number;
+  /** Sample encoding in the file */
+  format: 'pcm' | 'float';
+  /** One array per channel, normalised to -1..1 */
+  channels: Float32Array[];
+  /** Sampler information, if the file has a `smpl` chunk */
+  sampler?: WavSamplerInfo;
+}
+
+/**
+ * Options for encoding a WAV file
+ */
+export interface WavEncodeOptions {
+  /** Sample rate in Hz */
+  sampleRate: number;
+  /** Number of interleaved channels (default: 1) */
+  channels?: number;
+  /** Sampler information written as a `smpl` chunk */
+  sampler?: WavSamplerInfo;
+}
+
+/**
+ * Encode interleaved PCM data as a WAV file.
+ * Int8Array data is written as unsigned 8-bit PCM, Int16Array as 16-bit PCM
+ * and Float32Array as 32-bit IEEE float.
+ * @param data Interleaved sample data
+ * @param options Encoding options
+ * @returns The complete WAV file
+ */
+export function encodeWav(
+  data: Int8Array | Int16Array | Float32Array,
+  options: WavEncodeOptions
+): Uint8Array {
+  const channels = options.channels ?? 1;
+  const bytesPerSample = data.BYTES_PER_ELEMENT;
+  const formatTag = data instanceof Float32Array ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+  const dataSize = data.length * bytesPerSample;
+
+  const writer = new BinaryWriter(44 + dataSize + (dataSize & 1));
+
+  // RIFF header, size is filled in at the end
+  writer.writeString('RIFF', 4);
+  writer.writeUint32(0);
+  writer.writeString('WAVE', 4);
+
+  // Format chunk
+  writer.writeString('fmt ', 4);
+  writer.writeUint32(16);
+  writer.writeUint16(formatTag);
+  writer.writeUint16(channels);
+  writer.writeUint32(options.sampleRate);
+  writer.writeUint32(options.sampleRate * channels * bytesPerSample);
+  writer.writeUint16(channels * bytesPerSample);
+  writer.writeUint16(bytesPerSample * 8);
+
+  // Data chunk
+  writer.writeString('data', 4);
+  writer.writeUint32(dataSize);
+  if (data instanceof Int8Array) {
+    // 8-bit WAV data is unsigned
+    for (let i = 0; i < data.length; i++) {
+      writer.writeUint8(data[i] + 128);
+    }
+  } else if (data instanceof Int16Array) {
+    for (let i = 0; i < data.length; i++) {
+      writer.writeInt16(data[i]);
+    }
+  } else {
+    for (let i = 0; i < data.length; i++) {
+      writer.writeFloat32(data[i]);
+    }
+  }
+  // Chunks are word aligned
+  if (dataSize & 1) {
+    writer.writeUint8(0);
+  }
+
+  if (options.sampler) {
+    writeSamplerChunk(writer, options.sampler, options.sampleRate);
+  }
+
+  writer.writeUint32At(4, writer.getPosition() - 8);
+  return writer.getUint8Array();
+}
+
+/**
+ * Write a `smpl` chunk
+ */
+function writeSamplerChunk(
+  writer: BinaryWriter,
+  sampler: WavSamplerInfo,
+  sampleRate: number
+): void {
+  writer.writeString('smpl', 4);
+  writer.writeUint32(36 + sampler.loops.length * 24);
+  writer.writeUint32(0); // Manufacturer
+  writer.writeUint32(0); // Product
+  writer.writeUint32(Math.round(1e9 / sampleRate)); // Sample period in nanoseconds
+  writer.writeUint32(sampler.rootKey);
+  writer.writeUint32(Math.min(0xffffffff, Math.floor(sampler.pitchFraction * 4294967296)));
+  writer.writeUint32(0); // SMPTE format
+  writer.writeUint32(0); // SMPTE offset
+  writer.writeUint32(sampler.loops.length);
+  writer.writeUint32(0); // Sampler data size
+
+  sampler.loops.forEach((loop, index) => {
+    writer.writeUint32(index); // Cue point ID
+    writer.writeUint32(loop.type === 'pingpong' ? 1 : loop.type === 'backward' ? 2 : 0);
+    writer.writeUint32(loop.start);
+    writer.writeUint32(loop.end);
+    writer.writeUint32(0); // Fraction
+    writer.writeUint32(0); // Play count (infinite)
+  });
+}
+
+/**
+ * Decode a WAV file.
+ * Supports 8/16/24/32-bit integer PCM and 32/64-bit IEEE float, including
+ * WAVE_FORMAT_EXTENSIBLE files, with any number of channels.
+ * @param data The complete WAV file
+ * @returns Decoded sample data and sampler information
+ */
+export function decodeWav(data: ArrayBuffer | Uint8Array): WavData {
+  const reader = new BinaryReader(data);
+
+  if (reader.getLength() < 12 || reader.readString(4) !== 'RIFF') {
+    throw new Error('Not a WAV file: missing RIFF header');
+  }
+  reader.readUint32();
+  if (reader.readString(4) !== 'WAVE') {
+    throw new Error('Not a WAV file: RIFF type is not WAVE');
+  }
+
+  let formatTag = 0;
+  let channelCount = 0;
+  let sampleRate = 0;
+  let blockAlign = 0;
+  let bitsPerSample = 0;
+  let sampleData: Uint8Array | null = null;
+  let sampler: WavSamplerInfo | undefined;
+
+  while (reader.getRemaining() >= 8) {
+    const id = reader.readString(4);
+    const declaredSize = reader.readUint32();
+    // Streamed files may declare more data than is present
+    const size = Math.min(declaredSize, reader.getRemaining());
+    const chunk = new BinaryReader(reader.readBytes(size));
+
+    if (id === 'fmt ') {
+      formatTag = chunk.readUint16();
+      channelCount = chunk.readUint16();
+      sampleRate = chunk.readUint32();
+      chunk.readUint32(); // Average bytes per second
+      blockAlign = chunk.readUint16();
+      bitsPerSample = chunk.readUint16();
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && chunk.getRemaining() >= 10) {
+        chunk.skip(8); // Extension size, valid bits, channel mask
+        formatTag = chunk.readUint16();
+      }
+    } else if (id === 'data') {
+      sampleData = chunk.readBytes(size);
+    } else if (id === 'smpl' && size >= 36) {
+      sampler = readSamplerChunk(chunk);
+    }
+
+    // Chunks are word aligned
+    if (size & 1 && reader.getRemaining() > 0) {
+      reader.skip(1);
+    }
+  }
+
+  if (channelCount === 0) {
+    throw new Error('Invalid WAV file: missing fmt chunk');
+  }
+  if (!sampleData) {
+    throw new Error('Invalid WAV file: missing data chunk');
+  }
+
+  const isFloat = formatTag === WAVE_FORMAT_IEEE_FLOAT;
+  if (
+    !(formatTag === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample)) &&
+    !(isFloat && (bitsPerSample === 32 || bitsPerSample === 64))
+  ) {
+    throw new Error(`Unsupported WAV format: tag ${formatTag}, ${bitsPerSample} bits per sample`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameSize = Math.max(blockAlign, bytesPerSample * channelCount);
+  const frames = Math.floor(sampleData.length / frameSize);
+  const view = new DataView(sampleData.buffer, sampleData.byteOffset, sampleData.byteLength);
+
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < channelCount; channel++) {
+    const output = new Float32Array(frames);
+    for (let frame = 0; frame < frames; frame++) {
+      const offset = frame * frameSize + channel * bytesPerSample;
+      output[frame] = readWavSample(view, offset, bitsPerSample, isFloat);
+    }
+    channels.push(output);
+  }
+
+  return {
+    sampleRate,
+    bitsPerSample,
+    format: isFloat ? 'float' : 'pcm',
+    channels,
+    sampler,
+  };
+}
+
+/**
+ * Read one sample and normalise it to -1..1
+ */
+function readWavSample(view: DataView, offset: number, bits: number, isFloat: boolean): number {
+  if (isFloat) {
+    return bits === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  }
+  switch (bits) {
+    case 8:
+      // 8-bit WAV data is unsigned
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value =
+        view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    default:
+      return view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+/**
+ * Parse the body of a `smpl` chunk
+ */
+function readSamplerChunk(chunk: BinaryReader): WavSamplerInfo {
+  chunk.skip(12); // Manufacturer, product, sample period
+  const rootKey = chunk.readUint32();
+  const pitchFraction = chunk.readUint32() / 4294967296;
+  chunk.skip(8); // SMPTE format and offset
+  const loopCount = chunk.readUint32();
+  chunk.readUint32(); // Sampler data size
+
+  const loops: WavLoop[] = [];
+  for (let i = 0; i < loopCount && chunk.getRemaining() >= 24; i++) {
+    chunk.readUint32(); // Cue point ID
+    const type = chunk.readUint32();
+    const start = chunk.readUint32();
+    const end = chunk.readUint32();
+    chunk.skip(8); // Fraction and play count
+    loops.push({
+      type: type === 1 ? 'pingpong' : type === 2 ? 'backward' : 'forward',
+      start,
+      end,
+    });
+  }
+
+  return { rootKey, pitchFraction, loops };
+}
@@ -0,0 +1,219 @@
+/**
+ * WAV sample export
+ * Writes XM samples and whole instrument sets as WAV files
+ */
+
+import { XMModule, XMSample, LoopType } from './types';
+import { encodeWav, WavLoop } from './wav';
+import { tuningToSemitones, tuningToSampleRate, sampleRateToSemitones } from './tuning';
+
+/**
+ * Options for exporting a sample as a WAV file
+ */
+export interface WavExportOptions {
+  /**
+   * Sample rate written to the file.
+   * Defaults to the rate at which the sample plays on C-4, so the file sounds
+   * the same as in the tracker; the root key accounts for any other rate.
+   */
+  sampleRate?: number;
+}
+
+/**
+ * A sample in the export manifest
+ */
+export interface WavExportSampleEntry {
+  /** WAV file name, or null if the sample is empty and was not written */
+  file: string | null;
+  /** Sample name */
+  name: string;
+  /** Volume (0-64) */
+  volume: number;
+  /** Panning (0-255) */
+  panning: number;
+  /** Relative note number */
+  relativeNoteNumber: number;
+  /** Fine tune */
+  fineTune: number;
+  /** Bit depth of the sample data */
+  bitDepth: 8 | 16;
+  /** Loop type */
+  loop: 'none' | 'forward' | 'pingpong';
+  /** Loop start in frames */
+  loopStart: number;
+  /** Loop length in frames */
+  loopLength: number;
+}
+
+/**
+ * An instrument in the export manifest
+ */
+export interface WavExportInstrumentEntry {
+  /** Instrument number as used in patterns (1-based) */
+  number: number;
+  /** Instrument name */
+  name: string;
+  /** Sample index for each of the 96 notes */
+  sampleNumberForNotes: number[];
+  /** Samples in instrument order */
+  samples: WavExportSampleEntry[];
+}
+
+/**
+ * JSON manifest describing an exported instrument set
+ */
+export interface WavExportManifest {
+  /** Module name */
+  moduleName: string;
+  /** Instruments in module order */
+  instruments: WavExportInstrumentEntry[];
+}
+
+/**
+ * Result of exporting all samples of a module
+ */
+export interface WavExportResult {
+  /** WAV files keyed by file name */
+  files: Map<string, Uint8Array>;
+  /** Manifest describing the instruments and samples */
+  manifest: WavExportManifest;
+}
+
+/** MIDI note number of C-4 */
+const MIDI_C4 = 60;
+
+/**
+ * Export a sample as a WAV file.
+ * 8-bit samples are written as 8-bit PCM and 16-bit samples as 16-bit PCM.
+ * The loop is stored in a `smpl` chunk together with a root key derived from the
+ * relative note number and fine tune, so samplers play it at the right pitch.
+ * @param sample Sample to export
+ * @param options Export options
+ * @returns The complete WAV file
+ */
+export function sampleToWav(sample: XMSample, options: WavExportOptions = {}): Uint8Array {
+  const sampleRate = Math.round(options.sampleRate ?? tuningToSampleRate(sample.header));
+  if (!(sampleRate > 0)) {
+    throw new Error(`Invalid sample rate: ${options.sampleRate}`);
+  }
+
+  // MIDI note at which the file plays at its recorded pitch
+  const root = Math.max(
+    0,
+    Math.min(127, MIDI_C4 + sampleRateToSemitones(sampleRate) - tuningToSemitones(sample.header))
+  );
+  const rootKey = Math.floor(root);
+
+  const loops: WavLoop[] = [];
+  const loopType = sample.header.type & 0x03;
+  const frames = sample.data.length;
+  if (
+    (loopType === LoopType.Forward || loopType === LoopType.PingPong) &&
+    sample.header.loopLength > 0 &&
+    sample.header.loopStart < frames
+  ) {
+    loops.push({
+      type: loopType === LoopType.PingPong ? 'pingpong' : 'forward',
+      start: sample.header.loopStart,
+      end: Math.min(frames, sample.header.loopStart + sample.header.loopLength) - 1,
+    });
+  }
+
+  return encodeWav(sample.data, {
+    sampleRate,
+    sampler: { rootKey, pitchFraction: root - rootKey, loops },
+  });
+}
+
+/**
+ * Export every sample of every instrument as WAV files, with a manifest
+ * describing names, volume, panning, tuning, loops and the note-to-sample map.
+ * Empty samples are listed in the manifest without a file.
+ * @param module Module to export
+ * @param options Export options applied to every sample
+ * @returns WAV files keyed by file name, and the manifest
+ */
+export function exportSamples(module: XMModule, options: WavExportOptions = {}): WavExportResult {
+  const files = new Map<string, Uint8Array>();
+
+  const instruments = module.instruments.map((instrument, instrumentIndex) => {
+    const number = instrumentIndex + 1;
+    const samples = instrument.samples.map((sample, sampleIndex): WavExportSampleEntry => {
+      let file: string | null = null;
+      if (sample.data.length > 0) {
+        const prefix = `${String(number).padStart(3, '0')}-${String(sampleIndex).padStart(2, '0')}`;
+        file = `${prefix}-${toFileName(sample.header.name || instrument.header.name)}.wav`;
+        files.set(file, sampleToWav(sample, options));
+      }
+
+      const loopType = sample.header.type & 0x03;
+      return {
+        file,
+        name: sample.header.name,
+        volume: sample.header.volume,
+        panning: sample.header.panning,
+        relativeNoteNumber: sample.header.relativeNoteNumber,
+        fineTune: sample.header.fineTune,
+        bitDepth: sample.data instanceof Int16Array ? 16 : 8,
+        loop:
+          loopType === LoopType.Forward
+            ? 'forward'
+            : loopType === LoopType.PingPong
+              ? 'pingpong'
+              : 'none',
+        loopStart: sample.header.loopStart,
+        loopLength: sample.header.loopLength,
+      };
+    });
+
+    return {
+      number,
+      name: instrument.header.name,
+      sampleNumberForNotes: instrument.extendedHeader
+        ? [...instrument.extendedHeader.sampleNumberForNotes]
+        : new Array(96).fill(0),
+      samples,
+    };
+  });
+
+  return { files, manifest: { moduleName: module.header.moduleName, instruments } };
+}
+
+/**
+ * Export every sample of every instrument to a directory, together with a
+ * `manifest.json` file (Node.js only)
+ * @param module Module to export
+ * @param directory Output directory, created if it does not exist
+ * @param options Export options applied to every sample
+ * @returns The manifest that was written
+ */
+export async function saveSamplesToDirectory(
+  module: XMModule,
+  directory: string,
+  options: WavExportOptions = {}
+): Promise<WavExportManifest> {
+  const { files, manifest } = exportSamples(module, options);
+
+  // Dynamic import for Node.js fs and path modules
+  const { promises: fs } = await import('fs');
+  const path = await import('path');
+
+  await fs.mkdir(directory, { recursive: true });
+  for (const [name, data] of files) {
+    await fs.writeFile(path.join(directory, name), data);
+  }
+  await fs.writeFile(path.join(directory, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+  return manifest;
+}
+
+/**
+ * Make a name safe for use in a file name
+ */
+function toFileName(name: string): string {
+  const safe = name
+    .trim()
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^[._]+|_+$/g, '');
+  return safe || 'sample';
+}
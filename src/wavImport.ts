@@ -0,0 +1,107 @@
+/**
+ * WAV sample import
+ * Creates XM samples from WAV files
+ */
+
+import { XMSample, LoopType } from './types';
+import { createSample } from './xmWriter';
+import { decodeWav } from './wav';
+import { semitonesToTuning, sampleRateToSemitones } from './tuning';
+
+/**
+ * Options for importing a WAV file as a sample
+ */
+export interface WavImportOptions {
+  /** Sample name (default: 'Sample') */
+  name?: string;
+  /** 'mix' averages all channels (default); a number picks a single channel (0 = left) */
+  channel?: 'mix' | number;
+  /** Bit depth of the sample (default: 8 for 8-bit files, 16 otherwise) */
+  bitDepth?: 8 | 16;
+  /**
+   * XM note at which the sample plays at its recorded pitch.
+   * Defaults to the `smpl` chunk's root key, or C-4 if there is none.
+   */
+  rootNote?: number;
+  /** Volume (0-64, default: 64) */
+  volume?: number;
+  /** Panning (0-255, default: 128) */
+  panning?: number;
+}
+
+/** Difference between MIDI note numbers and XM note values (MIDI 60 = XM C-4 = 49) */
+const MIDI_TO_XM_NOTE = 11;
+
+/** XM note value of C-4 */
+const C4_NOTE = 49;
+
+/**
+ * Create a sample from a WAV file.
+ * Loop points and the root key are taken from the `smpl` chunk when present, and
+ * the relative note number and fine tune are set so the sample plays at its recorded
+ * pitch on its root note.
+ * @param data The complete WAV file
+ * @param options Import options
+ * @returns A new sample structure
+ */
+export function createSampleFromWav(
+  data: ArrayBuffer | Uint8Array,
+  options: WavImportOptions = {}
+): XMSample {
+  const wav = decodeWav(data);
+  const channel = options.channel ?? 'mix';
+
+  let mono: Float32Array;
+  if (channel === 'mix') {
+    mono = new Float32Array(wav.channels[0].length);
+    for (const source of wav.channels) {
+      for (let i = 0; i < mono.length; i++) {
+        mono[i] += source[i] / wav.channels.length;
+      }
+    }
+  } else {
+    if (!Number.isInteger(channel) || channel < 0 || channel >= wav.channels.length) {
+      throw new Error(`Channel ${channel} does not exist (the file has ${wav.channels.length})`);
+    }
+    mono = wav.channels[channel];
+  }
+
+  const bitDepth = options.bitDepth ?? (wav.bitsPerSample === 8 && wav.format === 'pcm' ? 8 : 16);
+  const sampleData = bitDepth === 8 ? new Int8Array(mono.length) : new Int16Array(mono.length);
+  const scale = bitDepth === 8 ? 128 : 32768;
+  for (let i = 0; i < mono.length; i++) {
+    sampleData[i] = Math.max(-scale, Math.min(scale - 1, Math.round(mono[i] * scale)));
+  }
+
+  // Play at the recorded pitch on the root note
+  let semitones = sampleRateToSemitones(wav.sampleRate);
+  if (options.rootNote !== undefined) {
+    semitones -= options.rootNote - C4_NOTE;
+  } else if (wav.sampler) {
+    semitones -= wav.sampler.rootKey - MIDI_TO_XM_NOTE - C4_NOTE + wav.sampler.pitchFraction;
+  }
+  const tuning = semitonesToTuning(semitones);
+
+  // XM has no backward loops; they are played forwards
+  let loopType = LoopType.None;
+  let loopStart = 0;
+  let loopLength = 0;
+  const loop = wav.sampler?.loops[0];
+  if (loop && loop.start < sampleData.length && loop.end >= loop.start) {
+    loopType = loop.type === 'pingpong' ? LoopType.PingPong : LoopType.Forward;
+    loopStart = loop.start;
+    loopLength = Math.min(loop.end, sampleData.length - 1) - loop.start + 1;
+  }
+
+  return createSample({
+    name: options.name,
+    data: sampleData,
+    volume: options.volume,
+    panning: options.panning,
+    loopStart,
+    loopLength,
+    loopType,
+    relativeNoteNumber: tuning.relativeNoteNumber,
+    fineTune: tuning.fineTune,
+  });
+}
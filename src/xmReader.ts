@@ -0,0 +1,446 @@
+/**
+ * XM (Extended Module) file reader
+ * Parses .xm files back into module structures
+ */
+
+import { BinaryReader } from './binaryReader';
+import {
+  XMModule,
+  XMHeader,
+  XMPattern,
+  XMPatternNote,
+  XMInstrument,
+  XMInstrumentExtendedHeader,
+  XMSample,
+  XMSampleHeader,
+  XMEnvelope,
+  XMEnvelopePoint,
+  XM_CONSTANTS,
+} from './types';
+
+/**
+ * Offset of the header size field (ID string, module name, 0x1A, tracker name and version)
+ */
+const HEADER_SIZE_OFFSET = 60;
+
+/**
+ * XM file reader class
+ */
+export class XMReader {
+  private reader: BinaryReader;
+
+  constructor() {
+    this.reader = new BinaryReader(new Uint8Array(0));
+  }
+
+  /**
+   * Read a complete XM module from binary format
+   * @param data Buffer containing the XM file data
+   * @returns The parsed XM module
+   */
+  read(data: ArrayBuffer | Uint8Array): XMModule {
+    this.reader = new BinaryReader(data);
+
+    const header = this.readHeader();
+    const patterns: XMPattern[] = [];
+    for (let i = 0; i < header.numberOfPatterns; i++) {
+      patterns.push(this.readPattern(header.numberOfChannels));
+    }
+    const instruments: XMInstrument[] = [];
+    for (let i = 0; i < header.numberOfInstruments; i++) {
+      instruments.push(this.readInstrument());
+    }
+
+    return { header, patterns, instruments };
+  }
+
+  /**
+   * Read the XM header
+   * @returns XM header structure
+   */
+  private readHeader(): XMHeader {
+    // ID string "Extended Module: " (17 bytes); some trackers write it in lower case
+    const id = this.reader.readString(17);
+    if (id.toLowerCase() !== XM_CONSTANTS.ID_STRING.toLowerCase()) {
+      throw new Error('Not an XM file: missing "Extended Module: " signature');
+    }
+
+    const moduleName = this.reader.readString(XM_CONSTANTS.MAX_MODULE_NAME_LENGTH);
+
+    // 0x1A byte (not checked, several trackers write 0x00 here)
+    this.reader.readUint8();
+
+    const trackerName = this.reader.readString(XM_CONSTANTS.MAX_TRACKER_NAME_LENGTH);
+
+    const version = this.reader.readUint16();
+    if (version < XM_CONSTANTS.DEFAULT_VERSION) {
+      throw new Error(`Unsupported XM version 0x${version.toString(16).padStart(4, '0')}`);
+    }
+
+    // Header size, counted from the start of this field
+    const headerSize = this.reader.readUint32();
+
+    const songLength = this.reader.readUint16();
+    const restartPosition = this.reader.readUint16();
+    const numberOfChannels = this.reader.readUint16();
+    const numberOfPatterns = this.reader.readUint16();
+    const numberOfInstruments = this.reader.readUint16();
+    const flags = this.reader.readUint16();
+    const defaultTempo = this.reader.readUint16();
+    const defaultBPM = this.reader.readUint16();
+
+    // Pattern order table (up to 256 bytes, bounded by the header size)
+    const patternOrderTable = new Array(XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE).fill(0);
+    const orderTableBytes = Math.min(
+      XM_CONSTANTS.PATTERN_ORDER_TABLE_SIZE,
+      Math.max(0, headerSize - 20)
+    );
+    for (let i = 0; i < orderTableBytes; i++) {
+      patternOrderTable[i] = this.reader.readUint8();
+    }
+
+    this.reader.setPosition(HEADER_SIZE_OFFSET + headerSize);
+
+    return {
+      moduleName,
+      trackerName,
+      version,
+      songLength,
+      restartPosition,
+      numberOfChannels,
+      numberOfPatterns,
+      numberOfInstruments,
+      flags,
+      defaultTempo,
+      defaultBPM,
+      patternOrderTable,
+    };
+  }
+
+  /**
+   * Read a single pattern
+   * @param numberOfChannels Number of channels
+   * @returns Pattern structure with unpacked data
+   */
+  private readPattern(numberOfChannels: number): XMPattern {
+    const start = this.reader.getPosition();
+
+    const headerLength = this.reader.readUint32();
+    const packingType = this.reader.readUint8();
+    const numberOfRows = this.reader.readUint16();
+    const packedDataSize = this.reader.readUint16();
+
+    this.reader.setPosition(start + headerLength);
+
+    // A packed size of zero means the pattern is completely empty
+    const packed = new BinaryReader(this.reader.readBytes(packedDataSize));
+
+    const data: XMPatternNote[][] = [];
+    for (let row = 0; row < numberOfRows; row++) {
+      const rowData: XMPatternNote[] = [];
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        rowData.push(this.unpackNote(packed));
+      }
+      data.push(rowData);
+    }
+
+    return {
+      header: {
+        headerLength,
+        packingType,
+        numberOfRows,
+        packedDataSize,
+      },
+      data,
+    };
+  }
+
+  /**
+   * Unpack a pattern note from compressed format
+   * @param packed Reader positioned at the note
+   * @returns The unpacked note
+   */
+  private unpackNote(packed: BinaryReader): XMPatternNote {
+    let note = 0;
+    let instrument = 0;
+    let volumeByte = 0;
+    let effectType = 0;
+    let effectParam = 0;
+
+    if (packed.getRemaining() > 0) {
+      const first = packed.readUint8();
+      if (first & 0x80) {
+        // Packed format: bit 7 set, bits 0-4 say which fields follow
+        if (first & 0x01) note = packed.readUint8();
+        if (first & 0x02) instrument = packed.readUint8();
+        if (first & 0x04) volumeByte = packed.readUint8();
+        if (first & 0x08) effectType = packed.readUint8();
+        if (first & 0x10) effectParam = packed.readUint8();
+      } else {
+        // Unpacked format: all five bytes present, the first one is the note
+        note = first;
+        instrument = packed.readUint8();
+        volumeByte = packed.readUint8();
+        effectType = packed.readUint8();
+        effectParam = packed.readUint8();
+      }
+    }
+
+    const result: XMPatternNote = { note, instrument, effectType, effectParam };
+    if (volumeByte >= 0x10 && volumeByte <= 0x50) {
+      // Map 0x10-0x50 back to 0-64
+      result.volume = volumeByte - 0x10;
+    } else if (volumeByte !== 0) {
+      result.volumeEffect = volumeByte;
+    }
+    return result;
+  }
+
+  /**
+   * Read a single instrument, including its samples
+   * @returns Instrument structure
+   */
+  private readInstrument(): XMInstrument {
+    const start = this.reader.getPosition();
+    const headerSize = this.reader.readUint32();
+
+    // The header may be shorter than the full structure; missing fields read as zero
+    const header = this.readPaddedBlock(
+      start,
+      headerSize,
+      XM_CONSTANTS.INSTRUMENT_HEADER_SIZE + XM_CONSTANTS.EXTENDED_INSTRUMENT_HEADER_SIZE
+    );
+    header.skip(4);
+
+    const name = header.readString(XM_CONSTANTS.MAX_INSTRUMENT_NAME_LENGTH);
+    const type = header.readUint8();
+    const numberOfSamples = header.readUint16();
+
+    const instrument: XMInstrument = {
+      header: {
+        headerSize,
+        name,
+        type,
+        numberOfSamples,
+      },
+      samples: [],
+    };
+
+    this.reader.setPosition(start + headerSize);
+
+    if (numberOfSamples === 0) {
+      return instrument;
+    }
+
+    const extendedHeader = this.readExtendedHeader(header);
+    instrument.extendedHeader = extendedHeader;
+
+    const sampleHeaders: XMSampleHeader[] = [];
+    for (let i = 0; i < numberOfSamples; i++) {
+      sampleHeaders.push(this.readSampleHeader(extendedHeader.sampleHeaderSize));
+    }
+    for (const sampleHeader of sampleHeaders) {
+      instrument.samples.push(this.readSampleData(sampleHeader));
+    }
+
+    return instrument;
+  }
+
+  /**
+   * Read the extended instrument header
+   * @param header Reader positioned after the number of samples
+   * @returns Extended header structure
+   */
+  private readExtendedHeader(header: BinaryReader): XMInstrumentExtendedHeader {
+    const sampleHeaderSize = header.readUint32();
+
+    const sampleNumberForNotes: number[] = [];
+    for (let i = 0; i < XM_CONSTANTS.SAMPLE_NUMBER_FOR_NOTES_SIZE; i++) {
+      sampleNumberForNotes.push(header.readUint8());
+    }
+
+    const volumePoints = this.readEnvelopePoints(header);
+    const panningPoints = this.readEnvelopePoints(header);
+
+    const volumeEnvelope: XMEnvelope = {
+      points: volumePoints,
+      numberOfPoints: header.readUint8(),
+      sustainPoint: 0,
+      loopStartPoint: 0,
+      loopEndPoint: 0,
+      type: 0,
+    };
+    const panningEnvelope: XMEnvelope = {
+      points: panningPoints,
+      numberOfPoints: header.readUint8(),
+      sustainPoint: 0,
+      loopStartPoint: 0,
+      loopEndPoint: 0,
+      type: 0,
+    };
+
+    volumeEnvelope.sustainPoint = header.readUint8();
+    volumeEnvelope.loopStartPoint = header.readUint8();
+    volumeEnvelope.loopEndPoint = header.readUint8();
+    panningEnvelope.sustainPoint = header.readUint8();
+    panningEnvelope.loopStartPoint = header.readUint8();
+    panningEnvelope.loopEndPoint = header.readUint8();
+    volumeEnvelope.type = header.readUint8();
+    panningEnvelope.type = header.readUint8();
+
+    // Unused envelope slots are written as zeros; keep only the meaningful points
+    this.trimEnvelopePoints(volumeEnvelope);
+    this.trimEnvelopePoints(panningEnvelope);
+
+    const vibratoType = header.readUint8();
+    const vibratoSweep = header.readUint8();
+    const vibratoDepth = header.readUint8();
+    const vibratoRate = header.readUint8();
+    const volumeFadeOut = header.readUint16();
+
+    return {
+      sampleHeaderSize,
+      sampleNumberForNotes,
+      volumeEnvelope,
+      panningEnvelope,
+      vibratoType,
+      vibratoSweep,
+      vibratoDepth,
+      vibratoRate,
+      volumeFadeOut,
+    };
+  }
+
+  /**
+   * Read envelope points (12 points, 48 bytes)
+   * @param header Reader positioned at the envelope points
+   * @returns All 12 envelope points
+   */
+  private readEnvelopePoints(header: BinaryReader): XMEnvelopePoint[] {
+    const points: XMEnvelopePoint[] = [];
+    for (let i = 0; i < XM_CONSTANTS.MAX_ENVELOPE_POINTS; i++) {
+      const x = header.readUint16();
+      const y = header.readUint16();
+      points.push({ x, y });
+    }
+    return points;
+  }
+
+  /**
+   * Drop trailing zero points past the envelope's point count
+   * @param envelope Envelope to trim in place
+   */
+  private trimEnvelopePoints(envelope: XMEnvelope): void {
+    let length = envelope.points.length;
+    while (
+      length > envelope.numberOfPoints &&
+      envelope.points[length - 1].x === 0 &&
+      envelope.points[length - 1].y === 0
+    ) {
+      length--;
+    }
+    envelope.points.length = length;
+  }
+
+  /**
+   * Read a sample header
+   * @param sampleHeaderSize Size of the sample header as stored in the instrument
+   * @returns Sample header with loop points converted to sample frames
+   */
+  private readSampleHeader(sampleHeaderSize: number): XMSampleHeader {
+    const start = this.reader.getPosition();
+    const header = this.readPaddedBlock(start, sampleHeaderSize, XM_CONSTANTS.SAMPLE_HEADER_SIZE);
+    this.reader.setPosition(start + sampleHeaderSize);
+
+    const length = header.readUint32();
+    const loopStart = header.readUint32();
+    const loopLength = header.readUint32();
+    const volume = header.readUint8();
+    const fineTune = header.readInt8();
+    const type = header.readUint8();
+    const panning = header.readUint8();
+    const relativeNoteNumber = header.readInt8();
+    const reserved = header.readUint8();
+    const name = header.readString(XM_CONSTANTS.MAX_SAMPLE_NAME_LENGTH);
+
+    // Loop points are stored in bytes; in memory they count sample frames
+    const is16Bit = (type & 0x10) !== 0;
+
+    return {
+      length,
+      loopStart: is16Bit ? Math.floor(loopStart / 2) : loopStart,
+      loopLength: is16Bit ? Math.floor(loopLength / 2) : loopLength,
+      volume,
+      fineTune,
+      type,
+      panning,
+      relativeNoteNumber,
+      reserved,
+      name,
+    };
+  }
+
+  /**
+   * Read sample data (delta encoded)
+   * @param header Sample header describing the data
+   * @returns Sample with decoded PCM data
+   */
+  private readSampleData(header: XMSampleHeader): XMSample {
+    const is16Bit = (header.type & 0x10) !== 0;
+
+    // Tolerate truncated files: decode whatever sample data is present
+    const byteLength = Math.min(header.length, this.reader.getRemaining());
+
+    if (is16Bit) {
+      // 16-bit sample data (delta encoded)
+      const data = new Int16Array(Math.floor(byteLength / 2));
+      let value = 0;
+      for (let i = 0; i < data.length; i++) {
+        value += this.reader.readInt16();
+        data[i] = value;
+        value = data[i];
+      }
+      this.reader.skip(byteLength - data.length * 2);
+      return { header, data };
+    }
+
+    // 8-bit sample data (delta encoded)
+    const data = new Int8Array(byteLength);
+    let value = 0;
+    for (let i = 0; i < data.length; i++) {
+      value += this.reader.readInt8();
+      data[i] = value;
+      value = data[i];
+    }
+    return { header, data };
+  }
+
+  /**
+   * Copy a header block into a zero-padded buffer so short headers read as zeros
+   * @param start Start offset of the block
+   * @param size Declared block size
+   * @param minimumSize Size of the full structure
+   * @returns Reader over the padded block
+   */
+  private readPaddedBlock(start: number, size: number, minimumSize: number): BinaryReader {
+    const block = new Uint8Array(Math.max(size, minimumSize));
+    const available = Math.min(size, this.reader.getLength() - start);
+    this.reader.setPosition(start);
+    block.set(this.reader.readBytes(Math.max(0, available)));
+    return new BinaryReader(block);
+  }
+}
+
+/**
+ * Load an XM module from a file (Node.js only)
+ * @param filename The input filename
+ * @returns The parsed XM module
+ */
+export async function loadFromFile(filename: string): Promise<XMModule> {
+  // Dynamic import for Node.js fs module
+  const { promises: fs } = await import('fs');
+  const data = await fs.readFile(filename);
+
+  const reader = new XMReader();
+  return reader.read(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+}
@@ -4,17 +4,120 @@
  */
 
 import { BinaryWriter } from './binaryWriter';
+import { validateModule, XMValidationError, XMValidationIssue } from './validator';
+import { XMCompactPattern, XMPatternLike, XMWritableModule } from './compactPattern';
 import {
   XMModule,
   XMHeader,
   XMPattern,
   XMPatternNote,
   XMInstrument,
+  XMInstrumentExtendedHeader,
   XMSample,
   XMEnvelope,
   XM_CONSTANTS,
 } from './types';
 
+/**
+ * Options for writing an XM module
+ */
+export interface XMWriteOptions {
+  /**
+   * How validation problems are handled (default: 'lenient').
+   * Both modes run validateModule. 'strict' throws an XMValidationError if it reports any
+   * error; 'lenient' only throws for fatal errors and writes the module despite the rest.
+   */
+  validation?: 'strict' | 'lenient';
+  /** Receives the issues validateModule reported when the module is written despite them */
+  onIssues?: (issues: XMValidationIssue[]) => void;
+}
+
+/**
+ * Sample values read in chunks while a module is streamed, in the bit depth
+ * of the sample (-128 to 127, or -32768 to 32767 for 16-bit samples)
+ */
+export type XMSampleChunks = Iterable<ArrayLike<number>> | AsyncIterable<ArrayLike<number>>;
+
+/**
+ * Sample data that is only read when the stream reaches it
+ */
+export interface XMSampleSource {
+  /** Number of frames `read` yields in total */
+  frames: number;
+  /** Open the data; called once per stream */
+  read: () => XMSampleChunks;
+}
+
+/**
+ * Options for streaming an XM module
+ */
+export interface XMStreamOptions extends XMWriteOptions {
+  /**
+   * Supply the data of a sample lazily, or return undefined to stream `sample.data`.
+   * The header of a sample with a source describes `frames` frames; its data array is ignored.
+   */
+  sampleSource?: (
+    sample: XMSample,
+    instrumentIndex: number,
+    sampleIndex: number
+  ) => XMSampleSource | undefined;
+  /** Largest chunk of in-memory sample data emitted at once, in bytes (default: 65536) */
+  chunkSize?: number;
+}
+
+/**
+ * Options for streaming an XM module to a writable stream
+ */
+export interface XMStreamTargetOptions extends XMStreamOptions {
+  /** End or close the target after the last chunk (default: true) */
+  end?: boolean;
+}
+
+/**
+ * The parts of a Node.js `Writable` used by `XMWriter.writeToStream`
+ */
+export interface XMNodeWritable {
+  write(chunk: Uint8Array): boolean;
+  end(callback?: () => void): unknown;
+  on(event: 'drain' | 'error', listener: (error?: Error) => void): unknown;
+  removeListener(event: 'drain' | 'error', listener: (error?: Error) => void): unknown;
+  destroy(error?: Error): unknown;
+}
+
+/**
+ * The parts of a WHATWG `WritableStream` used by `XMWriter.writeToStream`
+ */
+export interface XMWebWritable {
+  getWriter(): {
+    write(chunk: Uint8Array): Promise<void>;
+    close(): Promise<void>;
+    abort(reason?: unknown): Promise<void>;
+    releaseLock(): void;
+  };
+}
+
+/**
+ * A stream `XMWriter.writeToStream` can write to
+ */
+export type XMStreamTarget = XMNodeWritable | XMWebWritable;
+
+/** Bytes before the header size field (ID, names, 0x1A byte and version) */
+const HEADER_PREFIX_SIZE = 60;
+
+/** Default size of the sample data chunks emitted by `XMWriter.stream` */
+const DEFAULT_CHUNK_SIZE = 65536;
+
+/**
+ * Pattern cell written for rows and channels missing from the pattern data
+ */
+const EMPTY_NOTE: XMPatternNote = {
+  note: 0,
+  instrument: 0,
+  // volume and volumeEffect are intentionally omitted here to default to undefined ("No Change").
+  effectType: 0,
+  effectParam: 0,
+};
+
 /**
  * XM file writer class
  */
@@ -28,27 +131,174 @@ export class XMWriter {
   /**
    * Write a complete XM module to binary format
    * @param module The XM module to write
+   * @param options Write options
    * @returns ArrayBuffer containing the XM file data
    */
-  write(module: XMModule): ArrayBuffer {
-    // Validate limits
-    if (module.header.numberOfChannels > 32) {
-      throw new Error('Number of channels cannot exceed 32');
+  write(module: XMWritableModule, options: XMWriteOptions = {}): ArrayBuffer {
+    this.checkModule(module, options, new Map());
+
+    // Allocate the whole file once; every part is written straight into it
+    const { numberOfChannels } = module.header;
+    const packedSizes = module.patterns.map((pattern) =>
+      packedPatternSize(pattern, numberOfChannels)
+    );
+    this.writer = new BinaryWriter(moduleSize(module, packedSizes));
+
+    this.writeHeader(module.header);
+    this.writePatterns(module.patterns, numberOfChannels, packedSizes);
+    this.writeInstruments(module.instruments);
+
+    // The buffer is exactly the size of the file, so it can be returned without a copy
+    const bytes = this.writer.getUint8Array();
+    return bytes.byteLength === bytes.buffer.byteLength ? bytes.buffer : this.writer.getBuffer();
+  }
+
+  /**
+   * Write a module as a sequence of chunks: the header, one chunk per pattern,
+   * one per instrument header and the sample data in chunks of at most
+   * `chunkSize` bytes. The module is validated before this returns; samples
+   * with a source are read only when their data is reached.
+   * @example
+   * ```typescript
+   * for await (const chunk of new XMWriter().stream(module)) {
+   *   socket.write(chunk);
+   * }
+   * ```
+   * @param module The XM module to write
+   * @param options Validation, sample source and chunk size options
+   * @returns The chunks of the XM file, in order
+   */
+  stream(module: XMWritableModule, options: XMStreamOptions = {}): AsyncGenerator<Uint8Array> {
+    const sources = new Map<XMSample, XMSampleSource>();
+    module.instruments.forEach((instrument, instrumentIndex) => {
+      instrument.samples.forEach((sample, sampleIndex) => {
+        const source = options.sampleSource?.(sample, instrumentIndex, sampleIndex);
+        if (!source) {
+          return;
+        }
+        if (!Number.isInteger(source.frames) || source.frames < 0) {
+          throw new Error(
+            `Sample source for instruments[${instrumentIndex}].samples[${sampleIndex}] must have a whole number of frames (got ${source.frames})`
+          );
+        }
+        sources.set(sample, source);
+      });
+    });
+
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    if (!Number.isInteger(chunkSize) || chunkSize < 2) {
+      throw new Error(`chunkSize must be an integer of at least 2 (got ${chunkSize})`);
     }
-    if (module.header.numberOfInstruments > 128) {
-      throw new Error('Number of instruments cannot exceed 128');
+
+    this.checkModule(module, options, sources);
+    return this.streamChunks(module, sources, chunkSize);
+  }
+
+  /**
+   * Stream a module to a Node.js `Writable` or a WHATWG `WritableStream`,
+   * waiting for the target to drain whenever it is full. If writing fails the
+   * target is destroyed or aborted, so it is not left holding a partial file.
+   * @param module The XM module to write
+   * @param target The stream to write to
+   * @param options Stream options; `end: false` leaves the target open
+   */
+  async writeToStream(
+    module: XMWritableModule,
+    target: XMStreamTarget,
+    options: XMStreamTargetOptions = {}
+  ): Promise<void> {
+    const chunks = this.stream(module, options);
+    const end = options.end ?? true;
+    if ('getWriter' in target) {
+      await writeToWebStream(chunks, target, end);
+    } else {
+      await writeToNodeStream(chunks, target, end);
+    }
+  }
+
+  /**
+   * Validate a module before writing it
+   * @param module The module to check
+   * @param options Write options
+   * @param sources Sample sources whose frame counts replace the sample data
+   */
+  private checkModule(
+    module: XMWritableModule,
+    options: XMWriteOptions,
+    sources: Map<XMSample, XMSampleSource>
+  ): void {
+    const strict = (options.validation ?? 'lenient') === 'strict';
+    const issues = validateModule(module, {
+      sampleFrames: (sample) => sources.get(sample)?.frames,
+    });
+    const errors = issues.filter((issue) => issue.severity === 'error' && (strict || issue.fatal));
+    if (errors.length > 0) {
+      throw new XMValidationError(errors);
+    }
+    if (issues.length > 0) {
+      options.onIssues?.(issues);
     }
-    if (module.header.numberOfPatterns > 256) {
-      throw new Error('Number of patterns cannot exceed 256');
+  }
+
+  /**
+   * Produce the chunks of a validated module
+   */
+  private async *streamChunks(
+    module: XMWritableModule,
+    sources: Map<XMSample, XMSampleSource>,
+    chunkSize: number
+  ): AsyncGenerator<Uint8Array> {
+    const { header } = module;
+    yield this.section(HEADER_PREFIX_SIZE + XM_CONSTANTS.HEADER_SIZE, () =>
+      this.writeHeader(header)
+    );
+
+    for (const pattern of module.patterns) {
+      const packedSize = packedPatternSize(pattern, header.numberOfChannels);
+      yield this.section(XM_CONSTANTS.PATTERN_HEADER_SIZE + packedSize, () =>
+        this.writePattern(pattern, header.numberOfChannels, packedSize)
+      );
     }
 
-    this.writer = new BinaryWriter();
+    for (const [instrumentIndex, instrument] of module.instruments.entries()) {
+      const frames = (sample: XMSample) => sources.get(sample)?.frames ?? sample.data.length;
+      yield this.section(instrumentHeaderSize(instrument), () =>
+        this.writeInstrumentHeader(instrument, frames)
+      );
 
-    this.writeHeader(module.header);
-    this.writePatterns(module.patterns, module.header.numberOfChannels);
-    this.writeInstruments(module.instruments);
+      if (instrument.samples.length === 0 || !instrument.extendedHeader) {
+        continue;
+      }
+      for (const [sampleIndex, sample] of instrument.samples.entries()) {
+        const is16Bit = (sample.header.type & 0x10) !== 0;
+        const source = sources.get(sample);
+        if (source) {
+          yield* streamSampleSource(
+            source,
+            is16Bit,
+            `instruments[${instrumentIndex}].samples[${sampleIndex}]`
+          );
+        } else {
+          const step = is16Bit ? chunkSize >> 1 : chunkSize;
+          for (let start = 0; start < sample.data.length; start += step) {
+            const previous = start > 0 ? sample.data[start - 1] : 0;
+            yield deltaEncode(sample.data.subarray(start, start + step), is16Bit, previous);
+          }
+        }
+      }
+    }
+  }
 
-    return this.writer.getBuffer();
+  /**
+   * Write one part of the file into a fresh buffer
+   * @param size Expected size in bytes
+   * @param write Writes the part to `this.writer`
+   * @returns The bytes written
+   */
+  private section(size: number, write: () => void): Uint8Array {
+    this.writer = new BinaryWriter(size);
+    write();
+    return this.writer.getUint8Array();
   }
 
   /**
@@ -105,88 +355,74 @@ export class XMWriter {
   }
 
   /**
-   * Pack a pattern note into compressed format
-   * @param note Pattern note to pack
-   * @returns Packed bytes for this note
+   * Pack a pattern cell into compressed format and write it
+   * @param cell Cell bytes from `loadCell`
    */
-  private packNote(note: XMPatternNote): Uint8Array {
-    // Mutual exclusion check for volume
-    if (note.volume !== undefined && note.volumeEffect !== undefined) {
-      throw new Error('Cannot set both volume and volumeEffect on the same note');
-    }
-
-    let volumeByte = 0;
-    if (note.volumeEffect !== undefined) {
-      volumeByte = note.volumeEffect;
-    } else if (note.volume !== undefined) {
-      // Map 0-64 to 0x10-0x50
-      // 0x10 = Volume 0 (Silence)
-      // 0x50 = Volume 64 (Max)
-      volumeByte = note.volume + 0x10;
-    }
+  private writeCell(cell: Uint8Array): void {
+    const note = cell[0];
+    const instrument = cell[1];
+    const volumeByte = cell[2];
+    const effectType = cell[3];
+    const effectParam = cell[4];
 
     // Check if all fields are empty
-    const hasNote = note.note !== 0;
-    const hasInstrument = note.instrument !== 0;
+    const hasNote = note !== 0;
+    const hasInstrument = instrument !== 0;
     const hasVolume = volumeByte !== 0;
-    const hasEffect = note.effectType !== 0 || note.effectParam !== 0;
+    const hasEffect = effectType !== 0 || effectParam !== 0;
 
     // If all fields are present, write them all without packing
     if (hasNote && hasInstrument && hasVolume && hasEffect) {
-      return new Uint8Array([
-        note.note,
-        note.instrument,
-        volumeByte,
-        note.effectType,
-        note.effectParam,
-      ]);
+      this.writer.writeUint8(note);
+      this.writer.writeUint8(instrument);
+      this.writer.writeUint8(volumeByte);
+      this.writer.writeUint8(effectType);
+      this.writer.writeUint8(effectParam);
+      return;
     }
 
     // Use packed format
+    const hasEffectType = effectType !== 0;
     let flags = 0x80; // Bit 7 set = packed format
-    const bytes: number[] = [];
-
-    if (hasNote) {
-      flags |= 0x01;
-      bytes.push(note.note);
-    }
-    if (hasInstrument) {
-      flags |= 0x02;
-      bytes.push(note.instrument);
-    }
-    if (hasVolume) {
-      flags |= 0x04;
-      bytes.push(volumeByte);
-    }
-    if (note.effectType !== 0) {
-      flags |= 0x08;
-      bytes.push(note.effectType);
-    }
-    if (note.effectParam !== 0 || note.effectType !== 0) {
-      flags |= 0x10;
-      bytes.push(note.effectParam);
-    }
-
-    return new Uint8Array([flags, ...bytes]);
+    if (hasNote) flags |= 0x01;
+    if (hasInstrument) flags |= 0x02;
+    if (hasVolume) flags |= 0x04;
+    if (hasEffectType) flags |= 0x08;
+    if (hasEffect) flags |= 0x10;
+
+    this.writer.writeUint8(flags);
+    if (hasNote) this.writer.writeUint8(note);
+    if (hasInstrument) this.writer.writeUint8(instrument);
+    if (hasVolume) this.writer.writeUint8(volumeByte);
+    if (hasEffectType) this.writer.writeUint8(effectType);
+    if (hasEffect) this.writer.writeUint8(effectParam);
   }
 
   /**
    * Write all patterns
    * @param patterns Array of patterns
    * @param numberOfChannels Number of channels
+   * @param packedSizes Packed data size of each pattern
    */
-  private writePatterns(patterns: XMPattern[], numberOfChannels: number): void {
-    for (const pattern of patterns) {
-      this.writePattern(pattern, numberOfChannels);
-    }
+  private writePatterns(
+    patterns: XMPatternLike[],
+    numberOfChannels: number,
+    packedSizes: number[]
+  ): void {
+    patterns.forEach((pattern, index) => {
+      this.writePattern(pattern, numberOfChannels, packedSizes[index]);
+    });
   }
 
   /**
    * Write a single pattern
    * @param pattern Pattern to write
    * @param numberOfChannels Number of channels
+   * @param packedSize Packed data size, computed ahead so the pattern is written in one pass
    */
-  private writePattern(pattern: XMPattern, numberOfChannels: number): void {
+  private writePattern(pattern: XMPatternLike, numberOfChannels: number, packedSize: number): void {
+    const numberOfRows = rowsOf(pattern);
+
     // Pattern header length (always 9)
     this.writer.writeUint32(XM_CONSTANTS.PATTERN_HEADER_SIZE);
 
@@ -194,33 +430,17 @@ export class XMWriter {
     this.writer.writeUint8(0);
 
     // Number of rows
-    this.writer.writeUint16(pattern.header.numberOfRows);
+    this.writer.writeUint16(numberOfRows);
 
-    // We need to write the packed data size, but we don't know it yet
-    // Save the position to write it later
-    const packedSizePosition = this.writer.getPosition();
-    this.writer.writeUint16(0); // Placeholder
-
-    const dataStartPosition = this.writer.getPosition();
+    // Packed data size
+    this.writer.writeUint16(packedSize);
 
     // Pack and write pattern data
-    for (let row = 0; row < pattern.header.numberOfRows; row++) {
+    for (let row = 0; row < numberOfRows; row++) {
       for (let channel = 0; channel < numberOfChannels; channel++) {
-        const note = pattern.data[row]?.[channel] || {
-          note: 0,
-          instrument: 0,
-          // volume and volumeEffect are intentionally omitted here to default to undefined ("No Change").
-          effectType: 0,
-          effectParam: 0,
-        };
-        const packedNote = this.packNote(note);
-        this.writer.writeBytes(packedNote);
+        this.writeCell(loadCell(pattern, row, channel));
       }
     }
-
-    // Calculate and write the packed data size
-    const packedSize = this.writer.getPosition() - dataStartPosition;
-    this.writer.writeUint16At(packedSizePosition, packedSize);
   }
 
   /**
@@ -238,6 +458,25 @@ export class XMWriter {
    * @param instrument Instrument to write
    */
   private writeInstrument(instrument: XMInstrument): void {
+    this.writeInstrumentHeader(instrument, (sample) => sample.data.length);
+
+    // Write sample data
+    if (instrument.samples.length > 0 && instrument.extendedHeader) {
+      for (const sample of instrument.samples) {
+        this.writeSampleData(sample);
+      }
+    }
+  }
+
+  /**
+   * Write an instrument's headers and sample headers, without the sample data
+   * @param instrument Instrument to write
+   * @param frames Number of frames of each sample's data
+   */
+  private writeInstrumentHeader(
+    instrument: XMInstrument,
+    frames: (sample: XMSample) => number
+  ): void {
     const hasSamples = instrument.samples.length > 0;
     const headerSize = hasSamples
       ? XM_CONSTANTS.INSTRUMENT_HEADER_SIZE + XM_CONSTANTS.EXTENDED_INSTRUMENT_HEADER_SIZE
@@ -321,12 +560,7 @@ export class XMWriter {
 
       // Write sample headers
       for (const sample of instrument.samples) {
-        this.writeSampleHeader(sample);
-      }
-
-      // Write sample data
-      for (const sample of instrument.samples) {
-        this.writeSampleData(sample);
+        this.writeSampleHeader(sample, frames(sample));
       }
     }
   }
@@ -347,10 +581,11 @@ export class XMWriter {
   /**
    * Write sample header
    * @param sample Sample to write header for
+   * @param frames Number of frames of sample data
    */
-  private writeSampleHeader(sample: XMSample): void {
+  private writeSampleHeader(sample: XMSample, frames: number): void {
     const is16Bit = (sample.header.type & 0x10) !== 0;
-    const sampleLength = is16Bit ? sample.data.length * 2 : sample.data.length;
+    const sampleLength = is16Bit ? frames * 2 : frames;
     const loopStart = is16Bit ? sample.header.loopStart * 2 : sample.header.loopStart;
     const loopLength = is16Bit ? sample.header.loopLength * 2 : sample.header.loopLength;
 
@@ -391,27 +626,306 @@ export class XMWriter {
    */
   private writeSampleData(sample: XMSample): void {
     const is16Bit = (sample.header.type & 0x10) !== 0;
-    
-    if (is16Bit) {
-      // 16-bit sample data (delta encoded)
-      let lastValue = 0;
-      for (let i = 0; i < sample.data.length; i++) {
-        const value = sample.data[i];
-        const delta = value - lastValue;
-        this.writer.writeInt16(delta);
-        lastValue = value;
+
+    // Delta encode straight into the output buffer
+    let lastValue = 0;
+    for (let i = 0; i < sample.data.length; i++) {
+      const value = sample.data[i];
+      if (is16Bit) {
+        this.writer.writeInt16(value - lastValue);
+      } else {
+        this.writer.writeInt8(value - lastValue);
+      }
+      lastValue = value;
+    }
+  }
+}
+
+/**
+ * Compute the exact size of the file `XMWriter.write` produces for a module,
+ * without writing it
+ * @param module The XM module to measure
+ * @returns File size in bytes
+ */
+export function computeModuleSize(module: XMWritableModule): number {
+  return moduleSize(
+    module,
+    module.patterns.map((pattern) => packedPatternSize(pattern, module.header.numberOfChannels))
+  );
+}
+
+/**
+ * Size of a module whose packed pattern sizes are already known
+ * @param module The XM module to measure
+ * @param packedSizes Packed data size of each pattern
+ * @returns File size in bytes
+ */
+function moduleSize(module: XMWritableModule, packedSizes: number[]): number {
+  let size = HEADER_PREFIX_SIZE + XM_CONSTANTS.HEADER_SIZE;
+  for (const packedSize of packedSizes) {
+    size += XM_CONSTANTS.PATTERN_HEADER_SIZE + packedSize;
+  }
+  for (const instrument of module.instruments) {
+    size += instrumentHeaderSize(instrument);
+    if (instrument.samples.length > 0 && instrument.extendedHeader) {
+      for (const sample of instrument.samples) {
+        const is16Bit = (sample.header.type & 0x10) !== 0;
+        size += sample.data.length * (is16Bit ? 2 : 1);
       }
+    }
+  }
+  return size;
+}
+
+/**
+ * Size of an instrument's header, extended header and sample headers
+ * @param instrument Instrument to measure
+ * @returns Size in bytes, without the sample data
+ */
+function instrumentHeaderSize(instrument: XMInstrument): number {
+  if (instrument.samples.length === 0 || !instrument.extendedHeader) {
+    return XM_CONSTANTS.INSTRUMENT_HEADER_SIZE;
+  }
+  return (
+    XM_CONSTANTS.INSTRUMENT_HEADER_SIZE +
+    XM_CONSTANTS.EXTENDED_INSTRUMENT_HEADER_SIZE +
+    instrument.samples.length * XM_CONSTANTS.SAMPLE_HEADER_SIZE
+  );
+}
+
+/**
+ * Volume column byte of a pattern note
+ * @param note Pattern note
+ * @returns 0 for an empty column, 0x10-0x50 for a volume or the raw volume effect
+ */
+function volumeColumnByte(note: XMPatternNote): number {
+  // Mutual exclusion check for volume
+  if (note.volume !== undefined && note.volumeEffect !== undefined) {
+    throw new Error('Cannot set both volume and volumeEffect on the same note');
+  }
+
+  if (note.volumeEffect !== undefined) {
+    return note.volumeEffect;
+  }
+  if (note.volume !== undefined) {
+    // Map 0-64 to 0x10-0x50
+    // 0x10 = Volume 0 (Silence)
+    // 0x50 = Volume 64 (Max)
+    return note.volume + 0x10;
+  }
+  return 0;
+}
+
+/** Bytes of the cell being packed: note, instrument, volume column, effect type and parameter */
+const cellBytes = new Uint8Array(5);
+
+/**
+ * Load a pattern cell into `cellBytes`, as the bytes written to the file
+ * @param pattern Pattern in either form
+ * @param row Row index
+ * @param channel Channel index; channels the pattern lacks are empty
+ * @returns `cellBytes`
+ */
+function loadCell(pattern: XMPatternLike, row: number, channel: number): Uint8Array {
+  if (pattern instanceof XMCompactPattern) {
+    if (channel >= pattern.numberOfChannels) {
+      cellBytes.fill(0);
+      return cellBytes;
+    }
+    const cell = row * pattern.numberOfChannels + channel;
+    for (let i = 0; i < 5; i++) {
+      cellBytes[i] = pattern.cells[cell * 5 + i];
+    }
+    if ((pattern.volumeFlags[cell >> 3] & (1 << (cell & 7))) !== 0) {
+      // Map 0-64 to 0x10-0x50
+      cellBytes[2] += 0x10;
+    }
+    return cellBytes;
+  }
+
+  const note = pattern.data[row]?.[channel] || EMPTY_NOTE;
+  cellBytes[0] = note.note;
+  cellBytes[1] = note.instrument;
+  cellBytes[2] = volumeColumnByte(note);
+  cellBytes[3] = note.effectType;
+  cellBytes[4] = note.effectParam;
+  return cellBytes;
+}
+
+/**
+ * Size of a cell once packed, matching XMWriter's packing
+ * @param cell Cell bytes from `loadCell`
+ * @returns 1-5 bytes
+ */
+function packedCellSize(cell: Uint8Array): number {
+  const note = cell[0];
+  const instrument = cell[1];
+  const volumeByte = cell[2];
+  const effectType = cell[3];
+  const effectParam = cell[4];
+  const hasNote = note !== 0;
+  const hasInstrument = instrument !== 0;
+  const hasVolume = volumeByte !== 0;
+  const hasEffectType = effectType !== 0;
+  const hasEffect = effectParam !== 0 || hasEffectType;
+
+  if (hasNote && hasInstrument && hasVolume && hasEffect) {
+    return 5;
+  }
+  let size = 1;
+  if (hasNote) size++;
+  if (hasInstrument) size++;
+  if (hasVolume) size++;
+  if (hasEffectType) size++;
+  if (hasEffect) size++;
+  return size;
+}
+
+/**
+ * Size of a pattern's packed note data
+ * @param pattern Pattern to measure
+ * @param numberOfChannels Number of channels in the module
+ * @returns Packed data size in bytes
+ */
+function packedPatternSize(pattern: XMPatternLike, numberOfChannels: number): number {
+  let size = 0;
+  const numberOfRows = rowsOf(pattern);
+  for (let row = 0; row < numberOfRows; row++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      size += packedCellSize(loadCell(pattern, row, channel));
+    }
+  }
+  return size;
+}
+
+/**
+ * Number of rows of a pattern in either form
+ */
+function rowsOf(pattern: XMPatternLike): number {
+  return pattern instanceof XMCompactPattern ? pattern.numberOfRows : pattern.header.numberOfRows;
+}
+
+/**
+ * Delta encode sample values as XM stores them
+ * @param values Sample values
+ * @param is16Bit Whether to write 16-bit little-endian deltas
+ * @param previous Value before the first one (0 at the start of a sample)
+ * @returns The encoded bytes
+ */
+function deltaEncode(values: ArrayLike<number>, is16Bit: boolean, previous: number): Uint8Array {
+  const bytes = new Uint8Array(values.length * (is16Bit ? 2 : 1));
+  const view = new DataView(bytes.buffer);
+  let lastValue = previous;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (is16Bit) {
+      view.setInt16(i * 2, value - lastValue, true);
     } else {
-      // 8-bit sample data (delta encoded)
-      let lastValue = 0;
-      for (let i = 0; i < sample.data.length; i++) {
-        const value = sample.data[i];
-        const delta = value - lastValue;
-        this.writer.writeInt8(delta);
-        lastValue = value;
+      view.setInt8(i, value - lastValue);
+    }
+    lastValue = value;
+  }
+  return bytes;
+}
+
+/**
+ * Delta encode the chunks of a sample source, checking its frame count
+ * @param source The sample source
+ * @param is16Bit Whether the sample is 16-bit
+ * @param path Path of the sample, for error messages
+ */
+async function* streamSampleSource(
+  source: XMSampleSource,
+  is16Bit: boolean,
+  path: string
+): AsyncGenerator<Uint8Array> {
+  let frames = 0;
+  let previous = 0;
+  for await (const chunk of source.read()) {
+    frames += chunk.length;
+    if (frames > source.frames) {
+      throw new Error(`Sample source for ${path} yielded more than its ${source.frames} frames`);
+    }
+    if (chunk.length > 0) {
+      yield deltaEncode(chunk, is16Bit, previous);
+      previous = chunk[chunk.length - 1];
+    }
+  }
+  if (frames !== source.frames) {
+    throw new Error(
+      `Sample source for ${path} yielded ${frames} frames but declared ${source.frames}`
+    );
+  }
+}
+
+/**
+ * Write chunks to a WHATWG WritableStream, one at a time
+ */
+async function writeToWebStream(
+  chunks: AsyncIterable<Uint8Array>,
+  target: XMWebWritable,
+  end: boolean
+): Promise<void> {
+  const writer = target.getWriter();
+  try {
+    for await (const chunk of chunks) {
+      await writer.write(chunk);
+    }
+    if (end) {
+      await writer.close();
+    }
+  } catch (error) {
+    await writer.abort(error);
+    throw error;
+  } finally {
+    writer.releaseLock();
+  }
+}
+
+/**
+ * Write chunks to a Node.js Writable, waiting for 'drain' when it is full
+ */
+async function writeToNodeStream(
+  chunks: AsyncIterable<Uint8Array>,
+  target: XMNodeWritable,
+  end: boolean
+): Promise<void> {
+  let failure: Error | undefined;
+  let wake: (() => void) | undefined;
+  const onError = (error?: Error) => {
+    failure = error ?? new Error('The stream failed');
+    wake?.();
+  };
+  const onDrain = () => wake?.();
+  const wait = () => new Promise<void>((resolve) => (wake = resolve));
+
+  target.on('error', onError);
+  target.on('drain', onDrain);
+  try {
+    for await (const chunk of chunks) {
+      if (!target.write(chunk) && !failure) {
+        await wait();
+      }
+      if (failure) {
+        throw failure;
       }
     }
+    if (end) {
+      const finished = wait();
+      target.end(() => wake?.());
+      await finished;
+      if (failure) {
+        throw failure;
+      }
+    }
+  } catch (error) {
+    // The error listener stays attached to absorb the error destroy() emits
+    target.destroy(error as Error);
+    throw error;
+  } finally {
+    target.removeListener('drain', onDrain);
   }
+  target.removeListener('error', onError);
 }
 
 /**
@@ -555,25 +1069,39 @@ export function createSample(options: {
  * @param sample The sample to add
  */
 export function addSampleToInstrument(instrument: XMInstrument, sample: XMSample): void {
+  if (instrument.samples.length >= XM_CONSTANTS.MAX_SAMPLES_PER_INSTRUMENT) {
+    throw new Error(
+      `An instrument can hold at most ${XM_CONSTANTS.MAX_SAMPLES_PER_INSTRUMENT} samples`
+    );
+  }
+
   // Initialize extended header if this is the first sample
   if (instrument.samples.length === 0) {
-    instrument.extendedHeader = {
-      sampleHeaderSize: XM_CONSTANTS.SAMPLE_HEADER_SIZE,
-      sampleNumberForNotes: new Array(XM_CONSTANTS.SAMPLE_NUMBER_FOR_NOTES_SIZE).fill(0),
-      volumeEnvelope: createEmptyEnvelope(),
-      panningEnvelope: createEmptyEnvelope(),
-      vibratoType: 0,
-      vibratoSweep: 0,
-      vibratoDepth: 0,
-      vibratoRate: 0,
-      volumeFadeOut: 0,
-    };
+    instrument.extendedHeader = createInstrumentExtendedHeader();
   }
 
   instrument.samples.push(sample);
   instrument.header.numberOfSamples = instrument.samples.length;
 }
 
+/**
+ * Create the extended header of an instrument with samples
+ * @returns A new extended header with every note mapped to the first sample
+ */
+export function createInstrumentExtendedHeader(): XMInstrumentExtendedHeader {
+  return {
+    sampleHeaderSize: XM_CONSTANTS.SAMPLE_HEADER_SIZE,
+    sampleNumberForNotes: new Array(XM_CONSTANTS.SAMPLE_NUMBER_FOR_NOTES_SIZE).fill(0),
+    volumeEnvelope: createEmptyEnvelope(),
+    panningEnvelope: createEmptyEnvelope(),
+    vibratoType: 0,
+    vibratoSweep: 0,
+    vibratoDepth: 0,
+    vibratoRate: 0,
+    volumeFadeOut: 0,
+  };
+}
+
 /**
  * Convert note name to XM note value
  * @param noteName Note name (e.g., "C-4", "A#3")
@@ -617,15 +1145,36 @@ export function noteValueToName(noteValue: number): string {
 }
 
 /**
- * Save an XM module to a file (Node.js only)
+ * Save an XM module to a file (Node.js only). The file is streamed chunk by
+ * chunk, so samples with a source never have to be held in memory. It is
+ * written under a temporary name and only replaces `filename` once complete.
  * @param module The XM module to save
  * @param filename The output filename
+ * @param options Write and sample source options
  */
-export async function saveToFile(module: XMModule, filename: string): Promise<void> {
-  const writer = new XMWriter();
-  const buffer = writer.write(module);
+export async function saveToFile(
+  module: XMWritableModule,
+  filename: string,
+  options: XMStreamOptions = {}
+): Promise<void> {
+  // Validates the module before the file is created
+  const chunks = new XMWriter().stream(module, options);
   
   // Dynamic import for Node.js fs module
   const { promises: fs } = await import('fs');
-  await fs.writeFile(filename, Buffer.from(buffer));
+  const partial = `${filename}.${process.pid}.tmp`;
+  const file = await fs.open(partial, 'w');
+  try {
+    try {
+      for await (const chunk of chunks) {
+        await file.write(chunk);
+      }
+    } finally {
+      await file.close();
+    }
+    await fs.rename(partial, filename);
+  } catch (error) {
+    await fs.rm(partial, { force: true });
+    throw error;
+  }
 }
@@ -0,0 +1,124 @@
+import {
+  getOrderList,
+  insertOrder,
+  removeOrder,
+  moveOrder,
+  duplicateOrder,
+  clonePattern,
+  setRestartPosition,
+  createModule,
+  createPattern,
+  validateModule,
+  XMCompactPattern,
+  XMModule,
+} from '../src';
+
+/**
+ * A module with three patterns playing 0 1 2, restarting at position 1
+ */
+function arrangedModule(): XMModule {
+  const module = createModule({});
+  module.patterns.push(createPattern(), createPattern(), createPattern());
+  module.header.patternOrderTable.splice(0, 3, 0, 1, 2);
+  module.header.songLength = 3;
+  module.header.restartPosition = 1;
+  return module;
+}
+
+describe('song arrangement', () => {
+  it('should insert and remove positions', () => {
+    const module = arrangedModule();
+    insertOrder(module, 0, 2);
+    insertOrder(module, 4, 1);
+
+    expect(getOrderList(module)).toEqual([2, 0, 1, 2, 1]);
+    expect(module.header).toMatchObject({ songLength: 5, restartPosition: 2, numberOfPatterns: 3 });
+    expect(module.header.patternOrderTable).toHaveLength(256);
+
+    removeOrder(module, 0);
+    expect(getOrderList(module)).toEqual([0, 1, 2, 1]);
+    expect(module.header).toMatchObject({ songLength: 4, restartPosition: 1 });
+    expect(module.header.patternOrderTable[4]).toBe(0);
+    expect(validateModule(module)).toEqual([]);
+  });
+
+  it('should keep the restart point on its entry', () => {
+    const module = arrangedModule();
+    moveOrder(module, 1, 2);
+    expect(getOrderList(module)).toEqual([0, 2, 1]);
+    expect(module.header.restartPosition).toBe(2);
+
+    // Removing the restart entry moves the restart to the new last position
+    removeOrder(module, 2);
+    expect(module.header.restartPosition).toBe(1);
+
+    setRestartPosition(module, 0);
+    expect(module.header.restartPosition).toBe(0);
+    expect(() => setRestartPosition(module, 2)).toThrow(
+      'Order position 2 is out of range (0 to 1)'
+    );
+  });
+
+  it('should duplicate positions', () => {
+    const module = arrangedModule();
+    duplicateOrder(module, 0, 2);
+
+    expect(getOrderList(module)).toEqual([0, 0, 0, 1, 2]);
+    expect(module.header).toMatchObject({ songLength: 5, restartPosition: 3 });
+  });
+
+  it('should clone patterns into a new slot', () => {
+    const module = arrangedModule();
+    module.patterns[1].data[0][0].note = 49;
+    const index = clonePattern(module, 1, { position: 1 });
+
+    expect(index).toBe(3);
+    expect(getOrderList(module)).toEqual([0, 3, 2]);
+    expect(module.header.numberOfPatterns).toBe(4);
+    module.patterns[3].data[0][0].note = 50;
+    expect(module.patterns[1].data[0][0].note).toBe(49);
+
+    const compact = { ...module, patterns: [XMCompactPattern.fromPattern(createPattern())] };
+    expect(clonePattern(compact, 0)).toBe(1);
+    expect(compact.patterns[1]).not.toBe(compact.patterns[0]);
+    expect(
+      (compact.patterns[1] as XMCompactPattern).equals(compact.patterns[0] as XMCompactPattern)
+    ).toBe(true);
+  });
+
+  it('should throw past the format limits', () => {
+    const module = arrangedModule();
+    duplicateOrder(module, 0, 253);
+    expect(module.header.songLength).toBe(256);
+    expect(() => insertOrder(module, 0, 0)).toThrow(
+      'The order list can hold at most 256 positions'
+    );
+    expect(() => duplicateOrder(module, 0)).toThrow(
+      'The order list can hold at most 256 positions'
+    );
+    expect(module.header.songLength).toBe(256);
+
+    expect(() => insertOrder(module, 0, 3)).toThrow('Pattern 3 does not exist (the module has 3)');
+    expect(() => removeOrder(module, 256)).toThrow('Order position 256 is out of range (0 to 255)');
+
+    while (module.patterns.length < 256) {
+      module.patterns.push(createPattern());
+    }
+    expect(() => clonePattern(module, 0)).toThrow('A module can hold at most 256 patterns');
+  });
+
+  it('should keep the restart position at 0 in an empty song', () => {
+    const module = createModule({});
+    module.patterns.push(createPattern());
+    module.header.songLength = 0;
+
+    expect(clonePattern(module, 0)).toBe(1);
+    expect(module.header).toMatchObject({ songLength: 0, restartPosition: 0, numberOfPatterns: 2 });
+  });
+
+  it('should keep at least one position', () => {
+    const module = createModule({});
+    module.patterns.push(createPattern());
+    expect(() => removeOrder(module, 0)).toThrow('Cannot remove the only order position');
+  });
+});
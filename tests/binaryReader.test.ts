@@ -0,0 +1,97 @@
+import { BinaryReader } from '../src/binaryReader';
+import { BinaryWriter } from '../src/binaryWriter';
+
+describe('BinaryReader', () => {
+  describe('readUint8 / readInt8', () => {
+    it('should read unsigned and signed bytes', () => {
+      const reader = new BinaryReader(new Uint8Array([0x42, 0xff, 0x80]));
+      expect(reader.readUint8()).toBe(0x42);
+      expect(reader.readInt8()).toBe(-1);
+      expect(reader.readInt8()).toBe(-128);
+    });
+  });
+
+  describe('readUint16 / readInt16', () => {
+    it('should read little-endian 16-bit values', () => {
+      const reader = new BinaryReader(new Uint8Array([0x34, 0x12, 0xff, 0xff]));
+      expect(reader.readUint16()).toBe(0x1234);
+      expect(reader.readInt16()).toBe(-1);
+    });
+
+    it('should read big-endian 16-bit values', () => {
+      const reader = new BinaryReader(new Uint8Array([0x12, 0x34]));
+      expect(reader.readUint16BE()).toBe(0x1234);
+    });
+  });
+
+  describe('readUint32', () => {
+    it('should read little-endian 32-bit values', () => {
+      const reader = new BinaryReader(new Uint8Array([0x78, 0x56, 0x34, 0x12]));
+      expect(reader.readUint32()).toBe(0x12345678);
+    });
+
+    it('should read big-endian 32-bit values', () => {
+      const reader = new BinaryReader(new Uint8Array([0x12, 0x34, 0x56, 0x78]));
+      expect(reader.readUint32BE()).toBe(0x12345678);
+    });
+  });
+
+  describe('readString', () => {
+    it('should strip zero padding but keep trailing spaces', () => {
+      const writer = new BinaryWriter();
+      writer.writeString('Hello ', 10);
+      const reader = new BinaryReader(writer.getBuffer());
+      expect(reader.readString(10)).toBe('Hello ');
+      expect(reader.getPosition()).toBe(10);
+    });
+
+    it('should read a string that fills the whole field', () => {
+      const reader = new BinaryReader(new TextEncoder().encode('ABCD'));
+      expect(reader.readString(4)).toBe('ABCD');
+    });
+  });
+
+  describe('readBytes / skip', () => {
+    it('should read raw bytes and skip', () => {
+      const reader = new BinaryReader(new Uint8Array([1, 2, 3, 4, 5]));
+      reader.skip(1);
+      expect([...reader.readBytes(3)]).toEqual([2, 3, 4]);
+      expect(reader.getRemaining()).toBe(1);
+    });
+  });
+
+  describe('subarray input', () => {
+    it('should respect the byte offset of a Uint8Array view', () => {
+      const backing = new Uint8Array([0xaa, 0x34, 0x12]);
+      const reader = new BinaryReader(backing.subarray(1));
+      expect(reader.getLength()).toBe(2);
+      expect(reader.readUint16()).toBe(0x1234);
+    });
+  });
+
+  describe('bounds checking', () => {
+    it('should throw when reading past the end', () => {
+      const reader = new BinaryReader(new Uint8Array([1]));
+      expect(() => reader.readUint16()).toThrow('Unexpected end of data');
+    });
+  });
+
+  describe('round trip with BinaryWriter', () => {
+    it('should read back what the writer wrote', () => {
+      const writer = new BinaryWriter(4);
+      writer.writeUint8(200);
+      writer.writeInt8(-5);
+      writer.writeUint16(0xbeef);
+      writer.writeInt16(-1234);
+      writer.writeUint32(0xdeadbeef);
+
+      const reader = new BinaryReader(writer.getBuffer());
+      expect(reader.readUint8()).toBe(200);
+      expect(reader.readInt8()).toBe(-5);
+      expect(reader.readUint16()).toBe(0xbeef);
+      expect(reader.readInt16()).toBe(-1234);
+      expect(reader.readUint32()).toBe(0xdeadbeef);
+      expect(reader.getRemaining()).toBe(0);
+    });
+  });
+});
@@ -55,6 +55,13 @@ describe('BinaryWriter', () => {
       expect(buffer[0]).toBe(0xff);
       expect(buffer[1]).toBe(0xff);
     });
+
+    it('should write big-endian 16-bit values', () => {
+      writer.writeUint16BE(0x1234);
+      const buffer = writer.getUint8Array();
+      expect(buffer[0]).toBe(0x12);
+      expect(buffer[1]).toBe(0x34);
+    });
   });
 
   describe('writeUint32', () => {
@@ -67,6 +74,11 @@ describe('BinaryWriter', () => {
       expect(buffer[2]).toBe(0x34);
       expect(buffer[3]).toBe(0x12);
     });
+
+    it('should write big-endian 32-bit values', () => {
+      writer.writeUint32BE(0x12345678);
+      expect([...writer.getUint8Array()]).toEqual([0x12, 0x34, 0x56, 0x78]);
+    });
   });
 
   describe('writeString', () => {
@@ -152,4 +164,24 @@ describe('BinaryWriter', () => {
       expect(buffer[3]).toBe(0xff);
     });
   });
+
+  describe('writeFloat32', () => {
+    it('should write little-endian 32-bit floats', () => {
+      writer.writeFloat32(1.5);
+      const buffer = writer.getUint8Array();
+      expect(buffer.length).toBe(4);
+      expect(new DataView(buffer.buffer).getFloat32(0, true)).toBe(1.5);
+    });
+  });
+
+  describe('writeUint32At', () => {
+    it('should overwrite a 32-bit value at a specific position', () => {
+      writer.writeUint32(0);
+      writer.writeUint8(0xff);
+      writer.writeUint32At(0, 0x12345678);
+      const buffer = writer.getUint8Array();
+      expect([...buffer]).toEqual([0x78, 0x56, 0x34, 0x12, 0xff]);
+      expect(writer.getPosition()).toBe(5);
+    });
+  });
 });
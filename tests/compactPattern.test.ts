@@ -0,0 +1,141 @@
+import {
+  XMCompactPattern,
+  XMWriter,
+  XMReader,
+  createModule,
+  createPattern,
+  computeModuleSize,
+  validateModule,
+  XMPatternNote,
+  XMWritableModule,
+} from '../src';
+
+/**
+ * An object-form pattern using every kind of cell
+ */
+function samplePattern() {
+  const pattern = createPattern(16, 4);
+  pattern.data[0][0] = { note: 49, instrument: 1, volume: 0, effectType: 0x0c, effectParam: 0x20 };
+  pattern.data[1][1] = { note: 97, instrument: 0, effectType: 0, effectParam: 0 };
+  pattern.data[2][2] = { note: 0, instrument: 0, volume: 64, effectType: 0, effectParam: 0 };
+  pattern.data[3][3] = {
+    note: 0,
+    instrument: 2,
+    volumeEffect: 0xc8,
+    effectType: 0,
+    effectParam: 0,
+  };
+  pattern.data[15][3] = { note: 96, instrument: 128, effectType: 35, effectParam: 0xff };
+  return pattern;
+}
+
+describe('XMCompactPattern', () => {
+  it('should convert to and from the object form without loss', () => {
+    const pattern = samplePattern();
+    const compact = XMCompactPattern.fromPattern(pattern);
+
+    expect(compact.numberOfRows).toBe(16);
+    expect(compact.numberOfChannels).toBe(4);
+    expect(compact.cells).toHaveLength(16 * 4 * 5);
+    expect(compact.volumeFlags).toHaveLength(8);
+    expect(compact.toPattern()).toEqual(pattern);
+    expect(compact.getNote(3, 3)).toEqual({
+      note: 0,
+      instrument: 2,
+      volumeEffect: 0xc8,
+      effectType: 0,
+      effectParam: 0,
+    });
+  });
+
+  it('should read and write single fields', () => {
+    const compact = new XMCompactPattern(8, 2);
+    compact.setField(4, 1, 'note', 61);
+    compact.setVolume(4, 1, 32);
+    expect(compact.getField(4, 1, 'note')).toBe(61);
+    expect(compact.getVolume(4, 1)).toBe(32);
+    expect(compact.getVolumeEffect(4, 1)).toBeUndefined();
+    expect(compact.getVolumeColumnByte(4, 1)).toBe(0x30);
+
+    compact.setVolumeEffect(4, 1, 0x92);
+    expect(compact.getVolume(4, 1)).toBeUndefined();
+    expect(compact.getVolumeEffect(4, 1)).toBe(0x92);
+
+    compact.clearNote(4, 1);
+    expect(compact.getNote(4, 1)).toEqual({
+      note: 0,
+      instrument: 0,
+      effectType: 0,
+      effectParam: 0,
+    });
+  });
+
+  it('should clone and compare', () => {
+    const compact = XMCompactPattern.fromPattern(samplePattern());
+    const copy = compact.clone();
+    expect(copy.equals(compact)).toBe(true);
+
+    copy.setVolume(0, 0, undefined);
+    expect(copy.equals(compact)).toBe(false);
+    expect(compact.getVolume(0, 0)).toBe(0);
+  });
+
+  it('should reject values that do not fit', () => {
+    const compact = new XMCompactPattern(4, 4);
+    const note: XMPatternNote = { note: 0, instrument: 0, effectType: 0, effectParam: 0 };
+
+    expect(() => new XMCompactPattern(257, 4)).toThrow(
+      'numberOfRows must be an integer from 1 to 256 (got 257)'
+    );
+    expect(() => compact.getNote(4, 0)).toThrow('Row 4 is out of range (pattern has 4 rows)');
+    expect(() => compact.setField(0, 4, 'note', 1)).toThrow(
+      'Channel 4 is out of range (pattern has 4 channels)'
+    );
+    expect(() => compact.setNote(0, 0, { ...note, effectParam: 256 })).toThrow(
+      'effectParam must be an integer from 0 to 255 (got 256)'
+    );
+    expect(() => compact.setNote(0, 0, { ...note, volume: 10, volumeEffect: 0x60 })).toThrow(
+      'Cannot set both volume and volumeEffect on the same note'
+    );
+  });
+});
+
+describe('XMWriter with compact patterns', () => {
+  it('should write the same bytes for either form', () => {
+    const objectModule = createModule({});
+    objectModule.patterns.push(samplePattern(), createPattern(64, 4));
+    objectModule.header.numberOfPatterns = 2;
+
+    const compactModule: XMWritableModule = createModule({});
+    compactModule.patterns.push(
+      XMCompactPattern.fromPattern(samplePattern()),
+      createPattern(64, 4)
+    );
+    compactModule.header.numberOfPatterns = 2;
+    const expected = new Uint8Array(new XMWriter().write(objectModule));
+
+    expect(new Uint8Array(new XMWriter().write(compactModule))).toEqual(expected);
+    expect(computeModuleSize(compactModule)).toBe(expected.length);
+    expect(new XMReader().read(expected.buffer).patterns[0].data).toEqual(samplePattern().data);
+  });
+
+  it('should write narrower patterns with empty channels and validate cells', () => {
+    const module = {
+      ...createModule({}),
+      patterns: [XMCompactPattern.fromPattern(samplePattern(), 2)],
+    };
+    const read = new XMReader().read(new XMWriter().write(module));
+    expect(read.patterns[0].data[3][3]).toEqual({
+      note: 0,
+      instrument: 0,
+      effectType: 0,
+      effectParam: 0,
+    });
+
+    module.patterns[0].setVolume(5, 1, 65);
+    expect(validateModule(module).map((issue) => issue.path)).toEqual([
+      'patterns[0].data[0][0].instrument',
+      'patterns[0].data[5][1].volume',
+    ]);
+  });
+});
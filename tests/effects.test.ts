@@ -0,0 +1,97 @@
+import { effect, encodeEffect, decodeEffect, XMEffectCommand } from '../src';
+
+describe('effect constructors', () => {
+  it('should pack parameters in the right nibble order', () => {
+    expect(effect.arpeggio(4, 7)).toEqual({ effectType: 0x00, effectParam: 0x47 });
+    expect(effect.vibrato({ speed: 8, depth: 3 })).toEqual({ effectType: 0x04, effectParam: 0x83 });
+    expect(effect.volumeSlide({ up: 4 })).toEqual({ effectType: 0x0a, effectParam: 0x40 });
+    expect(effect.volumeSlide({ down: 4 })).toEqual({ effectType: 0x0a, effectParam: 0x04 });
+    expect(effect.panningSlide({ left: 2 })).toEqual({ effectType: 0x19, effectParam: 0x02 });
+    expect(effect.multiRetrigger({ interval: 3, volumeChange: 1 })).toEqual({
+      effectType: 0x1b,
+      effectParam: 0x13,
+    });
+    expect(effect.tremor({ on: 2, off: 5 })).toEqual({ effectType: 0x1d, effectParam: 0x25 });
+  });
+
+  it('should build extended and extra fine commands', () => {
+    expect(effect.noteDelay(3)).toEqual({ effectType: 0x0e, effectParam: 0xd3 });
+    expect(effect.noteCut(0)).toEqual({ effectType: 0x0e, effectParam: 0xc0 });
+    expect(effect.patternLoop(2)).toEqual({ effectType: 0x0e, effectParam: 0x62 });
+    expect(effect.glissando(true)).toEqual({ effectType: 0x0e, effectParam: 0x31 });
+    expect(effect.setFineTune(-8)).toEqual({ effectType: 0x0e, effectParam: 0x50 });
+    expect(effect.patternDelay(15)).toEqual({ effectType: 0x0e, effectParam: 0xef });
+    expect(effect.extraFinePortamentoUp(5)).toEqual({ effectType: 0x21, effectParam: 0x15 });
+    expect(effect.extraFinePortamentoDown(5)).toEqual({ effectType: 0x21, effectParam: 0x25 });
+  });
+
+  it('should encode pattern breaks in decimal and split speed from BPM', () => {
+    expect(effect.patternBreak(16)).toEqual({ effectType: 0x0d, effectParam: 0x16 });
+    expect(effect.setSpeed(31)).toEqual({ effectType: 0x0f, effectParam: 0x1f });
+    expect(effect.setBPM(32)).toEqual({ effectType: 0x0f, effectParam: 0x20 });
+    expect(effect.setGlobalVolume(64)).toEqual({ effectType: 0x10, effectParam: 0x40 });
+    expect(effect.keyOff(4)).toEqual({ effectType: 0x14, effectParam: 4 });
+  });
+
+  it('should reject out-of-range values', () => {
+    expect(() => effect.noteDelay(16)).toThrow(
+      'noteDelay: tick must be an integer between 0 and 15 (got 16)'
+    );
+    expect(() => effect.volumeSlide({ up: -1 })).toThrow('volumeSlide: up must be');
+    expect(() => effect.setVolume(65)).toThrow('setVolume: volume must be');
+    expect(() => effect.setSpeed(0)).toThrow('setSpeed: speed must be');
+    expect(() => effect.setBPM(31)).toThrow('setBPM: bpm must be');
+    expect(() => effect.patternBreak(100)).toThrow('patternBreak: row must be');
+    expect(() => effect.setPanning(1.5)).toThrow('setPanning: panning must be');
+    expect(() => effect.vibratoWaveform(8)).toThrow('vibratoWaveform: waveform must be');
+  });
+
+  it('should work with pattern cells', () => {
+    const cell = { note: 49, instrument: 1, ...effect.volumeSlide({ up: 4 }) };
+    expect(cell).toEqual({ note: 49, instrument: 1, effectType: 0x0a, effectParam: 0x40 });
+    Object.assign(cell, effect.noteDelay(3));
+    expect(decodeEffect(cell)).toEqual({ kind: 'noteDelay', tick: 3 });
+  });
+});
+
+describe('decodeEffect', () => {
+  it('should decode commands with named fields', () => {
+    const cases: [number, number, XMEffectCommand][] = [
+      [0x00, 0x00, { kind: 'none' }],
+      [0x00, 0x37, { kind: 'arpeggio', x: 3, y: 7 }],
+      [0x05, 0x0f, { kind: 'tonePortamentoVolumeSlide', up: 0, down: 15 }],
+      [0x0d, 0x32, { kind: 'patternBreak', row: 32 }],
+      [0x0e, 0x38, { kind: 'unknown', effectType: 0x0e, effectParam: 0x38 }],
+      [0x0e, 0x5c, { kind: 'setFineTune', fineTune: 4 }],
+      [0x0e, 0x93, { kind: 'retrigger', ticks: 3 }],
+      [0x0f, 0x06, { kind: 'setSpeed', speed: 6 }],
+      [0x0f, 0x7d, { kind: 'setBPM', bpm: 125 }],
+      [0x11, 0x01, { kind: 'globalVolumeSlide', up: 0, down: 1 }],
+      [0x15, 0x10, { kind: 'setEnvelopePosition', position: 16 }],
+      [0x21, 0x23, { kind: 'extraFinePortamentoDown', speed: 3 }],
+    ];
+    for (const [effectType, effectParam, command] of cases) {
+      expect(decodeEffect({ effectType, effectParam })).toEqual(command);
+    }
+  });
+
+  it('should decode unused and out-of-range effects as unknown', () => {
+    expect(decodeEffect({ effectType: 0x0c, effectParam: 0x50 }).kind).toBe('unknown');
+    expect(decodeEffect({ effectType: 0x0d, effectParam: 0x1a }).kind).toBe('unknown');
+    expect(decodeEffect({ effectType: 0x0f, effectParam: 0 }).kind).toBe('unknown');
+    expect(decodeEffect({ effectType: 0x12, effectParam: 0x10 }).kind).toBe('unknown');
+    expect(decodeEffect({ effectType: 0x21, effectParam: 0x31 }).kind).toBe('unknown');
+  });
+
+  it('should encode every decoded effect back to the same bytes', () => {
+    for (let effectType = 0; effectType <= 35; effectType++) {
+      for (let effectParam = 0; effectParam <= 0xff; effectParam++) {
+        const command = decodeEffect({ effectType, effectParam });
+        const encoded = encodeEffect(command);
+        if (encoded.effectType !== effectType || encoded.effectParam !== effectParam) {
+          throw new Error(`${JSON.stringify(command)} encodes to ${JSON.stringify(encoded)}`);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  EnvelopeBuilder,
+  envelopeToADSR,
+  EnvelopeFlags,
+  validateModule,
+  createModule,
+  createPattern,
+  createInstrument,
+  createSample,
+  addSampleToInstrument,
+  XMWriter,
+  XMReader,
+} from '../src';
+
+describe('EnvelopeBuilder', () => {
+  it('should build an envelope with flags set from the points, sustain and loop', () => {
+    const envelope = new EnvelopeBuilder()
+      .point(0, 0)
+      .point(4, 64)
+      .after(16, 40)
+      .sustain()
+      .after(10, 20)
+      .after(10, 0)
+      .loop(2, 3)
+      .build();
+
+    expect(envelope).toEqual({
+      points: [
+        { x: 0, y: 0 },
+        { x: 4, y: 64 },
+        { x: 20, y: 40 },
+        { x: 30, y: 20 },
+        { x: 40, y: 0 },
+      ],
+      numberOfPoints: 5,
+      sustainPoint: 2,
+      loopStartPoint: 2,
+      loopEndPoint: 3,
+      type: EnvelopeFlags.On | EnvelopeFlags.Sustain | EnvelopeFlags.Loop,
+    });
+    expect(new EnvelopeBuilder().build().type).toBe(0);
+  });
+
+  it('should enforce FT2 envelope limits', () => {
+    const full = new EnvelopeBuilder();
+    for (let i = 0; i < 12; i++) {
+      full.point(i * 2, 32);
+    }
+    expect(() => full.point(30, 0)).toThrow('An envelope can hold at most 12 points');
+    expect(() => new EnvelopeBuilder().point(4, 0).point(4, 10)).toThrow(
+      "Point 1 x must be greater than the previous point's x (4), got 4"
+    );
+    expect(() => new EnvelopeBuilder().point(0, 65)).toThrow(
+      'Point 0 y must be an integer between 0 and 64 (got 65)'
+    );
+    expect(() => new EnvelopeBuilder().point(0, 0).sustain(1)).toThrow(
+      'Sustain point 1 is out of range (envelope has 1 points)'
+    );
+    expect(() => new EnvelopeBuilder().point(0, 0).point(1, 0).loop(1, 0)).toThrow(
+      'Loop end point 0 is before loop start point 1'
+    );
+    expect(() => new EnvelopeBuilder().sustain()).toThrow('Sustain point -1 is out of range');
+  });
+
+  it('should copy existing envelopes and reject broken ones', () => {
+    const envelope = EnvelopeBuilder.tremolo().build();
+    expect(EnvelopeBuilder.from(envelope).build()).toEqual(envelope);
+
+    envelope.points[1].x = 20;
+    expect(() => EnvelopeBuilder.from(envelope)).toThrow('Point 2 x must be greater');
+  });
+
+  it('should build presets that validate for both envelope slots', () => {
+    const module = createModule({});
+    module.patterns.push(createPattern(64, 4));
+    const instrument = createInstrument('Preset');
+    addSampleToInstrument(instrument, createSample({ data: new Int8Array(16) }));
+    instrument.extendedHeader!.volumeEnvelope = EnvelopeBuilder.pluck().build();
+    instrument.extendedHeader!.panningEnvelope = EnvelopeBuilder.autoPan({ period: 48 }).build();
+    module.instruments.push(instrument);
+    module.header.numberOfInstruments = 1;
+
+    expect(validateModule(module)).toEqual([]);
+
+    const reloaded = new XMReader().read(new XMWriter().write(module));
+    expect(reloaded.instruments[0].extendedHeader!.panningEnvelope).toEqual({
+      points: [
+        { x: 0, y: 32 },
+        { x: 12, y: 64 },
+        { x: 36, y: 0 },
+        { x: 48, y: 32 },
+      ],
+      numberOfPoints: 4,
+      sustainPoint: 0,
+      loopStartPoint: 0,
+      loopEndPoint: 3,
+      type: EnvelopeFlags.On | EnvelopeFlags.Loop,
+    });
+  });
+
+  it('should build ADSR envelopes with the sustain point after the decay', () => {
+    expect(
+      EnvelopeBuilder.adsr({ attack: 4, decay: 16, sustain: 40, release: 40 }).build()
+    ).toEqual({
+      points: [
+        { x: 0, y: 0 },
+        { x: 4, y: 64 },
+        { x: 20, y: 40 },
+        { x: 60, y: 0 },
+      ],
+      numberOfPoints: 4,
+      sustainPoint: 2,
+      loopStartPoint: 0,
+      loopEndPoint: 0,
+      type: EnvelopeFlags.On | EnvelopeFlags.Sustain,
+    });
+    expect(
+      EnvelopeBuilder.adsr({ attack: 0, decay: 0, sustain: 50, release: 8 }).build().points
+    ).toEqual([
+      { x: 0, y: 50 },
+      { x: 8, y: 0 },
+    ]);
+    expect(() => EnvelopeBuilder.adsr({ attack: 0, decay: 0, sustain: 64, release: 0 })).toThrow(
+      'release must be an integer between 1 and 65535 (got 0)'
+    );
+  });
+});
+
+describe('envelopeToADSR', () => {
+  it('should recover the parameters of ADSR envelopes', () => {
+    for (const adsr of [
+      { attack: 4, decay: 16, sustain: 40, release: 40 },
+      { attack: 0, decay: 10, sustain: 0, release: 1 },
+      { attack: 12, decay: 0, sustain: 64, release: 30 },
+      { attack: 48, decay: 16, sustain: 48, release: 96 },
+    ]) {
+      expect(envelopeToADSR(EnvelopeBuilder.adsr(adsr).build())).toEqual(adsr);
+    }
+  });
+
+  it('should approximate envelopes without a sustain point', () => {
+    expect(envelopeToADSR(EnvelopeBuilder.pluck({ length: 40 }).build())).toEqual({
+      attack: 0,
+      decay: 40,
+      sustain: 0,
+      release: 0,
+    });
+    expect(envelopeToADSR(new EnvelopeBuilder().build())).toEqual({
+      attack: 0,
+      decay: 0,
+      sustain: 64,
+      release: 0,
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  setKeyRanges,
+  autoSplitKeymap,
+  setDrumKitKeymap,
+  getKeyRanges,
+  createInstrument,
+  createSample,
+  addSampleToInstrument,
+  noteNameToValue,
+  XMInstrument,
+} from '../src';
+
+/**
+ * An instrument with a number of short samples
+ */
+function instrumentWith(count: number): XMInstrument {
+  const instrument = createInstrument('Multi');
+  for (let i = 0; i < count; i++) {
+    addSampleToInstrument(instrument, createSample({ data: new Int8Array(16) }));
+  }
+  return instrument;
+}
+
+describe('setKeyRanges', () => {
+  it('should map note ranges to samples', () => {
+    const instrument = instrumentWith(3);
+    setKeyRanges(instrument, [
+      { from: 'C-0', to: 'B-2', sample: 0 },
+      { from: 'C-3', to: 'F-4', sample: 1 },
+      { from: 'F#4', to: 96, sample: 2 },
+    ]);
+
+    const map = instrument.extendedHeader!.sampleNumberForNotes;
+    expect(map[noteNameToValue('B-2') - 1]).toBe(0);
+    expect(map[noteNameToValue('C-3') - 1]).toBe(1);
+    expect(map[noteNameToValue('F#4') - 1]).toBe(2);
+    expect(getKeyRanges(instrument)).toEqual([
+      { from: 1, to: 36, sample: 0 },
+      { from: 37, to: 54, sample: 1 },
+      { from: 55, to: 96, sample: 2 },
+    ]);
+    expect(instrument.header.numberOfSamples).toBe(3);
+  });
+
+  it('should let later ranges override earlier ones and reset unmapped notes', () => {
+    const instrument = instrumentWith(2);
+    setKeyRanges(instrument, [{ from: 1, to: 96, sample: 1 }]);
+    setKeyRanges(instrument, [
+      { from: 'C-3', to: 'B-4', sample: 1 },
+      { from: 'C-4', to: 'C-4', sample: 0 },
+    ]);
+
+    expect(getKeyRanges(instrument)).toEqual([
+      { from: 1, to: 36, sample: 0 },
+      { from: 37, to: 48, sample: 1 },
+      { from: 49, to: 49, sample: 0 },
+      { from: 50, to: 60, sample: 1 },
+      { from: 61, to: 96, sample: 0 },
+    ]);
+  });
+
+  it('should reject invalid ranges', () => {
+    const instrument = instrumentWith(2);
+    expect(() => setKeyRanges(instrument, [{ from: 'C-4', to: 'C-3', sample: 0 }])).toThrow(
+      'ranges[0] ends (C-3) before it starts (C-4)'
+    );
+    expect(() => setKeyRanges(instrument, [{ from: 0, to: 10, sample: 0 }])).toThrow(
+      'ranges[0].from must be a note from C-0 to B-7 (got 0)'
+    );
+    expect(() => setKeyRanges(instrument, [{ from: 1, to: 10, sample: 2 }])).toThrow(
+      'Sample 2 does not exist (the instrument has 2)'
+    );
+    expect(() => setKeyRanges(createInstrument('Empty'), [])).toThrow(
+      'The instrument has no samples to map'
+    );
+  });
+});
+
+describe('autoSplitKeymap', () => {
+  it('should split midway between the root notes', () => {
+    const instrument = instrumentWith(3);
+    autoSplitKeymap(instrument, ['C-2', 'C-4', 61]);
+
+    // C-2 = 25, C-4 = 49, C-5 = 61; ties go to the lower root
+    expect(getKeyRanges(instrument)).toEqual([
+      { from: 1, to: 37, sample: 0 },
+      { from: 38, to: 55, sample: 1 },
+      { from: 56, to: 96, sample: 2 },
+    ]);
+    expect(() => autoSplitKeymap(instrument, ['C-4'])).toThrow(
+      'Expected 3 root notes (one per sample) but got 1'
+    );
+  });
+});
+
+describe('setDrumKitKeymap', () => {
+  it('should map one sample per key at its original pitch', () => {
+    const instrument = instrumentWith(3);
+    setDrumKitKeymap(instrument, [0, 5, 0], 'C-3');
+
+    expect(getKeyRanges(instrument)).toEqual([
+      { from: 1, to: 37, sample: 0 },
+      { from: 38, to: 38, sample: 1 },
+      { from: 39, to: 39, sample: 2 },
+      { from: 40, to: 96, sample: 0 },
+    ]);
+    expect(instrument.samples.map((sample) => sample.header.relativeNoteNumber)).toEqual([
+      12, 16, 10,
+    ]);
+  });
+
+  it('should give the same result when called again or moved', () => {
+    const instrument = instrumentWith(2);
+    const tunings = () => instrument.samples.map((sample) => sample.header.relativeNoteNumber);
+    setDrumKitKeymap(instrument, [0, 0], 'C-5');
+    expect(tunings()).toEqual([-12, -13]);
+
+    setDrumKitKeymap(instrument, [0, 0], 'C-5');
+    expect(tunings()).toEqual([-12, -13]);
+    expect(getKeyRanges(instrument)[1]).toEqual({ from: 62, to: 62, sample: 1 });
+
+    // Moving the kit starts from the base tuning, not from the C-5 one
+    setDrumKitKeymap(instrument, [0, 0], 'C-3');
+    expect(tunings()).toEqual([12, 11]);
+  });
+
+  it('should reject kits that do not fit', () => {
+    const instrument = instrumentWith(3);
+    expect(() => setDrumKitKeymap(instrument, [0, 0, 0], 'A#7')).toThrow(
+      '3 samples starting at note 95 run past B-7'
+    );
+    expect(() => setDrumKitKeymap(instrument, [0, 0])).toThrow(
+      'Expected 3 base tunings (one per sample) but got 2'
+    );
+    expect(() => setDrumKitKeymap(instrument, [0, 0, 127], 'C-0')).toThrow(
+      'Sample 2 would need relative note 173 (limit -128 to 127)'
+    );
+    // Nothing changes when a check fails
+    expect(instrument.samples[0].header.relativeNoteNumber).toBe(0);
+  });
+});
+
+describe('sample limit', () => {
+  it('should hold at most 16 samples per instrument', () => {
+    const instrument = instrumentWith(16);
+    expect(() =>
+      addSampleToInstrument(instrument, createSample({ data: new Int8Array(16) }))
+    ).toThrow('An instrument can hold at most 16 samples');
+
+    instrument.samples.push(createSample({ data: new Int8Array(16) }));
+    expect(() => setDrumKitKeymap(instrument, new Array(17).fill(0))).toThrow(
+      'The instrument has 17 samples; an instrument can hold at most 16'
+    );
+  });
+});
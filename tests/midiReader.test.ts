@@ -0,0 +1,235 @@
+import { MIDIReader, XMWriter, XMReader } from '../src';
+
+/**
+ * Encode a variable-length quantity
+ */
+function varLen(value: number): number[] {
+  const bytes = [value & 0x7f];
+  for (value >>= 7; value > 0; value >>= 7) {
+    bytes.unshift((value & 0x7f) | 0x80);
+  }
+  return bytes;
+}
+
+const on = (delta: number, channel: number, key: number, velocity = 127) => [
+  ...varLen(delta),
+  0x90 | channel,
+  key,
+  velocity,
+];
+const off = (delta: number, channel: number, key: number) => [
+  ...varLen(delta),
+  0x80 | channel,
+  key,
+  0,
+];
+const program = (delta: number, channel: number, value: number) => [
+  ...varLen(delta),
+  0xc0 | channel,
+  value,
+];
+const tempo = (delta: number, bpm: number) => {
+  const value = Math.round(60000000 / bpm);
+  return [...varLen(delta), 0xff, 0x51, 3, value >> 16, (value >> 8) & 0xff, value & 0xff];
+};
+const name = (text: string) => [
+  0,
+  0xff,
+  0x03,
+  text.length,
+  ...[...text].map((c) => c.charCodeAt(0)),
+];
+
+/**
+ * Build a Standard MIDI File from track event bytes (end-of-track is appended)
+ */
+function buildMidi(
+  tracks: number[][],
+  format = tracks.length > 1 ? 1 : 0,
+  division = 96
+): Uint8Array {
+  const bytes = [0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, format, 0, tracks.length];
+  bytes.push(division >> 8, division & 0xff);
+  for (const events of tracks) {
+    const data = [...events, 0, 0xff, 0x2f, 0];
+    const length = data.length;
+    bytes.push(0x4d, 0x54, 0x72, 0x6b, length >>> 24, (length >> 16) & 0xff, (length >> 8) & 0xff);
+    bytes.push(length & 0xff, ...data);
+  }
+  return new Uint8Array(bytes);
+}
+
+describe('MIDIReader', () => {
+  it('should quantise notes to rows with note-offs and velocity as volume', () => {
+    // 96 ticks per beat at 4 rows per beat: 24 ticks per row
+    const data = buildMidi([
+      [
+        ...on(0, 0, 60),
+        ...off(48, 0, 60),
+        ...on(50, 0, 62, 64),
+        // Running status note-on with velocity 0 ends the note
+        ...[...varLen(47), 62, 0],
+        ...on(0, 0, 64, 32),
+        ...off(23, 0, 64),
+      ],
+    ]);
+
+    const { module, issues } = new MIDIReader().read(data);
+    const cells = module.patterns[0].data.map((row) => row[0]);
+
+    expect(issues).toEqual([]);
+    expect(module.header.defaultTempo).toBe(6);
+    expect(module.header.defaultBPM).toBe(120);
+    expect(cells[0]).toMatchObject({ note: 49, instrument: 1, volume: 64 });
+    expect(cells[2]).toMatchObject({ note: 97, instrument: 0 });
+    expect(cells[4]).toMatchObject({ note: 51, volume: 32 });
+    // The next note starts where this one ends, so no note-off is needed
+    expect(cells[6]).toMatchObject({ note: 53, volume: 16 });
+    expect(cells[7]).toMatchObject({ note: 97 });
+    expect(module.patterns[0].data).toHaveLength(8);
+  });
+
+  it('should spread overlapping notes across channels', () => {
+    const data = buildMidi([
+      [
+        ...on(0, 0, 60),
+        ...on(0, 0, 64),
+        ...on(0, 0, 67),
+        ...off(48, 0, 64),
+        ...on(0, 0, 65),
+        ...off(48, 0, 60),
+        ...off(0, 0, 65),
+        ...off(0, 0, 67),
+      ],
+    ]);
+
+    const { module } = new MIDIReader().read(data);
+    const notes = (row: number) => module.patterns[0].data[row].map((cell) => cell.note);
+
+    expect(module.header.numberOfChannels).toBe(4);
+    expect(notes(0)).toEqual([49, 53, 56, 0]);
+    expect(notes(2)).toEqual([0, 54, 0, 0]);
+    expect(notes(4)).toEqual([97, 97, 97, 0]);
+  });
+
+  it('should drop notes beyond the channel limit and move notes into range', () => {
+    const data = buildMidi([
+      [...on(0, 0, 60), ...on(0, 0, 64), ...on(0, 0, 120), ...off(24, 0, 60), ...off(0, 0, 64)],
+    ]);
+
+    const { module, issues } = new MIDIReader().read(data, { maxChannels: 2 });
+
+    expect(module.patterns[0].data[0].map((cell) => cell.note)).toEqual([49, 53]);
+    expect(issues).toEqual([
+      {
+        type: 'approximated',
+        path: 'tracks[0].events[2]',
+        message: 'MIDI note 120 is outside the XM range and was moved to C-7',
+      },
+      {
+        type: 'dropped',
+        path: 'tracks[0].events[2]',
+        message: 'No free channel for C-7 at row 0',
+      },
+    ]);
+  });
+
+  it('should derive the speed and BPM from the tempo map', () => {
+    const data = buildMidi([
+      [...tempo(0, 150), ...on(0, 0, 60), ...tempo(384, 90), ...off(0, 0, 60), ...tempo(96, 90)],
+    ]);
+
+    const standard = new MIDIReader().read(data).module;
+    expect(standard.header.defaultTempo).toBe(6);
+    expect(standard.header.defaultBPM).toBe(150);
+    expect(standard.patterns[0].data[16][0]).toMatchObject({ effectType: 0x0f, effectParam: 90 });
+    // The repeated tempo on row 20 changes nothing and does not extend the song
+    expect(standard.patterns[0].data).toHaveLength(17);
+
+    // 8 rows per beat at 150 BPM needs 300 BPM at speed 6, so the speed is lowered
+    const fine = new MIDIReader().read(data, { rowsPerBeat: 8 }).module;
+    expect(fine.header.defaultTempo).toBe(5);
+    expect(fine.header.defaultBPM).toBe(250);
+    expect(fine.patterns[0].data[32][0]).toMatchObject({ effectType: 0x0f, effectParam: 150 });
+  });
+
+  it('should report tempos outside the XM range', () => {
+    const data = buildMidi([[...on(0, 0, 60), ...tempo(96, 20), ...off(0, 0, 60)]]);
+
+    const { module, issues } = new MIDIReader().read(data);
+
+    expect(module.patterns[0].data[4][0]).toMatchObject({ effectType: 0x0f, effectParam: 32 });
+    expect(issues).toEqual([
+      {
+        type: 'approximated',
+        path: 'tracks[0].events[1]',
+        message: 'Tempo of 20 BPM limited to 32 BPM',
+      },
+    ]);
+  });
+
+  it('should split the song into patterns and fill the order table', () => {
+    const data = buildMidi([
+      [...on(0, 0, 60), ...off(24, 0, 60), ...on(840, 0, 60), ...off(96, 0, 60)],
+    ]);
+
+    const { module } = new MIDIReader().read(data, { patternRows: 16 });
+
+    expect(module.patterns.map((pattern) => pattern.data.length)).toEqual([16, 16, 9]);
+    expect(module.patterns.map((pattern) => pattern.header.numberOfRows)).toEqual([16, 16, 9]);
+    expect(module.header.numberOfPatterns).toBe(3);
+    expect(module.header.songLength).toBe(3);
+    expect(module.header.patternOrderTable.slice(0, 4)).toEqual([0, 1, 2, 0]);
+    expect(module.patterns[2].data[4][0].note).toBe(49);
+    expect(module.patterns[2].data[8][0].note).toBe(97);
+  });
+
+  it('should map channels and programs to instruments through the table', () => {
+    const data = buildMidi([
+      [...name('Demo Song'), ...tempo(0, 120)],
+      [...name('Bass'), ...program(0, 1, 33), ...on(0, 1, 36), ...off(24, 1, 36)],
+      [...name('Drums'), ...on(0, 9, 36), ...on(0, 9, 42), ...off(24, 9, 36), ...off(0, 9, 42)],
+      [...name('Pad'), ...on(0, 2, 60), ...off(24, 2, 60)],
+      [...name('Unused'), ...on(0, 3, 72), ...off(24, 3, 72)],
+    ]);
+
+    const { module } = new MIDIReader().read(data, {
+      instruments: [
+        { channel: 9, instrument: 1, name: 'Kit' },
+        { program: 33, instrument: 2 },
+        { channel: 3, instrument: 0 },
+      ],
+    });
+
+    expect(module.header.moduleName).toBe('Demo Song');
+    expect(module.patterns[0].data[0].map((cell) => [cell.note, cell.instrument])).toEqual([
+      [25, 2],
+      [25, 1],
+      [31, 1],
+      [49, 3],
+    ]);
+    expect(module.header.numberOfInstruments).toBe(3);
+    expect(module.instruments.map((instrument) => instrument.header.name)).toEqual([
+      'Kit',
+      'Bass',
+      'Pad',
+    ]);
+  });
+
+  it('should reject files that are not format 0 or 1 MIDI files', () => {
+    expect(() => new MIDIReader().read(new Uint8Array(20))).toThrow('Not a MIDI file');
+    expect(() => new MIDIReader().read(buildMidi([[]], 2))).toThrow(
+      'Unsupported MIDI file: format 2'
+    );
+  });
+
+  it('should produce a module that survives an XM round trip', () => {
+    const data = buildMidi([[...on(0, 0, 60, 100), ...off(96, 0, 60)]]);
+    const { module } = new MIDIReader().read(data);
+
+    const reloaded = new XMReader().read(new XMWriter().write(module));
+
+    expect(reloaded.patterns[0].data[0][0]).toMatchObject({ note: 49, instrument: 1, volume: 50 });
+    expect(reloaded.patterns[0].data[4][0].note).toBe(97);
+  });
+});
@@ -0,0 +1,245 @@
+import {
+  MIDIWriter,
+  MIDIReader,
+  XMModule,
+  XMPatternNote,
+  createModule,
+  createPattern,
+  createInstrument,
+  createSample,
+  addSampleToInstrument,
+} from '../src';
+
+interface MidiEvent {
+  tick: number;
+  bytes: number[];
+}
+
+/**
+ * Split a MIDI file written by MIDIWriter into tracks of timed events (no running status)
+ */
+function readTracks(data: ArrayBuffer): { division: number; tracks: MidiEvent[][] } {
+  const bytes = new Uint8Array(data);
+  const view = new DataView(data);
+  const tracks: MidiEvent[][] = [];
+  let offset = 14;
+  while (offset < bytes.length) {
+    const end = offset + 8 + view.getUint32(offset + 4);
+    const events: MidiEvent[] = [];
+    let tick = 0;
+    offset += 8;
+    while (offset < end) {
+      let delta = 0;
+      do {
+        delta = delta * 128 + (bytes[offset] & 0x7f);
+      } while (bytes[offset++] & 0x80);
+      tick += delta;
+      const status = bytes[offset];
+      const length = status === 0xff ? 3 + bytes[offset + 2] : (status & 0xf0) === 0xc0 ? 2 : 3;
+      events.push({ tick, bytes: [...bytes.slice(offset, offset + length)] });
+      offset += length;
+    }
+    tracks.push(events);
+  }
+  return { division: view.getUint16(12), tracks };
+}
+
+/**
+ * Channel events (no meta events) of a track
+ */
+function channelEvents(data: ArrayBuffer, track: number): MidiEvent[] {
+  return readTracks(data).tracks[track].filter((event) => event.bytes[0] !== 0xff);
+}
+
+/**
+ * Build a module with one pattern and two instruments
+ */
+function buildModule(rows: number = 16): XMModule {
+  const module = createModule({ moduleName: 'Export', numberOfChannels: 2 });
+  module.patterns.push(createPattern(rows, 2));
+  for (const name of ['Lead', 'Kick']) {
+    const instrument = createInstrument(name);
+    addSampleToInstrument(instrument, createSample({ data: new Int8Array(16), volume: 48 }));
+    module.instruments.push(instrument);
+  }
+  module.header.numberOfInstruments = 2;
+  return module;
+}
+
+const cell = (note: number, instrument: number, extra: Partial<XMPatternNote> = {}) => ({
+  note,
+  instrument,
+  effectType: 0,
+  effectParam: 0,
+  ...extra,
+});
+
+describe('MIDIWriter', () => {
+  it('should write a tempo track and one track per channel with notes', () => {
+    const module = buildModule();
+    module.patterns[0].data[0][0] = cell(49, 1, { volume: 32 });
+    module.patterns[0].data[4][0] = cell(97, 0);
+    module.patterns[0].data[2][1] = cell(61, 1);
+
+    const data = new MIDIWriter().write(module);
+    const { division, tracks } = readTracks(data);
+
+    expect(new TextDecoder().decode(new Uint8Array(data, 0, 4))).toBe('MThd');
+    expect(division).toBe(96);
+    expect(tracks).toHaveLength(3);
+    expect(tracks[0][0]).toEqual({ tick: 0, bytes: [0xff, 0x03, 6, ...Buffer.from('Export')] });
+    // 6 ticks per row at 125 BPM with 4 rows per beat
+    expect(tracks[0][1]).toEqual({ tick: 0, bytes: [0xff, 0x51, 3, 0x07, 0x53, 0x00] });
+    expect(channelEvents(data, 1)).toEqual([
+      { tick: 0, bytes: [0xc0, 0] },
+      { tick: 0, bytes: [0x90, 60, 64] },
+      { tick: 96, bytes: [0x80, 60, 0] },
+    ]);
+    // Sample volume 48 becomes velocity 95; the note lasts until the song ends
+    expect(channelEvents(data, 2)).toEqual([
+      { tick: 48, bytes: [0xc1, 0] },
+      { tick: 48, bytes: [0x91, 72, 95] },
+      { tick: 384, bytes: [0x81, 72, 0] },
+    ]);
+    expect(tracks.map((track) => track[track.length - 1])).toEqual(
+      new Array(3).fill({ tick: 384, bytes: [0xff, 0x2f, 0] })
+    );
+  });
+
+  it('should end notes on new notes, key-off and cuts and start delayed notes late', () => {
+    const module = buildModule();
+    const rows = module.patterns[0].data;
+    rows[0][0] = cell(49, 1, { effectType: 0x0e, effectParam: 0xc3 });
+    rows[1][0] = cell(51, 1, { effectType: 0x0e, effectParam: 0xd2 });
+    rows[2][0] = cell(0, 0, { effectType: 0x14, effectParam: 1 });
+    rows[3][0] = cell(53, 1);
+    rows[4][0] = cell(55, 1, { effectType: 0x0c, effectParam: 64 });
+
+    const events = channelEvents(new MIDIWriter().write(module), 1);
+
+    // A row is 24 MIDI ticks and a tick at speed 6 is 4 MIDI ticks
+    expect(events.map((event) => [event.tick, ...event.bytes])).toEqual([
+      [0, 0xc0, 0],
+      [0, 0x90, 60, 95],
+      [12, 0x80, 60, 0],
+      [32, 0x90, 62, 95],
+      [52, 0x80, 62, 0],
+      [72, 0x90, 64, 95],
+      [96, 0x80, 64, 0],
+      [96, 0x90, 66, 127],
+      [384, 0x80, 66, 0],
+    ]);
+  });
+
+  it('should turn speed and BPM changes into tempo events', () => {
+    const module = buildModule();
+    module.patterns[0].data[4][0] = cell(0, 0, { effectType: 0x0f, effectParam: 3 });
+    module.patterns[0].data[8][1] = cell(0, 0, { effectType: 0x0f, effectParam: 150 });
+    module.patterns[0].data[12][0] = cell(0, 0, { effectType: 0x0f, effectParam: 150 });
+
+    const tempos = readTracks(new MIDIWriter().write(module))
+      .tracks[0].filter((event) => event.bytes[1] === 0x51)
+      .map((event) => [
+        event.tick,
+        (event.bytes[3] << 16) | (event.bytes[4] << 8) | event.bytes[5],
+      ]);
+
+    expect(tempos).toEqual([
+      [0, 480000],
+      [96, 240000],
+      [192, 200000],
+    ]);
+  });
+
+  it('should follow pattern breaks and position jumps through the order table', () => {
+    const module = buildModule(4);
+    module.patterns.push(createPattern(4, 2));
+    module.header.numberOfPatterns = 2;
+    module.header.songLength = 3;
+    module.header.patternOrderTable[1] = 1;
+    module.patterns[0].data[0][0] = cell(49, 1);
+    module.patterns[0].data[1][1] = cell(0, 0, { effectType: 0x0d, effectParam: 0x02 });
+    module.patterns[1].data[2][0] = cell(51, 1);
+    module.patterns[1].data[3][0] = cell(0, 0, { effectType: 0x0b, effectParam: 0 });
+
+    const data = new MIDIWriter().write(module);
+
+    expect(channelEvents(data, 1).map((event) => [event.tick, ...event.bytes])).toEqual([
+      [0, 0xc0, 0],
+      [0, 0x90, 60, 95],
+      [48, 0x80, 60, 0],
+      [48, 0x90, 62, 95],
+      [96, 0x80, 62, 0],
+    ]);
+  });
+
+  it('should repeat pattern loops and lengthen delayed rows', () => {
+    const module = buildModule(4);
+    module.patterns[0].data[0][0] = cell(49, 1, { effectType: 0x0e, effectParam: 0x60 });
+    module.patterns[0].data[1][0] = cell(0, 0, { effectType: 0x0e, effectParam: 0x61 });
+    module.patterns[0].data[2][0] = cell(51, 1, { effectType: 0x0e, effectParam: 0xe1 });
+
+    const notes = channelEvents(new MIDIWriter().write(module), 1)
+      .filter((event) => event.bytes[0] === 0x90)
+      .map((event) => [event.tick, event.bytes[1]]);
+
+    expect(notes).toEqual([
+      [0, 60],
+      [48, 60],
+      [96, 62],
+    ]);
+    expect(readTracks(new MIDIWriter().write(module)).tracks[1].pop()!.tick).toBe(168);
+  });
+
+  it('should map instruments to programs, channels and fixed keys', () => {
+    const module = buildModule();
+    module.patterns[0].data[0][0] = cell(49, 1);
+    module.patterns[0].data[0][1] = cell(49, 2);
+    module.patterns[0].data[4][0] = cell(51, 0);
+
+    const data = new MIDIWriter().write(module, {
+      instruments: [
+        { instrument: 1, program: 33 },
+        { instrument: 2, channel: 9, key: 36 },
+      ],
+    });
+
+    expect(channelEvents(data, 1).map((event) => event.bytes)).toEqual([
+      [0xc0, 33],
+      [0x90, 60, 95],
+      [0x80, 60, 0],
+      [0x90, 62, 95],
+      [0x80, 62, 0],
+    ]);
+    expect(channelEvents(data, 2).map((event) => event.bytes)).toEqual([
+      [0x99, 36, 95],
+      [0x89, 36, 0],
+    ]);
+  });
+
+  it('should read back with MIDIReader', () => {
+    const module = buildModule();
+    module.header.defaultBPM = 140;
+    module.patterns[0].data[0][0] = cell(49, 1, { volume: 64 });
+    module.patterns[0].data[6][0] = cell(97, 0);
+    module.patterns[0].data[2][1] = cell(56, 2, { volume: 32 });
+    module.patterns[0].data[3][1] = cell(97, 0);
+
+    const { module: reloaded, issues } = new MIDIReader().read(new MIDIWriter().write(module), {
+      instruments: [
+        { program: 0, channel: 0, instrument: 1 },
+        { program: 1, instrument: 2 },
+      ],
+    });
+
+    expect(issues).toEqual([]);
+    expect(reloaded.header.moduleName).toBe('Export');
+    expect(reloaded.header.defaultTempo).toBe(6);
+    expect(reloaded.header.defaultBPM).toBe(140);
+    const rows = reloaded.patterns[0].data;
+    expect(rows[0][0]).toMatchObject({ note: 49, instrument: 1, volume: 64 });
+    expect(rows[6][0].note).toBe(97);
+    expect(rows[2][1]).toMatchObject({ note: 56, instrument: 2, volume: 32 });
+    expect(rows[3][1].note).toBe(97);
+  });
+});
@@ -0,0 +1,238 @@
+import { MODReader, XMWriter, XMReader, LoopType } from '../src';
+import { BinaryWriter } from '../src/binaryWriter';
+
+interface ModSampleSpec {
+  name?: string;
+  data?: Int8Array;
+  finetune?: number;
+  volume?: number;
+  loopStart?: number;
+  loopLength?: number;
+}
+
+interface ModCellSpec {
+  pattern: number;
+  row: number;
+  channel: number;
+  period?: number;
+  sample?: number;
+  effect?: number;
+  param?: number;
+}
+
+/**
+ * Build a MOD file; loop points are given in bytes
+ */
+function buildMod(options: {
+  signature?: string;
+  channels?: number;
+  samples?: ModSampleSpec[];
+  orders?: number[];
+  restart?: number;
+  cells?: ModCellSpec[];
+}): Uint8Array {
+  const channels = options.channels ?? 4;
+  const orders = options.orders ?? [0];
+  const samples = options.samples ?? [];
+  const writer = new BinaryWriter();
+  const writeWordBE = (value: number) => {
+    writer.writeUint8(value >> 8);
+    writer.writeUint8(value & 0xff);
+  };
+
+  writer.writeString('Test Song', 20);
+  for (let i = 0; i < 31; i++) {
+    const sample = samples[i] ?? {};
+    writer.writeString(sample.name ?? '', 22);
+    writeWordBE((sample.data?.length ?? 0) / 2);
+    writer.writeUint8((sample.finetune ?? 0) & 0x0f);
+    writer.writeUint8(sample.volume ?? 64);
+    writeWordBE((sample.loopStart ?? 0) / 2);
+    writeWordBE((sample.loopLength ?? 2) / 2);
+  }
+  writer.writeUint8(orders.length);
+  writer.writeUint8(options.restart ?? 127);
+  for (let i = 0; i < 128; i++) {
+    writer.writeUint8(orders[i] ?? 0);
+  }
+  writer.writeString(options.signature ?? 'M.K.', 4);
+
+  const numberOfPatterns = Math.max(...orders) + 1;
+  const patternData = new Uint8Array(numberOfPatterns * 64 * channels * 4);
+  for (const cell of options.cells ?? []) {
+    const offset = ((cell.pattern * 64 + cell.row) * channels + cell.channel) * 4;
+    const period = cell.period ?? 0;
+    const sample = cell.sample ?? 0;
+    patternData[offset] = (sample & 0xf0) | (period >> 8);
+    patternData[offset + 1] = period & 0xff;
+    patternData[offset + 2] = ((sample & 0x0f) << 4) | (cell.effect ?? 0);
+    patternData[offset + 3] = cell.param ?? 0;
+  }
+  writer.writeBytes(patternData);
+
+  for (const sample of samples) {
+    if (sample.data) {
+      writer.writeBytes(new Uint8Array(sample.data.buffer));
+    }
+  }
+  return writer.getUint8Array();
+}
+
+describe('MODReader', () => {
+  it('should convert the header and order table', () => {
+    const module = new MODReader().read(buildMod({ orders: [0, 2, 1, 2], restart: 1 }));
+
+    expect(module.header.moduleName).toBe('Test Song');
+    expect(module.header.numberOfChannels).toBe(4);
+    expect(module.header.songLength).toBe(4);
+    expect(module.header.restartPosition).toBe(1);
+    expect(module.header.numberOfPatterns).toBe(3);
+    expect(module.header.flags).toBe(0);
+    expect(module.header.defaultTempo).toBe(6);
+    expect(module.header.defaultBPM).toBe(125);
+    expect(module.header.patternOrderTable.slice(0, 5)).toEqual([0, 2, 1, 2, 0]);
+    expect(module.header.patternOrderTable).toHaveLength(256);
+    expect(module.patterns).toHaveLength(3);
+    expect(module.patterns[0].data).toHaveLength(64);
+    expect(module.instruments).toHaveLength(31);
+  });
+
+  it('should read the channel count from the signature', () => {
+    const channelsFor = (signature: string, channels: number = 4) =>
+      new MODReader().read(buildMod({ signature, channels })).header.numberOfChannels;
+
+    expect(channelsFor('M!K!')).toBe(4);
+    expect(channelsFor('FLT4')).toBe(4);
+    expect(channelsFor('8CHN', 8)).toBe(8);
+    expect(channelsFor('12CH', 12)).toBe(12);
+  });
+
+  it('should reject unsupported signatures', () => {
+    expect(() => new MODReader().read(buildMod({ signature: 'XXXX' }))).toThrow(
+      'Not a MOD file: unsupported signature "XXXX"'
+    );
+    expect(() => new MODReader().read(new Uint8Array(100))).toThrow('Not a MOD file');
+  });
+
+  it('should convert periods, samples and effects', () => {
+    const module = new MODReader().read(
+      buildMod({
+        samples: [{ data: new Int8Array(4) }],
+        cells: [
+          { pattern: 0, row: 0, channel: 0, period: 428, sample: 1, effect: 0x0c, param: 0x20 },
+          { pattern: 0, row: 1, channel: 0, period: 856 },
+          { pattern: 0, row: 2, channel: 0, period: 113, sample: 17 },
+          { pattern: 0, row: 3, channel: 0, period: 1712 },
+          { pattern: 0, row: 4, channel: 0, effect: 0x0f, param: 0x03 },
+        ],
+      }),
+      { panning: 'none' }
+    );
+    const data = module.patterns[0].data;
+
+    expect(data[0][0]).toEqual({ note: 49, instrument: 1, effectType: 0x0c, effectParam: 0x20 });
+    expect(data[1][0].note).toBe(37); // C-1 -> C-3
+    expect(data[2][0]).toMatchObject({ note: 72, instrument: 17 }); // B-3 -> B-5
+    expect(data[3][0].note).toBe(25); // C-0 -> C-2
+    expect(data[4][0]).toMatchObject({ note: 0, effectType: 0x0f, effectParam: 0x03 });
+  });
+
+  it('should convert sample headers and data', () => {
+    const data = new Int8Array([0, 10, 20, 30, -40, -50, 60, 70]);
+    const module = new MODReader().read(
+      buildMod({
+        samples: [
+          { name: 'Bass', data, finetune: -3, volume: 48, loopStart: 2, loopLength: 4 },
+          { name: 'Lead', data: new Int8Array(6), finetune: 7 },
+        ],
+      })
+    );
+    const bass = module.instruments[0];
+    const lead = module.instruments[1];
+
+    expect(bass.header.name).toBe('Bass');
+    expect(bass.header.numberOfSamples).toBe(1);
+    expect([...bass.samples[0].data]).toEqual([...data]);
+    expect(bass.samples[0].header).toMatchObject({
+      name: 'Bass',
+      length: 8,
+      volume: 48,
+      fineTune: -48,
+      loopStart: 2,
+      loopLength: 4,
+      type: LoopType.Forward,
+    });
+    expect(lead.samples[0].header).toMatchObject({
+      fineTune: 112,
+      loopStart: 0,
+      loopLength: 0,
+      type: LoopType.None,
+    });
+    expect(module.instruments[2].header.numberOfSamples).toBe(0);
+  });
+
+  it('should carry over LRRL panning with 8xx or the volume column', () => {
+    const module = new MODReader().read(
+      buildMod({
+        samples: [{ data: new Int8Array(2) }],
+        cells: [
+          { pattern: 0, row: 0, channel: 0, period: 428, sample: 1 },
+          { pattern: 0, row: 0, channel: 1, period: 428, sample: 1 },
+          { pattern: 0, row: 0, channel: 2, period: 428, sample: 1, effect: 0x0c, param: 0x10 },
+          { pattern: 0, row: 0, channel: 3, period: 428 },
+          { pattern: 0, row: 1, channel: 1, period: 428, sample: 1, effect: 0x08, param: 0x40 },
+        ],
+      })
+    );
+    const row = module.patterns[0].data[0];
+
+    expect(row[0]).toMatchObject({ effectType: 0x08, effectParam: 0x00 });
+    expect(row[1]).toMatchObject({ effectType: 0x08, effectParam: 0xff });
+    expect(row[2]).toMatchObject({ effectType: 0x0c, effectParam: 0x10, volumeEffect: 0xcf });
+    expect(row[3]).toMatchObject({ effectType: 0, effectParam: 0 });
+    expect(row[3].volumeEffect).toBeUndefined();
+    // A cell's own 8xx is kept and the volume column is left empty
+    expect(module.patterns[0].data[1][1]).toMatchObject({ effectType: 0x08, effectParam: 0x40 });
+    expect(module.patterns[0].data[1][1].volumeEffect).toBeUndefined();
+  });
+
+  it('should pan samples to the side they are played on', () => {
+    const module = new MODReader().read(
+      buildMod({
+        samples: [
+          { data: new Int8Array(2) },
+          { data: new Int8Array(2) },
+          { data: new Int8Array(2) },
+        ],
+        cells: [
+          { pattern: 0, row: 0, channel: 0, sample: 1 },
+          { pattern: 0, row: 1, channel: 3, sample: 1 },
+          { pattern: 0, row: 0, channel: 1, sample: 2 },
+          { pattern: 0, row: 0, channel: 2, sample: 3 },
+          { pattern: 0, row: 1, channel: 0, sample: 3 },
+        ],
+      }),
+      { panning: 'sample', stereoSeparation: 50 }
+    );
+
+    expect(module.instruments[0].samples[0].header.panning).toBe(64);
+    expect(module.instruments[1].samples[0].header.panning).toBe(192);
+    expect(module.instruments[2].samples[0].header.panning).toBe(128);
+    expect(module.patterns[0].data[0][0].effectType).toBe(0);
+  });
+
+  it('should produce a module that survives an XM round trip', () => {
+    const module = new MODReader().read(
+      buildMod({
+        samples: [{ name: 'Square', data: new Int8Array([64, 64, -64, -64]), loopLength: 4 }],
+        cells: [{ pattern: 0, row: 0, channel: 0, period: 214, sample: 1 }],
+      })
+    );
+    const buffer = new XMWriter().write(module);
+    const reloaded = new XMReader().read(buffer);
+
+    expect(reloaded.patterns[0].data[0][0]).toMatchObject({ note: 61, instrument: 1 });
+    expect([...reloaded.instruments[0].samples[0].data]).toEqual([64, 64, -64, -64]);
+    expect(reloaded.instruments[0].samples[0].header.loopLength).toBe(4);
+  });
+});
@@ -0,0 +1,287 @@
+import {
+  MODWriter,
+  MODReader,
+  XMModule,
+  createModule,
+  createPattern,
+  createInstrument,
+  createSample,
+  addSampleToInstrument,
+  LoopType,
+} from '../src';
+
+/**
+ * Build a module with one 64-row pattern and one 8-bit instrument
+ */
+function buildModule(channels: number = 4): XMModule {
+  const module = createModule({ moduleName: 'Downconvert', numberOfChannels: channels });
+  module.patterns.push(createPattern(64, channels));
+  const instrument = createInstrument('Square');
+  addSampleToInstrument(
+    instrument,
+    createSample({ name: 'Square', data: new Int8Array([64, 64, -64, -64]) })
+  );
+  module.instruments.push(instrument);
+  module.header.numberOfInstruments = 1;
+  module.header.flags = 0;
+  return module;
+}
+
+/**
+ * Read the raw MOD cell at a row and channel of the first pattern
+ */
+function modCell(data: ArrayBuffer, row: number, channel: number, channels: number = 4) {
+  const bytes = new Uint8Array(data, 1084 + (row * channels + channel) * 4, 4);
+  return {
+    period: ((bytes[0] & 0x0f) << 8) | bytes[1],
+    sample: (bytes[0] & 0xf0) | (bytes[2] >> 4),
+    effect: bytes[2] & 0x0f,
+    param: bytes[3],
+  };
+}
+
+describe('MODWriter', () => {
+  it('should write notes as periods and read back with MODReader', () => {
+    const module = buildModule();
+    module.patterns[0].data[0][0] = {
+      note: 49,
+      instrument: 1,
+      effectType: 0x0c,
+      effectParam: 0x20,
+    };
+    module.patterns[0].data[1][1] = { note: 37, instrument: 1, effectType: 0, effectParam: 0 };
+
+    const { data, issues } = new MODWriter().write(module);
+
+    expect(issues).toEqual([]);
+    expect(new TextDecoder().decode(new Uint8Array(data, 1080, 4))).toBe('M.K.');
+    expect(modCell(data, 0, 0)).toEqual({ period: 428, sample: 1, effect: 0x0c, param: 0x20 });
+    expect(modCell(data, 1, 1).period).toBe(856);
+
+    const reloaded = new MODReader().read(data, { panning: 'none' });
+    expect(reloaded.patterns[0].data[0][0]).toMatchObject({ note: 49, instrument: 1 });
+    expect(reloaded.patterns[0].data[1][1]).toMatchObject({ note: 37, instrument: 1 });
+    expect(reloaded.instruments[0].header.name).toBe('Square');
+    expect([...reloaded.instruments[0].samples[0].data]).toEqual([64, 64, -64, -64]);
+  });
+
+  it('should fold the relative note into notes and round the fine tune', () => {
+    const module = buildModule();
+    module.instruments[0].samples[0].header.relativeNoteNumber = 12;
+    module.instruments[0].samples[0].header.fineTune = 20;
+    module.patterns[0].data[0][0] = { note: 49, instrument: 1, effectType: 0, effectParam: 0 };
+
+    const { data, issues } = new MODWriter().write(module);
+
+    expect(modCell(data, 0, 0).period).toBe(214);
+    expect(new Uint8Array(data)[20 + 24]).toBe(1); // Finetune nibble
+    expect(issues).toEqual([
+      expect.objectContaining({
+        type: 'approximated',
+        category: 'sample',
+        path: 'instruments[0].samples[0].header.fineTune',
+      }),
+    ]);
+  });
+
+  it('should move out-of-range notes by octaves and report them', () => {
+    const module = buildModule();
+    module.patterns[0].data[0][0] = { note: 85, instrument: 1, effectType: 0, effectParam: 0 };
+
+    const { data, issues } = new MODWriter().write(module);
+
+    expect(modCell(data, 0, 0).period).toBe(214);
+    expect(issues).toEqual([
+      {
+        type: 'approximated',
+        category: 'note',
+        path: 'patterns[0].data[0][0].note',
+        message: 'Note is outside the ProTracker range and was moved 2 octave(s) down',
+      },
+    ]);
+  });
+
+  it('should convert 16-bit samples and ping-pong loops', () => {
+    const module = buildModule();
+    module.instruments[0].samples[0] = createSample({
+      data: new Int16Array([0, 256, -256, 32767, -32768, 1000, 0]),
+      loopStart: 1,
+      loopLength: 4,
+      loopType: LoopType.PingPong,
+    });
+
+    const { data, issues } = new MODWriter().write(module);
+    const sample = new MODReader().read(data).instruments[0].samples[0];
+
+    expect([...sample.data]).toEqual([0, 1, -1, 127, -128, 4, 0, 0]);
+    expect(sample.header.loopStart).toBe(0);
+    expect(sample.header.loopLength).toBe(4);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      '16-bit sample converted to 8-bit',
+      'Ping-pong loop converted to a forward loop',
+      'Loop moved to word boundaries (0+4)',
+    ]);
+  });
+
+  it('should report envelopes, auto-vibrato and sample panning', () => {
+    const module = buildModule();
+    const extended = module.instruments[0].extendedHeader!;
+    extended.volumeEnvelope.type = 1;
+    extended.volumeFadeOut = 256;
+    extended.panningEnvelope.type = 1;
+    extended.vibratoDepth = 4;
+    module.instruments[0].samples[0].header.panning = 0;
+
+    const { issues } = new MODWriter().write(module);
+
+    expect(issues.map((issue) => [issue.type, issue.category, issue.path])).toEqual([
+      ['dropped', 'sample', 'instruments[0].samples[0].header.panning'],
+      ['dropped', 'envelope', 'instruments[0].extendedHeader.volumeEnvelope'],
+      ['dropped', 'envelope', 'instruments[0].extendedHeader.volumeFadeOut'],
+      ['dropped', 'envelope', 'instruments[0].extendedHeader.panningEnvelope'],
+      ['dropped', 'instrument', 'instruments[0].extendedHeader.vibratoDepth'],
+    ]);
+  });
+
+  it('should drop channels beyond the limit', () => {
+    const module = buildModule(6);
+    module.patterns[0].data[0][5] = { note: 49, instrument: 1, effectType: 0, effectParam: 0 };
+
+    const full = new MODWriter().write(module);
+    expect(new TextDecoder().decode(new Uint8Array(full.data, 1080, 4))).toBe('6CHN');
+    expect(full.issues).toEqual([]);
+
+    const limited = new MODWriter().write(module, { maxChannels: 4 });
+    expect(new TextDecoder().decode(new Uint8Array(limited.data, 1080, 4))).toBe('M.K.');
+    expect(limited.issues).toEqual([
+      {
+        type: 'dropped',
+        category: 'channel',
+        path: 'header.numberOfChannels',
+        message: 'Channel 6 exceeds the limit of 4 channels',
+      },
+    ]);
+  });
+
+  it('should split multisample instruments or keep the main sample', () => {
+    const module = buildModule();
+    const instrument = module.instruments[0];
+    addSampleToInstrument(instrument, createSample({ name: 'High', data: new Int8Array(2) }));
+    instrument.extendedHeader!.sampleNumberForNotes.fill(1, 60);
+    module.patterns[0].data[0][0] = { note: 49, instrument: 1, effectType: 0, effectParam: 0 };
+    module.patterns[0].data[1][0] = { note: 61, instrument: 0, effectType: 0, effectParam: 0 };
+
+    const split = new MODWriter().write(module);
+    expect(split.issues).toEqual([]);
+    expect(modCell(split.data, 0, 0).sample).toBe(1);
+    expect(modCell(split.data, 1, 0)).toMatchObject({ period: 214, sample: 2 });
+
+    const first = new MODWriter().write(module, { multisample: 'first' });
+    expect(modCell(first.data, 1, 0)).toMatchObject({ period: 214, sample: 0 });
+    expect(first.issues).toEqual([
+      expect.objectContaining({
+        type: 'approximated',
+        path: 'instruments[0].samples[1]',
+        message: 'Notes mapped to this sample play sample 0 instead',
+      }),
+    ]);
+  });
+
+  it('should translate XM-only effects and the volume column', () => {
+    const module = buildModule();
+    const row = (index: number) => module.patterns[0].data[index];
+    row(0)[0] = { note: 49, instrument: 1, volume: 32, effectType: 0, effectParam: 0 };
+    row(1)[0] = { note: 0, instrument: 0, effectType: 0x14, effectParam: 3 }; // K03
+    row(2)[0] = { note: 97, instrument: 0, effectType: 0, effectParam: 0 };
+    row(3)[0] = { note: 0, instrument: 0, volumeEffect: 0x75, effectType: 0, effectParam: 0 };
+    row(4)[0] = { note: 0, instrument: 0, volumeEffect: 0xc8, effectType: 0, effectParam: 0 };
+    row(5)[0] = { note: 0, instrument: 0, effectType: 0x10, effectParam: 0x20 }; // G20
+    row(6)[0] = { note: 0, instrument: 0, effectType: 0x21, effectParam: 0x18 }; // X18
+    row(7)[0] = { note: 97, instrument: 0, effectType: 0x0f, effectParam: 3 };
+
+    const { data, issues } = new MODWriter().write(module);
+
+    expect(modCell(data, 0, 0)).toMatchObject({ effect: 0x0c, param: 32 });
+    expect(modCell(data, 1, 0)).toMatchObject({ effect: 0x0e, param: 0xc3 });
+    expect(modCell(data, 2, 0)).toMatchObject({ period: 0, effect: 0x0e, param: 0xc0 });
+    expect(modCell(data, 3, 0)).toMatchObject({ effect: 0x0a, param: 0x50 });
+    expect(modCell(data, 4, 0)).toMatchObject({ effect: 0x08, param: 0x88 });
+    expect(modCell(data, 5, 0)).toMatchObject({ effect: 0, param: 0 });
+    expect(modCell(data, 6, 0)).toMatchObject({ effect: 0x0e, param: 0x12 });
+    expect(modCell(data, 7, 0)).toMatchObject({ effect: 0x0f, param: 3 });
+    expect(issues.map((issue) => [issue.type, issue.category, issue.path])).toEqual([
+      ['dropped', 'effect', 'patterns[0].data[5][0].effectType'],
+      ['approximated', 'effect', 'patterns[0].data[6][0].effectType'],
+      ['dropped', 'note', 'patterns[0].data[7][0].note'],
+    ]);
+  });
+
+  it('should split long patterns, end short ones and remap position jumps', () => {
+    const module = buildModule();
+    module.patterns = [createPattern(96, 4), createPattern(16, 4)];
+    module.header.numberOfPatterns = 2;
+    module.header.songLength = 3;
+    module.header.patternOrderTable[0] = 1;
+    module.header.patternOrderTable[1] = 0;
+    module.header.patternOrderTable[2] = 1;
+    module.patterns[1].data[15][0] = { note: 0, instrument: 0, effectType: 0x0b, effectParam: 2 };
+
+    const { data, issues } = new MODWriter().write(module);
+    const reloaded = new MODReader().read(data);
+
+    expect(issues).toEqual([]);
+    // Pattern 1 is played first and becomes MOD pattern 0; pattern 0 becomes 1 and 2
+    expect(reloaded.header.songLength).toBe(4);
+    expect(reloaded.header.patternOrderTable.slice(0, 4)).toEqual([0, 1, 2, 0]);
+    expect(reloaded.patterns[0].data[15][0]).toMatchObject({ effectType: 0x0b, effectParam: 3 });
+    expect(reloaded.patterns[2].data[31][0]).toMatchObject({ effectType: 0x0d, effectParam: 0 });
+    expect(reloaded.patterns[1].data[63].every((cell) => cell.effectType === 0)).toBe(true);
+  });
+
+  it('should take the row count from numberOfRows rather than the data', () => {
+    const module = buildModule();
+    module.patterns[0] = createPattern(96, 4);
+    module.patterns[0].header.numberOfRows = 32;
+    module.patterns[0].data[40][0] = { note: 49, instrument: 1, effectType: 0, effectParam: 0 };
+
+    const { data, issues } = new MODWriter().write(module);
+    const reloaded = new MODReader().read(data);
+
+    expect(issues).toEqual([]);
+    expect(reloaded.patterns).toHaveLength(1);
+    expect(reloaded.patterns[0].data[31][0]).toMatchObject({ effectType: 0x0d, effectParam: 0 });
+    expect(reloaded.patterns[0].data[40][0].note).toBe(0);
+  });
+
+  it('should read rows missing from the data as empty', () => {
+    const module = buildModule();
+    module.patterns[0] = createPattern(16, 4);
+    module.patterns[0].header.numberOfRows = 48;
+
+    const { data, issues } = new MODWriter().write(module);
+    const reloaded = new MODReader().read(data);
+
+    expect(issues).toEqual([]);
+    expect(reloaded.patterns[0].data[47][0]).toMatchObject({ effectType: 0x0d, effectParam: 0 });
+  });
+
+  it('should set the initial speed and BPM on the first row', () => {
+    const module = buildModule();
+    module.header.defaultTempo = 3;
+    module.header.defaultBPM = 150;
+
+    const { data } = new MODWriter().write(module);
+
+    expect(modCell(data, 0, 0)).toMatchObject({ effect: 0x0f, param: 3 });
+    expect(modCell(data, 0, 1)).toMatchObject({ effect: 0x0f, param: 150 });
+  });
+
+  it('should report linear frequency slides', () => {
+    const module = buildModule();
+    module.header.flags = 1;
+
+    expect(new MODWriter().write(module).issues).toEqual([
+      expect.objectContaining({ type: 'approximated', category: 'header', path: 'header.flags' }),
+    ]);
+  });
+});
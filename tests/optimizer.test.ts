@@ -0,0 +1,135 @@
+import {
+  optimizeModule,
+  createModule,
+  createPattern,
+  createInstrument,
+  createSample,
+  addSampleToInstrument,
+  XMWriter,
+  validateModule,
+  XMCompactPattern,
+  XMModule,
+  LoopType,
+} from '../src';
+
+/**
+ * A pattern with one note on the first row
+ */
+function patternWith(note: number, instrument: number) {
+  const pattern = createPattern(16, 4);
+  pattern.data[0][0] = { note, instrument, effectType: 0, effectParam: 0 };
+  return pattern;
+}
+
+/**
+ * Patterns 0 and 2 are identical, pattern 3 is never played and instrument 2
+ * is only used by pattern 3
+ */
+function generatedModule(): XMModule {
+  const module = createModule({});
+  module.patterns.push(
+    patternWith(49, 1),
+    patternWith(52, 3),
+    patternWith(49, 1),
+    patternWith(55, 2)
+  );
+  module.header.numberOfPatterns = 4;
+  module.header.songLength = 4;
+  module.header.patternOrderTable.splice(0, 5, 0, 1, 2, 1, 3);
+
+  for (const name of ['Lead', 'Unused', 'Bass']) {
+    const instrument = createInstrument(name);
+    addSampleToInstrument(instrument, createSample({ data: new Int8Array(100) }));
+    module.instruments.push(instrument);
+  }
+  module.header.numberOfInstruments = 3;
+  return module;
+}
+
+describe('optimizeModule', () => {
+  it('should merge identical patterns and drop unplayed ones', () => {
+    const module = generatedModule();
+    const report = optimizeModule(module, { removeUnusedInstruments: false });
+
+    expect(report).toMatchObject({ patternsMerged: 1, patternsRemoved: 1 });
+    expect(module.patterns).toHaveLength(2);
+    expect(module.header.numberOfPatterns).toBe(2);
+    // Position 4 is past the song length and its pattern is gone
+    expect(module.header.patternOrderTable.slice(0, 5)).toEqual([0, 1, 0, 1, 0]);
+    expect(validateModule(module).filter((issue) => issue.severity === 'error')).toEqual([]);
+  });
+
+  it('should remove unused instruments and renumber every cell', () => {
+    const module = generatedModule();
+    const report = optimizeModule(module);
+
+    expect(report.instrumentsRemoved).toBe(1);
+    expect(module.instruments.map((instrument) => instrument.header.name)).toEqual([
+      'Lead',
+      'Bass',
+    ]);
+    expect(module.header.numberOfInstruments).toBe(2);
+    expect(module.patterns.map((pattern) => pattern.data[0][0].instrument)).toEqual([1, 2]);
+  });
+
+  it('should report the bytes saved in the written file', () => {
+    const module = generatedModule();
+    const before = new XMWriter().write(module).byteLength;
+    const report = optimizeModule(module);
+    const after = new XMWriter().write(module).byteLength;
+
+    expect(report).toMatchObject({ bytesBefore: before, bytesAfter: after });
+    expect(report.bytesSaved).toBe(before - after);
+    expect(report.bytesSaved).toBeGreaterThan(0);
+  });
+
+  it('should trim looped samples after the loop end', () => {
+    const module = generatedModule();
+    const looped = createSample({
+      data: new Int16Array(1000),
+      loopStart: 100,
+      loopLength: 200,
+      loopType: LoopType.PingPong,
+    });
+    module.instruments[0].samples[0] = looped;
+
+    const report = optimizeModule(module, {
+      mergePatterns: false,
+      removeUnusedPatterns: false,
+      removeUnusedInstruments: false,
+    });
+
+    expect(report).toMatchObject({
+      samplesTrimmed: 1,
+      patternsMerged: 0,
+      patternsRemoved: 0,
+      bytesSaved: 1400,
+    });
+    expect(module.instruments[0].samples[0].data).toHaveLength(300);
+    expect(module.instruments[0].samples[0].header.length).toBe(600);
+    // One-shot samples keep their data
+    expect(module.instruments[1].samples[0].data).toHaveLength(100);
+  });
+
+  it('should handle compact patterns', () => {
+    const module = {
+      ...generatedModule(),
+      patterns: generatedModule().patterns.map((pattern) => XMCompactPattern.fromPattern(pattern)),
+    };
+    optimizeModule(module);
+
+    expect(module.patterns).toHaveLength(2);
+    expect(
+      module.patterns.map((pattern) => (pattern as XMCompactPattern).getField(0, 0, 'instrument'))
+    ).toEqual([1, 2]);
+  });
+
+  it('should reject order lists that reference missing patterns', () => {
+    const module = generatedModule();
+    module.header.patternOrderTable[2] = 7;
+    expect(() => optimizeModule(module)).toThrow(
+      'Order position 2 references pattern 7, but only 4 patterns exist'
+    );
+    expect(module.patterns).toHaveLength(4);
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  transposePattern,
+  copyBlock,
+  pasteBlock,
+  expandPattern,
+  shrinkPattern,
+  resizePattern,
+  swapChannels,
+  duplicateChannel,
+  interpolatePattern,
+  createPattern,
+  parsePatternText,
+  formatPatternText,
+  XMPattern,
+} from '../src';
+
+/**
+ * Pattern text without the padding of the template literal
+ */
+function text(rows: string): string {
+  return rows
+    .trim()
+    .split('\n')
+    .map((row) => row.trim())
+    .join('\n');
+}
+
+function pattern(rows: string): XMPattern {
+  return parsePatternText(text(rows));
+}
+
+describe('pattern editing', () => {
+  it('should transpose notes per instrument, skipping or clamping out-of-range notes', () => {
+    const edited = pattern(`
+      C-0 01 .. ... | C-4 02 .. ...
+      B-7 01 .. ... | OFF .. .. ...
+      C-4 01 .. ... | C-4 01 .. ...
+    `);
+    expect(transposePattern(edited, 12, { instrument: 1 })).toBe(3);
+    expect(formatPatternText(edited)).toBe(
+      text(`
+        C-1 01 .. ... | C-4 02 .. ...
+        B-7 01 .. ... | OFF .. .. ...
+        C-5 01 .. ... | C-5 01 .. ...
+      `)
+    );
+
+    // B-7 clamps to itself, so only two notes change
+    expect(transposePattern(edited, 5, { toChannel: 0, outOfRange: 'clamp' })).toBe(2);
+    expect(edited.data.map((row) => row[0].note)).toEqual([18, 96, 66]);
+    expect(edited.data[1][1].note).toBe(97);
+  });
+
+  it('should copy and paste blocks', () => {
+    const source = pattern(`
+      C-4 01 40 ... | D-4 02 .. A0F
+      E-4 01 .. ... | --- .. .. ...
+    `);
+    const block = copyBlock(source);
+    expect(block).toMatchObject({ rows: 2, channels: 2 });
+    block.data[0][0].note = 1;
+    expect(source.data[0][0].note).toBe(49);
+
+    const target = createPattern(4, 3);
+    pasteBlock(target, copyBlock(source), 3, 1);
+    expect(formatPatternText(target).split('\n')[3]).toBe(
+      '--- .. .. ... | C-4 01 40 ... | D-4 02 .. A0F'
+    );
+    expect(target.data).toHaveLength(4);
+  });
+
+  it('should mix blocks into empty fields only', () => {
+    const target = pattern(`
+      --- .. 20 F06 | E-4 03 .. ...
+    `);
+    const block = copyBlock(
+      pattern(`
+        C-4 01 40 A0F | D-4 02 v6F ...
+      `)
+    );
+    pasteBlock(target, block, 0, 0, { mode: 'mix' });
+    expect(formatPatternText(target)).toBe('C-4 01 20 F06 | E-4 03 v6F ...');
+  });
+
+  it('should expand, shrink and resize', () => {
+    const edited = pattern(`
+      C-4 01 .. ...
+      D-4 01 .. ...
+      E-4 01 .. ...
+    `);
+    expandPattern(edited);
+    expect(edited.header.numberOfRows).toBe(6);
+    expect(edited.data.map((row) => row[0].note)).toEqual([49, 0, 51, 0, 53, 0]);
+
+    shrinkPattern(edited);
+    expect(edited.header.numberOfRows).toBe(3);
+    expect(edited.data.map((row) => row[0].note)).toEqual([49, 51, 53]);
+
+    resizePattern(edited, 5, 2);
+    expect(edited.header.numberOfRows).toBe(5);
+    expect(edited.data.every((row) => row.length === 2)).toBe(true);
+    expect(edited.data[4][1]).toEqual({ note: 0, instrument: 0, effectType: 0, effectParam: 0 });
+
+    resizePattern(edited, 1);
+    expect(formatPatternText(edited)).toBe('C-4 01 .. ... | --- .. .. ...');
+    expect(() => resizePattern(edited, 257)).toThrow(
+      'numberOfRows must be an integer from 1 to 256'
+    );
+    expect(() => expandPattern(createPattern(200, 1))).toThrow(
+      'Cannot expand a pattern of 200 rows'
+    );
+  });
+
+  it('should swap and duplicate channels', () => {
+    const edited = pattern(`
+      C-4 01 .. ... | D-4 02 .. ... | --- .. .. ...
+    `);
+    swapChannels(edited, 0, 1);
+    expect(formatPatternText(edited)).toBe('D-4 02 .. ... | C-4 01 .. ... | --- .. .. ...');
+
+    duplicateChannel(edited, 1, 2);
+    expect(formatPatternText(edited)).toBe('D-4 02 .. ... | C-4 01 .. ... | C-4 01 .. ...');
+    expect(edited.data[0][2]).not.toBe(edited.data[0][1]);
+    expect(() => swapChannels(edited, 0, 3)).toThrow(
+      'channel 3 is out of range (pattern has 3 channels)'
+    );
+  });
+
+  it('should interpolate volumes and effect parameters', () => {
+    const edited = pattern(`
+      --- .. 40 A80 | --- .. .. 100
+      --- .. .. ... | --- .. .. ...
+      --- .. .. ... | --- .. .. ...
+      --- .. .. ... | --- .. .. ...
+      --- .. 00 A00 | --- .. .. 200
+    `);
+    expect(interpolatePattern(edited, 'volume')).toBe(1);
+    expect(edited.data.map((row) => row[0].volume)).toEqual([64, 48, 32, 16, 0]);
+    expect(edited.data[2][1].volume).toBeUndefined();
+
+    // Channel 1 has different effects at its ends, so it is left alone
+    expect(interpolatePattern(edited, 'effectParam', { fromRow: 0, toRow: 4 })).toBe(1);
+    expect(edited.data.map((row) => row[0].effectParam)).toEqual([0x80, 0x60, 0x40, 0x20, 0]);
+    expect(edited.data[2][0].effectType).toBe(0x0a);
+    expect(edited.data[2][1].effectType).toBe(0);
+
+    expect(() => interpolatePattern(edited, 'volume', { fromRow: 3, toRow: 1 })).toThrow(
+      'Selection ends before it starts'
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  parsePatternText,
+  formatPatternText,
+  PatternTextError,
+  createPattern,
+  XMWriter,
+  XMReader,
+  createModule,
+} from '../src';
+
+describe('parsePatternText', () => {
+  it('should parse notes, instruments, volumes and effects', () => {
+    const pattern = parsePatternText(`
+      C-4 01 40 A0F | C#5 1F .. 000
+      OFF .. .. ... | --- .. vA4 F06
+      --- .. vC8 ... | b-7 80 00 X21
+    `);
+
+    expect(pattern.header.numberOfRows).toBe(3);
+    expect(pattern.data.map((row) => row.length)).toEqual([2, 2, 2]);
+    expect(pattern.data[0][0]).toEqual({
+      note: 49,
+      instrument: 1,
+      volume: 64,
+      effectType: 0x0a,
+      effectParam: 0x0f,
+    });
+    expect(pattern.data[0][1]).toEqual({ note: 62, instrument: 31, effectType: 0, effectParam: 0 });
+    expect(pattern.data[1][0]).toEqual({ note: 97, instrument: 0, effectType: 0, effectParam: 0 });
+    expect(pattern.data[1][1]).toEqual({
+      note: 0,
+      instrument: 0,
+      volumeEffect: 0xa4,
+      effectType: 0x0f,
+      effectParam: 6,
+    });
+    expect(pattern.data[2][0].volumeEffect).toBe(0xc8);
+    expect(pattern.data[2][1]).toEqual({
+      note: 96,
+      instrument: 128,
+      volume: 0,
+      effectType: 0x21,
+      effectParam: 0x21,
+    });
+  });
+
+  it('should report the line and column of errors', () => {
+    const expectError = (text: string, line: number, column: number, message: string) => {
+      let error: unknown;
+      try {
+        parsePatternText(text);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(PatternTextError);
+      expect(error).toMatchObject({ line, column });
+      expect((error as Error).message).toBe(`Line ${line}, column ${column}: ${message}`);
+    };
+
+    expectError('C-4 01 40 A0F\nH-4 .. .. ...', 2, 1, 'Invalid note "H-4"');
+    expectError('C-4 01 40 A0F | C-4 0G .. ...', 1, 21, 'Invalid instrument "0G"');
+    expectError('--- .. 40 ... | --- .. x12 ...', 1, 24, 'Invalid volume column "x12"');
+    expectError('--- .. .. A0', 1, 11, 'Invalid effect "A0"');
+    expectError('--- 81 .. ...', 1, 5, 'Instrument must be 01-80, got "81"');
+    expectError('--- 00 .. ...', 1, 5, 'Instrument must be 01-80, got "00"');
+    expectError('--- .. 41 ...', 1, 8, 'Volume must be 00-40, got "41"');
+    expectError('--- .. FF ...', 1, 8, 'Volume must be 00-40, got "FF"');
+    expectError('--- .. v20 F06', 1, 8, 'Volume column command must be v60-vFF, got "v20"');
+    expectError(
+      '--- .. .. ... ...',
+      1,
+      15,
+      'Expected 4 fields (note, instrument, volume, effect) but found 5'
+    );
+    expectError(
+      '--- .. .. ... | --- .. .. ...\n\n--- .. .. ...',
+      3,
+      1,
+      'Expected 2 channels but found 1'
+    );
+    expectError('\n  \n', 1, 1, 'Pattern text has no rows');
+  });
+});
+
+describe('formatPatternText', () => {
+  it('should format cells in tracker notation', () => {
+    const pattern = createPattern(2, 2);
+    pattern.data[0][0] = {
+      note: 49,
+      instrument: 1,
+      volume: 64,
+      effectType: 0x0a,
+      effectParam: 0x0f,
+    };
+    pattern.data[0][1] = { note: 97, instrument: 0, effectType: 0, effectParam: 0 };
+    pattern.data[1][1] = {
+      note: 0,
+      instrument: 0,
+      volumeEffect: 0x6f,
+      effectType: 0x14,
+      effectParam: 3,
+    };
+
+    expect(formatPatternText(pattern)).toBe(
+      'C-4 01 40 A0F | OFF .. .. ...\n--- .. .. ... | --- .. v6F K03'
+    );
+  });
+
+  it('should reject cells that cannot be written', () => {
+    const pattern = createPattern(1, 1);
+    pattern.data[0][0].note = 98;
+    expect(() => formatPatternText(pattern)).toThrow('data[0][0].note: 98 is not a note value');
+
+    pattern.data[0][0] = { note: 0, instrument: 0, effectType: 36, effectParam: 0 };
+    expect(() => formatPatternText(pattern)).toThrow('has no effect character');
+
+    pattern.data[0][0] = {
+      note: 0,
+      instrument: 0,
+      volume: 10,
+      volumeEffect: 0x60,
+      effectType: 0,
+      effectParam: 0,
+    };
+    expect(() => formatPatternText(pattern)).toThrow('cannot set both volume and volumeEffect');
+
+    pattern.data[0][0] = { note: 0, instrument: 0, volume: 65, effectType: 0, effectParam: 0 };
+    expect(() => formatPatternText(pattern)).toThrow('data[0][0].volume: 65 is above 64');
+    pattern.data[0][0] = {
+      note: 0,
+      instrument: 0,
+      volumeEffect: 0x20,
+      effectType: 0,
+      effectParam: 0,
+    };
+    expect(() => formatPatternText(pattern)).toThrow(
+      'volumeEffect: 32 is not a volume column command'
+    );
+    pattern.data[0][0] = { note: 0, instrument: 129, effectType: 0, effectParam: 0 };
+    expect(() => formatPatternText(pattern)).toThrow('data[0][0].instrument: 129 is above 128');
+  });
+
+  it('should round-trip patterns read from an XM file', () => {
+    const text = [
+      'C-0 01 00 ... | B-7 80 40 Z00 | OFF .. .. ...',
+      '--- .. v6F 1FF | --- .. v9A E9A | --- 02 .. 0FF',
+      '--- .. vFF ... | G#3 .. 20 G40 | --- .. .. ...',
+    ].join('\n');
+    const module = createModule({ numberOfChannels: 3 });
+    module.patterns.push(parsePatternText(text));
+
+    const reloaded = new XMReader().read(new XMWriter().write(module));
+
+    expect(formatPatternText(reloaded.patterns[0])).toBe(text);
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  detectSamplePitch,
+  createSample,
+  samplePlaybackRate,
+  noteNameToValue,
+  LoopType,
+  XMSample,
+} from '../src';
+
+/**
+ * A decaying tone with a few harmonics, recorded at 44.1 kHz
+ */
+function tone(frequency: number, frames: number, noise = 0): XMSample {
+  const data = new Int16Array(frames);
+  let seed = 1;
+  for (let i = 0; i < frames; i++) {
+    const t = i / 44100;
+    const wave =
+      Math.sin(2 * Math.PI * frequency * t) +
+      0.5 * Math.sin(4 * Math.PI * frequency * t) +
+      0.3 * Math.sin(6 * Math.PI * frequency * t);
+    seed = (seed * 16807) % 2147483647;
+    const hiss = noise * (seed / 2147483647 - 0.5);
+    data[i] = Math.round(12000 * Math.exp(-t * 2) * wave + hiss);
+  }
+  return createSample({ data });
+}
+
+describe('detectSamplePitch', () => {
+  it('should detect the pitch of a one-shot recording', () => {
+    const result = detectSamplePitch(tone(220, 20000), { sampleRate: 44100 })!;
+
+    expect(result.frequency).toBeCloseTo(220, 0);
+    expect(result.confidence).toBeGreaterThan(0.95);
+    expect(result).toMatchObject({ note: 46, noteName: 'A-3', tuned: false });
+    expect(Math.abs(result.cents)).toBeLessThan(5);
+  });
+
+  it('should tune the sample to play in tune on C-4', () => {
+    const sample = tone(330, 20000);
+    const result = detectSamplePitch(sample, { sampleRate: 44100, tune: true })!;
+
+    expect(result.tuned).toBe(true);
+    expect(sample.header.relativeNoteNumber).toBe(result.tuning.relativeNoteNumber);
+    expect(sample.header.fineTune).toBe(result.tuning.fineTune);
+    // On C-4 the 330 Hz tone must sound at 261.63 Hz
+    const played = (330 * samplePlaybackRate(sample.header, noteNameToValue('C-4'))) / 44100;
+    expect(Math.abs(1200 * Math.log2(played / 261.6256))).toBeLessThan(5);
+  });
+
+  it('should analyse the loop of a single-cycle waveform', () => {
+    // 32 frames per cycle at 8363 Hz is 261.3 Hz, just below C-4
+    const data = new Int8Array(64);
+    for (let i = 0; i < 32; i++) {
+      data[32 + i] = Math.round(100 * Math.sin((2 * Math.PI * i) / 32));
+    }
+    const sample = createSample({
+      data,
+      loopStart: 32,
+      loopLength: 32,
+      loopType: LoopType.Forward,
+    });
+    const result = detectSamplePitch(sample)!;
+
+    expect(result.frequency).toBeCloseTo(8363 / 32, 0);
+    expect(result).toMatchObject({ noteName: 'C-4' });
+    expect(result.confidence).toBeGreaterThan(0.99);
+  });
+
+  it('should not tune when the confidence is low', () => {
+    const sample = createSample({ data: new Int16Array(8000) });
+    let seed = 7;
+    for (let i = 0; i < sample.data.length; i++) {
+      seed = (seed * 16807) % 2147483647;
+      sample.data[i] = Math.round((seed / 2147483647 - 0.5) * 20000);
+    }
+    const result = detectSamplePitch(sample, { sampleRate: 44100, tune: true })!;
+
+    expect(result.confidence).toBeLessThan(0.8);
+    expect(result.tuned).toBe(false);
+    expect(sample.header).toMatchObject({ relativeNoteNumber: 0, fineTune: 0 });
+  });
+
+  it('should return null for silent or short samples', () => {
+    expect(detectSamplePitch(createSample({ data: new Int8Array(5000) }))).toBeNull();
+    // Too short to hold two cycles at the highest frequency searched
+    expect(detectSamplePitch(tone(220, 30), { sampleRate: 44100 })).toBeNull();
+    expect(() =>
+      detectSamplePitch(tone(220, 100), { minFrequency: 500, maxFrequency: 100 })
+    ).toThrow('Frequency range 500-100 Hz is invalid');
+  });
+});
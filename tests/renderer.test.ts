@@ -0,0 +1,273 @@
+import {
+  renderModule,
+  renderModuleToWav,
+  floatToInt16,
+  XMRenderer,
+  createModule,
+  createPattern,
+  createInstrument,
+  createSample,
+  addSampleToInstrument,
+  noteNameToValue,
+  EnvelopeFlags,
+  XMModule,
+  XMPatternNote,
+} from '../src';
+
+const SAMPLE_RATE = 44100;
+
+/** Frames per tick at the default BPM of 125 */
+const FRAMES_PER_TICK = (SAMPLE_RATE * 2.5) / 125;
+
+/**
+ * Build a one-channel module with a looped 32-frame sine sample
+ */
+function buildModule(rows: number = 16, loopType: number = 1): XMModule {
+  const module = createModule({ moduleName: 'Render', numberOfChannels: 1 });
+  module.patterns.push(createPattern(rows, 1));
+  module.header.numberOfPatterns = 1;
+
+  const instrument = createInstrument('Sine');
+  const data = new Int8Array(32);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.round(Math.sin((i / 32) * Math.PI * 2) * 127);
+  }
+  addSampleToInstrument(instrument, createSample({ data, loopStart: 0, loopLength: 32, loopType }));
+  module.instruments.push(instrument);
+  module.header.numberOfInstruments = 1;
+  return module;
+}
+
+const setCell = (module: XMModule, row: number, cell: Partial<XMPatternNote>) => {
+  Object.assign(module.patterns[0].data[row][0], cell);
+};
+
+/**
+ * Estimate the fundamental frequency of the left channel from rising zero crossings
+ */
+function measureFrequency(data: Float32Array, startFrame: number, frames: number): number {
+  let crossings = 0;
+  let first = -1;
+  let last = -1;
+  for (let i = startFrame + 1; i < startFrame + frames; i++) {
+    if (data[(i - 1) * 2] < 0 && data[i * 2] >= 0) {
+      if (first < 0) first = i;
+      last = i;
+      crossings++;
+    }
+  }
+  return ((crossings - 1) * SAMPLE_RATE) / (last - first);
+}
+
+/**
+ * Peak absolute level of the left channel over a frame range
+ */
+function peak(data: Float32Array, startFrame: number, endFrame: number): number {
+  let max = 0;
+  for (let i = startFrame; i < endFrame; i++) {
+    max = Math.max(max, Math.abs(data[i * 2]));
+  }
+  return max;
+}
+
+describe('renderModule', () => {
+  it('should render the song once and stop', () => {
+    const module = buildModule(16);
+    const result = renderModule(module);
+    expect(result.sampleRate).toBe(SAMPLE_RATE);
+    expect(result.frames).toBe(16 * 6 * FRAMES_PER_TICK);
+    expect(result.data.length).toBe(result.frames * 2);
+  });
+
+  it('should render silence for an empty pattern', () => {
+    const result = renderModule(buildModule(4));
+    expect(peak(result.data, 0, result.frames)).toBe(0);
+  });
+
+  it('should play C-4 at 8363 Hz with the linear frequency table', () => {
+    const module = buildModule(16);
+    setCell(module, 0, { note: noteNameToValue('C-4'), instrument: 1 });
+    const result = renderModule(module);
+    expect(measureFrequency(result.data, 0, 20000)).toBeCloseTo(8363 / 32, 0);
+  });
+
+  it('should play an octave higher with relativeNoteNumber 12', () => {
+    const module = buildModule(16);
+    module.instruments[0].samples[0].header.relativeNoteNumber = 12;
+    setCell(module, 0, { note: noteNameToValue('C-4'), instrument: 1 });
+    const result = renderModule(module);
+    expect(measureFrequency(result.data, 0, 20000)).toBeCloseTo((8363 * 2) / 32, 0);
+  });
+
+  it('should play the same pitch with the Amiga frequency table', () => {
+    const module = buildModule(16);
+    module.header.flags = 0;
+    setCell(module, 0, { note: noteNameToValue('A-4'), instrument: 1 });
+    const result = renderModule(module);
+    const expected = (8363 * Math.pow(2, 9 / 12)) / 32;
+    expect(measureFrequency(result.data, 0, 20000)).toBeCloseTo(expected, 0);
+  });
+
+  it('should be deterministic', () => {
+    const module = buildModule(16);
+    setCell(module, 0, { note: 49, instrument: 1, effectType: 0x4, effectParam: 0x48 });
+    const first = renderModule(module).data;
+    const second = renderModule(module).data;
+    expect(Buffer.compare(Buffer.from(first.buffer), Buffer.from(second.buffer))).toBe(0);
+  });
+
+  it('should apply the volume column and Cxx', () => {
+    const module = buildModule(8);
+    setCell(module, 0, { note: 49, instrument: 1, volume: 32 });
+    setCell(module, 4, { effectType: 0xc, effectParam: 0 });
+    const result = renderModule(module, { gain: 1 });
+    const rowFrames = 6 * FRAMES_PER_TICK;
+    const level = peak(result.data, 0, rowFrames);
+    // Volume 32 of 64 at centre panning
+    expect(level).toBeCloseTo(0.5 * Math.SQRT1_2, 1);
+    expect(peak(result.data, 4 * rowFrames, 8 * rowFrames)).toBe(0);
+  });
+
+  it('should cut the note on key off without a volume envelope', () => {
+    const module = buildModule(8);
+    setCell(module, 0, { note: 49, instrument: 1 });
+    setCell(module, 2, { note: 97 });
+    const result = renderModule(module);
+    const rowFrames = 6 * FRAMES_PER_TICK;
+    expect(peak(result.data, 0, 2 * rowFrames)).toBeGreaterThan(0.1);
+    expect(peak(result.data, 2 * rowFrames, 8 * rowFrames)).toBe(0);
+  });
+
+  it('should follow the volume envelope', () => {
+    const module = buildModule(8);
+    const ext = module.instruments[0].extendedHeader!;
+    ext.volumeEnvelope.points = [
+      { x: 0, y: 64 },
+      { x: 6, y: 16 },
+    ];
+    ext.volumeEnvelope.numberOfPoints = 2;
+    ext.volumeEnvelope.type = EnvelopeFlags.On;
+    setCell(module, 0, { note: 49, instrument: 1 });
+    const result = renderModule(module);
+    const rowFrames = 6 * FRAMES_PER_TICK;
+    const start = peak(result.data, 0, FRAMES_PER_TICK);
+    const held = peak(result.data, 2 * rowFrames, 3 * rowFrames);
+    expect(held).toBeCloseTo(start / 4, 2);
+  });
+
+  it('should stop the song when a position jump loops back', () => {
+    const module = buildModule(8);
+    setCell(module, 3, { effectType: 0xb, effectParam: 0 });
+    expect(renderModule(module).frames).toBe(4 * 6 * FRAMES_PER_TICK);
+  });
+
+  it('should repeat rows with a pattern loop', () => {
+    const module = buildModule(8);
+    setCell(module, 0, { effectType: 0xe, effectParam: 0x60 });
+    setCell(module, 1, { effectType: 0xe, effectParam: 0x62 });
+    // Rows 0-1 are played three times in total
+    expect(renderModule(module).frames).toBe((8 + 4) * 6 * FRAMES_PER_TICK);
+  });
+
+  it('should change speed and BPM with Fxx', () => {
+    const module = buildModule(4);
+    setCell(module, 0, { effectType: 0xf, effectParam: 3 });
+    setCell(module, 2, { effectType: 0xf, effectParam: 250 });
+    const expected = 2 * 3 * FRAMES_PER_TICK + 2 * 3 * (FRAMES_PER_TICK / 2);
+    expect(renderModule(module).frames).toBe(expected);
+  });
+
+  it('should delay rows with EEx', () => {
+    const module = buildModule(4);
+    setCell(module, 1, { effectType: 0xe, effectParam: 0xe2 });
+    expect(renderModule(module).frames).toBe(6 * 6 * FRAMES_PER_TICK);
+  });
+
+  it('should delay notes with EDx', () => {
+    const module = buildModule(4);
+    setCell(module, 0, { note: 49, instrument: 1, effectType: 0xe, effectParam: 0xd3 });
+    const result = renderModule(module);
+    expect(peak(result.data, 0, 3 * FRAMES_PER_TICK)).toBe(0);
+    expect(peak(result.data, 3 * FRAMES_PER_TICK, 6 * FRAMES_PER_TICK)).toBeGreaterThan(0.1);
+  });
+
+  it('should slide the pitch with portamento', () => {
+    const module = buildModule(16);
+    setCell(module, 0, { note: 49, instrument: 1 });
+    for (let row = 1; row < 16; row++) {
+      setCell(module, row, { effectType: 0x1, effectParam: 0x10 });
+    }
+    const result = renderModule(module);
+    const early = measureFrequency(result.data, 0, 5000);
+    const late = measureFrequency(result.data, result.frames - 5000, 5000);
+    expect(late).toBeGreaterThan(early * 1.5);
+  });
+
+  it('should play ping-pong loops without running off the sample', () => {
+    const module = buildModule(16, 2);
+    setCell(module, 0, { note: 85, instrument: 1 });
+    const result = renderModule(module);
+    expect(peak(result.data, result.frames - 1000, result.frames)).toBeGreaterThan(0.1);
+    expect(result.data.every((value) => Number.isFinite(value))).toBe(true);
+  });
+
+  it('should support every interpolation mode', () => {
+    const module = buildModule(4);
+    setCell(module, 0, { note: 30, instrument: 1 });
+    const none = renderModule(module, { interpolation: 'none' }).data;
+    const linear = renderModule(module, { interpolation: 'linear' }).data;
+    const cubic = renderModule(module, { interpolation: 'cubic' }).data;
+    expect(none).not.toEqual(linear);
+    expect(linear).not.toEqual(cubic);
+    expect(peak(cubic, 0, 1000)).toBeGreaterThan(0.1);
+  });
+
+  it('should honour maxDuration', () => {
+    const module = buildModule(64);
+    expect(renderModule(module, { maxDuration: 0.5 }).frames).toBe(SAMPLE_RATE / 2);
+  });
+});
+
+describe('XMRenderer', () => {
+  it('should render in chunks and report its position', () => {
+    const module = buildModule(4);
+    const renderer = new XMRenderer(module);
+    const chunk = new Float32Array(2 * 1000);
+    expect(renderer.render(chunk)).toBe(1000);
+    expect(renderer.getPosition()).toEqual({ order: 0, row: 0, tick: 2 });
+
+    let total = 1000;
+    let written: number;
+    while ((written = renderer.render(chunk)) > 0) {
+      total += written;
+    }
+    expect(renderer.isFinished()).toBe(true);
+    expect(total).toBe(4 * 6 * FRAMES_PER_TICK);
+  });
+});
+
+describe('WAV output', () => {
+  it('should convert float samples to clipped 16-bit', () => {
+    expect([...floatToInt16(new Float32Array([0, 0.5, -1, 2]))]).toEqual([0, 16384, -32767, 32767]);
+  });
+
+  it('should wrap the rendered audio as a stereo WAV file', () => {
+    const module = buildModule(4);
+    const wav = renderModuleToWav(module);
+    const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+    const frames = 4 * 6 * FRAMES_PER_TICK;
+
+    expect(String.fromCharCode(...wav.slice(0, 4))).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(wav.length - 8);
+    expect(String.fromCharCode(...wav.slice(8, 12))).toBe('WAVE');
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(2); // Stereo
+    expect(view.getUint32(24, true)).toBe(SAMPLE_RATE);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(frames * 4);
+
+    const float = renderModuleToWav(module, { format: 'float32' });
+    expect(new DataView(float.buffer).getUint16(20, true)).toBe(3); // IEEE float
+    expect(new DataView(float.buffer).getUint32(40, true)).toBe(frames * 8);
+  });
+});
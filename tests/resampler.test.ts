@@ -0,0 +1,98 @@
+import { resampleSample, createSample, LoopType, XMSample } from '../src';
+import { tuningToSampleRate, semitonesToTuning, sampleRateToSemitones } from '../src/tuning';
+
+/**
+ * A 16-bit sine recorded at a sample rate, tuned to play at that rate on C-4
+ */
+function sine(frequency: number, sampleRate: number, frames: number): XMSample {
+  const data = new Int16Array(frames);
+  for (let i = 0; i < frames; i++) {
+    data[i] = Math.round(16000 * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+  }
+  const tuning = semitonesToTuning(sampleRateToSemitones(sampleRate));
+  return createSample({
+    data,
+    loopStart: 1000,
+    loopLength: 2000,
+    loopType: LoopType.Forward,
+    ...tuning,
+  });
+}
+
+/**
+ * Distance in cents between two rates
+ */
+const cents = (a: number, b: number) => 1200 * Math.log2(a / b);
+
+describe('resampleSample', () => {
+  it('should change the rate, rescale loops and keep the pitch', () => {
+    const source = sine(441, 44100, 4410);
+    const result = resampleSample(source, { sampleRate: 11025 });
+
+    expect(result.data).toBeInstanceOf(Int16Array);
+    expect(result.header).toMatchObject({
+      length: 2206,
+      loopStart: 250,
+      loopLength: 500,
+      type: LoopType.Forward | 0x10,
+    });
+    expect(Math.abs(cents(tuningToSampleRate(result.header), 11025))).toBeLessThan(1);
+    // Each new frame matches the sine at the source position it was taken from
+    const ratio = 1103 / 4410;
+    for (const i of [100, 537, 812]) {
+      const expected = 16000 * Math.sin((2 * Math.PI * 441 * (i / ratio)) / 44100);
+      expect(Math.abs(result.data[i] - expected)).toBeLessThan(50);
+    }
+  });
+
+  it('should filter out frequencies above the new Nyquist rate with sinc', () => {
+    // 8 kHz does not fit in an 11025 Hz sample and must not alias down to 3 kHz
+    const source = sine(8000, 44100, 4410);
+    const peak = (sample: XMSample) => Math.max(...[...sample.data.slice(100, -100)].map(Math.abs));
+
+    expect(peak(resampleSample(source, { sampleRate: 11025 }))).toBeLessThan(300);
+    expect(peak(resampleSample(source, { sampleRate: 11025, quality: 'linear' }))).toBeGreaterThan(
+      8000
+    );
+  });
+
+  it('should upsample 8-bit samples', () => {
+    const source = createSample({
+      data: Int8Array.from([0, 100, 0, -100]),
+      relativeNoteNumber: 0,
+    });
+    const result = resampleSample(source, { sampleRate: 8363 * 2, quality: 'linear' });
+
+    expect([...result.data]).toEqual([0, 50, 100, 50, 0, -50, -100, -100]);
+    expect(result.header).toMatchObject({ length: 8, relativeNoteNumber: 12, fineTune: 0 });
+  });
+
+  it('should fit a byte budget', () => {
+    const source = sine(441, 44100, 4410);
+
+    const fitted = resampleSample(source, { maxBytes: 1000 });
+    expect(fitted.header.length).toBe(1000);
+    expect(fitted.data).toHaveLength(500);
+    expect(Math.abs(cents(tuningToSampleRate(fitted.header), (44100 * 500) / 4410))).toBeLessThan(
+      1
+    );
+
+    const unchanged = resampleSample(source, { maxBytes: 10000 });
+    expect(unchanged.header).toEqual(source.header);
+    expect(unchanged.data).not.toBe(source.data);
+  });
+
+  it('should reject missing or invalid targets', () => {
+    const source = sine(441, 44100, 100);
+    expect(() => resampleSample(source, {})).toThrow('Give either sampleRate or maxBytes');
+    expect(() => resampleSample(source, { sampleRate: 8000, maxBytes: 10 })).toThrow(
+      'Give either sampleRate or maxBytes'
+    );
+    expect(() => resampleSample(source, { sampleRate: -1 })).toThrow(
+      'sampleRate must be a positive number'
+    );
+    expect(() => resampleSample(source, { maxBytes: 1 })).toThrow(
+      'maxBytes must be an integer of at least 2 (got 1)'
+    );
+  });
+});
@@ -0,0 +1,464 @@
+import { S3MReader, XMWriter, XMReader, LoopType } from '../src';
+import { BinaryWriter } from '../src/binaryWriter';
+
+interface S3MInstrumentSpec {
+  type?: number;
+  name?: string;
+  /** Sample data exactly as stored in the file */
+  data?: Uint8Array;
+  frames?: number;
+  flags?: number;
+  c2spd?: number;
+  volume?: number;
+  loopBegin?: number;
+  loopEnd?: number;
+}
+
+interface S3MCellSpec {
+  row: number;
+  channel: number;
+  note?: number;
+  instrument?: number;
+  volume?: number;
+  command?: string;
+  info?: number;
+}
+
+/**
+ * Round a file offset up to the next paragraph
+ */
+function paragraph(offset: number): number {
+  return Math.ceil(offset / 16) * 16;
+}
+
+/**
+ * Build an S3M file
+ */
+function buildS3M(options: {
+  orders?: number[];
+  channels?: number[];
+  instruments?: S3MInstrumentSpec[];
+  patterns?: S3MCellSpec[][];
+  unsignedSamples?: boolean;
+  globalVolume?: number;
+  speed?: number;
+  tempo?: number;
+  stereo?: boolean;
+  panningTable?: number[];
+}): Uint8Array {
+  const orders = options.orders ?? [0, 0xff];
+  const instruments = options.instruments ?? [];
+  const patterns = options.patterns ?? [[]];
+  const channels = options.channels ?? [0, 8, 1, 9];
+
+  // Pack the patterns
+  const packed = patterns.map((cells) => {
+    const writer = new BinaryWriter();
+    for (let row = 0; row < 64; row++) {
+      for (const cell of cells.filter((c) => c.row === row)) {
+        const hasNote = cell.note !== undefined || cell.instrument !== undefined;
+        const hasVolume = cell.volume !== undefined;
+        const hasCommand = cell.command !== undefined;
+        writer.writeUint8(
+          cell.channel | (hasNote ? 0x20 : 0) | (hasVolume ? 0x40 : 0) | (hasCommand ? 0x80 : 0)
+        );
+        if (hasNote) {
+          writer.writeUint8(cell.note ?? 0xff);
+          writer.writeUint8(cell.instrument ?? 0);
+        }
+        if (hasVolume) {
+          writer.writeUint8(cell.volume!);
+        }
+        if (hasCommand) {
+          writer.writeUint8(cell.command!.charCodeAt(0) - 64);
+          writer.writeUint8(cell.info ?? 0);
+        }
+      }
+      writer.writeUint8(0);
+    }
+    const rows = new Uint8Array(writer.getBuffer());
+    const data = new Uint8Array(rows.length + 2);
+    data.set([(rows.length + 2) & 0xff, (rows.length + 2) >> 8]);
+    data.set(rows, 2);
+    return data;
+  });
+
+  // Lay out the file
+  const headerLength =
+    0x60 +
+    orders.length +
+    instruments.length * 2 +
+    patterns.length * 2 +
+    (options.panningTable ? 32 : 0);
+  let offset = paragraph(headerLength);
+  const instrumentOffsets = instruments.map(() => {
+    const current = offset;
+    offset += 0x50;
+    return current;
+  });
+  const patternOffsets = packed.map((data) => {
+    const current = offset;
+    offset = paragraph(offset + data.length);
+    return current;
+  });
+  const sampleOffsets = instruments.map((instrument) => {
+    const current = offset;
+    offset = paragraph(offset + (instrument.data?.length ?? 0));
+    return current;
+  });
+
+  const writer = new BinaryWriter(offset);
+  writer.writeString('Scream Song', 28);
+  writer.writeUint8(0x1a);
+  writer.writeUint8(16);
+  writer.writeZeros(2);
+  writer.writeUint16(orders.length);
+  writer.writeUint16(instruments.length);
+  writer.writeUint16(patterns.length);
+  writer.writeUint16(0);
+  writer.writeUint16(0x1320);
+  writer.writeUint16(options.unsignedSamples === false ? 1 : 2);
+  writer.writeString('SCRM', 4);
+  writer.writeUint8(options.globalVolume ?? 64);
+  writer.writeUint8(options.speed ?? 6);
+  writer.writeUint8(options.tempo ?? 125);
+  writer.writeUint8(options.stereo === false ? 0x30 : 0xb0);
+  writer.writeUint8(0);
+  writer.writeUint8(options.panningTable ? 0xfc : 0);
+  writer.writeZeros(10);
+  for (let i = 0; i < 32; i++) {
+    writer.writeUint8(channels[i] ?? 0xff);
+  }
+  writer.writeBytes(new Uint8Array(orders));
+  instrumentOffsets.forEach((value) => writer.writeUint16(value / 16));
+  patternOffsets.forEach((value) => writer.writeUint16(value / 16));
+  if (options.panningTable) {
+    for (let i = 0; i < 32; i++) {
+      writer.writeUint8(options.panningTable[i] ?? 0);
+    }
+  }
+
+  instruments.forEach((instrument, i) => {
+    writer.setPosition(instrumentOffsets[i]);
+    writer.writeUint8(instrument.type ?? 1);
+    writer.writeString('SAMPLE.SMP', 12);
+    const memseg = sampleOffsets[i] / 16;
+    writer.writeUint8(memseg >> 16);
+    writer.writeUint16(memseg & 0xffff);
+    writer.writeUint32(instrument.frames ?? instrument.data?.length ?? 0);
+    writer.writeUint32(instrument.loopBegin ?? 0);
+    writer.writeUint32(instrument.loopEnd ?? 0);
+    writer.writeUint8(instrument.volume ?? 64);
+    writer.writeZeros(2);
+    writer.writeUint8(instrument.flags ?? 0);
+    writer.writeUint32(instrument.c2spd ?? 8363);
+    writer.writeZeros(12);
+    writer.writeString(instrument.name ?? '', 28);
+    writer.writeString(instrument.type && instrument.type >= 2 ? 'SCRI' : 'SCRS', 4);
+  });
+  packed.forEach((data, i) => {
+    writer.setPosition(patternOffsets[i]);
+    writer.writeBytes(data);
+  });
+  instruments.forEach((instrument, i) => {
+    writer.setPosition(sampleOffsets[i]);
+    writer.writeBytes(instrument.data ?? new Uint8Array(0));
+  });
+  writer.setPosition(offset);
+
+  return new Uint8Array(writer.getBuffer());
+}
+
+describe('S3MReader', () => {
+  it('should convert the header, channels and order list', () => {
+    const { module, issues } = new S3MReader().read(
+      buildS3M({
+        orders: [1, 0xfe, 0, 1, 0xff, 0],
+        patterns: [[], []],
+        speed: 4,
+        tempo: 140,
+      })
+    );
+
+    expect(issues).toEqual([]);
+    expect(module.header.moduleName).toBe('Scream Song');
+    expect(module.header.numberOfChannels).toBe(4);
+    expect(module.header.flags).toBe(0);
+    expect(module.header.defaultTempo).toBe(4);
+    expect(module.header.defaultBPM).toBe(140);
+    expect(module.header.songLength).toBe(3);
+    expect(module.header.patternOrderTable.slice(0, 4)).toEqual([1, 0, 1, 0]);
+    expect(module.header.numberOfPatterns).toBe(2);
+    expect(module.patterns[0].data).toHaveLength(64);
+  });
+
+  it('should point position jumps at the converted order positions', () => {
+    const { module } = new S3MReader().read(
+      buildS3M({
+        orders: [0, 0xfe, 5, 1, 0xfe, 2, 0xff],
+        patterns: [
+          [
+            { row: 0, channel: 0, command: 'B', info: 3 },
+            { row: 1, channel: 0, command: 'B', info: 4 },
+            { row: 2, channel: 0, command: 'B', info: 9 },
+          ],
+          [],
+          [],
+        ],
+      })
+    );
+
+    expect(module.header.patternOrderTable.slice(0, 3)).toEqual([0, 1, 2]);
+    // S3M order 3 is XM position 1; the marker at order 4 falls through to order 5
+    expect(module.patterns[0].data.slice(0, 3).map((row) => row[0].effectParam)).toEqual([1, 2, 0]);
+  });
+
+  it('should reject files without the SCRM signature', () => {
+    const data = buildS3M({});
+    data[0x2c] = 0;
+    expect(() => new S3MReader().read(data)).toThrow('Not an S3M file');
+  });
+
+  it('should keep only enabled PCM channels and report AdLib and muted ones', () => {
+    const { module, issues } = new S3MReader().read(
+      buildS3M({
+        channels: [0, 0xff, 16, 0x88],
+        patterns: [
+          [
+            { row: 0, channel: 0, note: 0x40, instrument: 1 },
+            { row: 0, channel: 3, note: 0x42, instrument: 1 },
+          ],
+        ],
+      }),
+      { panning: 'none' }
+    );
+
+    expect(module.header.numberOfChannels).toBe(2);
+    expect(module.patterns[0].data[0][0].note).toBe(49);
+    expect(module.patterns[0].data[0][1].note).toBe(51);
+    expect(issues).toEqual([
+      {
+        type: 'unsupported',
+        path: 'channelSettings[2]',
+        message: 'AdLib channels are not supported',
+      },
+      {
+        type: 'approximated',
+        path: 'channelSettings[3]',
+        message: 'Channel is muted in the S3M file but plays in XM',
+      },
+    ]);
+  });
+
+  it('should carry over channel panning', () => {
+    const cells = [0, 1, 2, 3].map((channel) => ({ row: 0, channel, note: 0x40, instrument: 1 }));
+    const reader = new S3MReader();
+
+    const leftRight = reader.read(buildS3M({ patterns: [cells] })).module.patterns[0].data[0];
+    expect(leftRight.map((cell) => cell.effectParam)).toEqual([0x33, 0xcc, 0x33, 0xcc]);
+    expect(leftRight.every((cell) => cell.effectType === 0x08)).toBe(true);
+
+    const table = reader.read(
+      buildS3M({ patterns: [cells], panningTable: [0x20, 0x2f, 0x07, 0x28] })
+    ).module.patterns[0].data[0];
+    expect(table.map((cell) => cell.effectParam)).toEqual([0x00, 0xff, 0x33, 0x88]);
+
+    const mono = reader.read(buildS3M({ patterns: [cells], stereo: false })).module.patterns[0]
+      .data[0];
+    expect(mono.map((cell) => cell.effectParam)).toEqual([0x80, 0x80, 0x80, 0x80]);
+  });
+
+  it('should convert notes, volumes and note cuts', () => {
+    const { module } = new S3MReader().read(
+      buildS3M({
+        patterns: [
+          [
+            { row: 0, channel: 0, note: 0x40, instrument: 2, volume: 48 },
+            { row: 1, channel: 0, note: 0x2b },
+            { row: 2, channel: 0, note: 0xfe },
+            { row: 3, channel: 0, volume: 0 },
+          ],
+        ],
+      }),
+      { panning: 'none' }
+    );
+    const data = module.patterns[0].data;
+
+    expect(data[0][0]).toEqual({
+      note: 49,
+      instrument: 2,
+      volume: 48,
+      effectType: 0,
+      effectParam: 0,
+    });
+    expect(data[1][0].note).toBe(36);
+    expect(data[2][0].note).toBe(97);
+    expect(data[3][0]).toMatchObject({ note: 0, volume: 0 });
+  });
+
+  it('should convert unsigned 8-bit and 16-bit samples with C2Spd tuning', () => {
+    const { module, issues } = new S3MReader().read(
+      buildS3M({
+        instruments: [
+          {
+            name: 'Lead',
+            data: new Uint8Array([128, 255, 0, 192]),
+            c2spd: 16726,
+            volume: 40,
+            flags: 0x01,
+            loopBegin: 1,
+            loopEnd: 3,
+          },
+          {
+            name: 'Pad',
+            data: new Uint8Array([0x00, 0x80, 0xff, 0xff, 0x00, 0x00]),
+            frames: 3,
+            flags: 0x04,
+            c2spd: 44100,
+          },
+        ],
+      })
+    );
+
+    expect(issues).toEqual([]);
+    const lead = module.instruments[0].samples[0];
+    expect(module.instruments[0].header.name).toBe('Lead');
+    expect([...lead.data]).toEqual([0, 127, -128, 64]);
+    expect(lead.header).toMatchObject({
+      volume: 40,
+      relativeNoteNumber: 12,
+      fineTune: 0,
+      loopStart: 1,
+      loopLength: 2,
+      type: LoopType.Forward,
+    });
+
+    const pad = module.instruments[1].samples[0];
+    expect(pad.data).toBeInstanceOf(Int16Array);
+    expect([...pad.data]).toEqual([0, 32767, -32768]);
+    expect(pad.header.relativeNoteNumber).toBe(29);
+    expect(pad.header.fineTune).toBe(-28);
+  });
+
+  it('should keep signed sample data and mix stereo samples', () => {
+    const { module, issues } = new S3MReader().read(
+      buildS3M({
+        unsignedSamples: false,
+        instruments: [{ data: new Uint8Array([10, 246, 30, 20]), frames: 2, flags: 0x02 }],
+      })
+    );
+
+    expect([...module.instruments[0].samples[0].data]).toEqual([20, 5]);
+    expect(issues).toEqual([
+      {
+        type: 'approximated',
+        path: 'instruments[0].flags',
+        message: 'Stereo sample mixed down to mono',
+      },
+    ]);
+  });
+
+  it('should report AdLib instruments as unsupported', () => {
+    const { module, issues } = new S3MReader().read(
+      buildS3M({ instruments: [{ type: 2, name: 'FM Bass' }] })
+    );
+
+    expect(module.instruments[0].header.name).toBe('FM Bass');
+    expect(module.instruments[0].header.numberOfSamples).toBe(0);
+    expect(issues).toEqual([
+      {
+        type: 'unsupported',
+        path: 'instruments[0]',
+        message: 'AdLib instrument "FM Bass" is not supported',
+      },
+    ]);
+  });
+
+  it('should map S3M effects to XM effects', () => {
+    const effects: [string, number, number, number][] = [
+      ['A', 0x03, 0x0f, 0x03],
+      ['B', 0x02, 0x0b, 0x02],
+      ['C', 0x10, 0x0d, 0x10],
+      ['D', 0x40, 0x0a, 0x40],
+      ['D', 0x3f, 0x0e, 0xa3],
+      ['D', 0xf2, 0x0e, 0xb2],
+      ['E', 0x08, 0x02, 0x08],
+      ['E', 0xf3, 0x0e, 0x23],
+      ['F', 0xe3, 0x21, 0x13],
+      ['G', 0x20, 0x03, 0x20],
+      ['H', 0x44, 0x04, 0x44],
+      ['I', 0x23, 0x1d, 0x23],
+      ['J', 0x37, 0x00, 0x37],
+      ['K', 0x02, 0x06, 0x02],
+      ['L', 0x20, 0x05, 0x20],
+      ['O', 0x10, 0x09, 0x10],
+      ['Q', 0x83, 0x1b, 0x83],
+      ['R', 0x48, 0x07, 0x48],
+      ['S', 0x84, 0x08, 0x44],
+      ['S', 0xb2, 0x0e, 0x62],
+      ['S', 0xd3, 0x0e, 0xd3],
+      ['T', 0x96, 0x0f, 0x96],
+      ['V', 0x20, 0x10, 0x20],
+      ['X', 0x40, 0x08, 0x80],
+    ];
+    const cells = effects.map(([command, info], row) => ({ row, channel: 0, command, info }));
+    const { module, issues } = new S3MReader().read(
+      buildS3M({ orders: [0, 0, 0, 0xff], patterns: [cells] })
+    );
+
+    expect(issues).toEqual([]);
+    effects.forEach(([command, info, effectType, effectParam], row) => {
+      expect([command, info, module.patterns[0].data[row][0]]).toEqual([
+        command,
+        info,
+        expect.objectContaining({ effectType, effectParam }),
+      ]);
+    });
+  });
+
+  it('should report effects without an XM equivalent', () => {
+    const { module, issues } = new S3MReader().read(
+      buildS3M({
+        patterns: [
+          [
+            { row: 0, channel: 0, command: 'Y', info: 0x44 },
+            { row: 1, channel: 0, command: 'U', info: 0x48 },
+          ],
+        ],
+      })
+    );
+
+    expect(module.patterns[0].data[0][0]).toMatchObject({ effectType: 0, effectParam: 0 });
+    expect(module.patterns[0].data[1][0]).toMatchObject({ effectType: 0x04, effectParam: 0x42 });
+    expect(issues).toEqual([
+      {
+        type: 'unsupported',
+        path: 'patterns[0].data[0][0].effect',
+        message: 'Effect Y44 has no XM equivalent',
+      },
+      {
+        type: 'approximated',
+        path: 'patterns[0].data[1][0].effect',
+        message: 'Fine vibrato converted to vibrato',
+      },
+    ]);
+  });
+
+  it('should set the global volume on the first row', () => {
+    const { module } = new S3MReader().read(buildS3M({ globalVolume: 32 }));
+    expect(module.patterns[0].data[0][0]).toMatchObject({ effectType: 0x10, effectParam: 32 });
+  });
+
+  it('should produce a module that survives an XM round trip', () => {
+    const { module } = new S3MReader().read(
+      buildS3M({
+        instruments: [{ name: 'Square', data: new Uint8Array([192, 192, 64, 64]) }],
+        patterns: [[{ row: 0, channel: 0, note: 0x40, instrument: 1, volume: 32 }]],
+      })
+    );
+    const reloaded = new XMReader().read(new XMWriter().write(module));
+
+    expect(reloaded.patterns[0].data[0][0]).toMatchObject({ note: 49, instrument: 1, volume: 32 });
+    expect([...reloaded.instruments[0].samples[0].data]).toEqual([64, 64, -64, -64]);
+  });
+});
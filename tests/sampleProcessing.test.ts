@@ -0,0 +1,145 @@
+import {
+  normalizeSample,
+  applySampleGain,
+  convertSampleTo16Bit,
+  convertSampleTo8Bit,
+  reverseSample,
+  fadeSampleIn,
+  fadeSampleOut,
+  removeSampleDCOffset,
+  trimSampleSilence,
+  crossfadeSampleLoop,
+  createSample,
+  createModule,
+  createPattern,
+  createInstrument,
+  addSampleToInstrument,
+  LoopType,
+  XMSample,
+  XMReader,
+  XMWriter,
+} from '../src';
+
+const sample8 = (
+  values: number[],
+  loop: { loopStart?: number; loopLength?: number; loopType?: LoopType } = {}
+): XMSample => createSample({ data: Int8Array.from(values), ...loop });
+
+describe('sample processing', () => {
+  it('should leave the input untouched', () => {
+    const input = sample8([10, -20, 30]);
+    normalizeSample(input);
+    reverseSample(input);
+    expect([...input.data]).toEqual([10, -20, 30]);
+  });
+
+  it('should normalize and apply gain with clipping', () => {
+    expect([...normalizeSample(sample8([0, 32, -64])).data]).toEqual([0, 64, -127]);
+    expect([...normalizeSample(sample8([0, 32, -64]), 0.5).data]).toEqual([0, 32, -63]);
+    expect([...normalizeSample(sample8([0, 0])).data]).toEqual([0, 0]);
+    expect([...applySampleGain(sample8([10, 100, -100]), 2).data]).toEqual([20, 127, -128]);
+    expect(() => applySampleGain(sample8([1]), -1)).toThrow('gain must be a non-negative number');
+  });
+
+  it('should convert between 8-bit and 16-bit and update the header', () => {
+    const wide = convertSampleTo16Bit(
+      sample8([1, -1, 127, -128], { loopStart: 1, loopLength: 2, loopType: LoopType.Forward })
+    );
+    expect(wide.data).toBeInstanceOf(Int16Array);
+    expect([...wide.data]).toEqual([256, -256, 32512, -32768]);
+    expect(wide.header).toMatchObject({ length: 8, loopStart: 1, loopLength: 2, type: 0x11 });
+
+    const narrow = convertSampleTo8Bit(wide, { dither: false });
+    expect(narrow.data).toBeInstanceOf(Int8Array);
+    expect([...narrow.data]).toEqual([1, -1, 127, -128]);
+    expect(narrow.header).toMatchObject({ length: 4, loopStart: 1, loopLength: 2, type: 0x01 });
+  });
+
+  it('should dither when reducing to 8-bit', () => {
+    // 64/256 = 0.25 rounds to 0 without dither; dither spreads it so the average is kept
+    const quiet = createSample({ data: new Int16Array(4000).fill(64) });
+    const dithered = convertSampleTo8Bit(quiet);
+    const average =
+      [...dithered.data].reduce((sum, value) => sum + value, 0) / dithered.data.length;
+    expect([...convertSampleTo8Bit(quiet, { dither: false }).data].every((v) => v === 0)).toBe(
+      true
+    );
+    expect(average).toBeGreaterThan(0.2);
+    expect(average).toBeLessThan(0.3);
+    expect([...convertSampleTo8Bit(quiet).data]).toEqual([...dithered.data]);
+  });
+
+  it('should reverse data and mirror the loop', () => {
+    const reversed = reverseSample(
+      sample8([1, 2, 3, 4, 5, 6], { loopStart: 1, loopLength: 2, loopType: LoopType.PingPong })
+    );
+    expect([...reversed.data]).toEqual([6, 5, 4, 3, 2, 1]);
+    expect(reversed.header).toMatchObject({ loopStart: 3, loopLength: 2, type: LoopType.PingPong });
+  });
+
+  it('should fade in and out linearly', () => {
+    const flat = sample8(new Array(8).fill(100));
+    expect([...fadeSampleIn(flat, 4).data]).toEqual([0, 25, 50, 75, 100, 100, 100, 100]);
+    expect([...fadeSampleOut(flat, 4).data]).toEqual([100, 100, 100, 100, 75, 50, 25, 0]);
+    expect(() => fadeSampleIn(flat, -1)).toThrow('frames must be a non-negative integer');
+  });
+
+  it('should remove a DC offset', () => {
+    expect([...removeSampleDCOffset(sample8([20, 0, 20, 0])).data]).toEqual([10, -10, 10, -10]);
+  });
+
+  it('should trim silence without cutting into the loop', () => {
+    const trimmed = trimSampleSilence(
+      sample8([0, 1, 0, 50, -50, 0, 0, 0, 2, 0], {
+        loopStart: 3,
+        loopLength: 4,
+        loopType: LoopType.Forward,
+      }),
+      { threshold: 2 }
+    );
+    expect([...trimmed.data]).toEqual([50, -50, 0, 0]);
+    expect(trimmed.header).toMatchObject({ length: 4, loopStart: 0, loopLength: 4 });
+
+    const unlooped = trimSampleSilence(sample8([0, 0, 5, 0]));
+    expect([...unlooped.data]).toEqual([5]);
+    expect(unlooped.header).toMatchObject({ length: 1, loopStart: 0, loopLength: 0, type: 0 });
+  });
+
+  it('should crossfade the end of a forward loop with the audio before it', () => {
+    const looped = sample8([40, 40, 40, 0, 0, 0, 0, 0], {
+      loopStart: 3,
+      loopLength: 5,
+      loopType: LoopType.Forward,
+    });
+    expect([...crossfadeSampleLoop(looped, 3).data]).toEqual([40, 40, 40, 0, 0, 10, 20, 30]);
+    expect(() => crossfadeSampleLoop(looped, 4)).toThrow('Crossfade of 4 frames does not fit');
+    expect(() => crossfadeSampleLoop(sample8([1, 2]), 1)).toThrow(
+      'Loop crossfade needs a sample with a forward loop'
+    );
+  });
+
+  it('should produce samples that write and read back unchanged', () => {
+    const processed = trimSampleSilence(
+      convertSampleTo16Bit(
+        reverseSample(
+          sample8([0, 0, 10, 20, 30, 0], {
+            loopStart: 2,
+            loopLength: 2,
+            loopType: LoopType.Forward,
+          })
+        )
+      )
+    );
+    const module = createModule({});
+    module.patterns.push(createPattern());
+    const instrument = createInstrument();
+    addSampleToInstrument(instrument, processed);
+    module.instruments.push(instrument);
+    module.header.numberOfInstruments = 1;
+
+    const reloaded = new XMReader().read(new XMWriter().write(module)).instruments[0].samples[0];
+
+    expect(reloaded.header).toEqual(processed.header);
+    expect([...reloaded.data]).toEqual([7680, 5120, 2560]);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  tuningForSampleRate,
+  rootNoteForTuning,
+  samplePlaybackRate,
+  frequencyTableOf,
+  createModule,
+} from '../src';
+
+describe('tuningForSampleRate', () => {
+  it('should tune a sample to play at its recorded rate on the root note', () => {
+    expect(tuningForSampleRate(8363)).toEqual({
+      relativeNoteNumber: 0,
+      fineTune: 0,
+      errorCents: 0,
+    });
+
+    const tuning = tuningForSampleRate(44100, { rootNote: 'A-4' });
+    expect(tuning).toMatchObject({ relativeNoteNumber: 20, fineTune: -24 });
+    expect(tuning.errorCents).toBeCloseTo(2.83, 2);
+    expect(samplePlaybackRate(tuning, 58)).toBeCloseTo(44100 * Math.pow(2, 2.83 / 1200), 0);
+
+    expect(tuningForSampleRate(44100, { rootNote: 58 })).toEqual(tuning);
+    expect(tuningForSampleRate(44100, { rootFrequency: 440 })).toEqual(tuning);
+  });
+
+  it('should account for a root frequency between notes', () => {
+    // Middle C recorded at 22.05 kHz; C-4 is 261.63 Hz
+    const tuning = tuningForSampleRate(22050, { rootFrequency: 261.6256 });
+    expect(tuning).toMatchObject({ relativeNoteNumber: 17, fineTune: -24 });
+    expect(tuning.errorCents).toBeCloseTo(2.83, 2);
+
+    // A quarter tone above C-4 is played by C-4 a quarter tone higher
+    const sharp = tuningForSampleRate(8363, { rootFrequency: 261.6256 * Math.pow(2, 0.5 / 12) });
+    expect(sharp).toMatchObject({ relativeNoteNumber: 0, fineTune: -64 });
+    expect(Math.abs(sharp.errorCents)).toBeLessThan(0.01);
+  });
+
+  it('should choose the pair closest to the whole Amiga period', () => {
+    const tuning = tuningForSampleRate(44100, { rootNote: 'A-4', table: 'amiga' });
+    expect(tuning).toMatchObject({ relativeNoteNumber: 20, fineTune: -32 });
+    expect(tuning.errorCents).toBeCloseTo(-1.82, 2);
+    expect(1200 * Math.log2(samplePlaybackRate(tuning, 58, 'amiga') / 44100)).toBeCloseTo(
+      tuning.errorCents,
+      6
+    );
+  });
+
+  it('should reject invalid input', () => {
+    expect(() => tuningForSampleRate(0)).toThrow('sampleRate must be a positive number (got 0)');
+    expect(() => tuningForSampleRate(44100, { rootNote: 'H-4' })).toThrow(
+      'rootNote must be a note from C-0 to B-7 (got H-4)'
+    );
+    expect(() => tuningForSampleRate(44100, { rootNote: 97 })).toThrow('rootNote must be a note');
+    expect(() => tuningForSampleRate(44100, { rootNote: 'A-4', rootFrequency: 440 })).toThrow(
+      'Give either rootNote or rootFrequency'
+    );
+  });
+});
+
+describe('rootNoteForTuning', () => {
+  it('should find the note that plays a sample at its recorded rate', () => {
+    const tuning = tuningForSampleRate(44100, { rootNote: 'A-4' });
+    expect(rootNoteForTuning(tuning, 44100)).toEqual({
+      note: 58,
+      noteName: 'A-4',
+      errorCents: tuning.errorCents,
+    });
+
+    const result = rootNoteForTuning({ relativeNoteNumber: 20, fineTune: 56 }, 44100);
+    expect(result).toMatchObject({ note: 57, noteName: 'G#4' });
+    expect(result.errorCents).toBeCloseTo(-34.67, 2);
+  });
+});
+
+describe('samplePlaybackRate', () => {
+  it('should use 1/16 semitone fine tune steps and whole Amiga periods', () => {
+    const untuned = { relativeNoteNumber: 0, fineTune: 0 };
+    expect(samplePlaybackRate(untuned, 49)).toBe(8363);
+    expect(samplePlaybackRate(untuned, 61)).toBe(16726);
+    expect(samplePlaybackRate({ relativeNoteNumber: 0, fineTune: 7 }, 49)).toBe(8363);
+    // C#4 is period 1616 on the Amiga table
+    expect(samplePlaybackRate(untuned, 50, 'amiga')).toBeCloseTo((8363 * 1712) / 1616, 6);
+  });
+
+  it('should read the table from the module flags', () => {
+    const module = createModule({});
+    expect(frequencyTableOf(module.header)).toBe('linear');
+    module.header.flags = 0;
+    expect(frequencyTableOf(module.header)).toBe('amiga');
+  });
+});
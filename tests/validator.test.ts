@@ -0,0 +1,240 @@
+import {
+  validateModule,
+  XMValidationError,
+  XMWriter,
+  createModule,
+  createPattern,
+  createInstrument,
+  createSample,
+  addSampleToInstrument,
+  EnvelopeFlags,
+  XMModule,
+} from '../src';
+
+/**
+ * Build a small module that passes validation
+ */
+function buildValidModule(): XMModule {
+  const module = createModule({ moduleName: 'Valid', numberOfChannels: 2 });
+  const pattern = createPattern(16, 2);
+  pattern.data[0][0] = { note: 49, instrument: 1, volume: 64, effectType: 0, effectParam: 0 };
+  module.patterns.push(pattern);
+  module.header.numberOfPatterns = 1;
+
+  const instrument = createInstrument('Inst');
+  addSampleToInstrument(
+    instrument,
+    createSample({ data: new Int8Array(32), loopStart: 0, loopLength: 32, loopType: 1 })
+  );
+  module.instruments.push(instrument);
+  module.header.numberOfInstruments = 1;
+  return module;
+}
+
+const paths = (module: XMModule, severity: 'error' | 'warning') =>
+  validateModule(module)
+    .filter((issue) => issue.severity === severity)
+    .map((issue) => issue.path);
+
+describe('validateModule', () => {
+  it('should report nothing for a valid module', () => {
+    expect(validateModule(buildValidModule())).toEqual([]);
+  });
+
+  it('should report header counts that disagree with the arrays', () => {
+    const module = buildValidModule();
+    module.header.numberOfPatterns = 2;
+    module.header.numberOfInstruments = 0;
+    expect(paths(module, 'error')).toEqual([
+      'header.numberOfPatterns',
+      'header.numberOfInstruments',
+    ]);
+  });
+
+  it('should report order table entries that point at missing patterns', () => {
+    const module = buildValidModule();
+    module.header.songLength = 3;
+    module.header.patternOrderTable[2] = 5;
+    // Entries past the song length are not played and not checked
+    module.header.patternOrderTable[10] = 9;
+    const issues = validateModule(module);
+    expect(issues).toEqual([
+      {
+        severity: 'error',
+        path: 'header.patternOrderTable[2]',
+        message: 'References pattern 5, but only 1 patterns exist',
+        fatal: true,
+      },
+    ]);
+  });
+
+  it('should report out of range cell values with their path', () => {
+    const module = buildValidModule();
+    module.patterns[0].data[12][1] = {
+      note: 98,
+      instrument: 0,
+      volume: 65,
+      effectType: 36,
+      effectParam: 0,
+    };
+    expect(paths(module, 'error')).toEqual([
+      'patterns[0].data[12][1].note',
+      'patterns[0].data[12][1].volume',
+      'patterns[0].data[12][1].effectType',
+    ]);
+  });
+
+  it('should report volume and volumeEffect set together', () => {
+    const module = buildValidModule();
+    module.patterns[0].data[1][0].volume = 10;
+    module.patterns[0].data[1][0].volumeEffect = 0x80;
+    const [issue] = validateModule(module);
+    expect(issue.path).toBe('patterns[0].data[1][0].volumeEffect');
+    expect(issue.message).toBe('Cannot set both volume and volumeEffect on the same note');
+  });
+
+  it('should warn about references to missing instruments', () => {
+    const module = buildValidModule();
+    module.patterns[0].data[2][1].instrument = 4;
+    expect(paths(module, 'warning')).toEqual(['patterns[0].data[2][1].instrument']);
+    expect(paths(module, 'error')).toEqual([]);
+  });
+
+  it('should report loops past the end of the sample data', () => {
+    const module = buildValidModule();
+    module.instruments[0].samples[0].header.loopStart = 16;
+    expect(validateModule(module)).toEqual([
+      {
+        severity: 'error',
+        path: 'instruments[0].samples[0].header.loopLength',
+        message: 'Loop ends at 48, past the end of the sample data (32)',
+        fatal: true,
+      },
+    ]);
+  });
+
+  it('should report invalid envelopes', () => {
+    const module = buildValidModule();
+    const envelope = module.instruments[0].extendedHeader!.volumeEnvelope;
+    envelope.points = [
+      { x: 0, y: 64 },
+      { x: 10, y: 70 },
+      { x: 10, y: 0 },
+    ];
+    envelope.numberOfPoints = 3;
+    envelope.sustainPoint = 3;
+    envelope.type = EnvelopeFlags.On | EnvelopeFlags.Sustain;
+    expect(paths(module, 'error')).toEqual([
+      'instruments[0].extendedHeader.volumeEnvelope.points[1].y',
+      'instruments[0].extendedHeader.volumeEnvelope.points[2].x',
+      'instruments[0].extendedHeader.volumeEnvelope.sustainPoint',
+    ]);
+  });
+
+  it('should report envelopes with more than 12 points', () => {
+    const module = buildValidModule();
+    const envelope = module.instruments[0].extendedHeader!.panningEnvelope;
+    envelope.points = Array.from({ length: 13 }, (_, i) => ({ x: i, y: 32 }));
+    envelope.numberOfPoints = 13;
+    expect(paths(module, 'error')).toEqual([
+      'instruments[0].extendedHeader.panningEnvelope.points',
+      'instruments[0].extendedHeader.panningEnvelope.numberOfPoints',
+    ]);
+  });
+
+  it('should report more than 16 samples per instrument', () => {
+    const module = buildValidModule();
+    // addSampleToInstrument refuses a 17th sample, so build the instrument by hand
+    const instrument = module.instruments[0];
+    for (let i = 0; i < 16; i++) {
+      instrument.samples.push(createSample({ data: new Int8Array(4) }));
+    }
+    instrument.header.numberOfSamples = instrument.samples.length;
+    expect(paths(module, 'error')).toEqual(['instruments[0].samples']);
+  });
+
+  it('should report a 16-bit flag that disagrees with the data type', () => {
+    const module = buildValidModule();
+    module.instruments[0].samples[0].header.type |= 0x10;
+    expect(paths(module, 'error')).toEqual(['instruments[0].samples[0].header.type']);
+  });
+});
+
+describe('XMWriter validation modes', () => {
+  it('should throw an XMValidationError listing every error in strict mode', () => {
+    const module = buildValidModule();
+    module.header.numberOfPatterns = 3;
+    module.patterns[0].data[0][1].volume = 100;
+
+    let thrown: unknown;
+    try {
+      new XMWriter().write(module, { validation: 'strict' });
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(XMValidationError);
+    const issues = (thrown as XMValidationError).issues;
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'header.numberOfPatterns',
+      'patterns[0].data[0][1].volume',
+    ]);
+    expect((thrown as Error).message).toContain('patterns[0].data[0][1].volume');
+  });
+
+  it('should not throw for warnings in strict mode', () => {
+    const module = buildValidModule();
+    module.patterns[0].data[2][1].instrument = 4;
+    expect(() => new XMWriter().write(module, { validation: 'strict' })).not.toThrow();
+  });
+
+  it('should write modules with non-fatal errors in lenient mode and report them', () => {
+    const module = buildValidModule();
+    module.header.defaultTempo = 40;
+    const onIssues = jest.fn();
+    const buffer = new XMWriter().write(module, { validation: 'lenient', onIssues });
+    expect(new DataView(buffer).getUint16(76, true)).toBe(40);
+    expect(onIssues).toHaveBeenCalledWith([
+      {
+        severity: 'error',
+        path: 'header.defaultTempo',
+        message: 'Must be an integer between 1 and 31 (got 40)',
+      },
+    ]);
+  });
+
+  it('should throw only the fatal errors in lenient mode', () => {
+    const module = buildValidModule();
+    module.header.defaultTempo = 40;
+    module.header.songLength = 2;
+    module.header.patternOrderTable[1] = 1;
+    module.patterns[0].data[0][1].volume = 100;
+
+    let thrown: unknown;
+    try {
+      new XMWriter().write(module, { validation: 'lenient' });
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(XMValidationError);
+    expect((thrown as XMValidationError).issues.map((issue) => issue.path)).toEqual([
+      'header.patternOrderTable[1]',
+      'patterns[0].data[0][1].volume',
+    ]);
+  });
+
+  it('should be lenient by default', () => {
+    const module = buildValidModule();
+    module.header.defaultTempo = 40;
+    expect(() => new XMWriter().write(module)).not.toThrow();
+    // A module without the pattern its header and order table promise is still rejected
+    expect(() => new XMWriter().write(createModule({}))).toThrow(XMValidationError);
+  });
+
+  it('should still enforce the hard limits in lenient mode', () => {
+    const module = buildValidModule();
+    module.header.numberOfChannels = 33;
+    expect(() => new XMWriter().write(module, { validation: 'lenient' })).toThrow(
+      'Number of channels cannot exceed 32'
+    );
+  });
+});
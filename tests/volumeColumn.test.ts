@@ -0,0 +1,102 @@
+import {
+  volumeColumn,
+  encodeVolumeColumn,
+  decodeVolumeColumn,
+  formatVolumeColumn,
+  createModule,
+  createPattern,
+  XMReader,
+  XMWriter,
+} from '../src';
+
+describe('volumeColumn constructors', () => {
+  it('should encode commands into volume or volumeEffect', () => {
+    expect(volumeColumn.setVolume(64)).toEqual({ volume: 64 });
+    expect(volumeColumn.volumeSlideDown(4)).toEqual({ volumeEffect: 0x64 });
+    expect(volumeColumn.volumeSlideUp(2)).toEqual({ volumeEffect: 0x72 });
+    expect(volumeColumn.fineVolumeSlideDown(3)).toEqual({ volumeEffect: 0x83 });
+    expect(volumeColumn.fineVolumeSlideUp(15)).toEqual({ volumeEffect: 0x9f });
+    expect(volumeColumn.vibratoSpeed(5)).toEqual({ volumeEffect: 0xa5 });
+    expect(volumeColumn.vibrato(5)).toEqual({ volumeEffect: 0xb5 });
+    expect(volumeColumn.setPanning(8)).toEqual({ volumeEffect: 0xc8 });
+    expect(volumeColumn.panningSlideLeft(1)).toEqual({ volumeEffect: 0xd1 });
+    expect(volumeColumn.panningSlideRight(1)).toEqual({ volumeEffect: 0xe1 });
+    expect(volumeColumn.tonePortamento(0)).toEqual({ volumeEffect: 0xf0 });
+  });
+
+  it('should replace the previous volume column when assigned', () => {
+    const cell = { note: 49, instrument: 1, volume: 32, effectType: 0, effectParam: 0 };
+    Object.assign(cell, volumeColumn.setPanning(4));
+    expect(cell.volume).toBeUndefined();
+    expect(decodeVolumeColumn(cell)).toEqual({ kind: 'setPanning', panning: 4 });
+
+    Object.assign(cell, volumeColumn.none());
+    expect(decodeVolumeColumn(cell)).toEqual({ kind: 'none' });
+  });
+
+  it('should reject out-of-range values', () => {
+    expect(() => volumeColumn.setVolume(65)).toThrow(
+      'setVolume: volume must be an integer between 0 and 64 (got 65)'
+    );
+    expect(() => volumeColumn.volumeSlideDown(16)).toThrow(
+      'volumeSlideDown: amount must be an integer between 0 and 15 (got 16)'
+    );
+    expect(() => volumeColumn.setPanning(-1)).toThrow('setPanning: panning must be');
+    expect(() => volumeColumn.vibrato(1.5)).toThrow('vibrato: depth must be');
+  });
+});
+
+describe('decodeVolumeColumn', () => {
+  it('should decode every written byte and encode it back', () => {
+    for (let volume = 0; volume <= 64; volume++) {
+      expect(encodeVolumeColumn(decodeVolumeColumn({ volume }))).toEqual({ volume });
+    }
+    for (let volumeEffect = 0x60; volumeEffect <= 0xff; volumeEffect++) {
+      expect(encodeVolumeColumn(decodeVolumeColumn({ volumeEffect }))).toEqual({ volumeEffect });
+    }
+  });
+
+  it('should reject cells that cannot be written', () => {
+    expect(() => decodeVolumeColumn({ volume: 10, volumeEffect: 0x60 })).toThrow(
+      'Cannot set both volume and volumeEffect on the same note'
+    );
+    expect(() => decodeVolumeColumn({ volumeEffect: 0x55 })).toThrow(
+      'volumeEffect 85 is not a volume column command (0x60-0xFF)'
+    );
+    expect(() => decodeVolumeColumn({ volume: 80 })).toThrow('setVolume: volume must be');
+  });
+
+  it('should decode volume columns read from an XM file', () => {
+    const module = createModule({ numberOfChannels: 2 });
+    const pattern = createPattern(1, 2);
+    Object.assign(pattern.data[0][0], volumeColumn.fineVolumeSlideUp(2));
+    Object.assign(pattern.data[0][1], volumeColumn.setVolume(0));
+    module.patterns.push(pattern);
+
+    const reloaded = new XMReader().read(new XMWriter().write(module));
+
+    expect(reloaded.patterns[0].data[0].map((cell) => decodeVolumeColumn(cell))).toEqual([
+      { kind: 'fineVolumeSlideUp', amount: 2 },
+      { kind: 'setVolume', volume: 0 },
+    ]);
+  });
+});
+
+describe('formatVolumeColumn', () => {
+  it('should print commands the way FT2 does', () => {
+    expect(formatVolumeColumn({ kind: 'setVolume', volume: 64 })).toBe('40');
+    expect(formatVolumeColumn({ kind: 'setVolume', volume: 0 })).toBe('00');
+    expect(formatVolumeColumn({ kind: 'none' })).toBe('..');
+    expect(
+      [0x64, 0x72, 0x83, 0x93, 0xa5, 0xb5, 0xc8, 0xd3, 0xe3, 0xf5, 0xff].map((volumeEffect) =>
+        formatVolumeColumn({ volumeEffect })
+      )
+    ).toEqual(['-4', '+2', '▼3', '▲3', 'S5', 'V5', 'P8', '◄3', '►3', 'M5', 'MF']);
+  });
+
+  it('should reject out-of-range commands', () => {
+    expect(() => formatVolumeColumn({ kind: 'tonePortamento', speed: 16 })).toThrow(
+      'tonePortamento: speed must be'
+    );
+  });
+});
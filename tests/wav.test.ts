@@ -0,0 +1,155 @@
+import { encodeWav, decodeWav } from '../src/wav';
+import { BinaryWriter } from '../src/binaryWriter';
+
+/**
+ * Build a WAV file with an arbitrary format chunk and optional extra chunks
+ */
+function buildWav(options: {
+  formatTag: number;
+  channels: number;
+  bitsPerSample: number;
+  samples: Uint8Array;
+  extensible?: boolean;
+  extraChunks?: { id: string; body: Uint8Array }[];
+}): Uint8Array {
+  const writer = new BinaryWriter();
+  writer.writeString('RIFF', 4);
+  writer.writeUint32(0);
+  writer.writeString('WAVE', 4);
+
+  const blockAlign = (options.channels * options.bitsPerSample) / 8;
+  writer.writeString('fmt ', 4);
+  writer.writeUint32(options.extensible ? 40 : 16);
+  writer.writeUint16(options.extensible ? 0xfffe : options.formatTag);
+  writer.writeUint16(options.channels);
+  writer.writeUint32(22050);
+  writer.writeUint32(22050 * blockAlign);
+  writer.writeUint16(blockAlign);
+  writer.writeUint16(options.bitsPerSample);
+  if (options.extensible) {
+    writer.writeUint16(22);
+    writer.writeUint16(options.bitsPerSample);
+    writer.writeUint32(0);
+    writer.writeUint16(options.formatTag);
+    writer.writeZeros(14);
+  }
+
+  for (const chunk of options.extraChunks ?? []) {
+    writer.writeString(chunk.id, 4);
+    writer.writeUint32(chunk.body.length);
+    writer.writeBytes(chunk.body);
+    if (chunk.body.length & 1) writer.writeUint8(0);
+  }
+
+  writer.writeString('data', 4);
+  writer.writeUint32(options.samples.length);
+  writer.writeBytes(options.samples);
+
+  writer.writeUint32At(4, writer.getPosition() - 8);
+  return writer.getUint8Array();
+}
+
+describe('decodeWav', () => {
+  it('should decode what encodeWav writes', () => {
+    const data = new Int16Array([0, 1000, -1000, 32767, -32768, 5]);
+    const wav = decodeWav(encodeWav(data, { sampleRate: 48000, channels: 2 }));
+    expect(wav.sampleRate).toBe(48000);
+    expect(wav.bitsPerSample).toBe(16);
+    expect(wav.format).toBe('pcm');
+    expect(wav.channels).toHaveLength(2);
+    expect([...wav.channels[0]].map((v) => v * 32768)).toEqual([0, -1000, -32768]);
+    expect([...wav.channels[1]].map((v) => v * 32768)).toEqual([1000, 32767, 5]);
+  });
+
+  it('should decode unsigned 8-bit data', () => {
+    const wav = decodeWav(encodeWav(new Int8Array([-128, 0, 127]), { sampleRate: 8000 }));
+    expect([...wav.channels[0]].map((v) => v * 128)).toEqual([-128, 0, 127]);
+  });
+
+  it('should decode 24-bit PCM', () => {
+    // 0x400000 (0.5) and 0xC00000 (-0.5)
+    const samples = new Uint8Array([0x00, 0x00, 0x40, 0x00, 0x00, 0xc0]);
+    const wav = decodeWav(buildWav({ formatTag: 1, channels: 1, bitsPerSample: 24, samples }));
+    expect([...wav.channels[0]]).toEqual([0.5, -0.5]);
+  });
+
+  it('should decode 32-bit integer PCM', () => {
+    const samples = new Uint8Array(8);
+    new DataView(samples.buffer).setInt32(0, 0x40000000, true);
+    new DataView(samples.buffer).setInt32(4, -0x80000000, true);
+    const wav = decodeWav(buildWav({ formatTag: 1, channels: 1, bitsPerSample: 32, samples }));
+    expect([...wav.channels[0]]).toEqual([0.5, -1]);
+  });
+
+  it('should decode 32-bit and 64-bit float, including WAVE_FORMAT_EXTENSIBLE', () => {
+    const float32 = new Float32Array([0.25, -0.75]);
+    expect([...decodeWav(encodeWav(float32, { sampleRate: 44100 })).channels[0]]).toEqual([
+      0.25, -0.75,
+    ]);
+
+    const float64 = new Float64Array([0.125, -1]);
+    const wav = decodeWav(
+      buildWav({
+        formatTag: 3,
+        channels: 1,
+        bitsPerSample: 64,
+        samples: new Uint8Array(float64.buffer),
+        extensible: true,
+      })
+    );
+    expect(wav.format).toBe('float');
+    expect([...wav.channels[0]]).toEqual([0.125, -1]);
+  });
+
+  it('should read loops and root key from the smpl chunk', () => {
+    const smpl = new BinaryWriter();
+    smpl.writeZeros(12);
+    smpl.writeUint32(69); // A4
+    smpl.writeUint32(0x80000000); // 50 cents
+    smpl.writeZeros(8);
+    smpl.writeUint32(1);
+    smpl.writeUint32(0);
+    smpl.writeUint32(0); // Cue point ID
+    smpl.writeUint32(1); // Alternating
+    smpl.writeUint32(2);
+    smpl.writeUint32(5);
+    smpl.writeZeros(8);
+
+    const wav = decodeWav(
+      buildWav({
+        formatTag: 1,
+        channels: 1,
+        bitsPerSample: 8,
+        samples: new Uint8Array(8).fill(128),
+        extraChunks: [{ id: 'smpl', body: smpl.getUint8Array() }],
+      })
+    );
+    expect(wav.sampler).toEqual({
+      rootKey: 69,
+      pitchFraction: 0.5,
+      loops: [{ type: 'pingpong', start: 2, end: 5 }],
+    });
+  });
+
+  it('should skip unknown chunks and padding bytes', () => {
+    const wav = decodeWav(
+      buildWav({
+        formatTag: 1,
+        channels: 1,
+        bitsPerSample: 8,
+        samples: new Uint8Array([128, 129]),
+        extraChunks: [{ id: 'LIST', body: new Uint8Array(3) }],
+      })
+    );
+    expect(wav.channels[0]).toHaveLength(2);
+  });
+
+  it('should reject invalid files', () => {
+    expect(() => decodeWav(new Uint8Array(16))).toThrow('Not a WAV file');
+    expect(() =>
+      decodeWav(
+        buildWav({ formatTag: 2, channels: 1, bitsPerSample: 4, samples: new Uint8Array(2) })
+      )
+    ).toThrow('Unsupported WAV format');
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  sampleToWav,
+  exportSamples,
+  saveSamplesToDirectory,
+  decodeWav,
+  createSampleFromWav,
+  createModule,
+  createInstrument,
+  createSample,
+  addSampleToInstrument,
+  LoopType,
+} from '../src';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('sampleToWav', () => {
+  it('should write 16-bit samples unchanged at the C-4 rate', () => {
+    const data = new Int16Array([0, 1000, -1000, 32767, -32768]);
+    const wav = decodeWav(sampleToWav(createSample({ data })));
+
+    expect(wav.sampleRate).toBe(8363);
+    expect(wav.bitsPerSample).toBe(16);
+    expect([...wav.channels[0]].map((v) => Math.round(v * 32768))).toEqual([...data]);
+    expect(wav.sampler?.rootKey).toBe(60);
+    expect(wav.sampler?.loops).toEqual([]);
+  });
+
+  it('should write 8-bit samples as 8-bit PCM', () => {
+    const data = new Int8Array([0, 50, -50, 127, -128]);
+    const wav = decodeWav(sampleToWav(createSample({ data })));
+
+    expect(wav.bitsPerSample).toBe(8);
+    expect([...wav.channels[0]].map((v) => Math.round(v * 128))).toEqual([...data]);
+  });
+
+  it('should store the loop in the smpl chunk', () => {
+    const sample = createSample({
+      data: new Int16Array(100),
+      loopStart: 20,
+      loopLength: 50,
+      loopType: LoopType.PingPong,
+    });
+    const wav = decodeWav(sampleToWav(sample));
+
+    expect(wav.sampler?.loops).toEqual([{ type: 'pingpong', start: 20, end: 69 }]);
+  });
+
+  it('should encode the tuning as root key when the sample rate is fixed', () => {
+    const sample = createSample({
+      data: new Int8Array(10),
+      relativeNoteNumber: -12,
+      fineTune: 64,
+    });
+    const wav = decodeWav(sampleToWav(sample, { sampleRate: 8363 }));
+
+    expect(wav.sampleRate).toBe(8363);
+    expect(wav.sampler?.rootKey).toBe(71);
+    expect(wav.sampler?.pitchFraction).toBeCloseTo(0.5, 6);
+  });
+
+  it('should round trip through createSampleFromWav', () => {
+    const data = new Int16Array(64).map((_, i) => Math.round(Math.sin(i / 4) * 20000));
+    const original = createSample({
+      data,
+      loopStart: 8,
+      loopLength: 32,
+      loopType: LoopType.Forward,
+      relativeNoteNumber: 19,
+      fineTune: -37,
+    });
+
+    for (const sampleRate of [undefined, 22050, 44100]) {
+      const sample = createSampleFromWav(sampleToWav(original, { sampleRate }));
+      expect(sample.header.relativeNoteNumber).toBe(19);
+      expect(sample.header.fineTune).toBe(-37);
+      expect(sample.header.loopStart).toBe(8);
+      expect(sample.header.loopLength).toBe(32);
+      expect(sample.header.type).toBe(original.header.type);
+      expect([...sample.data]).toEqual([...data]);
+    }
+  });
+});
+
+describe('exportSamples', () => {
+  function buildModule() {
+    const module = createModule({ moduleName: 'Export Test' });
+    const drums = createInstrument('Drums');
+    addSampleToInstrument(drums, createSample({ name: 'Kick/Hard', data: new Int8Array(16) }));
+    addSampleToInstrument(
+      drums,
+      createSample({ name: 'Snare', data: new Int16Array(8), volume: 40, panning: 200 })
+    );
+    drums.extendedHeader!.sampleNumberForNotes[50] = 1;
+    module.instruments.push(drums);
+    module.instruments.push(createInstrument('Empty'));
+    module.header.numberOfInstruments = 2;
+    return module;
+  }
+
+  it('should write every sample and describe it in the manifest', () => {
+    const { files, manifest } = exportSamples(buildModule());
+
+    expect([...files.keys()]).toEqual(['001-00-Kick_Hard.wav', '001-01-Snare.wav']);
+    expect(manifest.moduleName).toBe('Export Test');
+    expect(manifest.instruments).toHaveLength(2);
+
+    const drums = manifest.instruments[0];
+    expect(drums.number).toBe(1);
+    expect(drums.name).toBe('Drums');
+    expect(drums.sampleNumberForNotes[50]).toBe(1);
+    expect(drums.samples[1]).toMatchObject({
+      file: '001-01-Snare.wav',
+      name: 'Snare',
+      volume: 40,
+      panning: 200,
+      bitDepth: 16,
+      loop: 'none',
+    });
+    expect(manifest.instruments[1].samples).toEqual([]);
+    expect(manifest.instruments[1].sampleNumberForNotes).toHaveLength(96);
+  });
+
+  it('should write files and manifest.json to a directory', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'xm-export-'));
+    try {
+      const manifest = await saveSamplesToDirectory(buildModule(), directory);
+      const written = JSON.parse(await fs.readFile(path.join(directory, 'manifest.json'), 'utf8'));
+
+      expect(written).toEqual(manifest);
+      expect((await fs.readdir(directory)).sort()).toEqual([
+        '001-00-Kick_Hard.wav',
+        '001-01-Snare.wav',
+        'manifest.json',
+      ]);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,111 @@
+import { createSampleFromWav, encodeWav, BinaryWriter, LoopType, XM_CONSTANTS } from '../src';
+
+/**
+ * Append a smpl chunk with one loop to a WAV file
+ */
+function withSamplerChunk(
+  wav: Uint8Array,
+  rootKey: number,
+  loop?: { type: number; start: number; end: number },
+  pitchFraction: number = 0
+): Uint8Array {
+  const writer = new BinaryWriter();
+  writer.writeBytes(wav);
+  writer.writeString('smpl', 4);
+  writer.writeUint32(36 + (loop ? 24 : 0));
+  writer.writeZeros(12);
+  writer.writeUint32(rootKey);
+  writer.writeUint32(pitchFraction);
+  writer.writeZeros(8);
+  writer.writeUint32(loop ? 1 : 0);
+  writer.writeUint32(0);
+  if (loop) {
+    writer.writeUint32(0);
+    writer.writeUint32(loop.type);
+    writer.writeUint32(loop.start);
+    writer.writeUint32(loop.end);
+    writer.writeZeros(8);
+  }
+  writer.writeUint32At(4, writer.getPosition() - 8);
+  return writer.getUint8Array();
+}
+
+describe('createSampleFromWav', () => {
+  it('should import 16-bit mono data unchanged', () => {
+    const data = new Int16Array([0, 100, -100, 32767, -32768]);
+    const sample = createSampleFromWav(encodeWav(data, { sampleRate: 8363 }), { name: 'Kick' });
+
+    expect(sample.data).toBeInstanceOf(Int16Array);
+    expect([...sample.data]).toEqual([...data]);
+    expect(sample.header.name).toBe('Kick');
+    expect(sample.header.length).toBe(10);
+    expect(sample.header.type & 0x10).toBe(0x10);
+    expect(sample.header.type & 0x03).toBe(LoopType.None);
+    expect(sample.header.relativeNoteNumber).toBe(0);
+    expect(sample.header.fineTune).toBe(0);
+  });
+
+  it('should keep 8-bit files 8-bit by default', () => {
+    const data = new Int8Array([0, 64, -64, 127, -128]);
+    const sample = createSampleFromWav(encodeWav(data, { sampleRate: 8363 }));
+    expect(sample.data).toBeInstanceOf(Int8Array);
+    expect([...sample.data]).toEqual([...data]);
+    expect(sample.header.type & 0x10).toBe(0);
+  });
+
+  it('should convert float data to the requested bit depth', () => {
+    const data = new Float32Array([0.5, -0.5, 1.5]);
+    const sample = createSampleFromWav(encodeWav(data, { sampleRate: 8363 }), { bitDepth: 8 });
+    expect([...sample.data]).toEqual([64, -64, 127]);
+  });
+
+  it('should downmix or pick a channel', () => {
+    const stereo = new Int16Array([1000, 3000, -2000, 2000]);
+    const wav = encodeWav(stereo, { sampleRate: 8363, channels: 2 });
+    expect([...createSampleFromWav(wav).data]).toEqual([2000, 0]);
+    expect([...createSampleFromWav(wav, { channel: 1 }).data]).toEqual([3000, 2000]);
+    expect(() => createSampleFromWav(wav, { channel: 2 })).toThrow('Channel 2 does not exist');
+  });
+
+  it('should tune the sample so it plays at its recorded pitch on C-4', () => {
+    const wav = encodeWav(new Int16Array(16), { sampleRate: 44100 });
+    const sample = createSampleFromWav(wav);
+    // 12 * log2(44100 / 8363) = 28.7842 semitones
+    expect(sample.header.relativeNoteNumber).toBe(29);
+    expect(sample.header.fineTune).toBe(-28);
+  });
+
+  it('should use the smpl root key and pitch fraction', () => {
+    const wav = withSamplerChunk(
+      encodeWav(new Int16Array(16), { sampleRate: XM_CONSTANTS.C4_SAMPLE_RATE }),
+      72, // C5: one octave above XM C-4
+      undefined,
+      0x40000000 // 25 cents sharp
+    );
+    const sample = createSampleFromWav(wav);
+    expect(sample.header.relativeNoteNumber).toBe(-12);
+    expect(sample.header.fineTune).toBe(-32);
+
+    // An explicit root note overrides the smpl chunk
+    const overridden = createSampleFromWav(wav, { rootNote: 49 + 2 });
+    expect(overridden.header.relativeNoteNumber).toBe(-2);
+    expect(overridden.header.fineTune).toBe(0);
+  });
+
+  it('should map smpl loops to loop points', () => {
+    const base = encodeWav(new Int16Array(100), { sampleRate: 8363 });
+    const forward = createSampleFromWav(
+      withSamplerChunk(base, 60, { type: 0, start: 10, end: 89 })
+    );
+    expect(forward.header.loopStart).toBe(10);
+    expect(forward.header.loopLength).toBe(80);
+    expect(forward.header.type & 0x03).toBe(LoopType.Forward);
+
+    const pingPong = createSampleFromWav(
+      withSamplerChunk(base, 60, { type: 1, start: 0, end: 500 })
+    );
+    expect(pingPong.header.type & 0x03).toBe(LoopType.PingPong);
+    // Loops running past the data are clamped
+    expect(pingPong.header.loopLength).toBe(100);
+  });
+});
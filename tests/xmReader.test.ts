@@ -0,0 +1,207 @@
+import {
+  XMReader,
+  XMWriter,
+  createModule,
+  createPattern,
+  createInstrument,
+  createSample,
+  addSampleToInstrument,
+  noteNameToValue,
+  EnvelopeFlags,
+  XMModule,
+} from '../src';
+
+/**
+ * Build a module that exercises every part of the format
+ */
+function buildModule(): XMModule {
+  const module = createModule({ moduleName: 'Round Trip', numberOfChannels: 4 });
+
+  const pattern1 = createPattern(16, 4);
+  // All five fields set: written unpacked
+  Object.assign(pattern1.data[0][0], {
+    note: noteNameToValue('C-4'),
+    instrument: 1,
+    volume: 40,
+    effectType: 0xa,
+    effectParam: 0x0f,
+  });
+  // Note off only
+  pattern1.data[4][1].note = 97;
+  // Raw volume column effect without note
+  pattern1.data[5][2].volumeEffect = 0xc8;
+  // Effect type without parameter, and parameter without type
+  pattern1.data[6][3].effectType = 0xe;
+  pattern1.data[7][3].effectParam = 0x37;
+  // Volume 0 (silence) must survive
+  pattern1.data[8][0].volume = 0;
+
+  const pattern2 = createPattern(64, 4);
+  pattern2.data[63][3].note = noteNameToValue('B-7');
+  pattern2.data[63][3].instrument = 2;
+
+  module.patterns.push(pattern1, pattern2);
+  module.header.numberOfPatterns = 2;
+  module.header.songLength = 3;
+  module.header.restartPosition = 1;
+  module.header.patternOrderTable[0] = 0;
+  module.header.patternOrderTable[1] = 1;
+  module.header.patternOrderTable[2] = 0;
+
+  const lead = createInstrument('Lead');
+  const data8 = new Int8Array(300);
+  for (let i = 0; i < data8.length; i++) {
+    data8[i] = Math.round(Math.sin(i / 10) * 127);
+  }
+  addSampleToInstrument(
+    lead,
+    createSample({ name: 'Sine 8', data: data8, loopStart: 10, loopLength: 200, loopType: 1, fineTune: -12 })
+  );
+  const data16 = new Int16Array(500);
+  for (let i = 0; i < data16.length; i++) {
+    data16[i] = (i * 997) % 65536 - 32768;
+  }
+  addSampleToInstrument(
+    lead,
+    createSample({
+      name: 'Noise 16',
+      data: data16,
+      loopStart: 100,
+      loopLength: 300,
+      loopType: 2,
+      panning: 32,
+      relativeNoteNumber: -7,
+    })
+  );
+  const ext = lead.extendedHeader!;
+  ext.sampleNumberForNotes.fill(1, 48);
+  ext.volumeEnvelope.points = [
+    { x: 0, y: 64 },
+    { x: 10, y: 32 },
+    { x: 40, y: 0 },
+  ];
+  ext.volumeEnvelope.numberOfPoints = 3;
+  ext.volumeEnvelope.sustainPoint = 1;
+  ext.volumeEnvelope.type = EnvelopeFlags.On | EnvelopeFlags.Sustain;
+  ext.vibratoType = 1;
+  ext.vibratoSweep = 10;
+  ext.vibratoDepth = 4;
+  ext.vibratoRate = 20;
+  ext.volumeFadeOut = 512;
+
+  const empty = createInstrument('Empty');
+
+  module.instruments.push(lead, empty);
+  module.header.numberOfInstruments = 2;
+
+  return module;
+}
+
+describe('XMReader', () => {
+  it('should round trip writer output byte for byte', () => {
+    const writer = new XMWriter();
+    const original = new Uint8Array(writer.write(buildModule()));
+
+    const module = new XMReader().read(original);
+    const rewritten = new Uint8Array(new XMWriter().write(module));
+
+    expect(rewritten.length).toBe(original.length);
+    expect(Buffer.compare(Buffer.from(rewritten), Buffer.from(original))).toBe(0);
+  });
+
+  it('should parse header fields', () => {
+    const buffer = new XMWriter().write(buildModule());
+    const { header } = new XMReader().read(buffer);
+
+    expect(header.moduleName).toBe('Round Trip');
+    expect(header.trackerName).toBe('xm_save TypeScript ');
+    expect(header.version).toBe(0x0104);
+    expect(header.songLength).toBe(3);
+    expect(header.restartPosition).toBe(1);
+    expect(header.numberOfChannels).toBe(4);
+    expect(header.numberOfPatterns).toBe(2);
+    expect(header.numberOfInstruments).toBe(2);
+    expect(header.flags).toBe(1);
+    expect(header.patternOrderTable.slice(0, 3)).toEqual([0, 1, 0]);
+    expect(header.patternOrderTable).toHaveLength(256);
+  });
+
+  it('should unpack pattern cells', () => {
+    const original = buildModule();
+    const module = new XMReader().read(new XMWriter().write(original));
+
+    expect(module.patterns).toHaveLength(2);
+    expect(module.patterns[0].header.numberOfRows).toBe(16);
+    expect(module.patterns[0].data).toEqual(original.patterns[0].data);
+    expect(module.patterns[1].data).toEqual(original.patterns[1].data);
+    expect(module.patterns[0].data[5][2].volume).toBeUndefined();
+    expect(module.patterns[0].data[5][2].volumeEffect).toBe(0xc8);
+    expect(module.patterns[0].data[8][0].volume).toBe(0);
+  });
+
+  it('should decode instruments, envelopes and sample data', () => {
+    const original = buildModule();
+    const module = new XMReader().read(new XMWriter().write(original));
+
+    const lead = module.instruments[0];
+    expect(lead.header.name).toBe('Lead');
+    expect(lead.header.numberOfSamples).toBe(2);
+    expect(lead.extendedHeader).toEqual(original.instruments[0].extendedHeader);
+
+    const [sample8, sample16] = lead.samples;
+    expect(sample8.data).toBeInstanceOf(Int8Array);
+    expect(sample8.data).toEqual(original.instruments[0].samples[0].data);
+    expect(sample8.header).toEqual(original.instruments[0].samples[0].header);
+
+    expect(sample16.data).toBeInstanceOf(Int16Array);
+    expect(sample16.data).toEqual(original.instruments[0].samples[1].data);
+    // Loop points are converted back from bytes to frames
+    expect(sample16.header.loopStart).toBe(100);
+    expect(sample16.header.loopLength).toBe(300);
+    expect(sample16.header.length).toBe(1000);
+    expect(sample16.header.relativeNoteNumber).toBe(-7);
+
+    const empty = module.instruments[1];
+    expect(empty.header.name).toBe('Empty');
+    expect(empty.samples).toHaveLength(0);
+    expect(empty.extendedHeader).toBeUndefined();
+  });
+
+  it('should honour non-standard header sizes', () => {
+    const original = new Uint8Array(new XMWriter().write(buildModule()));
+    const view = new DataView(original.buffer);
+
+    // Grow the module header by 4 bytes and the first pattern header by 2 bytes
+    const patternStart = 60 + 276;
+    const patched = new Uint8Array(original.length + 6);
+    patched.set(original.subarray(0, patternStart), 0);
+    patched.set(original.subarray(patternStart, patternStart + 9), patternStart + 4);
+    patched.set(original.subarray(patternStart + 9), patternStart + 4 + 11);
+    const patchedView = new DataView(patched.buffer);
+    patchedView.setUint32(60, view.getUint32(60, true) + 4, true);
+    patchedView.setUint32(patternStart + 4, 11, true);
+
+    const module = new XMReader().read(patched);
+    expect(module.patterns[0].header.headerLength).toBe(11);
+    expect(module.patterns[0].data).toEqual(buildModule().patterns[0].data);
+    expect(module.instruments[0].samples[1].data).toEqual(buildModule().instruments[0].samples[1].data);
+  });
+
+  it('should reject data without the XM signature', () => {
+    expect(() => new XMReader().read(new Uint8Array(400))).toThrow('Not an XM file');
+  });
+
+  it('should fill empty patterns when the packed size is zero', () => {
+    const module = createModule({ numberOfChannels: 2 });
+    module.patterns.push(createPattern(8, 2));
+    const buffer = new Uint8Array(new XMWriter().write(module));
+
+    // Replace the packed data with a zero-length pattern
+    const truncated = buffer.slice(0, 60 + 276 + 9);
+    new DataView(truncated.buffer).setUint16(60 + 276 + 7, 0, true);
+
+    const read = new XMReader().read(truncated);
+    expect(read.patterns[0].header.numberOfRows).toBe(8);
+    expect(read.patterns[0].data).toEqual(createPattern(8, 2).data);
+  });
+});
@@ -8,9 +8,19 @@ import {
   noteNameToValue,
   noteValueToName,
   createEmptyEnvelope,
+  saveToFile,
+  computeModuleSize,
   XM_CONSTANTS,
   XMModule,
+  XMValidationError,
+  LoopType,
+  BinaryWriter,
 } from '../src';
+import { Writable } from 'stream';
+import { WritableStream } from 'stream/web';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 describe('XMWriter', () => {
   describe('createModule', () => {
@@ -248,6 +258,304 @@ describe('XMWriter', () => {
   });
 });
 
+/**
+ * A module with a pattern and an instrument holding a 16-bit and an 8-bit sample
+ */
+function streamableModule(): XMModule {
+  const module = createModule({ moduleName: 'Stream' });
+  const pattern = createPattern(64, 4);
+  pattern.data[0][0] = { note: 49, instrument: 1, volume: 40, effectType: 0, effectParam: 0 };
+  pattern.data[5][2] = { note: 0, instrument: 0, effectType: 0x0f, effectParam: 3 };
+  module.patterns.push(pattern);
+
+  const instrument = createInstrument('Strings');
+  const wave = new Int16Array(5000);
+  for (let i = 0; i < wave.length; i++) {
+    wave[i] = Math.round(20000 * Math.sin(i / 7));
+  }
+  addSampleToInstrument(
+    instrument,
+    createSample({ data: wave, loopStart: 1000, loopLength: 3000, loopType: LoopType.Forward })
+  );
+  addSampleToInstrument(
+    instrument,
+    createSample({ data: Int8Array.from([0, 50, -50, 127, -128]) })
+  );
+  module.instruments.push(instrument);
+  module.header.numberOfInstruments = 1;
+  return module;
+}
+
+/**
+ * Join chunks into one buffer
+ */
+function concat(chunks: Uint8Array[]): Uint8Array {
+  return Uint8Array.from(chunks.flatMap((chunk) => [...chunk]));
+}
+
+describe('XMWriter.stream', () => {
+  it('should produce the same bytes as write, in bounded chunks', async () => {
+    const module = streamableModule();
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of new XMWriter().stream(module, { chunkSize: 1024 })) {
+      chunks.push(chunk);
+    }
+
+    expect(concat(chunks)).toEqual(new Uint8Array(new XMWriter().write(module)));
+    expect(Math.max(...chunks.slice(3).map((chunk) => chunk.length))).toBeLessThanOrEqual(1024);
+    // Header, pattern and instrument header come first
+    expect(chunks[0]).toHaveLength(60 + XM_CONSTANTS.HEADER_SIZE);
+  });
+
+  it('should read samples with a source only when they are reached', async () => {
+    const module = streamableModule();
+    const expected = new Uint8Array(new XMWriter().write(module));
+    const wave = module.instruments[0].samples[0].data;
+    module.instruments[0].samples[0].data = new Int16Array(0);
+
+    const events: string[] = [];
+    const chunks: Uint8Array[] = [];
+    const stream = new XMWriter().stream(module, {
+      sampleSource: (sample, instrumentIndex, sampleIndex) =>
+        sampleIndex === 0
+          ? {
+              frames: wave.length,
+              read: async function* () {
+                events.push('read');
+                for (let start = 0; start < wave.length; start += 777) {
+                  yield Array.from(wave.subarray(start, start + 777));
+                }
+              },
+            }
+          : undefined,
+    });
+    for await (const chunk of stream) {
+      events.push('chunk');
+      chunks.push(chunk);
+    }
+
+    expect(concat(chunks)).toEqual(expected);
+    // Header, pattern and instrument header are emitted before the source is opened
+    expect(events.slice(0, 4)).toEqual(['chunk', 'chunk', 'chunk', 'read']);
+  });
+
+  it('should validate before the first chunk and check source frame counts', async () => {
+    const module = streamableModule();
+    module.instruments[0].samples[0].header.loopLength = 10000;
+    expect(() => new XMWriter().stream(module, { validation: 'strict' })).toThrow(
+      XMValidationError
+    );
+
+    // The loop fits the frames the source declares
+    const source = { frames: 12000, read: () => [new Int16Array(11999)] };
+    const stream = new XMWriter().stream(module, { sampleSource: () => source });
+    await expect(
+      (async () => {
+        for await (const chunk of stream) {
+          expect(chunk).toBeInstanceOf(Uint8Array);
+        }
+      })()
+    ).rejects.toThrow(
+      'Sample source for instruments[0].samples[0] yielded 11999 frames but declared 12000'
+    );
+  });
+});
+
+describe('XMWriter.writeToStream', () => {
+  it('should write to a Node.js Writable, waiting for it to drain', async () => {
+    const module = streamableModule();
+    const received: Uint8Array[] = [];
+    const target = new Writable({
+      highWaterMark: 256,
+      write(chunk, _encoding, callback) {
+        received.push(new Uint8Array(chunk));
+        setImmediate(callback);
+      },
+    });
+
+    await new XMWriter().writeToStream(module, target, { chunkSize: 512 });
+
+    expect(target.writableFinished).toBe(true);
+    expect(concat(received)).toEqual(new Uint8Array(new XMWriter().write(module)));
+  });
+
+  it('should reject when the Node.js Writable fails', async () => {
+    const target = new Writable({
+      write(_chunk, _encoding, callback) {
+        callback(new Error('disk full'));
+      },
+    });
+    await expect(new XMWriter().writeToStream(streamableModule(), target)).rejects.toThrow(
+      'disk full'
+    );
+  });
+
+  it('should destroy the Node.js Writable when the module fails mid-stream', async () => {
+    const target = new Writable({
+      write(_chunk, _encoding, callback) {
+        callback();
+      },
+    });
+    const sampleSource = () => ({ frames: 5000, read: () => [new Int16Array(10)] });
+    await expect(
+      new XMWriter().writeToStream(streamableModule(), target, { sampleSource })
+    ).rejects.toThrow('yielded 10 frames but declared 5000');
+    expect(target.destroyed).toBe(true);
+    expect(target.writableFinished).toBe(false);
+  });
+
+  it('should write to a WHATWG WritableStream', async () => {
+    const module = streamableModule();
+    const received: Uint8Array[] = [];
+    let closed = false;
+    const target = new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        received.push(chunk);
+      },
+      close: () => {
+        closed = true;
+      },
+    });
+
+    await new XMWriter().writeToStream(module, target);
+
+    expect(closed).toBe(true);
+    expect(concat(received)).toEqual(new Uint8Array(new XMWriter().write(module)));
+  });
+
+  it('should abort the WHATWG WritableStream when the module fails mid-stream', async () => {
+    let reason: unknown;
+    const target = new WritableStream<Uint8Array>({
+      abort: (error) => {
+        reason = error;
+      },
+    });
+    const sampleSource = () => ({ frames: 5000, read: () => [new Int16Array(10)] });
+    await expect(
+      new XMWriter().writeToStream(streamableModule(), target, { sampleSource })
+    ).rejects.toThrow('yielded 10 frames but declared 5000');
+    expect((reason as Error).message).toContain('yielded 10 frames but declared 5000');
+  });
+});
+
+describe('saveToFile', () => {
+  it('should stream the module to a file', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'xm-save-'));
+    try {
+      const module = streamableModule();
+      const filename = path.join(directory, 'song.xm');
+      await saveToFile(module, filename, { chunkSize: 1000 });
+      expect(new Uint8Array(await fs.readFile(filename))).toEqual(
+        new Uint8Array(new XMWriter().write(module))
+      );
+
+      module.patterns = [];
+      await expect(
+        saveToFile(module, path.join(directory, 'bad.xm'), { validation: 'strict' })
+      ).rejects.toThrow(XMValidationError);
+      expect(await fs.readdir(directory)).toEqual(['song.xm']);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep the previous file when writing fails part way', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'xm-save-'));
+    try {
+      const filename = path.join(directory, 'song.xm');
+      await fs.writeFile(filename, 'previous');
+      const sampleSource = () => ({ frames: 5000, read: () => [new Int16Array(10)] });
+      await expect(saveToFile(streamableModule(), filename, { sampleSource })).rejects.toThrow(
+        'yielded 10 frames but declared 5000'
+      );
+      expect(await fs.readdir(directory)).toEqual(['song.xm']);
+      expect(await fs.readFile(filename, 'utf8')).toBe('previous');
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('computeModuleSize', () => {
+  it('should match the size of the written file', () => {
+    const module = streamableModule();
+    const empty = createInstrument('Empty');
+    module.instruments.push(empty);
+    module.header.numberOfInstruments = 2;
+    module.patterns.push(createPattern(256, 4));
+    module.header.numberOfPatterns = 2;
+
+    const buffer = new XMWriter().write(module);
+    expect(computeModuleSize(module)).toBe(buffer.byteLength);
+    // A module without patterns or instruments is just the header
+    expect(computeModuleSize(createModule({}))).toBe(60 + XM_CONSTANTS.HEADER_SIZE);
+  });
+});
+
+/**
+ * Build a module of 256-row, 32-channel patterns with a mix of packed and full cells
+ */
+function largeModule(patterns: number): XMModule {
+  const module = createModule({ numberOfChannels: 32 });
+  for (let index = 0; index < patterns; index++) {
+    const pattern = createPattern(256, 32);
+    pattern.data.forEach((row, rowIndex) =>
+      row.forEach((cell, channel) => {
+        if ((rowIndex + channel + index) % 3 === 0) {
+          cell.note = 1 + ((rowIndex * 7 + channel) % 96);
+          cell.instrument = 1;
+        }
+        if ((rowIndex + channel) % 5 === 0) {
+          cell.volume = 32;
+        }
+        if ((rowIndex * channel) % 7 === 1) {
+          cell.effectType = 0x0a;
+          cell.effectParam = 0x12;
+        }
+      })
+    );
+    module.patterns.push(pattern);
+  }
+  module.header.numberOfPatterns = module.patterns.length;
+  return module;
+}
+
+describe('XMWriter.write allocation', () => {
+  it('should pack every cell into one buffer of the exact size', () => {
+    const module = largeModule(8);
+
+    // A buffer that had to grow would be larger than the file and trimmed with a copy
+    const trim = jest.spyOn(BinaryWriter.prototype, 'getBuffer');
+    try {
+      const buffer = new XMWriter().write(module);
+      expect(buffer.byteLength).toBe(computeModuleSize(module));
+      expect(trim).not.toHaveBeenCalled();
+    } finally {
+      trim.mockRestore();
+    }
+  });
+});
+
+// Wall-clock timings are too noisy for shared CI runners
+(process.env.CI ? describe.skip : describe)('XMWriter.write benchmark', () => {
+  it('should pack a million cells well within budget', () => {
+    // 128 patterns of 256 rows x 32 channels
+    const module = largeModule(128);
+    const writer = new XMWriter();
+    const timings: number[] = [];
+    let buffer = new ArrayBuffer(0);
+    for (let run = 0; run < 3; run++) {
+      const start = performance.now();
+      buffer = writer.write(module);
+      timings.push(performance.now() - start);
+    }
+
+    expect(buffer.byteLength).toBe(computeModuleSize(module));
+    // Takes about 0.1 s in Node and 1-2 s under Jest, most of it validating the cells
+    expect(timings.sort((a, b) => a - b)[1]).toBeLessThan(4000);
+  });
+});
+
 describe('XM File Format', () => {
   it('should generate valid XM header structure', () => {
     const module = createModule({